@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { bleAdvertisement, createPlatform, idle } from './test/harness.js'
+import { sleep } from './utils.js'
+
+const meter = { model: 'T', modelName: 'WoSensorTH', celsius: 21.5, humidity: 40, battery: 90 } as const
+
+describe('bleAdvertisementBus', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('passes advertisements to the subscribers of the address and model', async () => {
+    const { platform, switchBotBLE } = createPlatform()
+    const meterHandler = vi.fn()
+    const otherModelHandler = vi.fn()
+    const anyModelHandler = vi.fn()
+    const ad = bleAdvertisement('C1A2B3C4D5E6', meter)
+    platform.bleAdvertisementBus.subscribe(ad.address, 'T', meterHandler)
+    platform.bleAdvertisementBus.subscribe(ad.address, 'H', otherModelHandler)
+    platform.bleAdvertisementBus.subscribe(ad.address, undefined, anyModelHandler)
+
+    await switchBotBLE.advertise(ad)
+    await switchBotBLE.advertise(bleAdvertisement('D1A2B3C4D5E6', meter))
+
+    expect(meterHandler).toHaveBeenCalledOnce()
+    expect(meterHandler).toHaveBeenCalledWith(meter, ad)
+    expect(anyModelHandler).toHaveBeenCalledOnce()
+    expect(otherModelHandler).not.toHaveBeenCalled()
+  })
+
+  it('passes advertisements to the platform BLE handler of the address', async () => {
+    const { platform, switchBotBLE } = createPlatform()
+    const handler = vi.fn()
+    const ad = bleAdvertisement('C1A2B3C4D5E6', meter)
+    platform.bleEventHandler[ad.address] = handler
+    await platform.bleAdvertisementBus.start()
+
+    await switchBotBLE.advertise(ad)
+
+    expect(handler).toHaveBeenCalledWith(meter)
+  })
+
+  it('starts one scan for every subscriber, and stops passing advertisements once unsubscribed', async () => {
+    const { platform, switchBotBLE } = createPlatform()
+    const handler = vi.fn()
+    const unsubscribe = platform.bleAdvertisementBus.subscribe('c1:a2:b3:c4:d5:e6', 'T', handler)
+    platform.bleAdvertisementBus.subscribe('d1:a2:b3:c4:d5:e6', 'T', vi.fn())
+
+    unsubscribe()
+    await switchBotBLE.advertise(bleAdvertisement('C1A2B3C4D5E6', meter))
+
+    expect(switchBotBLE.startScan).toHaveBeenCalledOnce()
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('reads the cached advertisement while it is within maxAge', async () => {
+    const { platform, switchBotBLE } = createPlatform()
+    const ad = bleAdvertisement('C1A2B3C4D5E6', meter)
+    await platform.bleAdvertisementBus.start()
+    await switchBotBLE.advertise(ad)
+
+    await expect(platform.bleAdvertisementBus.latest(ad.address, 'T', 60 * 1000, 10)).resolves.toEqual(meter)
+  })
+
+  it('waits for the next advertisement, up to the timeout', async () => {
+    const { platform, switchBotBLE } = createPlatform()
+    const ad = bleAdvertisement('C1A2B3C4D5E6', meter)
+
+    const next = platform.bleAdvertisementBus.latest(ad.address, 'T', 0, 1000)
+    // once it is waiting
+    await idle()
+    await switchBotBLE.advertise(ad)
+    await expect(next).resolves.toEqual(meter)
+    // older than maxAge
+    await sleep(5)
+
+    await expect(platform.bleAdvertisementBus.latest(ad.address, 'T', 0, 10)).resolves.toBeUndefined()
+  })
+
+  it('restarts the scan when no advertisements arrived for a minute', async () => {
+    vi.useFakeTimers()
+    const { platform, switchBotBLE } = createPlatform()
+    await platform.bleAdvertisementBus.start()
+
+    await vi.advanceTimersByTimeAsync(90 * 1000)
+
+    expect(switchBotBLE.stopScan).toHaveBeenCalledOnce()
+    expect(switchBotBLE.startScan).toHaveBeenCalledTimes(2)
+  })
+})
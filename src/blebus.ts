@@ -0,0 +1,166 @@
+/* Copyright(C) 2017-2024, donavanbecker (https://github.com/donavanbecker). All rights reserved.
+ *
+ * blebus.ts: @switchbot/homebridge-switchbot platform class.
+ */
+import type { ad, SwitchBotBLE } from 'node-switchbot'
+import type { Subscription } from 'rxjs'
+
+import type { SwitchBotPlatform } from './platform.js'
+
+import { interval } from 'rxjs'
+
+type advertisementHandler = (serviceData: ad['serviceData'], ad: ad) => void
+
+interface cachedAdvertisement {
+  ad: ad
+  received: number
+}
+
+interface advertisementSubscriber {
+  model?: string
+  handler: advertisementHandler
+}
+
+/**
+ * A single, platform owned, continuous BLE scan. Advertisements are cached by address and
+ * fanned out to the devices subscribed to that address (and model), so devices read the
+ * latest advertisement instead of starting and stopping scans of their own.
+ */
+export class BLEAdvertisementBus {
+  private scanning = false
+  private lastAdvertisement = 0
+  private watchdog?: Subscription
+  private advertisements: { [address: string]: cachedAdvertisement } = {}
+  private subscribers: { [address: string]: advertisementSubscriber[] } = {}
+
+  constructor(
+    private readonly platform: SwitchBotPlatform,
+    private readonly switchBotBLE: SwitchBotBLE,
+  ) {}
+
+  /**
+   * Starts the scan, if it is not already running. A BLE connection (a command sent to a device)
+   * stops the scan, so a watchdog restarts it when no advertisements have arrived for a minute.
+   */
+  async start(): Promise<void> {
+    if (this.scanning) {
+      return
+    }
+    this.scanning = true
+    this.lastAdvertisement = Date.now()
+    this.switchBotBLE.onadvertisement = async (ad: ad) => {
+      try {
+        this.advertisement(ad)
+      } catch (e: any) {
+        this.platform.errorLog(`Failed to handle BLE advertisement. Error:${e.message ?? e}`)
+      }
+    }
+    await this.startScan()
+    this.watchdog = interval(30 * 1000).subscribe(async () => {
+      if (Date.now() - this.lastAdvertisement > 60 * 1000) {
+        this.platform.debugWarnLog('No BLE advertisements received for a minute, restarting BLE scanning')
+        await this.restart()
+      }
+    })
+  }
+
+  async stop(): Promise<void> {
+    this.watchdog?.unsubscribe()
+    this.scanning = false
+    try {
+      await this.switchBotBLE.stopScan()
+    } catch (e: any) {
+      this.platform.errorLog(`Failed to stop BLE scanning. Error:${e.message ?? e}`)
+    }
+  }
+
+  async restart(): Promise<void> {
+    this.lastAdvertisement = Date.now()
+    try {
+      // stopScan also removes the listener added by startScan
+      await this.switchBotBLE.stopScan()
+    } catch (e: any) {
+      this.platform.debugErrorLog(`Failed to stop BLE scanning. Error:${e.message ?? e}`)
+    }
+    await this.startScan()
+  }
+
+  /**
+   * Restarts the scan after a BLE connection stopped it.
+   */
+  async resume(): Promise<void> {
+    if (this.scanning) {
+      await this.restart()
+    }
+  }
+
+  private async startScan(): Promise<void> {
+    this.platform.debugLog('Scanning for BLE SwitchBot devices...')
+    try {
+      await this.switchBotBLE.startScan()
+    } catch (e: any) {
+      this.platform.errorLog(`Failed to start BLE scanning. Error:${e.message ?? e}`)
+    }
+  }
+
+  /**
+   * Adds an advertisement to the bus, from the local scan or another advertisement source.
+   */
+  advertisement(ad: ad): void {
+    this.lastAdvertisement = Date.now()
+    this.advertisements[ad.address] = { ad, received: this.lastAdvertisement }
+    for (const { model, handler } of this.subscribers[ad.address] ?? []) {
+      if (!model || model === ad.serviceData.model) {
+        handler(ad.serviceData, ad)
+      }
+    }
+    this.platform.bleEventHandler[ad.address]?.(ad.serviceData)
+  }
+
+  /**
+   * Calls the handler with every advertisement of the address (and model).
+   *
+   * @param address - The BLE address of the device.
+   * @param model - The BLE model of the device, or undefined for every model.
+   * @param handler - Called with the serviceData of each advertisement.
+   * @returns A function that removes the subscription.
+   */
+  subscribe(address: string, model: string | undefined, handler: advertisementHandler): () => void {
+    const subscriber = { model, handler }
+    this.subscribers[address] = [...(this.subscribers[address] ?? []), subscriber]
+    this.start()
+    return () => {
+      this.subscribers[address] = this.subscribers[address].filter(item => item !== subscriber)
+    }
+  }
+
+  /**
+   * The latest advertisement of a device. If the cached one is older than maxAge,
+   * waits up to timeout for the next one.
+   *
+   * @param address - The BLE address of the device.
+   * @param model - The BLE model of the device.
+   * @param maxAge - How old, in milliseconds, the cached advertisement may be.
+   * @param timeout - How long, in milliseconds, to wait for a new advertisement.
+   * @returns The serviceData of the advertisement, or undefined if none arrived in time.
+   */
+  async latest(address: string, model: string, maxAge: number, timeout: number): Promise<ad['serviceData'] | undefined> {
+    await this.start()
+    const cached = this.advertisements[address]
+    if (cached && cached.ad.serviceData.model === model && Date.now() - cached.received <= maxAge) {
+      return cached.ad.serviceData
+    }
+    return new Promise((resolve) => {
+      let timer: NodeJS.Timeout | undefined
+      const unsubscribe = this.subscribe(address, model, (serviceData) => {
+        clearTimeout(timer)
+        unsubscribe()
+        resolve(serviceData)
+      })
+      timer = setTimeout(() => {
+        unsubscribe()
+        resolve(undefined)
+      }, timeout)
+    })
+  }
+}
@@ -0,0 +1,52 @@
+import type { MqttClient } from 'mqtt'
+
+import { Buffer } from 'node:buffer'
+import { EventEmitter } from 'node:events'
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { BLEProxySource } from './bleproxy.js'
+import { createPlatform } from './test/harness.js'
+
+// a Meter at 21.5°C, 40% and 90% battery, as a proxy hears it
+const serviceData = '54005a059528'
+const manufacturerData = '6909e1a2b3c4d5e6'
+
+function proxy() {
+  const { platform } = createPlatform()
+  const mqttClient = Object.assign(new EventEmitter(), { subscribe: vi.fn() })
+  const advertisement = vi.spyOn(platform.bleAdvertisementBus, 'advertisement').mockImplementation(() => {})
+  new BLEProxySource(platform, mqttClient as unknown as MqttClient, 'ble/+/advertisement').start()
+  const publish = async (topic: string, message: object) => {
+    mqttClient.emit('message', topic, Buffer.from(JSON.stringify(message)))
+    await vi.waitFor(() => expect(advertisement).toHaveBeenCalled())
+  }
+  return { mqttClient, advertisement, publish }
+}
+
+describe('bleProxySource', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('subscribes to the topic, and decodes the advertisements of proxies', async () => {
+    const { mqttClient, advertisement, publish } = proxy()
+
+    await publish('ble/esp32/advertisement', { mac: 'e1:a2:b3:c4:d5:e6', rssi: -70, serviceData, manufacturerData })
+
+    expect(mqttClient.subscribe).toHaveBeenCalledWith('ble/+/advertisement')
+    expect(advertisement).toHaveBeenCalledWith(expect.objectContaining({
+      address: 'e1:a2:b3:c4:d5:e6',
+      rssi: -70,
+      serviceData: expect.objectContaining({ model: 'T', celsius: 21.5, humidity: 40, battery: 90 }),
+    }))
+  })
+
+  it.each(['E1:A2:B3:C4:D5:E6', 'e1-a2-b3-c4-d5-e6', 'E1A2B3C4D5E6', 'e1a2.b3c4.d5e6'])('addresses %s as the bus does', async (mac) => {
+    const { advertisement, publish } = proxy()
+
+    await publish('ble/esp32/advertisement', { mac, serviceData, manufacturerData })
+
+    expect(advertisement).toHaveBeenCalledWith(expect.objectContaining({ id: 'e1a2b3c4d5e6', address: 'e1:a2:b3:c4:d5:e6' }))
+  })
+})
@@ -0,0 +1,92 @@
+/* Copyright(C) 2017-2024, donavanbecker (https://github.com/donavanbecker). All rights reserved.
+ *
+ * bleproxy.ts: @switchbot/homebridge-switchbot platform class.
+ */
+import type { MqttClient } from 'mqtt'
+
+import type { SwitchBotPlatform } from './platform.js'
+
+import { Buffer } from 'node:buffer'
+
+import { Advertising } from 'node-switchbot'
+
+import { formatDeviceIdAsMac } from './utils.js'
+
+/**
+ * An advertisement as published by a remote BLE gateway (an ESP32 proxy, etc.),
+ * serviceData and manufacturerData are hex (or base64) encoded, manufacturerData
+ * starts with the company ID, as it is received over the air.
+ */
+interface proxyAdvertisement {
+  mac: string
+  rssi?: number
+  serviceData: string
+  manufacturerData: string
+}
+
+/**
+ * Receives SwitchBot advertisements heard by remote BLE gateways over MQTT, decodes them with
+ * the same parsers as the local scan, and feeds them into the platform's BLE advertisement bus.
+ */
+export class BLEProxySource {
+  constructor(
+    private readonly platform: SwitchBotPlatform,
+    private readonly mqttClient: MqttClient,
+    public readonly topic: string,
+  ) {}
+
+  start(): void {
+    this.mqttClient.subscribe(this.topic)
+    this.mqttClient.on('message', async (topic: string, message) => {
+      if (!this.matches(topic)) {
+        return
+      }
+      try {
+        await this.advertisement(JSON.parse(message.toString()))
+      } catch (e: any) {
+        this.platform.debugErrorLog(`Failed to handle BLE proxy advertisement: ${topic}=${message}, Error:${e.message ?? e}`)
+      }
+    })
+    this.platform.infoLog(`Receiving BLE advertisements from proxies on ${this.topic}`)
+  }
+
+  private async advertisement({ mac, rssi, serviceData, manufacturerData }: proxyAdvertisement): Promise<void> {
+    // proxies send aa:bb:cc:dd:ee:ff, AA-BB-CC-DD-EE-FF or aabbccddeeff, the bus is keyed by the first
+    const address = formatDeviceIdAsMac(mac.replace(/[^0-9a-f]/gi, ''))
+    const peripheral = {
+      id: address.replace(/:/g, ''),
+      address,
+      rssi: rssi ?? -127,
+      advertisement: {
+        serviceData: [{ uuid: 'fd3d', data: this.decode(serviceData) }],
+        manufacturerData: this.decode(manufacturerData),
+      },
+    }
+    const ad = await Advertising.parse(peripheral as any, (level: string, message: string) => this.platform.debugLog(`[${level}] ${message}`))
+    if (!ad) {
+      return
+    }
+    this.platform.bleAdvertisementBus.advertisement(ad)
+  }
+
+  private decode(data: string): Buffer {
+    return /^(?:[0-9a-f]{2})+$/i.test(data) ? Buffer.from(data, 'hex') : Buffer.from(data, 'base64')
+  }
+
+  /**
+   * Checks a topic against the subscription, which may contain the + and # wildcards
+   */
+  private matches(topic: string): boolean {
+    const filter = this.topic.split('/')
+    const levels = topic.split('/')
+    for (const [i, level] of filter.entries()) {
+      if (level === '#') {
+        return true
+      }
+      if (levels[i] === undefined || (level !== '+' && level !== levels[i])) {
+        return false
+      }
+    }
+    return filter.length === levels.length
+  }
+}
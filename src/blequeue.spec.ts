@@ -0,0 +1,119 @@
+import type { SwitchBotBLEModel } from 'node-switchbot'
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { createPlatform } from './test/harness.js'
+import { sleep } from './utils.js'
+
+const bot = 'H' as SwitchBotBLEModel
+
+describe('bleCommandQueue', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('sends the command to the discovered device', async () => {
+    const { platform, switchBotBLE } = createPlatform()
+    const device = switchBotBLE.connectable('C1A2B3C4D5E6')
+
+    await expect(platform.bleCommandQueue.schedule(device.address, bot, async ([found]) => (found as any).press())).resolves.toBe(true)
+
+    expect(switchBotBLE.discover).toHaveBeenCalledWith({ model: bot, id: device.address, quick: true })
+    expect(device.press).toHaveBeenCalledOnce()
+  })
+
+  it('fails when the device is not found', async () => {
+    const { platform } = createPlatform()
+
+    await expect(platform.bleCommandQueue.schedule('c1:a2:b3:c4:d5:e6', bot, async () => true)).rejects.toThrow('BLE device c1:a2:b3:c4:d5:e6 was not found')
+  })
+
+  it('sends one command at a time, in order', async () => {
+    const { platform, switchBotBLE } = createPlatform()
+    const first = switchBotBLE.connectable('C1A2B3C4D5E6')
+    const second = switchBotBLE.connectable('D1A2B3C4D5E6')
+    const sent: string[] = []
+    const command = (name: string) => async () => {
+      sent.push(`${name} started`)
+      await sleep(5)
+      sent.push(`${name} finished`)
+    }
+
+    await Promise.all([
+      platform.bleCommandQueue.schedule(first.address, bot, command('first')),
+      platform.bleCommandQueue.schedule(second.address, bot, command('second')),
+      platform.bleCommandQueue.schedule(first.address, bot, command('third')),
+    ])
+
+    expect(sent).toEqual(['first started', 'first finished', 'second started', 'second finished', 'third started', 'third finished'])
+  })
+
+  it('sends commands ahead of queued polls', async () => {
+    const { platform, switchBotBLE } = createPlatform()
+    const device = switchBotBLE.connectable('C1A2B3C4D5E6')
+    const sent: string[] = []
+    const command = (name: string) => async () => {
+      sent.push(name)
+      await sleep(5)
+    }
+
+    await Promise.all([
+      platform.bleCommandQueue.schedule(device.address, bot, command('first')),
+      platform.bleCommandQueue.schedule(device.address, bot, command('first poll'), 'poll'),
+      platform.bleCommandQueue.schedule(device.address, bot, command('second poll'), 'poll'),
+      platform.bleCommandQueue.schedule(device.address, bot, command('second'), 'command'),
+    ])
+
+    expect(sent).toEqual(['first', 'second', 'first poll', 'second poll'])
+  })
+
+  it('never sends two commands to the same device at the same time, with bleConcurrency', async () => {
+    const { platform, switchBotBLE } = createPlatform({ options: { bleConcurrency: 2 } })
+    const first = switchBotBLE.connectable('C1A2B3C4D5E6')
+    const second = switchBotBLE.connectable('D1A2B3C4D5E6')
+    const sent: string[] = []
+    const command = (name: string) => async () => {
+      sent.push(`${name} started`)
+      await sleep(5)
+      sent.push(`${name} finished`)
+    }
+
+    await Promise.all([
+      platform.bleCommandQueue.schedule(first.address, bot, command('first')),
+      platform.bleCommandQueue.schedule(first.address, bot, command('third')),
+      platform.bleCommandQueue.schedule(second.address, bot, command('second')),
+    ])
+
+    expect(sent.slice(0, 2)).toEqual(['first started', 'second started'])
+    expect(sent.indexOf('third started')).toBeGreaterThan(sent.indexOf('first finished'))
+  })
+
+  it('disconnects a command that timed out, and holds the device until it has settled', async () => {
+    const { platform, switchBotBLE } = createPlatform({ options: { bleCommandTimeout: 0.02 } })
+    const device = switchBotBLE.connectable('C1A2B3C4D5E6')
+    const sent: string[] = []
+
+    const hung = platform.bleCommandQueue.schedule(device.address, bot, async () => {
+      await sleep(50)
+      sent.push('hung settled')
+    })
+    const next = platform.bleCommandQueue.schedule(device.address, bot, async () => {
+      sent.push('next started')
+    })
+
+    await expect(hung).rejects.toThrow(`BLE command to ${device.address} timed out after 0.02s`)
+    await next
+    expect(device.disconnect).toHaveBeenCalledOnce()
+    expect(sent).toEqual(['hung settled', 'next started'])
+  })
+
+  it('resumes the scan once every command was sent', async () => {
+    const { platform, switchBotBLE } = createPlatform()
+    const device = switchBotBLE.connectable('C1A2B3C4D5E6')
+    await platform.bleAdvertisementBus.start()
+
+    await platform.bleCommandQueue.schedule(device.address, bot, async () => true)
+
+    await vi.waitFor(() => expect(switchBotBLE.startScan).toHaveBeenCalledTimes(2))
+  })
+})
@@ -0,0 +1,126 @@
+/* Copyright(C) 2017-2024, donavanbecker (https://github.com/donavanbecker). All rights reserved.
+ *
+ * blequeue.ts: @switchbot/homebridge-switchbot platform class.
+ */
+import type { SwitchBotBLE, SwitchBotBLEModel, SwitchbotDevice } from 'node-switchbot'
+
+import type { SwitchBotPlatform } from './platform.js'
+import type { RequestPriority } from './scheduler.js'
+
+import { withTimeout } from './utils.js'
+
+interface queuedCommand {
+  address: string
+  model: SwitchBotBLEModel
+  priority: RequestPriority
+  command: (device_list: SwitchbotDevice[]) => Promise<any>
+  queued: number
+  resolve: (value: any) => void
+  reject: (reason?: any) => void
+}
+
+/**
+ * Sends every BLE command made by the devices. Only bleConcurrency connections are open at a time
+ * (one by default), commands to the same device are sent in order and never at the same time.
+ * Commands are put ahead of any queued polls, as the RequestScheduler does for the OpenAPI.
+ * Status is read from advertisements, which need no connection.
+ */
+export class BLECommandQueue {
+  public readonly concurrency: number
+  public readonly connectTimeout: number
+  public readonly commandTimeout: number
+
+  private queue: queuedCommand[] = []
+  private active: Set<string> = new Set()
+
+  constructor(
+    private readonly platform: SwitchBotPlatform,
+    private readonly switchBotBLE: SwitchBotBLE,
+  ) {
+    const options = this.platform.config.options ?? {}
+    this.concurrency = Math.max(1, options.bleConcurrency ?? 1)
+    this.connectTimeout = (options.bleConnectTimeout ?? 10) * 1000
+    this.commandTimeout = (options.bleCommandTimeout ?? 30) * 1000
+  }
+
+  /**
+   * Queues a command, it is sent once the device is discovered (connectTimeout)
+   * and has to finish within commandTimeout, or the device is disconnected.
+   *
+   * @param address - The BLE address of the device.
+   * @param model - The BLE model of the device.
+   * @param command - Called with the discovered device.
+   * @param priority - The priority of the command, a change from HomeKit or a status refresh.
+   * @returns The result of the command.
+   */
+  async schedule<T>(address: string, model: SwitchBotBLEModel, command: (device_list: SwitchbotDevice[]) => Promise<T>, priority: RequestPriority = 'command'): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const queued: queuedCommand = { address, model, priority, command, queued: Date.now(), resolve, reject }
+      if (priority === 'command') {
+        const firstPoll = this.queue.findIndex(item => item.priority === 'poll')
+        this.queue.splice(firstPoll === -1 ? this.queue.length : firstPoll, 0, queued)
+      } else {
+        this.queue.push(queued)
+      }
+      this.platform.debugLog(`Queued BLE command for ${address}, ${this.queue.length} queued, ${this.active.size} active`)
+      this.next()
+    })
+  }
+
+  private next(): void {
+    while (this.active.size < this.concurrency) {
+      // the first command whose device is not already connected
+      const index = this.queue.findIndex(item => !this.active.has(item.address))
+      if (index === -1) {
+        return
+      }
+      const [queued] = this.queue.splice(index, 1)
+      this.run(queued)
+    }
+  }
+
+  private async run({ address, model, command, queued, resolve, reject }: queuedCommand): Promise<void> {
+    this.active.add(address)
+    const started = Date.now()
+    try {
+      const device_list = await this.settle(
+        this.switchBotBLE.discover({ model, id: address, quick: true }),
+        this.connectTimeout,
+        `BLE connect to ${address} timed out after ${this.connectTimeout / 1000}s`,
+      )
+      if (!device_list?.length) {
+        throw new Error(`BLE device ${address} was not found`)
+      }
+      resolve(await this.settle(
+        command(device_list),
+        this.commandTimeout,
+        `BLE command to ${address} timed out after ${this.commandTimeout / 1000}s`,
+        async () => Promise.all(device_list.map(async device => device.disconnect())),
+      ))
+    } catch (e: any) {
+      reject(e)
+    } finally {
+      this.active.delete(address)
+      this.platform.debugLog(`BLE command for ${address} waited ${started - queued}ms, took ${Date.now() - started}ms, ${this.queue.length} queued`)
+      // discover stops the scan, resume it once no connections are open
+      if (this.active.size === 0 && this.queue.length === 0) {
+        await this.platform.bleAdvertisementBus.resume()
+      }
+      this.next()
+    }
+  }
+
+  /**
+   * Waits for a BLE operation for at most ms. A timed out operation is cancelled, and the connection
+   * slot is held until it has settled, so the next command to the device does not overlap it.
+   */
+  private async settle<T>(operation: Promise<T>, ms: number, message: string, cancel?: () => Promise<unknown>): Promise<T> {
+    try {
+      return await withTimeout(operation, ms, message)
+    } catch (e: any) {
+      await cancel?.().catch(() => {})
+      await operation.catch(() => {})
+      throw e
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import type { SwitchBotPlatform } from './platform.js'
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { ConnectionManager } from './connection.js'
+
+function connection(transports: ('BLE' | 'OpenAPI')[], log = vi.fn()) {
+  const platform = { config: { options: { circuitBreakerThreshold: 2, circuitBreakerCoolDown: 60 } } } as unknown as SwitchBotPlatform
+  return new ConnectionManager(platform, transports, log)
+}
+
+describe('connectionManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('keeps the preferred transport below the threshold, and after a success', () => {
+    const manager = connection(['BLE', 'OpenAPI'])
+
+    manager.failure('BLE')
+    expect(manager.route()).toBe('BLE')
+    manager.success('BLE')
+    manager.failure('BLE')
+
+    expect(manager.route()).toBe('BLE')
+  })
+
+  it('falls back once the circuit of the preferred transport opens', () => {
+    const log = vi.fn()
+    const manager = connection(['BLE', 'OpenAPI'], log)
+
+    manager.failure('BLE')
+    manager.failure('BLE')
+
+    expect(manager.route()).toBe('OpenAPI')
+    expect(log).toHaveBeenCalledWith('BLE failed 2 times in a row, opening circuit for 60s')
+  })
+
+  it('probes the preferred transport after the cool-down, and closes the circuit when it works', () => {
+    const manager = connection(['BLE', 'OpenAPI'])
+    manager.failure('BLE')
+    manager.failure('BLE')
+
+    vi.advanceTimersByTime(60 * 1000)
+
+    expect(manager.route()).toBe('BLE')
+    manager.success('BLE')
+    manager.failure('BLE')
+    expect(manager.route()).toBe('BLE')
+  })
+
+  it('opens the circuit again when the probe fails', () => {
+    const manager = connection(['BLE', 'OpenAPI'])
+    manager.failure('BLE')
+    manager.failure('BLE')
+    vi.advanceTimersByTime(60 * 1000)
+    expect(manager.route()).toBe('BLE')
+
+    manager.failure('BLE')
+
+    expect(manager.route()).toBe('OpenAPI')
+  })
+
+  it('keeps the preferred transport when both circuits are open', () => {
+    const manager = connection(['BLE', 'OpenAPI'])
+
+    for (const transport of ['BLE', 'OpenAPI', 'BLE', 'OpenAPI'] as const) {
+      manager.failure(transport)
+    }
+
+    expect(manager.route()).toBe('BLE')
+  })
+
+  it('always routes a device with one transport to it', () => {
+    const manager = connection(['OpenAPI'])
+
+    manager.failure('OpenAPI')
+    manager.failure('OpenAPI')
+
+    expect(manager.route()).toBe('OpenAPI')
+  })
+})
@@ -0,0 +1,92 @@
+/* Copyright(C) 2017-2024, donavanbecker (https://github.com/donavanbecker). All rights reserved.
+ *
+ * connection.ts: @switchbot/homebridge-switchbot platform class.
+ */
+import type { SwitchBotPlatform } from './platform.js'
+
+export type Transport = 'BLE' | 'OpenAPI'
+
+type CircuitState = 'closed' | 'open' | 'half-open'
+
+/**
+ * Counts consecutive failures of one transport. After threshold failures the circuit opens and the
+ * transport is skipped for the cool-down, then it is half-open and the next request probes it.
+ */
+class CircuitBreaker {
+  public state: CircuitState = 'closed'
+  private failures = 0
+  private openedAt = 0
+
+  constructor(
+    public readonly transport: Transport,
+    private readonly threshold: number,
+    private readonly coolDown: number,
+    private readonly log: (message: string) => void,
+  ) {}
+
+  available(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.coolDown) {
+      this.state = 'half-open'
+      this.log(`${this.transport} cool-down of ${this.coolDown / 1000}s is over, probing ${this.transport} again`)
+    }
+    return this.state !== 'open'
+  }
+
+  success(): void {
+    if (this.state !== 'closed') {
+      this.log(`${this.transport} is working again, closing circuit`)
+    }
+    this.state = 'closed'
+    this.failures = 0
+  }
+
+  failure(): void {
+    this.failures++
+    if (this.state === 'half-open' || (this.state === 'closed' && this.failures >= this.threshold)) {
+      this.log(`${this.transport} failed ${this.failures} times in a row, opening circuit for ${this.coolDown / 1000}s`)
+      this.state = 'open'
+      this.openedAt = Date.now()
+    }
+  }
+}
+
+/**
+ * Chooses between BLE and OpenAPI for a device that can use both. The first transport is preferred,
+ * the other one is used while the circuit of the preferred one is open. When both are open
+ * the preferred transport is kept, so a device always has somewhere to send requests.
+ */
+export class ConnectionManager {
+  private breakers: { [transport in Transport]?: CircuitBreaker } = {}
+
+  constructor(
+    platform: SwitchBotPlatform,
+    private readonly transports: Transport[],
+    log: (message: string) => void,
+  ) {
+    const options = platform.config.options ?? {}
+    const threshold = options.circuitBreakerThreshold ?? 3
+    const coolDown = (options.circuitBreakerCoolDown ?? 300) * 1000
+    for (const transport of transports) {
+      this.breakers[transport] = new CircuitBreaker(transport, threshold, coolDown, log)
+    }
+  }
+
+  /**
+   * The transport the next request should use.
+   */
+  route(): Transport | undefined {
+    const [preferred, fallback] = this.transports
+    if (!fallback || this.breakers[preferred]!.available()) {
+      return preferred
+    }
+    return this.breakers[fallback]!.available() ? fallback : preferred
+  }
+
+  success(transport: Transport): void {
+    this.breakers[transport]?.success()
+  }
+
+  failure(transport: Transport): void {
+    this.breakers[transport]?.failure()
+  }
+}
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { characteristic, createPlatform, deviceStatus, discover, openAPIResponse } from '../test/harness.js'
+
+const blindTilt = { deviceId: 'D2A2B3C4D5E6', deviceName: 'Office Blinds', deviceType: 'Blind Tilt', enableCloudService: true, hubDeviceId: 'F1A2B3C4D5E6', master: true }
+
+describe('blind tilt', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  async function openAPIBlindTilt(mapping: string, status: object = {}) {
+    const harness = createPlatform({ options: { devices: [{ deviceId: blindTilt.deviceId, mapping }] } })
+    harness.getDeviceStatus.mockResolvedValue(openAPIResponse(100, deviceStatus(blindTilt.deviceId, status)))
+    const [accessory] = await discover(harness, [blindTilt])
+    const { Service, Characteristic } = harness.api.hap
+    return {
+      harness,
+      accessory,
+      currentPosition: characteristic(accessory, Service.WindowCovering, Characteristic.CurrentPosition),
+      targetPosition: characteristic(accessory, Service.WindowCovering, Characteristic.TargetPosition),
+      tiltAngle: characteristic(accessory, Service.WindowCovering, Characteristic.CurrentHorizontalTiltAngle),
+    }
+  }
+
+  it.each([
+    ['only_up', 'up', 75, 50],
+    ['only_up', 'down', 25, 100],
+    ['only_down', 'down', 25, 50],
+    ['down_and_up', 'up', 75, 75],
+    ['up_and_down', 'up', 75, 25],
+  ])('maps the position in %s mode, %s %i is %i', async (mapping, direction, slidePosition, position) => {
+    const { currentPosition } = await openAPIBlindTilt(mapping, { direction, slidePosition })
+
+    await vi.waitFor(() => expect(currentPosition.value).toBe(position))
+  })
+
+  it('maps the direction to the tilt angle in use_tilt_for_direction mode', async () => {
+    const { currentPosition, tiltAngle } = await openAPIBlindTilt('use_tilt_for_direction', { direction: 'up', slidePosition: 75 })
+
+    await vi.waitFor(() => expect(currentPosition.value).toBe(50))
+    expect(tiltAngle.value).toBe(90)
+  })
+
+  it.each([
+    ['only_up', 100, 'fullyOpen', 'default'],
+    ['only_up', 0, 'closeUp', 'default'],
+    ['only_down', 0, 'closeDown', 'default'],
+    ['only_up', 40, 'setPosition', 'up;40'],
+    ['down_and_up', 25, 'setPosition', 'down;50'],
+  ])('moves in %s mode to %i with %s %s', async (mapping, target, command, parameter) => {
+    const { harness, targetPosition } = await openAPIBlindTilt(mapping, { direction: 'up', slidePosition: 75 })
+
+    await targetPosition.handleSetRequest(target)
+
+    await vi.waitFor(() => expect(harness.controlDevice).toHaveBeenCalledWith(blindTilt.deviceId, command, parameter, 'command'))
+  })
+})
@@ -115,6 +115,7 @@ export class BlindTilt extends deviceBase {
       maxValue: 100,
       validValueRanges: [0, 100],
     }).onGet(() => {
+      this.reachable()
       return this.WindowCovering.TargetPosition
     }).onSet(this.TargetPositionSet.bind(this))
 
@@ -125,6 +126,7 @@ export class BlindTilt extends deviceBase {
       maxValue: 100,
       validValueRanges: [0, 100],
     }).onGet(() => {
+      this.reachable()
       return this.WindowCovering.CurrentPosition ?? 0
     })
 
@@ -135,6 +137,7 @@ export class BlindTilt extends deviceBase {
       maxValue: 90,
       validValues: [-90, 90],
     }).onGet(() => {
+      this.reachable()
       return this.WindowCovering.TargetHorizontalTiltAngle
     }).onSet(this.TargetHorizontalTiltAngleSet.bind(this))
 
@@ -145,6 +148,7 @@ export class BlindTilt extends deviceBase {
       maxValue: 90,
       validValues: [-90, 90],
     }).onGet(() => {
+      this.reachable()
       return this.WindowCovering.CurrentHorizontalTiltAngle ?? 0
     })
 
@@ -183,6 +187,7 @@ export class BlindTilt extends deviceBase {
 
       // Initialize LightSensor Characteristics
       this.LightSensor.Service.setCharacteristic(this.hap.Characteristic.Name, this.LightSensor.Name).setCharacteristic(this.hap.Characteristic.StatusActive, true).getCharacteristic(this.hap.Characteristic.CurrentAmbientLightLevel).onGet(() => {
+        this.reachable()
         return this.LightSensor?.CurrentAmbientLightLevel ?? 0.0001
       })
     }
@@ -206,6 +211,7 @@ export class BlindTilt extends deviceBase {
 
       // Initialize Open Mode Switch Service
       this.OpenModeSwitch.Service.setCharacteristic(this.hap.Characteristic.Name, this.OpenModeSwitch.Name).getCharacteristic(this.hap.Characteristic.On).onGet(() => {
+        this.reachable()
         return this.OpenModeSwitch?.On ?? false
       })
 
@@ -231,6 +237,7 @@ export class BlindTilt extends deviceBase {
 
       // Initialize Close Mode Switch Service
       this.CloseModeSwitch.Service.setCharacteristic(this.hap.Characteristic.Name, this.CloseModeSwitch.Name).getCharacteristic(this.hap.Characteristic.On).onGet(() => {
+        this.reachable()
         return this.CloseModeSwitch?.On ?? false
       })
 
@@ -261,6 +268,14 @@ export class BlindTilt extends deviceBase {
       this.errorLog(`failed to registerPlatformBLE, Error: ${e.message ?? e}`)
     }
 
+    // track BLE presence if enabled
+    try {
+      this.debugLog('Setting up BLE Presence')
+      this.setupBlePresence()
+    } catch (e: any) {
+      this.errorLog(`failed to setupBlePresence, Error: ${e.message ?? e}`)
+    }
+
     // Start an update interval
     interval(this.deviceRefreshRate * 1000)
       .pipe(skipWhile(() => this.blindTiltUpdateInProgress))
@@ -292,9 +307,11 @@ export class BlindTilt extends deviceBase {
         try {
           await this.pushChanges()
         } catch (e: any) {
+          await this.changeFailed(`Error: ${e.message ?? e}`)
           await this.apiError(e)
           this.errorLog(`failed pushChanges with ${device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
         }
+        await this.changeSettled()
         this.blindTiltUpdateInProgress = false
       })
   }
@@ -444,7 +461,7 @@ export class BlindTilt extends deviceBase {
   async refreshStatus(): Promise<void> {
     if (!this.device.enableCloudService && this.OpenAPI) {
       this.errorLog(`refreshStatus enableCloudService: ${this.device.enableCloudService}`)
-    } else if (this.BLE) {
+    } else if (this.useBLE()) {
       await this.BLERefreshStatus()
     } else if (this.OpenAPI && this.platform.config.credentials?.token) {
       await this.openAPIRefreshStatus()
@@ -458,12 +475,13 @@ export class BlindTilt extends deviceBase {
     this.debugLog('BLERefreshStatus')
     const switchBotBLE = await this.switchbotBLE()
     if (switchBotBLE === undefined) {
-      await this.BLERefreshConnection(switchBotBLE)
+      this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchBotBLE}`)
+      this.connection.failure('BLE')
     } else {
       // Start to monitor advertisement packets
       (async () => {
         // Start to monitor advertisement packets
-        const serviceData = await this.monitorAdvertisementPackets(switchBotBLE) as blindTiltServiceData
+        const serviceData = await this.monitorAdvertisementPackets() as blindTiltServiceData
         // Update HomeKit
         if (serviceData.model === SwitchBotBLEModel.BlindTilt && serviceData.modelName === SwitchBotBLEModelName.BlindTilt) {
           this.serviceData = serviceData
@@ -471,7 +489,7 @@ export class BlindTilt extends deviceBase {
           await this.updateHomeKitCharacteristics()
         } else {
           this.errorLog(`failed to get serviceData, serviceData: ${JSON.stringify(serviceData)}`)
-          await this.BLERefreshConnection(switchBotBLE)
+          this.connection.failure('BLE')
         }
       })()
     }
@@ -545,7 +563,7 @@ export class BlindTilt extends deviceBase {
   async pushChanges(): Promise<void> {
     if (!this.device.enableCloudService && this.OpenAPI) {
       this.errorLog(`pushChanges enableCloudService: ${this.device.enableCloudService}`)
-    } else if (this.BLE) {
+    } else if (this.useBLE()) {
       await this.BLEpushChanges()
     } else if (this.OpenAPI && this.platform.config.credentials?.token) {
       await this.openAPIpushChanges()
@@ -574,17 +592,15 @@ export class BlindTilt extends deviceBase {
         const { setPositionMode, Mode }: { setPositionMode: number, Mode: string } = await this.setPerformance()
         this.debugLog(`Mode: ${Mode}, setPositionMode: ${setPositionMode}`)
         if (switchBotBLE !== false) {
-          switchBotBLE
-            .discover({ model: this.device.bleModel, quick: true, id: this.device.bleMac })
-            .then(async (device_list: SwitchbotDevice[]) => {
-              const deviceList = device_list as WoBlindTilt[]
-              return await this.retryBLE({
-                max: this.maxRetryBLE(),
-                fn: async () => {
-                  return await deviceList[0].runToPos(100 - Number(this.WindowCovering.TargetPosition), setPositionMode)
-                },
-              })
+          this.bleCommand(async (device_list: SwitchbotDevice[]) => {
+            const deviceList = device_list as WoBlindTilt[]
+            return await this.retryBLE({
+              max: this.maxRetryBLE(),
+              fn: async () => {
+                return await deviceList[0].runToPos(100 - Number(this.WindowCovering.TargetPosition), setPositionMode)
+              },
             })
+          })
             .then(async () => {
               this.successLog(`TargetPostion: ${this.WindowCovering.TargetPosition} sent over SwitchBot BLE, sent successfully`)
               await this.updateHomeKitCharacteristics()
@@ -592,11 +608,11 @@ export class BlindTilt extends deviceBase {
             .catch(async (e: any) => {
               await this.apiError(e)
               this.errorLog(`failed BLEpushChanges with ${this.device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
-              await this.BLEPushConnection()
             })
         } else {
           this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${JSON.stringify(switchBotBLE)}`)
-          await this.BLEPushConnection()
+          this.connection.failure('BLE')
+          await this.changeFailed('BLE connection could not be established')
         }
       } catch (error) {
         this.errorLog(`failed to format device ID as MAC, Error: ${error}`)
@@ -610,7 +626,7 @@ export class BlindTilt extends deviceBase {
     this.debugLog('openAPIpushChanges')
     const hasDifferentAndRelevantHorizontalTiltAngle
       = this.mappingMode === BlindTiltMappingMode.UseTiltForDirection
-      && this.WindowCovering.TargetHorizontalTiltAngle !== this.WindowCovering.CurrentHorizontalTiltAngle
+        && this.WindowCovering.TargetHorizontalTiltAngle !== this.WindowCovering.CurrentHorizontalTiltAngle
     if (this.WindowCovering.TargetPosition !== this.WindowCovering.CurrentPosition
       || hasDifferentAndRelevantHorizontalTiltAngle || this.device.disableCaching) {
       const [direction, position] = this.mapHomekitValuesToDeviceValues(Number(this.WindowCovering.TargetPosition), Number(this.WindowCovering.TargetHorizontalTiltAngle))
@@ -662,6 +678,8 @@ export class BlindTilt extends deviceBase {
    * Handle requests to set the value of the "Target Horizontal Tilt" characteristic
    */
   async TargetHorizontalTiltAngleSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.WindowCovering.TargetHorizontalTiltAngle !== this.accessory.context.TargetHorizontalTiltAngle) {
       this.debugLog(`Set TargetHorizontalTiltAngle: ${value}`)
     } else {
@@ -672,12 +690,15 @@ export class BlindTilt extends deviceBase {
     this.WindowCovering.TargetHorizontalTiltAngle = value
     await this.mqtt('TargetHorizontalTiltAngle', this.WindowCovering.TargetHorizontalTiltAngle)
     await this.startUpdatingBlindTiltIfNeeded()
+    await this.changeOutcome()
   }
 
   /**
    * Handle requests to set the value of the "Target Position" characteristic
    */
   async TargetPositionSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.WindowCovering.TargetPosition !== this.accessory.context.TargetPosition) {
       this.debugLog(`Set TargetPosition: ${value}`)
     } else {
@@ -687,6 +708,7 @@ export class BlindTilt extends deviceBase {
     this.WindowCovering.TargetPosition = value
     await this.mqtt('TargetPosition', this.WindowCovering.TargetPosition)
     await this.startUpdatingBlindTiltIfNeeded()
+    await this.changeOutcome()
   }
 
   async startUpdatingBlindTiltIfNeeded(): Promise<void> {
@@ -728,6 +750,7 @@ export class BlindTilt extends deviceBase {
    * Handle requests to set the value of the "Target Position" characteristic
    */
   async OpenModeSwitchSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
     if (this.OpenModeSwitch && (this.device as blindTiltConfig).silentModeSwitch) {
       this.debugLog(`Silent Open Mode: ${value}`)
       this.OpenModeSwitch.On = value
@@ -740,6 +763,7 @@ export class BlindTilt extends deviceBase {
    * Handle requests to set the value of the "Target Position" characteristic
    */
   async CloseModeSwitchSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
     if (this.CloseModeSwitch && (this.device as blindTiltConfig).silentModeSwitch) {
       this.debugLog(`Silent Close Mode: ${value}`)
       this.CloseModeSwitch.On = value
@@ -773,21 +797,6 @@ export class BlindTilt extends deviceBase {
     await this.updateCharacteristic(this.Battery.Service, this.hap.Characteristic.ChargingState, this.Battery.ChargingState, 'ChargingState')
   }
 
-  async BLEPushConnection() {
-    if (this.platform.config.credentials?.token && this.device.connectionType === 'BLE/OpenAPI') {
-      this.warnLog('Using OpenAPI Connection to Push Changes')
-      await this.openAPIpushChanges()
-    }
-  }
-
-  async BLERefreshConnection(switchbot: any): Promise<void> {
-    this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchbot}`)
-    if (this.platform.config.credentials?.token && this.device.connectionType === 'BLE/OpenAPI') {
-      this.warnLog('Using OpenAPI Connection to Refresh Status')
-      await this.openAPIRefreshStatus()
-    }
-  }
-
   async setPerformance() {
     let setPositionMode: number
     let Mode: string
@@ -849,21 +858,6 @@ export class BlindTilt extends deviceBase {
     }
   }
 
-  async apiError(e: any): Promise<void> {
-    this.WindowCovering.Service.updateCharacteristic(this.hap.Characteristic.CurrentPosition, e)
-    this.WindowCovering.Service.updateCharacteristic(this.hap.Characteristic.PositionState, e)
-    this.WindowCovering.Service.updateCharacteristic(this.hap.Characteristic.TargetPosition, e)
-    this.WindowCovering.Service.updateCharacteristic(this.hap.Characteristic.CurrentHorizontalTiltAngle, e)
-    this.WindowCovering.Service.updateCharacteristic(this.hap.Characteristic.TargetHorizontalTiltAngle, e)
-    this.Battery.Service.updateCharacteristic(this.hap.Characteristic.BatteryLevel, e)
-    this.Battery.Service.updateCharacteristic(this.hap.Characteristic.StatusLowBattery, e)
-    this.Battery.Service.updateCharacteristic(this.hap.Characteristic.ChargingState, e)
-    if (!(this.device as blindTiltConfig).hide_lightsensor && this.LightSensor?.Service) {
-      this.LightSensor.Service.updateCharacteristic(this.hap.Characteristic.CurrentAmbientLightLevel, e)
-      this.LightSensor.Service.updateCharacteristic(this.hap.Characteristic.StatusActive, e)
-    }
-  }
-
   async getCurrentPosttionDirection(
     direction: blindTiltStatus['direction'] | blindTiltWebhookContext['direction'],
     slidePosition: blindTiltStatus['slidePosition'] | blindTiltWebhookContext['slidePosition'],
@@ -0,0 +1,72 @@
+import { HAPStatus } from 'homebridge'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { accessoryHandler, bleAdvertisement, characteristic, createPlatform, discover, openAPIResponse } from '../test/harness.js'
+
+const bot = { deviceId: 'C1A2B3C4D5E6', deviceName: 'Kettle', deviceType: 'Bot', enableCloudService: true, hubDeviceId: '' }
+
+describe('bot', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('over BLE', () => {
+    async function bleBot(config: object = {}, options: object = {}) {
+      const devices = [{ deviceId: bot.deviceId, configDeviceType: 'Bot', configDeviceName: 'Kettle', connectionType: 'BLE', mode: 'switch', type: 'switch', maxRetry: 0, scanDuration: 1, updateRate: 1, ...config }]
+      const harness = createPlatform({ options: { devices, ...options } })
+      const device = harness.switchBotBLE.connectable(bot.deviceId)
+      const [accessory] = await discover(harness, [bot])
+      // the first refresh reads the next advertisement
+      await harness.switchBotBLE.advertise(bleAdvertisement(bot.deviceId, { model: 'H', modelName: 'WoHand', mode: 'switch', state: false, battery: 80 } as any))
+      const on = characteristic(accessory, harness.api.hap.Service.Switch, harness.api.hap.Characteristic.On)
+      return { harness, device, accessory, on }
+    }
+
+    it('sends the command through the BLE command queue', async () => {
+      const { harness, device, on } = await bleBot()
+
+      await on.handleSetRequest(true)
+
+      expect(device.turnOn).toHaveBeenCalledOnce()
+      expect(harness.switchBotBLE.discover).toHaveBeenCalledWith(expect.objectContaining({ id: device.address }))
+      expect(harness.controlDevice).not.toHaveBeenCalled()
+      expect(on.value).toBe(true)
+    })
+
+    it('rolls back when the command fails', async () => {
+      const { device, on } = await bleBot()
+      device.turnOn.mockRejectedValue(new Error('Disconnected'))
+
+      await expect(on.handleSetRequest(true)).rejects.toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE)
+
+      expect(on.value).toBe(false)
+    })
+
+    it('switches to the OpenAPI once the BLE circuit opens', async () => {
+      const { harness, device, accessory, on } = await bleBot({ connectionType: 'BLE/OpenAPI' }, { circuitBreakerThreshold: 1 })
+      device.turnOn.mockRejectedValue(new Error('Disconnected'))
+      await expect(on.handleSetRequest(true)).rejects.toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE)
+      // the device is "No Response" until a refresh, now over the OpenAPI, reaches it
+      harness.getDeviceStatus.mockResolvedValue(openAPIResponse(100, { power: 'off' }))
+      await accessoryHandler(accessory).refreshStatus()
+
+      await on.handleSetRequest(true)
+
+      expect(harness.controlDevice).toHaveBeenCalledWith(bot.deviceId, 'turnOn', 'default', 'command')
+      expect(device.turnOn).toHaveBeenCalledOnce()
+    })
+  })
+
+  it('sends a press to the OpenAPI in press mode, and does not retry it', async () => {
+    const harness = createPlatform({ options: { devices: [{ deviceId: bot.deviceId, configDeviceType: 'Bot', mode: 'press', type: 'switch' }], retryPolicy: { maxRetries: 3, initialDelay: 0 } } })
+    harness.getDeviceStatus.mockResolvedValue(openAPIResponse(100, { power: 'off' }))
+    harness.controlDevice.mockRejectedValue(Object.assign(new Error('timeout of 30000ms exceeded'), { code: 'ETIMEDOUT' }))
+    const [accessory] = await discover(harness, [bot])
+    const on = characteristic(accessory, harness.api.hap.Service.Switch, harness.api.hap.Characteristic.On)
+
+    await expect(on.handleSetRequest(true)).rejects.toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE)
+
+    expect(harness.controlDevice).toHaveBeenCalledOnce()
+    expect(harness.controlDevice).toHaveBeenCalledWith(bot.deviceId, 'press', 'default', 'command')
+  })
+})
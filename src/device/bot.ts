@@ -233,6 +233,14 @@ export class Bot extends deviceBase {
       this.errorLog(`failed to registerPlatformBLE, Error: ${e.message ?? e}`)
     }
 
+    // track BLE presence if enabled
+    try {
+      this.debugLog('Setting up BLE Presence')
+      this.setupBlePresence()
+    } catch (e: any) {
+      this.errorLog(`failed to setupBlePresence, Error: ${e.message ?? e}`)
+    }
+
     // Start an update interval
     interval(this.deviceRefreshRate * 1000)
       .pipe(skipWhile(() => this.botUpdateInProgress))
@@ -261,9 +269,11 @@ export class Bot extends deviceBase {
             await this.pushChanges()
           }
         } catch (e: any) {
+          await this.changeFailed(`Error: ${e.message ?? e}`)
           await this.apiError(e)
           this.errorLog(`failed pushChanges with ${device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
         }
+        await this.changeSettled()
         this.botUpdateInProgress = false
       })
   }
@@ -360,7 +370,7 @@ export class Bot extends deviceBase {
   async refreshStatus(): Promise<void> {
     if (!this.device.enableCloudService && this.OpenAPI) {
       this.errorLog(`refreshStatus enableCloudService: ${this.device.enableCloudService}`)
-    } else if (this.BLE) {
+    } else if (this.useBLE()) {
       await this.BLERefreshStatus()
     } else if (this.OpenAPI && this.platform.config.credentials?.token) {
       await this.openAPIRefreshStatus()
@@ -374,12 +384,13 @@ export class Bot extends deviceBase {
     this.debugLog('BLERefreshStatus')
     const switchBotBLE = await this.switchbotBLE()
     if (switchBotBLE === undefined) {
-      await this.BLERefreshConnection(switchBotBLE)
+      this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchBotBLE}`)
+      this.connection.failure('BLE')
     } else {
       // Start to monitor advertisement packets
       (async () => {
         // Start to monitor advertisement packets
-        const serviceData = await this.monitorAdvertisementPackets(switchBotBLE) as botServiceData
+        const serviceData = await this.monitorAdvertisementPackets() as botServiceData
         // Update HomeKit
         if (serviceData.model === SwitchBotBLEModel.Bot && serviceData.modelName === SwitchBotBLEModelName.Bot) {
           this.serviceData = serviceData
@@ -387,7 +398,7 @@ export class Bot extends deviceBase {
           await this.updateHomeKitCharacteristics()
         } else {
           this.errorLog(`failed to get serviceData, serviceData: ${JSON.stringify(serviceData)}`)
-          await this.BLERefreshConnection(switchBotBLE)
+          this.connection.failure('BLE')
         }
       })()
     }
@@ -468,7 +479,7 @@ export class Bot extends deviceBase {
   async pushChanges(): Promise<void> {
     if (!this.device.enableCloudService && this.OpenAPI) {
       this.errorLog(`pushChanges enableCloudService: ${this.device.enableCloudService}`)
-    } else if (this.BLE) {
+    } else if (this.useBLE()) {
       await this.BLEpushChanges()
     } else if (this.OpenAPI && this.platform.config.credentials?.token) {
       await this.openAPIpushChanges()
@@ -489,7 +500,6 @@ export class Bot extends deviceBase {
     this.debugLog('BLEpushChanges')
     if ((this.On !== this.accessory.context.On) || this.allowPush) {
       this.debugLog(`BLEpushChanges On: ${this.On} OnCached: ${this.accessory.context.On}`)
-      const switchBotBLE = this.platform.switchBotBLE
       try {
         const formattedDeviceId = formatDeviceIdAsMac(this.device.deviceId)
         this.device.bleMac = formattedDeviceId
@@ -497,13 +507,11 @@ export class Bot extends deviceBase {
         // if (switchBotBLE !== false) {
         this.debugLog(`Bot Mode: ${this.botMode}`)
         if (this.botMode === 'press') {
-          switchBotBLE
-            .discover({ model: this.device.bleModel, quick: true, id: this.device.bleMac })
-            .then(async (device_list: SwitchbotDevice[]) => {
-              const deviceList = device_list as WoHand[]
-              this.infoLog(`On: ${this.On}`)
-              return await deviceList[0].press()
-            })
+          this.bleCommand(async (device_list: SwitchbotDevice[]) => {
+            const deviceList = device_list as WoHand[]
+            this.infoLog(`On: ${this.On}`)
+            return await deviceList[0].press()
+          })
             .then(async () => {
               this.successLog(`On: ${this.On} sent over SwitchBot BLE, sent successfully`)
               await this.updateHomeKitCharacteristics()
@@ -516,30 +524,27 @@ export class Bot extends deviceBase {
             .catch(async (e: any) => {
               await this.apiError(e)
               this.errorLog(`failed BLEpushChanges with ${this.device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
-              await this.BLEPushConnection()
             })
         } else if (this.botMode === 'switch') {
-          switchBotBLE
-            .discover({ model: this.device.bleModel, quick: true, id: this.device.bleMac })
-            .then(async (device_list: SwitchbotDevice[]) => {
-              const deviceList = device_list as WoHand[]
-              this.infoLog(`On: ${this.On}`)
-              this.warnLog(`device_list: ${JSON.stringify(device_list)}`)
-              return await this.retryBLE({
-                max: this.maxRetryBLE(),
-                fn: async () => {
-                  if (deviceList.length > 0) {
-                    if (this.On) {
-                      return await deviceList[0].turnOn()
-                    } else {
-                      return await deviceList[0].turnOff()
-                    }
+          this.bleCommand(async (device_list: SwitchbotDevice[]) => {
+            const deviceList = device_list as WoHand[]
+            this.infoLog(`On: ${this.On}`)
+            this.warnLog(`device_list: ${JSON.stringify(device_list)}`)
+            return await this.retryBLE({
+              max: this.maxRetryBLE(),
+              fn: async () => {
+                if (deviceList.length > 0) {
+                  if (this.On) {
+                    return await deviceList[0].turnOn()
                   } else {
-                    throw new Error('No device found')
+                    return await deviceList[0].turnOff()
                   }
-                },
-              })
+                } else {
+                  throw new Error('No device found')
+                }
+              },
             })
+          })
             .then(async () => {
               this.successLog(`On: ${this.On} sent over SwitchBot BLE, sent successfully`)
               await this.updateHomeKitCharacteristics()
@@ -547,7 +552,6 @@ export class Bot extends deviceBase {
             .catch(async (e: any) => {
               await this.apiError(e)
               this.errorLog(`failed BLEpushChanges with ${this.device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
-              await this.BLEPushConnection()
             })
         } else {
           this.errorLog(`Device Parameters not set for this Bot, please check the device configuration. Bot Mode: ${this.botMode}`)
@@ -614,6 +618,8 @@ export class Bot extends deviceBase {
    * Handle requests to set the "On" characteristic
    */
   async OnSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     this.debugLog(`value: ${value}`)
     const deviceTypeActions: { [key: string]: () => void } = {
       switch: () => this.On = value !== false,
@@ -636,6 +642,7 @@ export class Bot extends deviceBase {
     const action = deviceTypeActions[this.botDeviceType] || deviceTypeActions.default
     action()
     this.doBotUpdate.next()
+    await this.changeOutcome()
   }
 
   /**
@@ -819,21 +826,6 @@ export class Bot extends deviceBase {
     this.debugWarnLog(`Multi Press Count: ${this.multiPressCount}`)
   }
 
-  async BLEPushConnection() {
-    if (this.platform.config.credentials?.token && this.device.connectionType === 'BLE/OpenAPI') {
-      this.warnLog('Using OpenAPI Connection to Push Changes')
-      await this.openAPIpushChanges()
-    }
-  }
-
-  async BLERefreshConnection(switchbot: any): Promise<void> {
-    this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchbot}`)
-    if (this.platform.config.credentials?.token && this.device.connectionType === 'BLE/OpenAPI') {
-      this.warnLog('Using OpenAPI Connection to Refresh Status')
-      await this.openAPIRefreshStatus()
-    }
-  }
-
   async offlineOff(): Promise<void> {
     if (this.device.offline) {
       const updateCharacteristics = (service: Service, characteristics: { [key: string]: any }) => {
@@ -861,33 +853,4 @@ export class Bot extends deviceBase {
       }
     }
   }
-
-  async apiError(e: any): Promise<void> {
-    const updateCharacteristics = (service: Service, characteristics: { [key: string]: any }) => {
-      for (const [characteristic] of Object.entries(characteristics)) {
-        service.updateCharacteristic(this.hap.Characteristic[characteristic], e)
-      }
-    }
-
-    const characteristicsMap: { [key: string]: { [key: string]: any } } = {
-      garagedoor: { TargetDoorState: e, CurrentDoorState: e, ObstructionDetected: e },
-      door: { TargetPosition: e, CurrentPosition: e, PositionState: e },
-      window: { TargetPosition: e, CurrentPosition: e, PositionState: e },
-      windowcovering: { TargetPosition: e, CurrentPosition: e, PositionState: e },
-      lock: { LockTargetState: e, LockCurrentState: e },
-      faucet: { Active: e },
-      fan: { On: e },
-      stateful: { ProgrammableSwitchEvent: e, ProgrammableSwitchOutputState: e },
-      switch: { On: e },
-      outlet: { On: e },
-    }
-
-    this.Battery.Service.updateCharacteristic(this.hap.Characteristic.BatteryLevel, e)
-    this.Battery.Service.updateCharacteristic(this.hap.Characteristic.StatusLowBattery, e)
-
-    const service = this[this.botDeviceType.charAt(0).toUpperCase() + this.botDeviceType.slice(1)]?.Service
-    if (service) {
-      updateCharacteristics(service, characteristicsMap[this.botDeviceType])
-    }
-  }
 }
@@ -103,6 +103,7 @@ export class CeilingLight extends deviceBase {
 
     // Initialize LightBulb Characteristics
     this.LightBulb.Service.setCharacteristic(this.hap.Characteristic.Name, this.LightBulb.Name).getCharacteristic(this.hap.Characteristic.On).onGet(() => {
+      this.reachable()
       return this.LightBulb.On
     }).onSet(this.OnSet.bind(this))
 
@@ -113,6 +114,7 @@ export class CeilingLight extends deviceBase {
       maxValue: 100,
       validValueRanges: [0, 100],
     }).onGet(() => {
+      this.reachable()
       return this.LightBulb.Brightness
     }).onSet(this.BrightnessSet.bind(this))
 
@@ -122,6 +124,7 @@ export class CeilingLight extends deviceBase {
       maxValue: 500,
       validValueRanges: [140, 500],
     }).onGet(() => {
+      this.reachable()
       return this.LightBulb.ColorTemperature!
     }).onSet(this.ColorTemperatureSet.bind(this))
 
@@ -131,6 +134,7 @@ export class CeilingLight extends deviceBase {
       maxValue: 360,
       validValueRanges: [0, 360],
     }).onGet(() => {
+      this.reachable()
       return this.LightBulb.Hue
     }).onSet(this.HueSet.bind(this))
 
@@ -140,6 +144,7 @@ export class CeilingLight extends deviceBase {
       maxValue: 100,
       validValueRanges: [0, 100],
     }).onGet(() => {
+      this.reachable()
       return this.LightBulb.Saturation
     }).onSet(this.SaturationSet.bind(this))
 
@@ -167,6 +172,14 @@ export class CeilingLight extends deviceBase {
       this.errorLog(`failed to registerPlatformBLE, Error: ${e.message ?? e}`)
     }
 
+    // track BLE presence if enabled
+    try {
+      this.debugLog('Setting up BLE Presence')
+      this.setupBlePresence()
+    } catch (e: any) {
+      this.errorLog(`failed to setupBlePresence, Error: ${e.message ?? e}`)
+    }
+
     // Start an update interval
     interval(this.deviceRefreshRate * 1000)
       .pipe(skipWhile(() => this.ceilingLightUpdateInProgress))
@@ -187,9 +200,11 @@ export class CeilingLight extends deviceBase {
         try {
           await this.pushChanges()
         } catch (e: any) {
+          await this.changeFailed(`Error: ${e.message ?? e}`)
           await this.apiError(e)
           this.errorLog(`failed pushChanges with ${device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
         }
+        await this.changeSettled()
         this.ceilingLightUpdateInProgress = false
       })
   }
@@ -271,7 +286,7 @@ export class CeilingLight extends deviceBase {
   async refreshStatus(): Promise<void> {
     if (!this.device.enableCloudService && this.OpenAPI) {
       this.errorLog(`refreshStatus enableCloudService: ${this.device.enableCloudService}`)
-    } else if (this.BLE) {
+    } else if (this.useBLE()) {
       await this.BLERefreshStatus()
     } else if (this.OpenAPI && this.platform.config.credentials?.token) {
       await this.openAPIRefreshStatus()
@@ -285,11 +300,12 @@ export class CeilingLight extends deviceBase {
     this.debugLog('BLERefreshStatus')
     const switchBotBLE = await this.switchbotBLE()
     if (switchBotBLE === undefined) {
-      await this.BLERefreshConnection(switchBotBLE)
+      this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchBotBLE}`)
+      this.connection.failure('BLE')
     } else {
       (async () => {
         // Start to monitor advertisement packets
-        const serviceData = await this.monitorAdvertisementPackets(switchBotBLE) as ceilingLightServiceData
+        const serviceData = await this.monitorAdvertisementPackets() as ceilingLightServiceData
         // Update HomeKit
         if ((serviceData.model === SwitchBotBLEModel.CeilingLight || SwitchBotBLEModel.CeilingLightPro) && (serviceData.modelName === SwitchBotBLEModelName.CeilingLight || SwitchBotBLEModelName.CeilingLightPro)) {
           this.serviceData = serviceData
@@ -297,7 +313,7 @@ export class CeilingLight extends deviceBase {
           await this.updateHomeKitCharacteristics()
         } else {
           this.errorLog(`failed to get serviceData, serviceData: ${JSON.stringify(serviceData)}`)
-          await this.BLERefreshConnection(switchBotBLE)
+          this.connection.failure('BLE')
         }
       })()
     }
@@ -382,7 +398,7 @@ export class CeilingLight extends deviceBase {
   async pushChanges(): Promise<void> {
     if (!this.device.enableCloudService && this.OpenAPI) {
       this.errorLog(`pushChanges enableCloudService: ${this.device.enableCloudService}`)
-    } else if (this.BLE) {
+    } else if (this.useBLE()) {
       await this.BLEpushChanges()
     } else if (this.OpenAPI && this.platform.config.credentials?.token) {
       await this.openAPIpushChanges()
@@ -423,22 +439,20 @@ export class CeilingLight extends deviceBase {
         this.device.bleMac = formattedDeviceId
         this.debugLog(`bleMac: ${this.device.bleMac}`)
         if (switchBotBLE !== false) {
-          switchBotBLE
-            .discover({ model: this.device.bleModel, id: this.device.bleMac })
-            .then(async (device_list: SwitchbotDevice[]) => {
-              const deviceList = device_list[0] as WoCeilingLight
-              this.infoLog(`On: ${this.LightBulb.On}`)
-              return await this.retryBLE({
-                max: this.maxRetryBLE(),
-                fn: async () => {
-                  if (this.LightBulb.On) {
-                    return await deviceList[0].turnOn()
-                  } else {
-                    return await deviceList[0].turnOff()
-                  }
-                },
-              })
+          this.bleCommand(async (device_list: SwitchbotDevice[]) => {
+            const deviceList = device_list[0] as WoCeilingLight
+            this.infoLog(`On: ${this.LightBulb.On}`)
+            return await this.retryBLE({
+              max: this.maxRetryBLE(),
+              fn: async () => {
+                if (this.LightBulb.On) {
+                  return await deviceList[0].turnOn()
+                } else {
+                  return await deviceList[0].turnOff()
+                }
+              },
             })
+          })
             .then(async () => {
               this.successLog(`On: ${this.LightBulb.On} sent over SwitchBot BLE, sent successfully`)
               this.LightBulb.On = false
@@ -446,11 +460,11 @@ export class CeilingLight extends deviceBase {
             .catch(async (e: any) => {
               await this.apiError(e)
               this.errorLog(`failed BLEpushChanges with ${this.device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
-              await this.BLEPushConnection()
             })
         } else {
           this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${JSON.stringify(switchBotBLE)}`)
-          await this.BLEPushConnection()
+          this.connection.failure('BLE')
+          await this.changeFailed('BLE connection could not be established')
         }
       } catch (error) {
         this.errorLog(`failed to format device ID as MAC, Error: ${error}`)
@@ -583,6 +597,8 @@ export class CeilingLight extends deviceBase {
    * Handle requests to set the value of the "On" characteristic
    */
   async OnSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.LightBulb.On !== this.accessory.context.On) {
       this.infoLog(`Set On: ${value}`)
     } else {
@@ -591,12 +607,15 @@ export class CeilingLight extends deviceBase {
 
     this.LightBulb.On = value
     this.doCeilingLightUpdate.next()
+    await this.changeOutcome()
   }
 
   /**
    * Handle requests to set the value of the "Brightness" characteristic
    */
   async BrightnessSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.LightBulb.On && (this.LightBulb.Brightness !== this.accessory.context.Brightness)) {
       this.infoLog(`Set Brightness: ${value}`)
     } else {
@@ -608,12 +627,14 @@ export class CeilingLight extends deviceBase {
     }
     this.LightBulb.Brightness = value
     this.doCeilingLightUpdate.next()
+    await this.changeOutcome()
   }
 
   /**
    * Handle requests to set the value of the "ColorTemperature" characteristic
    */
   async ColorTemperatureSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
     if (this.LightBulb.On && (this.LightBulb.ColorTemperature !== this.accessory.context.ColorTemperature)) {
       this.infoLog(`Set ColorTemperature: ${value}`)
     } else {
@@ -635,6 +656,7 @@ export class CeilingLight extends deviceBase {
     if (!this.accessory.context.On || this.accessory.context.kelvin === k) {
       return
     }
+    this.rememberState()
 
     // Updating the hue/sat to the corresponding values mimics native adaptive lighting
     const hs = m2hs(value)
@@ -643,12 +665,15 @@ export class CeilingLight extends deviceBase {
 
     this.LightBulb.ColorTemperature = value
     this.doCeilingLightUpdate.next()
+    await this.changeOutcome()
   }
 
   /**
    * Handle requests to set the value of the "Hue" characteristic
    */
   async HueSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.LightBulb.On && (this.LightBulb.Hue !== this.accessory.context.Hue)) {
       this.infoLog(`Set Hue: ${value}`)
     } else {
@@ -663,12 +688,15 @@ export class CeilingLight extends deviceBase {
 
     this.LightBulb.Hue = value
     this.doCeilingLightUpdate.next()
+    await this.changeOutcome()
   }
 
   /**
    * Handle requests to set the value of the "Saturation" characteristic
    */
   async SaturationSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.LightBulb.On && (this.LightBulb.Saturation !== this.accessory.context.Saturation)) {
       this.infoLog(`Set Saturation: ${value}`)
     } else {
@@ -683,6 +711,7 @@ export class CeilingLight extends deviceBase {
 
     this.LightBulb.Saturation = value
     this.doCeilingLightUpdate.next()
+    await this.changeOutcome()
   }
 
   async updateHomeKitCharacteristics(): Promise<void> {
@@ -707,32 +736,9 @@ export class CeilingLight extends deviceBase {
     this.debugLog(`adaptiveLightingShift: ${this.adaptiveLightingShift}`)
   }
 
-  async BLEPushConnection() {
-    if (this.platform.config.credentials?.token && this.device.connectionType === 'BLE/OpenAPI') {
-      this.warnLog('Using OpenAPI Connection to Push Changes')
-      await this.openAPIpushChanges()
-    }
-  }
-
-  async BLERefreshConnection(switchbot: any): Promise<void> {
-    this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchbot}`)
-    if (this.platform.config.credentials?.token && this.device.connectionType === 'BLE/OpenAPI') {
-      this.warnLog('Using OpenAPI Connection to Refresh Status')
-      await this.openAPIRefreshStatus()
-    }
-  }
-
   async offlineOff(): Promise<void> {
     if (this.device.offline) {
       this.LightBulb.Service.updateCharacteristic(this.hap.Characteristic.On, false)
     }
   }
-
-  async apiError(e: any): Promise<void> {
-    this.LightBulb.Service.updateCharacteristic(this.hap.Characteristic.On, e)
-    this.LightBulb.Service.updateCharacteristic(this.hap.Characteristic.Hue, e)
-    this.LightBulb.Service.updateCharacteristic(this.hap.Characteristic.Brightness, e)
-    this.LightBulb.Service.updateCharacteristic(this.hap.Characteristic.Saturation, e)
-    this.LightBulb.Service.updateCharacteristic(this.hap.Characteristic.ColorTemperature, e)
-  }
 }
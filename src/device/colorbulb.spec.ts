@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { characteristic, createPlatform, deviceStatus, discover, openAPIResponse } from '../test/harness.js'
+
+const colorBulb = { deviceId: 'D5A2B3C4D5E6', deviceName: 'Desk Lamp', deviceType: 'Color Bulb', enableCloudService: true, hubDeviceId: 'F1A2B3C4D5E6' }
+
+describe('color bulb', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  async function openAPIColorBulb(status: object = {}) {
+    const harness = createPlatform()
+    harness.getDeviceStatus.mockResolvedValue(openAPIResponse(100, deviceStatus(colorBulb.deviceId, { power: 'on', brightness: 80, color: '255:0:0', colorTemperature: 2700, ...status })))
+    const [accessory] = await discover(harness, [colorBulb])
+    const { Service, Characteristic } = harness.api.hap
+    const lightBulb = (type: any) => characteristic(accessory, Service.Lightbulb, type)
+    return { harness, accessory, lightBulb, Characteristic }
+  }
+
+  it('reads its power, brightness, color and color temperature', async () => {
+    const { lightBulb, Characteristic } = await openAPIColorBulb()
+
+    await vi.waitFor(() => expect(lightBulb(Characteristic.Brightness).value).toBe(80))
+    expect(lightBulb(Characteristic.On).value).toBe(true)
+    expect(lightBulb(Characteristic.Hue).value).toBe(0)
+    expect(lightBulb(Characteristic.Saturation).value).toBe(100)
+    expect(lightBulb(Characteristic.ColorTemperature).value).toBe(370)
+  })
+
+  it('turns off', async () => {
+    const { harness, lightBulb, Characteristic } = await openAPIColorBulb()
+
+    await lightBulb(Characteristic.On).handleSetRequest(false)
+
+    await vi.waitFor(() => expect(harness.controlDevice).toHaveBeenCalledWith(colorBulb.deviceId, 'turnOff', 'default', 'command'))
+  })
+
+  it('sets the brightness', async () => {
+    const { harness, lightBulb, Characteristic } = await openAPIColorBulb()
+
+    await lightBulb(Characteristic.Brightness).handleSetRequest(50)
+
+    await vi.waitFor(() => expect(harness.controlDevice).toHaveBeenCalledWith(colorBulb.deviceId, 'setBrightness', '50', 'command'))
+  })
+
+  it('sets the color from the hue and saturation', async () => {
+    const { harness, lightBulb, Characteristic } = await openAPIColorBulb()
+
+    await lightBulb(Characteristic.Hue).handleSetRequest(120)
+
+    await vi.waitFor(() => expect(harness.controlDevice).toHaveBeenCalledWith(colorBulb.deviceId, 'setColor', '0:255:0', 'command'))
+  })
+
+  it('sets the color temperature in kelvin', async () => {
+    const { harness, lightBulb, Characteristic } = await openAPIColorBulb()
+
+    await lightBulb(Characteristic.ColorTemperature).handleSetRequest(250)
+
+    await vi.waitFor(() => expect(harness.controlDevice).toHaveBeenCalledWith(colorBulb.deviceId, 'setColorTemperature', '4000', 'command'))
+  })
+})
@@ -84,6 +84,7 @@ export class ColorBulb extends deviceBase {
 
     // Initialize LightBulb Characteristics
     this.LightBulb.Service.setCharacteristic(this.hap.Characteristic.Name, this.LightBulb.Name).getCharacteristic(this.hap.Characteristic.On).onGet(() => {
+      this.reachable()
       return this.LightBulb.On
     }).onSet(this.OnSet.bind(this))
 
@@ -93,6 +94,7 @@ export class ColorBulb extends deviceBase {
       maxValue: 100,
       validValueRanges: [0, 100],
     }).onGet(() => {
+      this.reachable()
       return this.LightBulb.Brightness
     }).onSet(this.BrightnessSet.bind(this))
 
@@ -101,6 +103,7 @@ export class ColorBulb extends deviceBase {
       maxValue: 500,
       validValueRanges: [140, 500],
     }).onGet(() => {
+      this.reachable()
       return this.LightBulb.ColorTemperature!
     }).onSet(this.ColorTemperatureSet.bind(this))
 
@@ -109,6 +112,7 @@ export class ColorBulb extends deviceBase {
       maxValue: 360,
       validValueRanges: [0, 360],
     }).onGet(() => {
+      this.reachable()
       return this.LightBulb.Hue
     }).onSet(this.HueSet.bind(this))
 
@@ -117,9 +121,9 @@ export class ColorBulb extends deviceBase {
       maxValue: 100,
       validValueRanges: [0, 100],
     }).onGet(() => {
+      this.reachable()
       return this.LightBulb.Saturation
     }).onSet(this.SaturationSet.bind(this))
-    
 
     if (this.adaptiveLighting && this.adaptiveLightingShift === -1 && this.LightBulb) {
       accessory.removeService(this.LightBulb.Service)
@@ -140,7 +144,6 @@ export class ColorBulb extends deviceBase {
       this.debugLog(`adaptiveLighting: ${accessory.context.adaptiveLighting}`)
     }
 
-
     // Retrieve initial values and updateHomekit
     try {
       this.debugLog('Retrieve initial values and update Homekit')
@@ -165,6 +168,14 @@ export class ColorBulb extends deviceBase {
       this.errorLog(`failed to registerPlatformBLE, Error: ${e.message ?? e}`)
     }
 
+    // track BLE presence if enabled
+    try {
+      this.debugLog('Setting up BLE Presence')
+      this.setupBlePresence()
+    } catch (e: any) {
+      this.errorLog(`failed to setupBlePresence, Error: ${e.message ?? e}`)
+    }
+
     // Start an update interval
     interval(this.deviceRefreshRate * 1000)
       .pipe(skipWhile(() => this.colorBulbUpdateInProgress))
@@ -185,9 +196,11 @@ export class ColorBulb extends deviceBase {
         try {
           await this.pushChanges()
         } catch (e: any) {
+          await this.changeFailed(`Error: ${e.message ?? e}`)
           await this.apiError(e)
           this.errorLog(`failed pushChanges with ${device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
         }
+        await this.changeSettled()
         this.colorBulbUpdateInProgress = false
       })
   }
@@ -295,7 +308,7 @@ export class ColorBulb extends deviceBase {
   async refreshStatus(): Promise<void> {
     if (!this.device.enableCloudService && this.OpenAPI) {
       this.errorLog(`refreshStatus enableCloudService: ${this.device.enableCloudService}`)
-    } else if (this.BLE) {
+    } else if (this.useBLE()) {
       await this.BLERefreshStatus()
     } else if (this.OpenAPI && this.platform.config.credentials?.token) {
       await this.openAPIRefreshStatus()
@@ -309,12 +322,13 @@ export class ColorBulb extends deviceBase {
     this.debugLog('BLERefreshStatus')
     const switchBotBLE = await this.switchbotBLE()
     if (switchBotBLE === undefined) {
-      await this.BLERefreshConnection(switchBotBLE)
+      this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchBotBLE}`)
+      this.connection.failure('BLE')
     } else {
       // Start to monitor advertisement packets
       (async () => {
         // Start to monitor advertisement packets
-        const serviceData = await this.monitorAdvertisementPackets(switchBotBLE) as colorBulbServiceData
+        const serviceData = await this.monitorAdvertisementPackets() as colorBulbServiceData
         // Update HomeKit
         if (serviceData.model === SwitchBotBLEModel.ColorBulb && serviceData.modelName === SwitchBotBLEModelName.ColorBulb) {
           this.serviceData = serviceData
@@ -322,7 +336,7 @@ export class ColorBulb extends deviceBase {
           await this.updateHomeKitCharacteristics()
         } else {
           this.errorLog(`failed to get serviceData, serviceData: ${JSON.stringify(serviceData)}`)
-          await this.BLERefreshConnection(switchBotBLE)
+          this.connection.failure('BLE')
         }
       })()
     }
@@ -407,7 +421,7 @@ export class ColorBulb extends deviceBase {
   async pushChanges(): Promise<void> {
     if (!this.device.enableCloudService && this.OpenAPI) {
       this.errorLog(`pushChanges enableCloudService: ${this.device.enableCloudService}`)
-    } else if (this.BLE) {
+    } else if (this.useBLE()) {
       await this.BLEpushChanges()
       if (this.LightBulb.On) {
         // Push Brightness Update
@@ -460,21 +474,19 @@ export class ColorBulb extends deviceBase {
         this.device.bleMac = formattedDeviceId
         this.debugLog(`bleMac: ${this.device.bleMac}`)
         if (switchBotBLE !== false) {
-          switchBotBLE
-            .discover({ model: this.device.bleModel, id: this.device.bleMac })
-            .then(async (device_list: WoBulb[]) => {
-              this.infoLog(`On: ${this.LightBulb.On}`)
-              return await this.retryBLE({
-                max: this.maxRetryBLE(),
-                fn: async () => {
-                  if (this.LightBulb.On) {
-                    return await device_list[0].turnOn()
-                  } else {
-                    return await device_list[0].turnOff()
-                  }
-                },
-              })
+          this.bleCommand(async (device_list: WoBulb[]) => {
+            this.infoLog(`On: ${this.LightBulb.On}`)
+            return await this.retryBLE({
+              max: this.maxRetryBLE(),
+              fn: async () => {
+                if (this.LightBulb.On) {
+                  return await device_list[0].turnOn()
+                } else {
+                  return await device_list[0].turnOff()
+                }
+              },
             })
+          })
             .then(async () => {
               this.successLog(`On: ${this.LightBulb.On} sent over SwitchBot BLE, sent successfully`)
               await this.updateHomeKitCharacteristics()
@@ -482,11 +494,11 @@ export class ColorBulb extends deviceBase {
             .catch(async (e: any) => {
               await this.apiError(e)
               this.errorLog(`failed BLEpushChanges with ${this.device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
-              await this.BLEPushConnection()
             })
         } else {
           this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${JSON.stringify(switchBotBLE)}`)
-          await this.BLEPushConnection()
+          this.connection.failure('BLE')
+          await this.changeFailed('BLE connection could not be established')
         }
       } catch (error) {
         this.errorLog(`failed to format device ID as MAC, Error: ${error}`)
@@ -505,13 +517,11 @@ export class ColorBulb extends deviceBase {
         this.device.bleMac = formattedDeviceId
         this.debugLog(`bleMac: ${this.device.bleMac}`)
         if (switchBotBLE !== false) {
-          switchBotBLE
-            .discover({ model: this.device.bleModel, id: this.device.bleMac })
-            .then(async (device_list: SwitchbotDevice[]) => {
-              const deviceList = device_list as WoBulb[]
-              this.infoLog(`Target Brightness: ${this.LightBulb.Brightness}`)
-              return await deviceList[0].setBrightness(Number(this.LightBulb.Brightness))
-            })
+          this.bleCommand(async (device_list: SwitchbotDevice[]) => {
+            const deviceList = device_list as WoBulb[]
+            this.infoLog(`Target Brightness: ${this.LightBulb.Brightness}`)
+            return await deviceList[0].setBrightness(Number(this.LightBulb.Brightness))
+          })
             .then(async () => {
               this.successLog(`Brightness: ${this.LightBulb.Brightness} sent over SwitchBot BLE, sent successfully`)
               await this.updateHomeKitCharacteristics()
@@ -519,11 +529,11 @@ export class ColorBulb extends deviceBase {
             .catch(async (e: any) => {
               await this.apiError(e)
               this.errorLog(`failed BLEpushChanges with ${this.device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
-              await this.BLEPushConnection()
             })
         } else {
           this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${JSON.stringify(switchBotBLE)}`)
-          await this.BLEPushConnection()
+          this.connection.failure('BLE')
+          await this.changeFailed('BLE connection could not be established')
         }
       } catch (error) {
         this.errorLog(`failed to format device ID as MAC, Error: ${error}`)
@@ -544,13 +554,11 @@ export class ColorBulb extends deviceBase {
         this.device.bleMac = formattedDeviceId
         this.debugLog(`bleMac: ${this.device.bleMac}`)
         if (switchBotBLE !== false) {
-          switchBotBLE
-            .discover({ model: this.device.bleModel, id: this.device.bleMac })
-            .then(async (device_list: SwitchbotDevice[]) => {
-              const deviceList = device_list as WoBulb[]
-              this.infoLog(`ColorTemperature: ${this.LightBulb.ColorTemperature}`)
-              return await deviceList[0].setColorTemperature(kelvin)
-            })
+          this.bleCommand(async (device_list: SwitchbotDevice[]) => {
+            const deviceList = device_list as WoBulb[]
+            this.infoLog(`ColorTemperature: ${this.LightBulb.ColorTemperature}`)
+            return await deviceList[0].setColorTemperature(kelvin)
+          })
             .then(async () => {
               this.successLog(`ColorTemperature: ${this.LightBulb.ColorTemperature} sent over SwitchBot BLE, sent successfully`)
               await this.updateHomeKitCharacteristics()
@@ -558,11 +566,11 @@ export class ColorBulb extends deviceBase {
             .catch(async (e: any) => {
               await this.apiError(e)
               this.errorLog(`failed BLEpushRGBChanges with ${this.device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
-              await this.BLEPushConnection()
             })
         } else {
           this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${JSON.stringify(switchBotBLE)}`)
-          await this.BLEPushConnection()
+          this.connection.failure('BLE')
+          await this.changeFailed('BLE connection could not be established')
         }
       } catch (error) {
         this.errorLog(`failed to format device ID as MAC, Error: ${error}`)
@@ -584,13 +592,11 @@ export class ColorBulb extends deviceBase {
         this.device.bleMac = formattedDeviceId
         this.debugLog(`bleMac: ${this.device.bleMac}`)
         if (switchBotBLE !== false) {
-          switchBotBLE
-            .discover({ model: this.device.bleModel, id: this.device.bleMac })
-            .then(async (device_list: SwitchbotDevice[]) => {
-              const deviceList = device_list as WoBulb[]
-              this.infoLog(`RGB: ${(this.LightBulb.Brightness, red, green, blue)}`)
-              return await deviceList[0].setRGB(Number(this.LightBulb.Brightness), red, green, blue)
-            })
+          this.bleCommand(async (device_list: SwitchbotDevice[]) => {
+            const deviceList = device_list as WoBulb[]
+            this.infoLog(`RGB: ${(this.LightBulb.Brightness, red, green, blue)}`)
+            return await deviceList[0].setRGB(Number(this.LightBulb.Brightness), red, green, blue)
+          })
             .then(async () => {
               this.successLog(`RGB: ${(this.LightBulb.Brightness, red, green, blue)} sent over SwitchBot BLE, sent successfully`)
               await this.updateHomeKitCharacteristics()
@@ -598,11 +604,11 @@ export class ColorBulb extends deviceBase {
             .catch(async (e: any) => {
               await this.apiError(e)
               this.errorLog(`failed BLEpushRGBChanges with ${this.device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
-              await this.BLEPushConnection()
             })
         } else {
           this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${JSON.stringify(switchBotBLE)}`)
-          await this.BLEPushConnection()
+          this.connection.failure('BLE')
+          await this.changeFailed('BLE connection could not be established')
         }
       } catch (error) {
         this.errorLog(`failed to format device ID as MAC, Error: ${error}`)
@@ -734,6 +740,8 @@ export class ColorBulb extends deviceBase {
    * Handle requests to set the value of the "On" characteristic
    */
   async OnSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.LightBulb.On !== this.accessory.context.On) {
       this.infoLog(`Set On: ${value}`)
     } else {
@@ -742,12 +750,15 @@ export class ColorBulb extends deviceBase {
 
     this.LightBulb.On = value
     this.doColorBulbUpdate.next()
+    await this.changeOutcome()
   }
 
   /**
    * Handle requests to set the value of the "Brightness" characteristic
    */
   async BrightnessSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.LightBulb.On && (this.LightBulb.Brightness !== this.accessory.context.Brightness)) {
       this.infoLog(`Set Brightness: ${value}`)
     } else {
@@ -760,12 +771,14 @@ export class ColorBulb extends deviceBase {
 
     this.LightBulb.Brightness = value
     this.doColorBulbUpdate.next()
+    await this.changeOutcome()
   }
 
   /**
    * Handle requests to set the value of the "ColorTemperature" characteristic
    */
   async ColorTemperatureSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
     if (this.LightBulb.On && (this.LightBulb.ColorTemperature !== this.accessory.context.ColorTemperature)) {
       this.infoLog(`Set ColorTemperature: ${value}`)
     } else {
@@ -787,6 +800,7 @@ export class ColorBulb extends deviceBase {
     if (!this.accessory.context.On || this.accessory.context.kelvin === k) {
       return
     }
+    this.rememberState()
 
     // Updating the hue/sat to the corresponding values mimics native adaptive lighting
     const hs = m2hs(value)
@@ -795,12 +809,15 @@ export class ColorBulb extends deviceBase {
 
     this.LightBulb.ColorTemperature = value
     this.doColorBulbUpdate.next()
+    await this.changeOutcome()
   }
 
   /**
    * Handle requests to set the value of the "Hue" characteristic
    */
   async HueSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.LightBulb.On && (this.LightBulb.Hue !== this.accessory.context.Hue)) {
       this.infoLog(`Set Hue: ${value}`)
     } else {
@@ -815,12 +832,15 @@ export class ColorBulb extends deviceBase {
 
     this.LightBulb.Hue = value
     this.doColorBulbUpdate.next()
+    await this.changeOutcome()
   }
 
   /**
    * Handle requests to set the value of the "Saturation" characteristic
    */
   async SaturationSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.LightBulb.On && (this.LightBulb.Saturation !== this.accessory.context.Saturation)) {
       this.infoLog(`Set Saturation: ${value}`)
     } else {
@@ -835,6 +855,7 @@ export class ColorBulb extends deviceBase {
 
     this.LightBulb.Saturation = value
     this.doColorBulbUpdate.next()
+    await this.changeOutcome()
   }
 
   async updateHomeKitCharacteristics(): Promise<void> {
@@ -859,32 +880,9 @@ export class ColorBulb extends deviceBase {
     this.debugLog(`adaptiveLightingShift: ${this.adaptiveLightingShift}`)
   }
 
-  async BLEPushConnection() {
-    if (this.platform.config.credentials?.token && this.device.connectionType === 'BLE/OpenAPI') {
-      this.warnLog('Using OpenAPI Connection to Push Changes')
-      await this.openAPIpushChanges()
-    }
-  }
-
-  async BLERefreshConnection(switchbot: any): Promise<void> {
-    this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchbot}`)
-    if (this.platform.config.credentials?.token && this.device.connectionType === 'BLE/OpenAPI') {
-      this.warnLog('Using OpenAPI Connection to Refresh Status')
-      await this.openAPIRefreshStatus()
-    }
-  }
-
   async offlineOff(): Promise<void> {
     if (this.device.offline) {
       this.LightBulb.Service.updateCharacteristic(this.hap.Characteristic.On, false)
     }
   }
-
-  async apiError(e: any): Promise<void> {
-    this.LightBulb.Service.updateCharacteristic(this.hap.Characteristic.On, e)
-    this.LightBulb.Service.updateCharacteristic(this.hap.Characteristic.Hue, e)
-    this.LightBulb.Service.updateCharacteristic(this.hap.Characteristic.Brightness, e)
-    this.LightBulb.Service.updateCharacteristic(this.hap.Characteristic.Saturation, e)
-    this.LightBulb.Service.updateCharacteristic(this.hap.Characteristic.ColorTemperature, e)
-  }
 }
@@ -87,6 +87,7 @@ export class Contact extends deviceBase {
 
     // Initialize ContactSensor Characteristics
     this.ContactSensor.Service.setCharacteristic(this.hap.Characteristic.Name, this.ContactSensor.Name).setCharacteristic(this.hap.Characteristic.StatusActive, true).getCharacteristic(this.hap.Characteristic.ContactSensorState).onGet(() => {
+      this.reachable()
       return this.ContactSensor.ContactSensorState
     })
 
@@ -102,10 +103,12 @@ export class Contact extends deviceBase {
 
     // Initialize Battery Characteristics
     this.Battery.Service.setCharacteristic(this.hap.Characteristic.Name, this.Battery.Name).setCharacteristic(this.hap.Characteristic.ChargingState, this.hap.Characteristic.ChargingState.NOT_CHARGEABLE).getCharacteristic(this.hap.Characteristic.BatteryLevel).onGet(() => {
+      this.reachable()
       return this.Battery.BatteryLevel
     })
 
     this.Battery.Service.setCharacteristic(this.hap.Characteristic.StatusLowBattery, this.Battery.StatusLowBattery).getCharacteristic(this.hap.Characteristic.StatusLowBattery).onGet(() => {
+      this.reachable()
       return this.Battery.StatusLowBattery
     })
 
@@ -127,6 +130,7 @@ export class Contact extends deviceBase {
 
       // Motion Sensor Characteristics
       this.MotionSensor.Service.setCharacteristic(this.hap.Characteristic.Name, this.MotionSensor.Name).setCharacteristic(this.hap.Characteristic.StatusActive, true).getCharacteristic(this.hap.Characteristic.MotionDetected).onGet(() => {
+        this.reachable()
         return this.MotionSensor!.MotionDetected
       })
     }
@@ -149,6 +153,7 @@ export class Contact extends deviceBase {
 
       // Light Sensor Characteristics
       this.LightSensor.Service.setCharacteristic(this.hap.Characteristic.Name, this.LightSensor.Name).setCharacteristic(this.hap.Characteristic.StatusActive, true).getCharacteristic(this.hap.Characteristic.CurrentAmbientLightLevel).onGet(() => {
+        this.reachable()
         return this.LightSensor!.CurrentAmbientLightLevel
       })
     }
@@ -177,6 +182,14 @@ export class Contact extends deviceBase {
       this.errorLog(`failed to registerPlatformBLE, Error: ${e.message ?? e}`)
     }
 
+    // track BLE presence if enabled
+    try {
+      this.debugLog('Setting up BLE Presence')
+      this.setupBlePresence()
+    } catch (e: any) {
+      this.errorLog(`failed to setupBlePresence, Error: ${e.message ?? e}`)
+    }
+
     // Start an update interval
     interval(this.deviceRefreshRate * 1000)
       .pipe(skipWhile(() => this.contactUpdateInProgress))
@@ -286,7 +299,7 @@ export class Contact extends deviceBase {
   async refreshStatus(): Promise<void> {
     if (!this.device.enableCloudService && this.OpenAPI) {
       this.errorLog(`refreshStatus enableCloudService: ${this.device.enableCloudService}`)
-    } else if (this.BLE) {
+    } else if (this.useBLE()) {
       await this.BLERefreshStatus()
     } else if (this.OpenAPI && this.platform.config.credentials?.token) {
       await this.openAPIRefreshStatus()
@@ -300,12 +313,13 @@ export class Contact extends deviceBase {
     this.debugLog('BLERefreshStatus')
     const switchBotBLE = await this.switchbotBLE()
     if (switchBotBLE === undefined) {
-      await this.BLERefreshConnection(switchBotBLE)
+      this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchBotBLE}`)
+      this.connection.failure('BLE')
     } else {
       // Start to monitor advertisement packets
       (async () => {
         // Start to monitor advertisement packets
-        const serviceData = await this.monitorAdvertisementPackets(switchBotBLE) as contactSensorServiceData
+        const serviceData = await this.monitorAdvertisementPackets() as contactSensorServiceData
         // Update HomeKit
         if (serviceData.model === SwitchBotBLEModel.ContactSensor && serviceData.modelName === SwitchBotBLEModelName.ContactSensor) {
           this.serviceData = serviceData
@@ -313,7 +327,7 @@ export class Contact extends deviceBase {
           await this.updateHomeKitCharacteristics()
         } else {
           this.errorLog(`failed to get serviceData, serviceData: ${JSON.stringify(serviceData)}`)
-          await this.BLERefreshConnection(switchBotBLE)
+          this.connection.failure('BLE')
         }
       })()
     }
@@ -404,14 +418,6 @@ export class Contact extends deviceBase {
     await this.updateCharacteristic(this.Battery.Service, this.hap.Characteristic.StatusLowBattery, this.Battery.StatusLowBattery, 'StatusLowBattery')
   }
 
-  async BLERefreshConnection(switchbot: any): Promise<void> {
-    this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchbot}`)
-    if (this.platform.config.credentials?.token && this.device.connectionType === 'BLE/OpenAPI') {
-      this.warnLog('Using OpenAPI Connection to Refresh Status')
-      await this.openAPIRefreshStatus()
-    }
-  }
-
   async offlineOff(): Promise<void> {
     if (this.device.offline) {
       this.ContactSensor.Service.updateCharacteristic(this.hap.Characteristic.ContactSensorState, this.hap.Characteristic.ContactSensorState.CONTACT_DETECTED)
@@ -424,21 +430,6 @@ export class Contact extends deviceBase {
     }
   }
 
-  async apiError(e: any): Promise<void> {
-    this.ContactSensor.Service.updateCharacteristic(this.hap.Characteristic.ContactSensorState, e)
-    this.ContactSensor.Service.updateCharacteristic(this.hap.Characteristic.StatusActive, e)
-    if (!(this.device as contactConfig).hide_motionsensor && this.MotionSensor?.Service) {
-      this.MotionSensor.Service.updateCharacteristic(this.hap.Characteristic.MotionDetected, e)
-      this.MotionSensor.Service.updateCharacteristic(this.hap.Characteristic.StatusActive, e)
-    }
-    if (!(this.device as contactConfig).hide_lightsensor && this.LightSensor?.Service) {
-      this.LightSensor.Service.updateCharacteristic(this.hap.Characteristic.CurrentAmbientLightLevel, e)
-      this.LightSensor.Service.updateCharacteristic(this.hap.Characteristic.StatusActive, e)
-    }
-    this.Battery.Service.updateCharacteristic(this.hap.Characteristic.BatteryLevel, e)
-    this.Battery.Service.updateCharacteristic(this.hap.Characteristic.StatusLowBattery, e)
-  }
-
   private getContactSensorState(openState: string): CharacteristicValue {
     return openState === 'open' || openState === 'timeOutNotClose'
       ? this.hap.Characteristic.ContactSensorState.CONTACT_NOT_DETECTED
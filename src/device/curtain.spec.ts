@@ -0,0 +1,48 @@
+import { HAPStatus } from 'homebridge'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { characteristic, createPlatform, deviceStatus, discover, openAPIResponse } from '../test/harness.js'
+
+const curtain = { deviceId: 'D1A2B3C4D5E6', deviceName: 'Bedroom Curtain', deviceType: 'Curtain3', enableCloudService: true, hubDeviceId: 'F1A2B3C4D5E6', master: true }
+
+describe('curtain', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  async function openAPICurtain(status: object = {}) {
+    const harness = createPlatform()
+    harness.getDeviceStatus.mockResolvedValue(openAPIResponse(100, deviceStatus(curtain.deviceId, status)))
+    const [accessory] = await discover(harness, [curtain])
+    const { Service, Characteristic } = harness.api.hap
+    return {
+      harness,
+      accessory,
+      currentPosition: characteristic(accessory, Service.WindowCovering, Characteristic.CurrentPosition),
+      targetPosition: characteristic(accessory, Service.WindowCovering, Characteristic.TargetPosition),
+    }
+  }
+
+  it('reads its position, the OpenAPI slidePosition is how far it is closed', async () => {
+    const { currentPosition } = await openAPICurtain({ slidePosition: 30 })
+
+    await vi.waitFor(() => expect(currentPosition.value).toBe(70))
+  })
+
+  it('moves to the TargetPosition with setPosition', async () => {
+    const { harness, targetPosition } = await openAPICurtain()
+
+    await targetPosition.handleSetRequest(40)
+
+    await vi.waitFor(() => expect(harness.controlDevice).toHaveBeenCalledWith(curtain.deviceId, 'setPosition', '0,ff,60', 'command'))
+  })
+
+  it('rolls the TargetPosition back when its hub is offline (171)', async () => {
+    const { harness, targetPosition } = await openAPICurtain()
+    harness.controlDevice.mockResolvedValue(openAPIResponse(171))
+
+    await expect(targetPosition.handleSetRequest(40)).rejects.toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE)
+
+    expect(targetPosition.value).toBe(100)
+  })
+})
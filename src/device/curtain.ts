@@ -105,6 +105,7 @@ export class Curtain extends deviceBase {
 
     // Initialize WindowCovering Service
     this.WindowCovering.Service.setCharacteristic(this.hap.Characteristic.Name, this.WindowCovering.Name).setCharacteristic(this.hap.Characteristic.ObstructionDetected, false).getCharacteristic(this.hap.Characteristic.PositionState).onGet(() => {
+      this.reachable()
       return this.WindowCovering.PositionState
     })
 
@@ -115,6 +116,7 @@ export class Curtain extends deviceBase {
       maxValue: 100,
       validValueRanges: [0, 100],
     }).onGet(() => {
+      this.reachable()
       return this.WindowCovering.CurrentPosition
     })
 
@@ -125,11 +127,13 @@ export class Curtain extends deviceBase {
       maxValue: 100,
       validValueRanges: [0, 100],
     }).onGet(() => {
+      this.reachable()
       return this.WindowCovering.TargetPosition
     }).onSet(this.TargetPositionSet.bind(this))
 
     // Initialize WindowCovering TargetPosition
     this.WindowCovering.Service.getCharacteristic(this.hap.Characteristic.HoldPosition).onGet(() => {
+      this.reachable()
       return this.WindowCovering.HoldPosition
     }).onSet(this.HoldPositionSet.bind(this))
 
@@ -146,14 +150,17 @@ export class Curtain extends deviceBase {
 
     // Initialize Battery Service
     this.Battery.Service.setCharacteristic(this.hap.Characteristic.Name, this.Battery.Name).getCharacteristic(this.hap.Characteristic.BatteryLevel).onGet(() => {
+      this.reachable()
       return this.Battery.BatteryLevel
     })
 
     this.Battery.Service.getCharacteristic(this.hap.Characteristic.StatusLowBattery).onGet(() => {
+      this.reachable()
       return this.Battery.StatusLowBattery
     })
 
     this.Battery.Service.getCharacteristic(this.hap.Characteristic.ChargingState).onGet(() => {
+      this.reachable()
       return this.Battery.ChargingState
     })
 
@@ -176,6 +183,7 @@ export class Curtain extends deviceBase {
 
       // Initialize LightSensor Characteristic
       this.LightSensor.Service.setCharacteristic(this.hap.Characteristic.Name, this.LightSensor.Name).setCharacteristic(this.hap.Characteristic.StatusActive, true).getCharacteristic(this.hap.Characteristic.CurrentAmbientLightLevel).onGet(() => {
+        this.reachable()
         return this.LightSensor!.CurrentAmbientLightLevel!
       })
     }
@@ -202,6 +210,7 @@ export class Curtain extends deviceBase {
 
       // Initialize Open Mode Switch Service
       this.OpenModeSwitch.Service.setCharacteristic(this.hap.Characteristic.Name, this.OpenModeSwitch.Name).setCharacteristic(this.hap.Characteristic.ConfiguredName, this.OpenModeSwitch.Name).getCharacteristic(this.hap.Characteristic.On).onGet(() => {
+        this.reachable()
         return this.OpenModeSwitch?.On ?? false
       })
 
@@ -230,6 +239,7 @@ export class Curtain extends deviceBase {
 
       // Initialize Close Mode Switch Service
       this.CloseModeSwitch.Service.setCharacteristic(this.hap.Characteristic.Name, this.CloseModeSwitch.Name).setCharacteristic(this.hap.Characteristic.ConfiguredName, this.CloseModeSwitch.Name).getCharacteristic(this.hap.Characteristic.On).onGet(() => {
+        this.reachable()
         return this.CloseModeSwitch?.On ?? false
       })
 
@@ -260,6 +270,14 @@ export class Curtain extends deviceBase {
       this.errorLog(`failed to registerPlatformBLE, Error: ${e.message ?? e}`)
     }
 
+    // track BLE presence if enabled
+    try {
+      this.debugLog('Setting up BLE Presence')
+      this.setupBlePresence()
+    } catch (e: any) {
+      this.errorLog(`failed to setupBlePresence, Error: ${e.message ?? e}`)
+    }
+
     // History
     this.history()
 
@@ -294,9 +312,11 @@ export class Curtain extends deviceBase {
         try {
           await this.pushChanges()
         } catch (e: any) {
+          await this.changeFailed(`Error: ${e.message ?? e}`)
           await this.apiError(e)
           this.errorLog(`failed pushChanges with ${device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
         }
+        await this.changeSettled()
         this.curtainUpdateInProgress = false
       })
 
@@ -333,9 +353,10 @@ export class Curtain extends deviceBase {
       })
       const motion: Service
       = this.accessory.getService(this.hap.Service.MotionSensor)
-      || this.accessory.addService(this.hap.Service.MotionSensor, 'Motion')
+        || this.accessory.addService(this.hap.Service.MotionSensor, 'Motion')
       motion.addOptionalCharacteristic(this.platform.eve.Characteristics.LastActivation)
       motion.getCharacteristic(this.platform.eve.Characteristics.LastActivation).onGet(() => {
+        this.reachable()
         const lastActivation = this.accessory.context.lastActivation
           ? Math.max(0, this.accessory.context.lastActivation - this.historyService.getInitialTime())
           : 0
@@ -470,7 +491,7 @@ export class Curtain extends deviceBase {
   async refreshStatus(): Promise<void> {
     if (!this.device.enableCloudService && this.OpenAPI) {
       this.errorLog(`refreshStatus enableCloudService: ${this.device.enableCloudService}`)
-    } else if (this.BLE) {
+    } else if (this.useBLE()) {
       await this.BLERefreshStatus()
     } else if (this.OpenAPI && this.platform.config.credentials?.token) {
       await this.openAPIRefreshStatus()
@@ -484,12 +505,13 @@ export class Curtain extends deviceBase {
     this.debugLog('BLERefreshStatus')
     const switchBotBLE = await this.switchbotBLE()
     if (switchBotBLE === undefined) {
-      await this.BLERefreshConnection(switchBotBLE)
+      this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchBotBLE}`)
+      this.connection.failure('BLE')
     } else {
       // Start to monitor advertisement packets
       (async () => {
         // Start to monitor advertisement packets
-        const serviceData = await this.monitorAdvertisementPackets(switchBotBLE) as curtainServiceData | curtain3ServiceData
+        const serviceData = await this.monitorAdvertisementPackets() as curtainServiceData | curtain3ServiceData
         // Update HomeKit
         if ((serviceData.model === SwitchBotBLEModel.Curtain || SwitchBotBLEModel.Curtain3)
           && (serviceData.modelName === SwitchBotBLEModelName.Curtain || SwitchBotBLEModelName.Curtain3)) {
@@ -498,7 +520,7 @@ export class Curtain extends deviceBase {
           await this.updateHomeKitCharacteristics()
         } else {
           this.errorLog(`failed to get serviceData, serviceData: ${JSON.stringify(serviceData)}`)
-          await this.BLERefreshConnection(switchBotBLE)
+          this.connection.failure('BLE')
         }
       })()
     }
@@ -575,7 +597,7 @@ export class Curtain extends deviceBase {
   async pushChanges(): Promise<void> {
     if (!this.device.enableCloudService && this.OpenAPI) {
       this.errorLog(`pushChanges enableCloudService: ${this.device.enableCloudService}`)
-    } else if (this.BLE) {
+    } else if (this.useBLE()) {
       await this.BLEpushChanges()
     } else if (this.OpenAPI && this.platform.config.credentials?.token) {
       await this.openAPIpushChanges()
@@ -604,17 +626,15 @@ export class Curtain extends deviceBase {
         const adjustedMode = setPositionMode === 1 ? 0x01 : 0xFF
         this.debugLog(`Mode: ${Mode}, setPositionMode: ${setPositionMode}`)
         if (switchBotBLE !== false) {
-          switchBotBLE
-            .discover({ model: this.device.bleModel, quick: true, id: this.device.bleMac })
-            .then(async (device_list: SwitchbotDevice[]) => {
-              const deviceList = device_list as WoCurtain[]
-              return await this.retryBLE({
-                max: this.maxRetryBLE(),
-                fn: async () => {
-                  return await deviceList[0].runToPos(100 - Number(this.WindowCovering.TargetPosition), adjustedMode)
-                },
-              })
+          this.bleCommand(async (device_list: SwitchbotDevice[]) => {
+            const deviceList = device_list as WoCurtain[]
+            return await this.retryBLE({
+              max: this.maxRetryBLE(),
+              fn: async () => {
+                return await deviceList[0].runToPos(100 - Number(this.WindowCovering.TargetPosition), adjustedMode)
+              },
             })
+          })
             .then(async () => {
               this.successLog(`TargetPostion: ${this.WindowCovering.TargetPosition} sent over SwitchBot BLE, sent successfully`)
               await this.updateHomeKitCharacteristics()
@@ -622,11 +642,11 @@ export class Curtain extends deviceBase {
             .catch(async (e: any) => {
               await this.apiError(e)
               this.errorLog(`failed BLEpushChanges with ${this.device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
-              await this.BLEPushConnection()
             })
         } else {
           this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${JSON.stringify(switchBotBLE)}`)
-          await this.BLEPushConnection()
+          this.connection.failure('BLE')
+          await this.changeFailed('BLE connection could not be established')
         }
       } catch (error) {
         this.errorLog(`failed to format device ID as MAC, Error: ${error}`)
@@ -682,6 +702,8 @@ export class Curtain extends deviceBase {
    * Handle requests to set the value of the "Target Position" characteristic
    */
   async TargetPositionSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.WindowCovering.TargetPosition !== this.accessory.context.TargetPosition) {
       this.infoLog(`Set TargetPosition: ${value}`)
     } else {
@@ -696,6 +718,7 @@ export class Curtain extends deviceBase {
     await this.mqtt('TargetPosition', this.WindowCovering.TargetPosition)
     await this.mqtt('HoldPosition', this.WindowCovering.HoldPosition)
     await this.startUpdatingCurtainIfNeeded()
+    await this.changeOutcome()
   }
 
   async startUpdatingCurtainIfNeeded() {
@@ -735,15 +758,19 @@ export class Curtain extends deviceBase {
    * Handle requests to set the value of the "Target Position" characteristic
    */
   async HoldPositionSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     this.debugLog(`HoldPosition: ${value}`)
     this.WindowCovering.HoldPosition = value
     this.doCurtainUpdate.next()
+    await this.changeOutcome()
   }
 
   /**
    * Handle requests to set the value of the "Target Position" characteristic
    */
   async OpenModeSwitchSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
     if (this.OpenModeSwitch && (this.device as curtainConfig).silentModeSwitch) {
       this.debugLog(`Silent Open Mode: ${value}`)
       this.OpenModeSwitch.On = value
@@ -758,6 +785,7 @@ export class Curtain extends deviceBase {
    * Handle requests to set the value of the "Target Position" characteristic
    */
   async CloseModeSwitchSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
     if (this.CloseModeSwitch && (this.device as curtainConfig).silentModeSwitch) {
       this.debugLog(`Silent Close Mode: ${value}`)
       this.CloseModeSwitch.On = value
@@ -791,21 +819,6 @@ export class Curtain extends deviceBase {
     await this.updateCharacteristic(this.Battery.Service, this.hap.Characteristic.ChargingState, this.Battery.ChargingState, 'ChargingState')
   }
 
-  async BLEPushConnection() {
-    if (this.platform.config.credentials?.token && this.device.connectionType === 'BLE/OpenAPI') {
-      this.warnLog('Using OpenAPI Connection to Push Changes')
-      await this.openAPIpushChanges()
-    }
-  }
-
-  async BLERefreshConnection(switchbot: any): Promise<void> {
-    this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchbot}`)
-    if (this.platform.config.credentials?.token && this.device.connectionType === 'BLE/OpenAPI') {
-      this.warnLog('Using OpenAPI Connection to Refresh Status')
-      await this.openAPIRefreshStatus()
-    }
-  }
-
   async setPerformance() {
     let setPositionMode: number
     let Mode: string
@@ -899,17 +912,4 @@ export class Curtain extends deviceBase {
       this.WindowCovering.Service.updateCharacteristic(this.hap.Characteristic.PositionState, this.hap.Characteristic.PositionState.STOPPED)
     }
   }
-
-  async apiError(e: any): Promise<void> {
-    this.WindowCovering.Service.updateCharacteristic(this.hap.Characteristic.CurrentPosition, e)
-    this.WindowCovering.Service.updateCharacteristic(this.hap.Characteristic.PositionState, e)
-    this.WindowCovering.Service.updateCharacteristic(this.hap.Characteristic.TargetPosition, e)
-    this.Battery.Service.updateCharacteristic(this.hap.Characteristic.BatteryLevel, e)
-    this.Battery.Service.updateCharacteristic(this.hap.Characteristic.StatusLowBattery, e)
-    this.Battery.Service.updateCharacteristic(this.hap.Characteristic.ChargingState, e)
-    if (!(this.device as curtainConfig).hide_lightsensor && this.LightSensor?.Service) {
-      this.LightSensor.Service.updateCharacteristic(this.hap.Characteristic.CurrentAmbientLightLevel, e)
-      this.LightSensor.Service.updateCharacteristic(this.hap.Characteristic.StatusActive, e)
-    }
-  }
 }
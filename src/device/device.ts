@@ -3,18 +3,30 @@
  * device.ts: @switchbot/homebridge-switchbot.
  */
 
-import type { API, CharacteristicValue, HAP, Logging, PlatformAccessory, Service } from 'homebridge'
+import type { API, Characteristic, CharacteristicValue, HAP, Logging, PlatformAccessory, Service } from 'homebridge'
 import type { MqttClient } from 'mqtt'
-import type { ad, bodyChange, device, deviceStatus, deviceStatusRequest, pushResponse } from 'node-switchbot'
+import type { ad, bodyChange, device, deviceStatus, deviceStatusRequest, pushResponse, SwitchbotDevice } from 'node-switchbot'
+import type { Subscription } from 'rxjs'
 
+import type { Transport } from '../connection.js'
 import type { SwitchBotPlatform } from '../platform.js'
+import type { RetryPolicy } from '../retry.js'
+import type { pendingChange } from '../rollback.js'
+import type { RequestPriority } from '../scheduler.js'
 import type { blindTiltConfig, botConfig, ceilingLightConfig, colorBulbConfig, contactConfig, curtainConfig, devicesConfig, hubConfig, humidifierConfig, indoorOutdoorSensorConfig, lockConfig, meterConfig, motionConfig, plugConfig, stripLightConfig, SwitchBotPlatformConfig, waterDetectorConfig } from '../settings.js'
+import type { openAPIStatus } from '../statuscodes.js'
 
 import { hostname } from 'node:os'
 
+import asyncmqtt from 'async-mqtt'
 import { SwitchBotBLEModel, SwitchBotBLEModelFriendlyName, SwitchBotBLEModelName, SwitchBotModel } from 'node-switchbot'
+import { debounceTime, interval, Subject } from 'rxjs'
 
-import { formatDeviceIdAsMac, safeStringify, sleep } from '../utils.js'
+import { ConnectionManager } from '../connection.js'
+import { changeFailed, mqttAvailabilityStatusCode, mqttPublishAvailability, rememberState, reportStatusCode } from '../devicestatus.js'
+import { changeOutcome } from '../rollback.js'
+import { lookupStatusCode, updateLastStatus } from '../statuscodes.js'
+import { formatDeviceIdAsMac, mqttSet, redactedStringify, sleep } from '../utils.js'
 
 export abstract class deviceBase {
   public readonly api: API
@@ -27,8 +39,7 @@ export abstract class deviceBase {
   protected deviceRefreshRate!: number
   protected deviceUpdateRate!: number
   protected devicePushRate!: number
-  protected deviceMaxRetries!: number
-  protected deviceDelayBetweenRetries!: number
+  protected deviceRetryPolicy!: RetryPolicy
 
   // Connection
   protected readonly BLE: boolean
@@ -42,15 +53,33 @@ export abstract class deviceBase {
   protected deviceMqttURL!: string
   protected deviceMqttOptions!: any
   protected deviceMqttPubOptions!: any
+  protected mqttTopic!: string
+
+  // Connection
+  protected connection!: ConnectionManager
 
   // BLE
   protected scanDuration!: number
+  protected blePresenceTimeout!: number
+  protected blePresenceInterval?: Subscription
+  protected rssi?: number
+
+  // Reachability
+  protected unreachable = false
+
+  // Optimistic updates
+  protected pendingChange?: pendingChange
+  protected requestsInFlight = 0
 
   // EVE history service handler
   protected historyService?: any = null
 
   // MQTT stuff
   protected mqttClient: MqttClient | null = null
+  protected mqttState: { [CharacteristicName: string]: CharacteristicValue } = {}
+  protected mqttStateChanged = new Subject<void>()
+  protected mqttAvailable?: boolean
+  protected lastSeen = Date.now()
 
   constructor(
     protected readonly platform: SwitchBotPlatform,
@@ -65,6 +94,14 @@ export abstract class deviceBase {
     // Connection
     this.BLE = this.device.connectionType === 'BLE' || this.device.connectionType === 'BLE/OpenAPI'
     this.OpenAPI = this.device.connectionType === 'OpenAPI' || this.device.connectionType === 'BLE/OpenAPI'
+    const transports: Transport[] = []
+    if (this.BLE) {
+      transports.push('BLE')
+    }
+    if (this.OpenAPI && this.platform.config.credentials?.token) {
+      transports.push('OpenAPI')
+    }
+    this.connection = new ConnectionManager(this.platform, transports, message => this.warnLog(message))
 
     this.getDeviceLogSettings(device)
     this.getDeviceRateSettings(device)
@@ -72,6 +109,14 @@ export abstract class deviceBase {
     this.getDeviceContext(accessory, device)
     this.getMqttSettings(device)
 
+    // Control the device via MQTT
+    const mac = this.device.deviceId?.toLowerCase().match(/[\s\S]{1,2}/g)?.join(':')
+    this.mqttTopic = `homebridge-switchbot/${this.device.deviceType}/${mac}`
+    this.platform.mqttEventHandler[this.mqttTopic] = this.mqttSetEvent.bind(this)
+    this.platform.mqttConnectHandler[this.mqttTopic] = this.mqttPublishAvailability.bind(this)
+    this.platform.homeAssistantDiscovery?.register(this.mqttTopic, accessory)
+    this.setupMqtt(device)
+
     // Set accessory information
     accessory
       .getService(this.hap.Service.AccessoryInformation)!
@@ -104,14 +149,10 @@ export abstract class deviceBase {
     const pushRate = device.pushRate ? 'Device Config' : this.platform.platformPushRate ? 'Platform Config' : 'Default'
     this.accessory.context.pushRate = this.devicePushRate
     this.debugLog(`Using ${refreshRate} refreshRate: ${this.deviceRefreshRate}, ${updateRate} updateRate: ${this.deviceUpdateRate}, ${pushRate} pushRate: ${this.devicePushRate}`)
-    // maxRetries
-    this.deviceMaxRetries = device.maxRetries ?? this.platform.platformMaxRetries ?? 2
-    const maxRetries = device.maxRetries ? 'Device' : this.platform.platformMaxRetries ? 'Platform' : 'Default'
-    this.debugLog(`Using ${maxRetries} Max Retries: ${this.deviceMaxRetries}`)
-    // delayBetweenRetries
-    this.deviceDelayBetweenRetries = device.delayBetweenRetries ? (device.delayBetweenRetries * 1000) : this.platform.platformDelayBetweenRetries ?? 3000
-    const delayBetweenRetries = device.delayBetweenRetries ? 'Device' : this.platform.platformDelayBetweenRetries ? 'Platform' : 'Default'
-    this.debugLog(`Using ${delayBetweenRetries} Delay Between Retries: ${this.deviceDelayBetweenRetries}`)
+    // retryPolicy
+    this.deviceRetryPolicy = this.platform.createRetryPolicy(device, message => this.debugWarnLog(message))
+    const retryPolicy = device.retryPolicy ? 'Device' : device.maxRetries || device.delayBetweenRetries ? 'Device maxRetries/delayBetweenRetries' : 'Platform'
+    this.debugLog(`Using ${retryPolicy} Retry Policy: ${JSON.stringify(this.deviceRetryPolicy.policy)}`)
     // scanDuration
     this.scanDuration = Math.max(device.scanDuration ?? 1, this.deviceUpdateRate > 1 ? this.deviceUpdateRate : 1)
     if (this.BLE) {
@@ -122,18 +163,55 @@ export abstract class deviceBase {
     }
   }
 
-  async retryBLE({ max, fn }: { max: number, fn: { (): any, (): Promise<any> } }): Promise<null> {
+  /**
+   * Retries a BLE command up to max times, as long as the retry can finish within
+   * the BLE command timeout, after which the queue disconnects the device.
+   */
+  async retryBLE({ max, fn, deadline = Date.now() + this.platform.bleCommandQueue.commandTimeout }: { max: number, fn: { (): any, (): Promise<any> }, deadline?: number }): Promise<null> {
+    const started = Date.now()
     return fn().catch(async (e: any) => {
-      if (max === 0) {
+      // the next attempt is expected to take as long as this one
+      if (max === 0 || Date.now() + 1000 + (Date.now() - started) > deadline) {
         throw e
       }
       this.warnLog(e)
       this.infoLog('Retrying')
       await sleep(1000)
-      return this.retryBLE({ max: max - 1, fn })
+      return this.retryBLE({ max: max - 1, fn, deadline })
     })
   }
 
+  /**
+   * Sends a BLE command through the platform's BLE command queue, the command
+   * is called with the discovered device once it is this device's turn.
+   * Changes from HomeKit are sent ahead of status polls.
+   */
+  async bleCommand<D extends SwitchbotDevice, T>(command: (device_list: D[]) => Promise<T>, priority: RequestPriority = 'command'): Promise<T> {
+    this.requestsInFlight++
+    try {
+      const result = await this.platform.bleCommandQueue.schedule(this.device.bleMac!, this.device.bleModel, async device_list => command(device_list as D[]), priority)
+      this.connection.success('BLE')
+      await this.deviceReachable()
+      await this.changeSucceeded()
+      return result
+    } catch (e: any) {
+      // BLE/OpenAPI devices switch to OpenAPI once the BLE circuit opens, not for this change
+      this.connection.failure('BLE')
+      await this.changeFailed(`Error: ${e.message ?? e}`)
+      throw e
+    } finally {
+      this.requestsInFlight--
+    }
+  }
+
+  /**
+   * Whether the next refresh or push should go over BLE, BLE/OpenAPI devices use OpenAPI
+   * while their BLE circuit is open, and BLE while their OpenAPI circuit is open.
+   */
+  useBLE(): boolean {
+    return this.BLE && this.connection.route() === 'BLE'
+  }
+
   maxRetryBLE(): number {
     return this.device.maxRetry !== undefined ? this.device.maxRetry : 5
   }
@@ -155,6 +233,7 @@ export abstract class deviceBase {
       device.mqttPubOptions && { mqttPubOptions: device.mqttPubOptions },
       device.maxRetries !== 0 && { maxRetries: device.maxRetries },
       device.delayBetweenRetries !== 0 && { delayBetweenRetries: device.delayBetweenRetries },
+      device.retryPolicy && { retryPolicy: device.retryPolicy },
     )
     let deviceSpecificConfig = {}
     switch (device.configDeviceType) {
@@ -218,7 +297,7 @@ export abstract class deviceBase {
     )
 
     if (Object.keys(config).length !== 0) {
-      this.debugSuccessLog(`Config: ${JSON.stringify(config)}`)
+      this.debugSuccessLog(`Config: ${redactedStringify(config)}`)
     }
   }
 
@@ -246,15 +325,339 @@ export abstract class deviceBase {
    * Publish MQTT message for topics of
    * 'homebridge-switchbot/${this.device.deviceType}/xx:xx:xx:xx:xx:xx'
    */
-  async mqttPublish(message: string, topic?: string) {
-    const mac = this.device.deviceId?.toLowerCase().match(/[\s\S]{1,2}/g)?.join(':')
-    const options = this.deviceMqttPubOptions ?? {}
+  async mqttPublish(message: string, topic?: string, retain?: boolean) {
+    const options = retain ? { ...this.deviceMqttPubOptions, retain } : this.deviceMqttPubOptions ?? {}
     const mqttTopic = topic ? `/${topic}` : ''
     const mqttMessageTopic = topic ? `${topic}/` : ''
-    this.mqttClient?.publish(`homebridge-switchbot/${this.device.deviceType}/${mac}${mqttTopic}`, `${message}`, options)
+    const mqttClient = this.mqttClient ?? this.platform.mqttClient
+    mqttClient?.publish(`${this.mqttTopic}${mqttTopic}`, `${message}`, options)
     this.debugLog(`MQTT message: ${mqttMessageTopic}${message} options:${JSON.stringify(options)}`)
   }
 
+  /*
+   * Publish a retained JSON document with every characteristic value of the device to
+   * 'homebridge-switchbot/${this.device.deviceType}/xx:xx:xx:xx:xx:xx/state', when mqttStructured is set
+   */
+  async mqttPublishState(): Promise<void> {
+    this.mqttPublish(JSON.stringify({ ...this.mqttState, lastSeen: new Date(this.lastSeen).toISOString(), rssi: this.rssi }), 'state', true)
+  }
+
+  /*
+   * Publish 'online' or 'offline', retained, to
+   * 'homebridge-switchbot/${this.device.deviceType}/xx:xx:xx:xx:xx:xx/availability', when it changes
+   */
+  async mqttAvailability(online: boolean): Promise<void> {
+    if (online) {
+      this.lastSeen = Date.now()
+    }
+    if (this.mqttAvailable !== online) {
+      this.mqttAvailable = online
+      await this.mqttPublishAvailability()
+    }
+  }
+
+  /**
+   * Publishes the availability once it is known, also called on every (re)connect to the broker
+   */
+  async mqttPublishAvailability(): Promise<void> {
+    if (this.mqttClient ?? this.platform.mqttClient) {
+      await mqttPublishAvailability(this.mqttAvailable, this.mqttPublish.bind(this))
+    }
+  }
+
+  /**
+   * A statusCode reported as "No Response" (161, 171, etc.) marks the device as unavailable, a success as available
+   */
+  async mqttAvailabilityStatusCode(statusCode: number | undefined): Promise<void> {
+    const online = mqttAvailabilityStatusCode(this.hap, statusCode)
+    if (online !== undefined) {
+      await this.mqttAvailability(online)
+    }
+  }
+
+  /*
+   * Connects the device's own MQTT client when it has a device specific mqttURL, the platform client is used otherwise
+   */
+  async setupMqtt(device: device & devicesConfig): Promise<void> {
+    if (device.mqttURL) {
+      try {
+        const { connectAsync } = asyncmqtt
+        this.mqttClient = await connectAsync(device.mqttURL, {
+          ...this.deviceMqttOptions,
+          will: { topic: `${this.mqttTopic}/availability`, payload: 'offline', retain: true, qos: 1 },
+        })
+        this.debugLog('MQTT connection has been established successfully.')
+        this.mqttClient.on('error', async (e: Error) => {
+          this.errorLog(`Failed to publish MQTT messages. ${e.message ?? e}`)
+        })
+        await this.mqttPublishAvailability()
+        this.mqttClient.on('connect', async () => {
+          await this.mqttPublishAvailability()
+        })
+        // set messages are received on the device's own connection, not the platform's
+        delete this.platform.mqttEventHandler[this.mqttTopic]
+        await this.mqttClient.subscribe([`${this.mqttTopic}/set`, `${this.mqttTopic}/+/set`])
+        this.mqttClient.on('message', async (topic: string, message) => {
+          if (!topic.startsWith(`${this.mqttTopic}/`) || !topic.endsWith('/set')) {
+            return
+          }
+          const CharacteristicName = topic.slice(this.mqttTopic.length + 1, -'/set'.length)
+          this.debugLog(`Received MQTT set: ${topic}=${message}`)
+          await this.mqttSetEvent(CharacteristicName || undefined, message.toString())
+        })
+      } catch (e: any) {
+        this.mqttClient = null
+        this.errorLog(`Failed to establish MQTT connection. ${e.message ?? e}`)
+      }
+    }
+    if (this.deviceMqttURL) {
+      if (this.config.options?.mqttStructured) {
+        this.mqttStateChanged.pipe(debounceTime(100)).subscribe(async () => {
+          await this.mqttPublishState()
+        })
+      }
+    }
+  }
+
+  /*
+   * Records the last-seen time and RSSI of every advertisement of a BLE device. BLE only devices are faulted
+   * once no advertisement has been seen for blePresenceTimeout (3 refreshRates, at least 5 minutes, by default).
+   * Called by each device once its services exist
+   */
+  async setupBlePresence(): Promise<void> {
+    if (!this.BLE) {
+      return
+    }
+    try {
+      const address = this.device.customBLEaddress ?? formatDeviceIdAsMac(this.device.deviceId)
+      this.platform.bleAdvertisementBus.subscribe(address, this.device.bleModel, async (_serviceData, ad) => {
+        await this.blePresence(ad.rssi)
+      })
+    } catch (e: any) {
+      this.debugErrorLog(`failed to track BLE presence, Error: ${e.message ?? e}`)
+      return
+    }
+    this.blePresenceTimeout = (this.config.options?.blePresenceTimeout ?? Math.max(this.deviceRefreshRate * 3, 300)) * 1000
+    this.removeSignalStrength()
+    if (!this.OpenAPI) {
+      this.blePresenceInterval = interval(60 * 1000).subscribe(async () => {
+        if (!this.unreachable && Date.now() - this.lastSeen >= this.blePresenceTimeout) {
+          await this.deviceUnreachable(`no BLE advertisement received for ${Math.round((Date.now() - this.lastSeen) / 1000)}s, last RSSI: ${this.rssi}`)
+          await this.mqttAvailability(false)
+        }
+      })
+      this.platform.api.on('shutdown', () => {
+        this.blePresenceInterval?.unsubscribe()
+      })
+    }
+  }
+
+  async blePresence(rssi: number): Promise<void> {
+    this.lastSeen = Date.now()
+    this.rssi = rssi
+    const service = this.primaryService()
+    if (this.config.options?.bleSignalStrength && service) {
+      if (!service.testCharacteristic(this.platform.SignalStrength)) {
+        service.addOptionalCharacteristic(this.platform.SignalStrength)
+      }
+      service.updateCharacteristic(this.platform.SignalStrength, Math.max(-127, Math.min(0, rssi)))
+    }
+    await this.deviceReachable()
+    if (this.BLE && !this.OpenAPI) {
+      await this.mqttAvailability(true)
+    }
+  }
+
+  /**
+   * Marks the device as unreachable: every characteristic reports "No Response", onGet and onSet
+   * handlers throw (see reachable()), and StatusFault is set, until deviceReachable() is called.
+   */
+  async deviceUnreachable(reason: string): Promise<void> {
+    if (this.unreachable) {
+      this.debugErrorLog(`still unreachable, ${reason}`)
+      return
+    }
+    this.unreachable = true
+    this.warnLog(`is unreachable, ${reason}`)
+    const error = new this.hap.HapStatusError(this.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE)
+    for (const characteristic of this.statusCharacteristics()) {
+      characteristic.updateValue(error)
+    }
+    await this.statusFault(true)
+  }
+
+  /**
+   * Clears the unreachable state once the device answered again, and restores the last good value of
+   * every characteristic (updateValue with an error keeps the value it had before).
+   */
+  async deviceReachable(): Promise<void> {
+    if (!this.unreachable) {
+      return
+    }
+    this.unreachable = false
+    this.infoLog(`is reachable again${this.rssi !== undefined ? `, RSSI: ${this.rssi}` : ''}`)
+    for (const characteristic of this.statusCharacteristics()) {
+      if (characteristic.statusCode !== this.hap.HAPStatus.SUCCESS) {
+        characteristic.updateValue(characteristic.value)
+      }
+    }
+    await this.statusFault(false)
+  }
+
+  /**
+   * Throws "No Response" to HomeKit from onGet and onSet handlers while the device is unreachable
+   */
+  reachable(): void {
+    if (this.unreachable) {
+      throw new this.hap.HapStatusError(this.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE)
+    }
+  }
+
+  /**
+   * A failed refresh or push: the device, its hub or the cloud could not be reached
+   */
+  async apiError(e: any): Promise<void> {
+    await this.deviceUnreachable(`Error: ${e?.message ?? e}`)
+  }
+
+  /**
+   * The characteristics HomeKit reads the state of the device from, StatusFault and StatusActive
+   * are left alone so they can still report the fault.
+   */
+  statusCharacteristics(): Characteristic[] {
+    const { Characteristic } = this.hap
+    const excluded = [Characteristic.StatusFault.UUID, Characteristic.StatusActive.UUID]
+    return this.accessory.services
+      .filter(service => service.UUID !== this.hap.Service.AccessoryInformation.UUID)
+      .flatMap(service => service.characteristics)
+      .filter(characteristic => characteristic.props.perms.includes(this.hap.Perms.NOTIFY) && !excluded.includes(characteristic.UUID))
+  }
+
+  /**
+   * Called by onSet handlers before a change is applied: remembers the characteristics, accessory.context and the
+   * state of the device, so they can be rolled back if the change can not be sent. Changes requested before the
+   * push (within the pushRate) share the state from before the first one.
+   */
+  rememberState(): void {
+    this.pendingChange = rememberState(this.hap, this.accessory, this, this.pendingChange, this.devicePushRate, this.statusCharacteristics())
+  }
+
+  /**
+   * Called by onSet handlers once the change is queued: waits for it to be sent, and reports a failure
+   * to HomeKit. The wait is capped below HomeKit's timeout, a later failure is shown by the rollback.
+   */
+  async changeOutcome(): Promise<void> {
+    await changeOutcome(this.pendingChange)
+  }
+
+  /**
+   * Called once pushChanges is done, a change that did not need a request (nothing changed) is settled here.
+   * Requests still running (BLE commands not awaited by pushChanges) settle it themselves.
+   */
+  async changeSettled(): Promise<void> {
+    if (this.pendingChange && this.requestsInFlight === 0) {
+      this.pendingChange.settle()
+      this.pendingChange = undefined
+    }
+  }
+
+  async changeSucceeded(): Promise<void> {
+    const change = this.pendingChange
+    if (!change) {
+      return
+    }
+    this.pendingChange = undefined
+    change.settle()
+    const confirmChanges = this.device.confirmChanges ?? this.config.options?.confirmChanges ?? 0
+    if (confirmChanges > 0) {
+      setTimeout(async () => {
+        await this.confirmChange(change)
+      }, confirmChanges * 1000)
+    }
+  }
+
+  /**
+   * Rolls the characteristics, accessory.context and the state of the device back to before the change,
+   * the onSet handler reports hapStatus (the HAP status of the statusCode the change failed with) to HomeKit.
+   */
+  async changeFailed(reason: string, hapStatus: openAPIStatus['hapStatus'] = this.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE): Promise<void> {
+    const change = this.pendingChange
+    if (!change) {
+      return
+    }
+    this.pendingChange = undefined
+    changeFailed(this.hap, this.accessory, this, change, reason, hapStatus)
+  }
+
+  /**
+   * Refreshes the status confirmChanges seconds after a change was sent, and checks the device reached
+   * every requested value, the refresh already shows the state the device is really in.
+   */
+  async confirmChange(change: pendingChange): Promise<void> {
+    const requested = [...change.characteristics]
+      .filter(([characteristic, value]) => characteristic.props.perms.includes(this.hap.Perms.PAIRED_WRITE) && characteristic.value !== value)
+      .map(([characteristic]) => [characteristic, characteristic.value] as const)
+    if (!requested.length) {
+      return
+    }
+    try {
+      await this.refreshStatus()
+    } catch (e: any) {
+      this.debugErrorLog(`failed to confirm change, Error: ${e.message ?? e}`)
+      return
+    }
+    for (const [characteristic, value] of requested) {
+      if (characteristic.value !== value) {
+        this.warnLog(`did not reach ${characteristic.displayName}: ${value}, it is ${characteristic.value}`)
+      } else {
+        this.debugSuccessLog(`confirmed ${characteristic.displayName}: ${value}`)
+      }
+    }
+  }
+
+  abstract refreshStatus(): Promise<void>
+
+  /**
+   * Sets StatusFault and StatusActive on every service of the device that has them
+   */
+  async statusFault(faulted: boolean): Promise<void> {
+    const { Characteristic } = this.hap
+    for (const service of this.accessory.services) {
+      const optional = service.optionalCharacteristics.map(characteristic => characteristic.UUID)
+      if (optional.includes(Characteristic.StatusFault.UUID)) {
+        service.updateCharacteristic(Characteristic.StatusFault, faulted ? Characteristic.StatusFault.GENERAL_FAULT : Characteristic.StatusFault.NO_FAULT)
+      }
+      if (optional.includes(Characteristic.StatusActive.UUID)) {
+        service.updateCharacteristic(Characteristic.StatusActive, !faulted)
+      }
+    }
+  }
+
+  /**
+   * The main service of the device, the first one without a subtype
+   */
+  primaryService(): Service | undefined {
+    return this.accessory.services.find(service => service.UUID !== this.hap.Service.AccessoryInformation.UUID && !service.subtype)
+  }
+
+  /**
+   * The SignalStrength characteristic is added on the first advertisement when bleSignalStrength is set,
+   * remove it from cached accessories when it is not
+   */
+  removeSignalStrength(): void {
+    const service = this.primaryService()
+    if (!this.config.options?.bleSignalStrength && service?.testCharacteristic(this.platform.SignalStrength)) {
+      service.removeCharacteristic(service.getCharacteristic(this.platform.SignalStrength))
+    }
+  }
+
+  /*
+   * Handle MQTT set messages for topics under '${this.mqttTopic}', see mqttSet()
+   */
+  async mqttSetEvent(CharacteristicName: string | undefined, message: string): Promise<void> {
+    mqttSet(this.hap, this.accessory, CharacteristicName, message, this)
+  }
+
   /*
    * MQTT Settings
    */
@@ -297,7 +700,7 @@ export abstract class deviceBase {
     try {
       const formattedDeviceId = formatDeviceIdAsMac(this.device.deviceId)
       this.device.bleMac = formattedDeviceId
-      await this.getCustomBLEAddress(switchBotBLE)
+      await this.getCustomBLEAddress()
       this.debugLog(`bleMac: ${this.device.bleMac}`)
       return switchBotBLE
     } catch (error) {
@@ -305,72 +708,89 @@ export abstract class deviceBase {
     }
   }
 
-  async monitorAdvertisementPackets(switchbot: any) {
-    this.debugLog(`Scanning for ${this.device.bleModelName} devices...`)
-    try {
-      await switchbot.startScan({ model: this.device.bleModel, id: this.device.bleMac })
-    } catch (e: any) {
-      this.errorLog(`Failed to start BLE scanning. Error:${e.message ?? e}`)
-    }
-    // Set an event handler
-    let serviceData = { model: this.device.bleModel, modelName: this.device.bleModelName } as ad['serviceData']
-    switchbot.onadvertisement = (ad: ad) => {
-      this.debugLog(`ad: ${safeStringify(ad)}`)
-      if (this.device.bleMac === ad.address && ad.serviceData.model === this.device.bleModel) {
-        this.debugLog(`${JSON.stringify(ad, null, '  ')}`)
-        this.debugLog(`address: ${ad.address}, model: ${ad.serviceData.model}`)
-        this.debugLog(`serviceData: ${JSON.stringify(ad.serviceData)}`)
-        serviceData = ad.serviceData
-      }
-    }
-    // Wait
-    await switchbot.wait(this.scanDuration * 1000)
-    // Stop to monitor
-    try {
-      await switchbot.stopScan()
-    } catch (e: any) {
-      this.errorLog(`Failed to stop BLE scanning. Error:${e.message ?? e}`)
+  /**
+   * Reads the latest advertisement of the device from the platform's BLE scan, one received within
+   * the refreshRate is used as is, otherwise waits up to scanDuration for the next one.
+   */
+  async monitorAdvertisementPackets(): Promise<ad['serviceData']> {
+    this.debugLog(`Waiting for ${this.device.bleModelName} advertisement...`)
+    const serviceData = await this.platform.bleAdvertisementBus.latest(this.device.bleMac!, this.device.bleModel, this.deviceRefreshRate * 1000, this.scanDuration * 1000)
+    if (serviceData) {
+      this.connection.success('BLE')
+      this.debugLog(`serviceData: ${JSON.stringify(serviceData)}`)
+      return serviceData
     }
-    return serviceData
+    this.connection.failure('BLE')
+    this.debugLog(`no advertisement from ${this.device.bleMac} within scanDuration: ${this.scanDuration}`)
+    return { model: this.device.bleModel, modelName: this.device.bleModelName } as ad['serviceData']
   }
 
-  async getCustomBLEAddress(switchbot: any): Promise<void> {
+  async getCustomBLEAddress(): Promise<void> {
     if (this.device.customBLEaddress && this.deviceLogging.includes('debug')) {
       this.debugLog(`customBLEaddress: ${this.device.customBLEaddress}`);
       (async () => {
-        // Start to monitor advertisement packets
-        try {
-          await switchbot.startScan({ model: this.device.bleModel })
-        } catch (e: any) {
-          this.errorLog(`Failed to start BLE scanning. Error:${e.message ?? e}`)
-        }
-        // Set an event handler
-        switchbot.onadvertisement = (ad: ad) => {
+        // Log every advertisement of the model for 10 seconds
+        const unsubscribe = this.platform.bleAdvertisementBus.subscribe(this.device.customBLEaddress!, this.device.bleModel, (_serviceData, ad) => {
           this.warnLog(`ad: ${JSON.stringify(ad, null, '  ')}`)
-        }
+        })
         await sleep(10000)
-        // Stop to monitor
-        try {
-          switchbot.stopScan()
-        } catch (e: any) {
-          this.errorLog(`Failed to stop BLE scanning. Error:${e.message ?? e}`)
-        }
+        unsubscribe()
       })()
     }
   }
 
   async pushChangeRequest(bodyChange: bodyChange): Promise<{ body: pushResponse['body'], statusCode: pushResponse['statusCode'] }> {
-    const { response, statusCode } = await this.platform.switchBotAPI.controlDevice(this.device.deviceId, bodyChange.command, bodyChange.parameter, bodyChange.commandType)
-    return { body: response, statusCode }
+    this.requestsInFlight++
+    try {
+      const { response, statusCode } = await this.platform.controlRequest(this.device.deviceId, bodyChange, this.deviceRetryPolicy)
+      await this.openAPIConnectionStatus(statusCode, (response as any)?.statusCode)
+      await this.mqttAvailabilityStatusCode((response as any)?.statusCode)
+      const status = lookupStatusCode((response as any)?.statusCode)
+      if (status.severity === 'success') {
+        await this.changeSucceeded()
+      } else {
+        await this.changeFailed(`${status.message}, statusCode: ${(response as any)?.statusCode}`, status.hapStatus)
+      }
+      return { body: response, statusCode }
+    } catch (e: any) {
+      this.connection.failure('OpenAPI')
+      await this.changeFailed(`Error: ${e.message ?? e}`)
+      throw e
+    } finally {
+      this.requestsInFlight--
+    }
   }
 
   async deviceRefreshStatus(): Promise<{ body: deviceStatus, statusCode: deviceStatusRequest['statusCode'] }> {
-    const { response, statusCode } = await this.platform.retryRequest(this.device.deviceId, this.deviceMaxRetries, this.deviceDelayBetweenRetries)
-    return { body: response, statusCode }
+    try {
+      const { response, statusCode } = await this.platform.retryRequest(this.device.deviceId, this.deviceRetryPolicy, this.deviceRefreshRate)
+      await this.openAPIConnectionStatus(statusCode, (response as any)?.statusCode)
+      await this.mqttAvailabilityStatusCode((response as any)?.statusCode)
+      return { body: response, statusCode }
+    } catch (e: any) {
+      this.connection.failure('OpenAPI')
+      throw e
+    }
+  }
+
+  /**
+   * The cloud is down on a 500 (also returned once every retry failed), any other response means it is reachable
+   */
+  async openAPIConnectionStatus(statusCode: number, bodyStatusCode?: number): Promise<void> {
+    if (statusCode >= 500 || bodyStatusCode === 500) {
+      this.connection.failure('OpenAPI')
+    } else {
+      this.connection.success('OpenAPI')
+    }
   }
 
   async successfulStatusCodes(deviceStatus: deviceStatusRequest) {
-    return (deviceStatus.statusCode === 200 || deviceStatus.statusCode === 100)
+    const successful = (deviceStatus.statusCode === 200 || deviceStatus.statusCode === 100)
+    if (successful) {
+      updateLastStatus(this.api, this.accessory)
+      await this.deviceReachable()
+    }
+    return successful
   }
 
   /**
@@ -389,7 +809,7 @@ export abstract class deviceBase {
       this.debugLog(`${CharacteristicName}: ${CharacteristicValue}`)
     } else {
       await this.mqtt(CharacteristicName, CharacteristicValue)
-      if (this.device.history) {
+      if (this.device.history && history) {
         this.historyService?.addEntry(history)
       }
       Service.updateCharacteristic(Characteristic, CharacteristicValue)
@@ -401,8 +821,12 @@ export abstract class deviceBase {
   }
 
   async mqtt(CharacteristicName: string, CharacteristicValue: CharacteristicValue) {
-    if (this.device.mqttURL) {
-      this.mqttPublish(CharacteristicName, CharacteristicValue.toString())
+    if (this.deviceMqttURL) {
+      this.mqttPublish(CharacteristicValue.toString(), CharacteristicName)
+      if (this.mqttState[CharacteristicName] !== CharacteristicValue) {
+        this.mqttState[CharacteristicName] = CharacteristicValue
+        this.mqttStateChanged.next()
+      }
     }
   }
 
@@ -679,33 +1103,15 @@ export abstract class deviceBase {
     this.debugSuccessLog(`version: ${accessory.context.version}`)
   }
 
-  async statusCode(statusCode: number): Promise<void> {
-    const statusMessages = {
-      151: 'Command not supported by this deviceType',
-      152: 'Device not found',
-      160: 'Command is not supported',
-      161: 'Device is offline',
-      171: `Hub Device is offline. Hub: ${this.device.hubDeviceId}`,
-      190: 'Device internal error due to device states not synchronized with server, or command format is invalid',
-      100: 'Command successfully sent',
-      200: 'Request successful',
-      400: 'Bad Request, an invalid payload request',
-      401: 'Unauthorized, Authorization for the API is required, but the request has not been authenticated',
-      403: 'Forbidden, The request has been authenticated but does not have appropriate permissions, or a requested resource is not found',
-      404: 'Not Found, Specifies the requested path does not exist',
-      406: 'Not Acceptable, a MIME type has been requested via the Accept header for a value not supported by the server',
-      415: 'Unsupported Media Type, a contentType header has been defined that is not supported by the server',
-      422: 'Unprocessable Entity: The server cannot process the request, often due to exceeded API limits.',
-      429: 'Too Many Requests, exceeded the number of requests allowed for a given time window',
-      500: 'Internal Server Error, An unexpected error occurred. These errors should be rare',
-    }
-    if (statusCode === 171 && (this.device.hubDeviceId === this.device.deviceId || this.device.hubDeviceId === '000000000000')) {
-      this.debugErrorLog(`statusCode 171 changed to 161: hubDeviceId ${this.device.hubDeviceId} matches deviceId ${this.device.deviceId}, device is its own hub.`)
-      statusCode = 161
-    }
-    const logMessage = statusMessages[statusCode] || `Unknown statusCode: ${statusCode}, Submit Bugs Here: https://tinyurl.com/SwitchBotBug`
-    const logMethod = [100, 200].includes(statusCode) ? 'debugLog' : statusMessages[statusCode] ? 'errorLog' : 'infoLog'
-    this[logMethod](`${logMessage}, statusCode: ${statusCode}`)
+  /**
+   * Logs a statusCode the way the status catalog describes it, keeps it in accessory.context.lastStatus
+   * for the Homebridge UI, and marks the device unreachable when HomeKit should see "No Response".
+   */
+  async statusCode(code: number): Promise<void> {
+    const { statusCode, status, message } = reportStatusCode(this.api, this.accessory, this.device, this, code)
+    if (status.hapStatus === this.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE) {
+      await this.deviceUnreachable(`${message}, statusCode: ${statusCode}`)
+    }
   }
 
   /**
@@ -82,16 +82,19 @@ export class Fan extends deviceBase {
 
     // Initialize Fan Service
     this.Fan.Service.setCharacteristic(this.hap.Characteristic.Name, this.Fan.Name).getCharacteristic(this.hap.Characteristic.Active).onGet(() => {
+      this.reachable()
       return this.Fan.Active
     }).onSet(this.ActiveSet.bind(this))
 
     // Initialize Fan RotationSpeed Characteristic
     this.Fan.Service.getCharacteristic(this.hap.Characteristic.RotationSpeed).onGet(() => {
+      this.reachable()
       return this.Fan.RotationSpeed
     }).onSet(this.RotationSpeedSet.bind(this))
 
     // Initialize Fan SwingMode Characteristic
     this.Fan.Service.getCharacteristic(this.hap.Characteristic.SwingMode).onGet(() => {
+      this.reachable()
       return this.Fan.SwingMode
     }).onSet(this.SwingModeSet.bind(this))
 
@@ -108,16 +111,19 @@ export class Fan extends deviceBase {
 
     // Initialize Battery Service
     this.Battery.Service.setCharacteristic(this.hap.Characteristic.Name, this.Battery.Name).getCharacteristic(this.hap.Characteristic.BatteryLevel).onGet(() => {
+      this.reachable()
       return this.Battery.BatteryLevel
     })
 
     // Initialize Battery ChargingState Characteristic
     this.Battery.Service.getCharacteristic(this.hap.Characteristic.ChargingState).onGet(() => {
+      this.reachable()
       return this.Battery.ChargingState
     })
 
     // Initialize Battery StatusLowBattery Characteristic
     this.Battery.Service.getCharacteristic(this.hap.Characteristic.StatusLowBattery).onGet(() => {
+      this.reachable()
       return this.Battery.StatusLowBattery
     })
 
@@ -133,11 +139,13 @@ export class Fan extends deviceBase {
 
     // Initialize LightBulb Characteristics
     this.LightBulb.Service.setCharacteristic(this.hap.Characteristic.Name, this.LightBulb.Name).getCharacteristic(this.hap.Characteristic.On).onGet(() => {
+      this.reachable()
       return this.LightBulb.On
     }).onSet(this.OnSet.bind(this))
 
     // Initialize LightBulb Brightness Characteristic
     this.LightBulb.Service.getCharacteristic(this.hap.Characteristic.Brightness).onGet(() => {
+      this.reachable()
       return this.LightBulb.Brightness
     }).onSet(this.BrightnessSet.bind(this))
 
@@ -165,6 +173,14 @@ export class Fan extends deviceBase {
       this.errorLog(`failed to registerPlatformBLE, Error: ${e.message ?? e}`)
     }
 
+    // track BLE presence if enabled
+    try {
+      this.debugLog('Setting up BLE Presence')
+      this.setupBlePresence()
+    } catch (e: any) {
+      this.errorLog(`failed to setupBlePresence, Error: ${e.message ?? e}`)
+    }
+
     // Start an update interval
     interval(this.deviceRefreshRate * 1000)
       .pipe(skipWhile(() => this.fanUpdateInProgress))
@@ -185,9 +201,11 @@ export class Fan extends deviceBase {
         try {
           await this.pushChanges()
         } catch (e: any) {
+          await this.changeFailed(`Error: ${e.message ?? e}`)
           await this.apiError(e)
           this.errorLog(`failed pushChanges with ${device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
         }
+        await this.changeSettled()
         this.fanUpdateInProgress = false
       })
   }
@@ -308,7 +326,7 @@ export class Fan extends deviceBase {
   async refreshStatus(): Promise<void> {
     if (!this.device.enableCloudService && this.OpenAPI) {
       this.errorLog(`refreshStatus enableCloudService: ${this.device.enableCloudService}`)
-    } else if (this.BLE) {
+    } else if (this.useBLE()) {
       await this.BLERefreshStatus()
     } else if (this.OpenAPI && this.platform.config.credentials?.token) {
       await this.openAPIRefreshStatus()
@@ -322,12 +340,13 @@ export class Fan extends deviceBase {
     this.debugLog('BLERefreshStatus')
     const switchBotBLE = await this.switchbotBLE()
     if (switchBotBLE === undefined) {
-      await this.BLERefreshConnection(switchBotBLE)
+      this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchBotBLE}`)
+      this.connection.failure('BLE')
     } else {
       // Start to monitor advertisement packets
       (async () => {
         // Start to monitor advertisement packets
-        const serviceData = await this.monitorAdvertisementPackets(switchBotBLE) as batteryCirculatorFanServiceData
+        const serviceData = await this.monitorAdvertisementPackets() as batteryCirculatorFanServiceData
         // Update HomeKit
         if (serviceData.model === SwitchBotBLEModel.Unknown && SwitchBotBLEModelName.Unknown) {
           this.serviceData = serviceData
@@ -335,7 +354,7 @@ export class Fan extends deviceBase {
           await this.updateHomeKitCharacteristics()
         } else {
           this.errorLog(`failed to get serviceData, serviceData: ${JSON.stringify(serviceData)}`)
-          await this.BLERefreshConnection(switchBotBLE)
+          this.connection.failure('BLE')
         }
       })()
     }
@@ -419,7 +438,7 @@ export class Fan extends deviceBase {
   async pushChanges(): Promise<void> {
     if (!this.device.enableCloudService && this.OpenAPI) {
       this.errorLog(`pushChanges enableCloudService: ${this.device.enableCloudService}`)
-    } else if (this.BLE) {
+    } else if (this.useBLE()) {
       await this.BLEpushChanges()
     } else if (this.OpenAPI && this.platform.config.credentials?.token) {
       await this.openAPIpushChanges()
@@ -457,20 +476,18 @@ export class Fan extends deviceBase {
         this.device.bleMac = formattedDeviceId
         this.debugLog(`bleMac: ${this.device.bleMac}`)
         if (switchBotBLE !== false) {
-          switchBotBLE
-            .discover({ model: this.device.bleModel, id: this.device.bleMac })
-            .then(async (device_list: SwitchbotDevice[]) => {
-              return await this.retryBLE({
-                max: this.maxRetryBLE(),
-                fn: async () => {
-                  if (this.Fan.Active) {
-                    return await (device_list[0] as any).turnOn()
-                  } else {
-                    return await (device_list[0] as any).turnOff()
-                  }
-                },
-              })
+          this.bleCommand(async (device_list: SwitchbotDevice[]) => {
+            return await this.retryBLE({
+              max: this.maxRetryBLE(),
+              fn: async () => {
+                if (this.Fan.Active) {
+                  return await (device_list[0] as any).turnOn()
+                } else {
+                  return await (device_list[0] as any).turnOff()
+                }
+              },
             })
+          })
             .then(async () => {
               this.successLog(`Active: ${this.Fan.Active} sent over SwitchBot BLE, sent successfully`)
               await this.updateHomeKitCharacteristics()
@@ -478,11 +495,11 @@ export class Fan extends deviceBase {
             .catch(async (e: any) => {
               await this.apiError(e)
               this.errorLog(`failed BLEpushChanges with ${this.device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
-              await this.BLEPushConnection()
             })
         } else {
           this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${JSON.stringify(switchBotBLE)}`)
-          await this.BLEPushConnection()
+          this.connection.failure('BLE')
+          await this.changeFailed('BLE connection could not be established')
         }
       } catch (error) {
         this.errorLog(`failed to format device ID as MAC, Error: ${error}`)
@@ -582,6 +599,8 @@ export class Fan extends deviceBase {
    * Handle requests to set the value of the "On" characteristic
    */
   async ActiveSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.Fan.Active !== this.accessory.context.Active) {
       this.infoLog(`Set Active: ${value}`)
     } else {
@@ -590,12 +609,15 @@ export class Fan extends deviceBase {
 
     this.Fan.Active = value
     this.doFanUpdate.next()
+    await this.changeOutcome()
   }
 
   /**
    * Handle requests to set the value of the "On" characteristic
    */
   async RotationSpeedSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.Fan.RotationSpeed !== this.accessory.context.RotationSpeed) {
       this.infoLog(`Set RotationSpeed ${value}`)
     } else {
@@ -604,12 +626,15 @@ export class Fan extends deviceBase {
 
     this.Fan.RotationSpeed = value
     this.doFanUpdate.next()
+    await this.changeOutcome()
   }
 
   /**
    * Handle requests to set the value of the "On" characteristic
    */
   async SwingModeSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.Fan.SwingMode !== this.accessory.context.SwingMode) {
       this.infoLog(`Set SwingMode ${value}`)
     } else {
@@ -618,12 +643,15 @@ export class Fan extends deviceBase {
 
     this.Fan.SwingMode = value
     this.doFanUpdate.next()
+    await this.changeOutcome()
   }
 
   /**
    * Handle requests to set the value of the "On" characteristic
    */
   async OnSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.LightBulb.On !== this.accessory.context.On) {
       this.infoLog(`Set On: ${value}`)
     } else {
@@ -632,12 +660,15 @@ export class Fan extends deviceBase {
 
     this.LightBulb.On = value
     this.doFanUpdate.next()
+    await this.changeOutcome()
   }
 
   /**
    * Handle requests to set the value of the "Brightness" characteristic
    */
   async BrightnessSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.LightBulb.On && (this.LightBulb.Brightness !== this.accessory.context.Brightness)) {
       this.infoLog(`Set Brightness: ${value}`)
     } else {
@@ -650,6 +681,7 @@ export class Fan extends deviceBase {
 
     this.LightBulb.Brightness = value
     this.doFanUpdate.next()
+    await this.changeOutcome()
   }
 
   async updateHomeKitCharacteristics(): Promise<void> {
@@ -671,21 +703,6 @@ export class Fan extends deviceBase {
     await this.updateCharacteristic(this.LightBulb.Service, this.hap.Characteristic.Brightness, this.LightBulb.Brightness, 'Brightness')
   }
 
-  async BLEPushConnection() {
-    if (this.platform.config.credentials?.token && this.device.connectionType === 'BLE/OpenAPI') {
-      this.warnLog('Using OpenAPI Connection to Push Changes')
-      await this.openAPIpushChanges()
-    }
-  }
-
-  async BLERefreshConnection(switchbot: any): Promise<void> {
-    this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchbot}`)
-    if (this.platform.config.credentials?.token && this.device.connectionType === 'BLE/OpenAPI') {
-      this.warnLog('Using OpenAPI Connection to Refresh Status')
-      await this.openAPIRefreshStatus()
-    }
-  }
-
   async offlineOff(): Promise<void> {
     if (this.device.offline) {
       this.Fan.Service.updateCharacteristic(this.hap.Characteristic.Active, this.hap.Characteristic.Active.INACTIVE)
@@ -695,12 +712,4 @@ export class Fan extends deviceBase {
       this.LightBulb.Service.updateCharacteristic(this.hap.Characteristic.Brightness, 0)
     }
   }
-
-  async apiError(e: any): Promise<void> {
-    this.Fan.Service.updateCharacteristic(this.hap.Characteristic.Active, e)
-    this.Fan.Service.updateCharacteristic(this.hap.Characteristic.RotationSpeed, e)
-    this.Fan.Service.updateCharacteristic(this.hap.Characteristic.SwingMode, e)
-    this.LightBulb.Service.updateCharacteristic(this.hap.Characteristic.On, e)
-    this.LightBulb.Service.updateCharacteristic(this.hap.Characteristic.Brightness, e)
-  }
 }
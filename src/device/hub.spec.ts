@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { characteristic, createPlatform, deviceStatus, discover, openAPIResponse, webhookEvent } from '../test/harness.js'
+
+const hub = { deviceId: 'F1A2B3C4D5E6', deviceName: 'Living Room Hub', deviceType: 'Hub 2', enableCloudService: true, hubDeviceId: '' }
+
+describe('hub 2', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  async function openAPIHub(config: object = {}, status: object = {}) {
+    const harness = createPlatform({ options: { devices: [{ deviceId: hub.deviceId, ...config }] } })
+    harness.getDeviceStatus.mockResolvedValue(openAPIResponse(100, deviceStatus(hub.deviceId, { temperature: 22, humidity: 45, lightLevel: 20, ...status })))
+    const [accessory] = await discover(harness, [hub])
+    const { Service, Characteristic } = harness.api.hap
+    return {
+      harness,
+      accessory,
+      temperature: characteristic(accessory, Service.TemperatureSensor, Characteristic.CurrentTemperature),
+      humidity: characteristic(accessory, Service.HumiditySensor, Characteristic.CurrentRelativeHumidity),
+      lightLevel: characteristic(accessory, Service.LightSensor, Characteristic.CurrentAmbientLightLevel),
+    }
+  }
+
+  it('reads its temperature, humidity and light level', async () => {
+    const { temperature, humidity, lightLevel } = await openAPIHub()
+
+    await vi.waitFor(() => expect(temperature.value).toBeCloseTo(22, 1))
+    expect(humidity.value).toBe(45)
+    expect(lightLevel.value).toBeCloseTo(6001, 0)
+  })
+
+  it.each([
+    [1, 1],
+    [11, 526.3],
+    [20, 1001],
+  ])('spreads light level %i across set_minLux and set_maxLux, as %d lux', async (level, lux) => {
+    const { lightLevel } = await openAPIHub({ set_maxLux: 1001 }, { lightLevel: level })
+
+    await vi.waitFor(() => expect(lightLevel.value).toBeCloseTo(lux, 0))
+  })
+
+  it('updates from webhook events', async () => {
+    const { harness, temperature, humidity } = await openAPIHub({ webhook: true })
+    await vi.waitFor(() => expect(temperature.value).toBeCloseTo(22, 1))
+
+    harness.platform.webhookEventContext(webhookEvent('WoHub2', hub.deviceId, { temperature: 23.5, humidity: 50, lightLevel: 10, scale: 'CELSIUS' }).context)
+
+    await vi.waitFor(() => expect(temperature.value).toBeCloseTo(23.5, 1))
+    expect(humidity.value).toBe(50)
+  })
+})
@@ -89,6 +89,7 @@ export class Hub extends deviceBase {
         maxValue: 100,
         minStep: 0.1,
       }).onGet(() => {
+        this.reachable()
         return this.TemperatureSensor!.CurrentTemperature
       })
     }
@@ -113,6 +114,7 @@ export class Hub extends deviceBase {
       this.HumiditySensor!.Service.setCharacteristic(this.hap.Characteristic.Name, this.HumiditySensor.Name).getCharacteristic(this.hap.Characteristic.CurrentRelativeHumidity).setProps({
         minStep: 0.1,
       }).onGet(() => {
+        this.reachable()
         return this.HumiditySensor!.CurrentRelativeHumidity
       })
     }
@@ -137,6 +139,7 @@ export class Hub extends deviceBase {
       this.LightSensor!.Service.setCharacteristic(this.hap.Characteristic.Name, this.LightSensor.Name).getCharacteristic(this.hap.Characteristic.CurrentAmbientLightLevel).setProps({
         minStep: 1,
       }).onGet(() => {
+        this.reachable()
         return this.LightSensor!.CurrentAmbientLightLevel
       })
     }
@@ -165,6 +168,14 @@ export class Hub extends deviceBase {
       this.errorLog(`failed to registerPlatformBLE, Error: ${e.message ?? e}`)
     }
 
+    // track BLE presence if enabled
+    try {
+      this.debugLog('Setting up BLE Presence')
+      this.setupBlePresence()
+    } catch (e: any) {
+      this.errorLog(`failed to setupBlePresence, Error: ${e.message ?? e}`)
+    }
+
     // Start an update interval
     interval(this.deviceRefreshRate * 1000)
       .pipe(skipWhile(() => this.hubUpdateInProgress))
@@ -275,7 +286,7 @@ export class Hub extends deviceBase {
   async refreshStatus(): Promise<void> {
     if (!this.device.enableCloudService && this.OpenAPI) {
       this.errorLog(`refreshStatus enableCloudService: ${this.device.enableCloudService}`)
-    } else if (this.BLE) {
+    } else if (this.useBLE()) {
       await this.BLERefreshStatus()
     } else if (this.OpenAPI && this.platform.config.credentials?.token) {
       await this.openAPIRefreshStatus()
@@ -289,12 +300,13 @@ export class Hub extends deviceBase {
     this.debugLog('BLERefreshStatus')
     const switchBotBLE = await this.switchbotBLE()
     if (switchBotBLE === undefined) {
-      await this.BLERefreshConnection(switchBotBLE)
+      this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchBotBLE}`)
+      this.connection.failure('BLE')
     } else {
       // Start to monitor advertisement packets
       (async () => {
         // Start to monitor advertisement packets
-        const serviceData = await this.monitorAdvertisementPackets(switchBotBLE) as hub2ServiceData
+        const serviceData = await this.monitorAdvertisementPackets() as hub2ServiceData
         // Update HomeKit
         if (serviceData.model === SwitchBotBLEModel.Hub2 && serviceData.modelName === SwitchBotBLEModelName.Hub2) {
           this.serviceData = serviceData
@@ -302,7 +314,7 @@ export class Hub extends deviceBase {
           await this.updateHomeKitCharacteristics()
         } else {
           this.errorLog(`failed to get serviceData, serviceData: ${JSON.stringify(serviceData)}`)
-          await this.BLERefreshConnection(switchBotBLE)
+          this.connection.failure('BLE')
         }
       })()
     }
@@ -392,14 +404,6 @@ export class Hub extends deviceBase {
     }
   }
 
-  async BLERefreshConnection(switchbot: any): Promise<void> {
-    this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchbot}`)
-    if (this.platform.config.credentials?.token && this.device.connectionType === 'BLE/OpenAPI') {
-      this.warnLog('Using OpenAPI Connection to Refresh Status')
-      await this.openAPIRefreshStatus()
-    }
-  }
-
   async offlineOff(): Promise<void> {
     if (this.device.offline) {
       if (!(this.device as hubConfig).hide_temperature && this.TemperatureSensor?.Service) {
@@ -413,16 +417,4 @@ export class Hub extends deviceBase {
       }
     }
   }
-
-  async apiError(e: any): Promise<void> {
-    if (!(this.device as hubConfig).hide_temperature && this.TemperatureSensor?.Service) {
-      this.TemperatureSensor.Service.updateCharacteristic(this.hap.Characteristic.CurrentTemperature, e)
-    }
-    if (!(this.device as hubConfig).hide_humidity && this.HumiditySensor?.Service) {
-      this.HumiditySensor.Service.updateCharacteristic(this.hap.Characteristic.CurrentRelativeHumidity, e)
-    }
-    if (!(this.device as hubConfig).hide_lightsensor && this.LightSensor?.Service) {
-      this.LightSensor.Service.updateCharacteristic(this.hap.Characteristic.CurrentAmbientLightLevel, e)
-    }
-  }
 }
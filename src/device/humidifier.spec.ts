@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { characteristic, createPlatform, deviceStatus, discover, openAPIResponse } from '../test/harness.js'
+
+const humidifier = { deviceId: 'D4A2B3C4D5E6', deviceName: 'Nursery', deviceType: 'Humidifier', enableCloudService: true, hubDeviceId: 'F1A2B3C4D5E6' }
+
+describe('humidifier', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  async function openAPIHumidifier(status: object = {}) {
+    const harness = createPlatform()
+    harness.getDeviceStatus.mockResolvedValue(openAPIResponse(100, deviceStatus(humidifier.deviceId, { power: 'on', humidity: 40, auto: false, nebulizationEfficiency: 60, lackWater: false, ...status })))
+    const [accessory] = await discover(harness, [humidifier])
+    const { Service, Characteristic } = harness.api.hap
+    const humidifierService = (type: any) => characteristic(accessory, Service.HumidifierDehumidifier, type)
+    return {
+      harness,
+      accessory,
+      active: humidifierService(Characteristic.Active),
+      targetState: humidifierService(Characteristic.TargetHumidifierDehumidifierState),
+      threshold: humidifierService(Characteristic.RelativeHumidityHumidifierThreshold),
+      humidifierService,
+    }
+  }
+
+  it('reads its humidity, threshold, water level and temperature', async () => {
+    const { harness, accessory, threshold, humidifierService } = await openAPIHumidifier({ temperature: 21, lackWater: true })
+    const { Service, Characteristic } = harness.api.hap
+
+    await vi.waitFor(() => expect(threshold.value).toBe(60))
+    expect(humidifierService(Characteristic.CurrentRelativeHumidity).value).toBe(40)
+    expect(humidifierService(Characteristic.CurrentHumidifierDehumidifierState).value).toBe(Characteristic.CurrentHumidifierDehumidifierState.HUMIDIFYING)
+    expect(humidifierService(Characteristic.WaterLevel).value).toBe(0)
+    expect(characteristic(accessory, Service.TemperatureSensor, Characteristic.CurrentTemperature).value).toBeCloseTo(21, 1)
+  })
+
+  it('sets the threshold with setMode', async () => {
+    const { harness, threshold } = await openAPIHumidifier()
+
+    await threshold.handleSetRequest(55)
+
+    await vi.waitFor(() => expect(harness.controlDevice).toHaveBeenCalledWith(humidifier.deviceId, 'setMode', '55', 'command'))
+  })
+
+  it('switches to auto mode', async () => {
+    const { harness, targetState } = await openAPIHumidifier()
+
+    await targetState.handleSetRequest(harness.api.hap.Characteristic.TargetHumidifierDehumidifierState.HUMIDIFIER_OR_DEHUMIDIFIER)
+
+    await vi.waitFor(() => expect(harness.controlDevice).toHaveBeenCalledWith(humidifier.deviceId, 'setMode', 'auto', 'command'))
+  })
+
+  it('turns off', async () => {
+    const { harness, active } = await openAPIHumidifier()
+
+    await active.handleSetRequest(harness.api.hap.Characteristic.Active.INACTIVE)
+
+    await vi.waitFor(() => expect(harness.controlDevice).toHaveBeenCalledWith(humidifier.deviceId, 'turnOff', 'default', 'command'))
+  })
+})
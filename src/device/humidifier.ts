@@ -89,10 +89,12 @@ export class Humidifier extends deviceBase {
       maxValue: 1,
       validValues: [0, 1],
     }).onGet(() => {
+      this.reachable()
       return this.HumidifierDehumidifier.TargetHumidifierDehumidifierState
     }).onSet(this.TargetHumidifierDehumidifierStateSet.bind(this))
 
     this.HumidifierDehumidifier.Service.getCharacteristic(this.hap.Characteristic.Active).onGet(() => {
+      this.reachable()
       return this.HumidifierDehumidifier.Active
     }).onSet(this.ActiveSet.bind(this))
 
@@ -102,6 +104,7 @@ export class Humidifier extends deviceBase {
       maxValue: 100,
       minStep: (device as humidifierConfig).set_minStep ?? 1,
     }).onGet(() => {
+      this.reachable()
       return this.HumidifierDehumidifier.RelativeHumidityHumidifierThreshold
     }).onSet(this.RelativeHumidityHumidifierThresholdSet.bind(this))
 
@@ -128,6 +131,7 @@ export class Humidifier extends deviceBase {
         maxValue: 100,
         minStep: 0.1,
       }).onGet(() => {
+        this.reachable()
         return this.TemperatureSensor!.CurrentTemperature
       })
     }
@@ -156,6 +160,14 @@ export class Humidifier extends deviceBase {
       this.errorLog(`failed to registerPlatformBLE, Error: ${e.message ?? e}`)
     }
 
+    // track BLE presence if enabled
+    try {
+      this.debugLog('Setting up BLE Presence')
+      this.setupBlePresence()
+    } catch (e: any) {
+      this.errorLog(`failed to setupBlePresence, Error: ${e.message ?? e}`)
+    }
+
     // Start an update interval
     interval(this.deviceRefreshRate * 1000)
       .pipe(skipWhile(() => this.humidifierUpdateInProgress))
@@ -176,9 +188,11 @@ export class Humidifier extends deviceBase {
         try {
           await this.pushChanges()
         } catch (e: any) {
+          await this.changeFailed(`Error: ${e.message ?? e}`)
           await this.apiError(e)
           this.errorLog(`failed pushChanges with ${device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
         }
+        await this.changeSettled()
         this.humidifierUpdateInProgress = false
       })
   }
@@ -305,7 +319,7 @@ export class Humidifier extends deviceBase {
   async refreshStatus(): Promise<void> {
     if (!this.device.enableCloudService && this.OpenAPI) {
       this.errorLog(`refreshStatus enableCloudService: ${this.device.enableCloudService}`)
-    } else if (this.BLE) {
+    } else if (this.useBLE()) {
       await this.BLERefreshStatus()
     } else if (this.OpenAPI && this.platform.config.credentials?.token) {
       await this.openAPIRefreshStatus()
@@ -319,12 +333,13 @@ export class Humidifier extends deviceBase {
     this.debugLog('BLERefreshStatus')
     const switchBotBLE = await this.switchbotBLE()
     if (switchBotBLE === undefined) {
-      await this.BLERefreshConnection(switchBotBLE)
+      this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchBotBLE}`)
+      this.connection.failure('BLE')
     } else {
       // Start to monitor advertisement packets
       (async () => {
         // Start to monitor advertisement packets
-        const serviceData = await this.monitorAdvertisementPackets(switchBotBLE) as humidifierServiceData
+        const serviceData = await this.monitorAdvertisementPackets() as humidifierServiceData
         // Update HomeKit
         if (serviceData.model === SwitchBotBLEModel.Humidifier && serviceData.modelName === SwitchBotBLEModelName.Humidifier) {
           this.serviceData = serviceData
@@ -332,7 +347,7 @@ export class Humidifier extends deviceBase {
           await this.updateHomeKitCharacteristics()
         } else {
           this.errorLog(`failed to get serviceData, serviceData: ${JSON.stringify(serviceData)}`)
-          await this.BLERefreshConnection(switchBotBLE)
+          this.connection.failure('BLE')
         }
       })()
     }
@@ -407,7 +422,7 @@ export class Humidifier extends deviceBase {
   async pushChanges(): Promise<void> {
     if (!this.device.enableCloudService && this.OpenAPI) {
       this.errorLog(`pushChanges enableCloudService: ${this.device.enableCloudService}`)
-    } else if (this.BLE) {
+    } else if (this.useBLE()) {
       await this.BLEpushChanges()
     } else if (this.OpenAPI && this.platform.config.credentials?.token) {
       await this.openAPIpushChanges()
@@ -435,11 +450,9 @@ export class Humidifier extends deviceBase {
         this.device.bleMac = formattedDeviceId
         this.debugLog(`bleMac: ${this.device.bleMac}`)
         if (switchBotBLE !== false) {
-          switchBotBLE
-            .discover({ model: this.device.bleModel, quick: true, id: this.device.bleMac })
-            .then(async (device_list: SwitchbotDevice[]) => {
-              return await (device_list[0] as WoHumi).percentage(Number(this.HumidifierDehumidifier.RelativeHumidityHumidifierThreshold))
-            })
+          this.bleCommand(async (device_list: SwitchbotDevice[]) => {
+            return await (device_list[0] as WoHumi).percentage(Number(this.HumidifierDehumidifier.RelativeHumidityHumidifierThreshold))
+          })
             .then(async () => {
               this.successLog(`RelativeHumidityHumidifierThreshold: ${this.HumidifierDehumidifier.RelativeHumidityHumidifierThreshold} sent over BLE, sent successfully`)
               await this.updateHomeKitCharacteristics()
@@ -447,11 +460,11 @@ export class Humidifier extends deviceBase {
             .catch(async (e: any) => {
               await this.apiError(e)
               this.errorLog(`failed BLEpushChanges with ${this.device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
-              await this.BLEPushConnection()
             })
         } else {
           this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${JSON.stringify(switchBotBLE)}`)
-          await this.BLEPushConnection()
+          this.connection.failure('BLE')
+          await this.changeFailed('BLE connection could not be established')
         }
       } catch (error) {
         this.errorLog(`failed to format device ID as MAC, Error: ${error}`)
@@ -562,6 +575,8 @@ export class Humidifier extends deviceBase {
    * Handle requests to set the "Active" characteristic
    */
   async ActiveSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.HumidifierDehumidifier.Active !== this.accessory.context.Active) {
       this.infoLog(`Set Active: ${value}`)
     } else {
@@ -570,12 +585,15 @@ export class Humidifier extends deviceBase {
 
     this.HumidifierDehumidifier.Active = value
     this.doHumidifierUpdate.next()
+    await this.changeOutcome()
   }
 
   /**
    * Handle requests to set the "Target Humidifier Dehumidifier State" characteristic
    */
   async TargetHumidifierDehumidifierStateSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.HumidifierDehumidifier.Active === this.hap.Characteristic.Active.ACTIVE) {
       this.infoLog(`Set TargetHumidifierDehumidifierState: ${value}`)
     } else {
@@ -584,12 +602,15 @@ export class Humidifier extends deviceBase {
 
     this.HumidifierDehumidifier.TargetHumidifierDehumidifierState = value
     this.doHumidifierUpdate.next()
+    await this.changeOutcome()
   }
 
   /**
    * Handle requests to set the "Relative Humidity Humidifier Threshold" characteristic
    */
   async RelativeHumidityHumidifierThresholdSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.HumidifierDehumidifier.Active === this.hap.Characteristic.Active.ACTIVE) {
       this.infoLog(`Set RelativeHumidityHumidifierThreshold: ${value}`)
     } else {
@@ -603,6 +624,7 @@ export class Humidifier extends deviceBase {
 
     this.HumidifierDehumidifier.RelativeHumidityHumidifierThreshold = value
     this.doHumidifierUpdate.next()
+    await this.changeOutcome()
   }
 
   /**
@@ -627,21 +649,6 @@ export class Humidifier extends deviceBase {
     }
   }
 
-  async BLEPushConnection() {
-    if (this.platform.config.credentials?.token && this.device.connectionType === 'BLE/OpenAPI') {
-      this.warnLog('Using OpenAPI Connection to Push Changes')
-      await this.openAPIpushChanges()
-    }
-  }
-
-  async BLERefreshConnection(switchbot: any): Promise<void> {
-    this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchbot}`)
-    if (this.platform.config.credentials?.token && this.device.connectionType === 'BLE/OpenAPI') {
-      this.warnLog('Using OpenAPI Connection to Refresh Status')
-      await this.openAPIRefreshStatus()
-    }
-  }
-
   async offlineOff(): Promise<void> {
     if (this.device.offline) {
       this.HumidifierDehumidifier.Service.updateCharacteristic(this.hap.Characteristic.CurrentHumidifierDehumidifierState, this.hap.Characteristic.CurrentHumidifierDehumidifierState.INACTIVE)
@@ -649,16 +656,4 @@ export class Humidifier extends deviceBase {
       this.HumidifierDehumidifier.Service.updateCharacteristic(this.hap.Characteristic.Active, this.hap.Characteristic.Active.INACTIVE)
     }
   }
-
-  async apiError(e: any): Promise<void> {
-    this.HumidifierDehumidifier.Service.updateCharacteristic(this.hap.Characteristic.CurrentRelativeHumidity, e)
-    this.HumidifierDehumidifier.Service.updateCharacteristic(this.hap.Characteristic.WaterLevel, e)
-    this.HumidifierDehumidifier.Service.updateCharacteristic(this.hap.Characteristic.CurrentHumidifierDehumidifierState, e)
-    this.HumidifierDehumidifier.Service.updateCharacteristic(this.hap.Characteristic.TargetHumidifierDehumidifierState, e)
-    this.HumidifierDehumidifier.Service.updateCharacteristic(this.hap.Characteristic.Active, e)
-    this.HumidifierDehumidifier.Service.updateCharacteristic(this.hap.Characteristic.RelativeHumidityHumidifierThreshold, e)
-    if (!(this.device as humidifierConfig).hide_temperature && this.TemperatureSensor?.Service) {
-      this.TemperatureSensor.Service.updateCharacteristic(this.hap.Characteristic.CurrentTemperature, e)
-    }
-  }
 }
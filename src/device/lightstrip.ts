@@ -103,6 +103,7 @@ export class StripLight extends deviceBase {
 
     // Initialize LightBulb Characteristics
     this.LightBulb.Service.setCharacteristic(this.hap.Characteristic.Name, this.LightBulb.Name).getCharacteristic(this.hap.Characteristic.On).onGet(() => {
+      this.reachable()
       return this.LightBulb.On
     }).onSet(this.OnSet.bind(this))
 
@@ -113,6 +114,7 @@ export class StripLight extends deviceBase {
       maxValue: 100,
       validValueRanges: [0, 100],
     }).onGet(() => {
+      this.reachable()
       return this.LightBulb.Brightness
     }).onSet(this.BrightnessSet.bind(this))
 
@@ -122,6 +124,7 @@ export class StripLight extends deviceBase {
       maxValue: 500,
       validValueRanges: [140, 500],
     }).onGet(() => {
+      this.reachable()
       return this.LightBulb.ColorTemperature!
     }).onSet(this.ColorTemperatureSet.bind(this))
 
@@ -131,6 +134,7 @@ export class StripLight extends deviceBase {
       maxValue: 360,
       validValueRanges: [0, 360],
     }).onGet(() => {
+      this.reachable()
       return this.LightBulb.Hue
     }).onSet(this.HueSet.bind(this))
 
@@ -140,6 +144,7 @@ export class StripLight extends deviceBase {
       maxValue: 100,
       validValueRanges: [0, 100],
     }).onGet(() => {
+      this.reachable()
       return this.LightBulb.Saturation
     }).onSet(this.SaturationSet.bind(this))
 
@@ -167,6 +172,14 @@ export class StripLight extends deviceBase {
       this.errorLog(`failed to registerPlatformBLE, Error: ${e.message ?? e}`)
     }
 
+    // track BLE presence if enabled
+    try {
+      this.debugLog('Setting up BLE Presence')
+      this.setupBlePresence()
+    } catch (e: any) {
+      this.errorLog(`failed to setupBlePresence, Error: ${e.message ?? e}`)
+    }
+
     // Start an update interval
     interval(this.deviceRefreshRate * 1000)
       .pipe(skipWhile(() => this.stripLightUpdateInProgress))
@@ -187,9 +200,11 @@ export class StripLight extends deviceBase {
         try {
           await this.pushChanges()
         } catch (e: any) {
+          await this.changeFailed(`Error: ${e.message ?? e}`)
           await this.apiError(e)
           this.errorLog(`failed pushChanges with ${device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
         }
+        await this.changeSettled()
         this.stripLightUpdateInProgress = false
       })
   }
@@ -297,7 +312,7 @@ export class StripLight extends deviceBase {
   async refreshStatus(): Promise<void> {
     if (!this.device.enableCloudService && this.OpenAPI) {
       this.errorLog(`refreshStatus enableCloudService: ${this.device.enableCloudService}`)
-    } else if (this.BLE) {
+    } else if (this.useBLE()) {
       await this.BLERefreshStatus()
     } else if (this.OpenAPI && this.platform.config.credentials?.token) {
       await this.openAPIRefreshStatus()
@@ -311,12 +326,13 @@ export class StripLight extends deviceBase {
     this.debugLog('BLERefreshStatus')
     const switchBotBLE = await this.switchbotBLE()
     if (switchBotBLE === undefined) {
-      await this.BLERefreshConnection(switchBotBLE)
+      this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchBotBLE}`)
+      this.connection.failure('BLE')
     } else {
       // Start to monitor advertisement packets
       (async () => {
         // Start to monitor advertisement packets
-        const serviceData = await this.monitorAdvertisementPackets(switchBotBLE) as stripLightServiceData
+        const serviceData = await this.monitorAdvertisementPackets() as stripLightServiceData
         // Update HomeKit
         if (serviceData.model === SwitchBotBLEModel.StripLight && serviceData.modelName === SwitchBotBLEModelName.StripLight) {
           this.serviceData = serviceData
@@ -324,7 +340,7 @@ export class StripLight extends deviceBase {
           await this.updateHomeKitCharacteristics()
         } else {
           this.errorLog(`failed to get serviceData, serviceData: ${JSON.stringify(serviceData)}`)
-          await this.BLERefreshConnection(switchBotBLE)
+          this.connection.failure('BLE')
         }
       })()
     }
@@ -408,7 +424,7 @@ export class StripLight extends deviceBase {
   async pushChanges(): Promise<void> {
     if (!this.device.enableCloudService && this.OpenAPI) {
       this.errorLog(`pushChanges enableCloudService: ${this.device.enableCloudService}`)
-    } else if (this.BLE) {
+    } else if (this.useBLE()) {
       await this.BLEpushChanges()
       if (this.LightBulb.On) {
         // Push Brightness Update
@@ -462,22 +478,20 @@ export class StripLight extends deviceBase {
         this.device.bleMac = formattedDeviceId
         this.debugLog(`bleMac: ${this.device.bleMac}`)
         if (switchBotBLE !== false) {
-          switchBotBLE
-            .discover({ model: this.device.bleModel, id: this.device.bleMac })
-            .then(async (device_list: SwitchbotDevice[]) => {
-              const deviceList = device_list as WoStrip[]
-              this.infoLog(`On: ${this.LightBulb.On}`)
-              return await this.retryBLE({
-                max: this.maxRetryBLE(),
-                fn: async () => {
-                  if (this.LightBulb.On) {
-                    return await deviceList[0].turnOn()
-                  } else {
-                    return await deviceList[0].turnOff()
-                  }
-                },
-              })
+          this.bleCommand(async (device_list: SwitchbotDevice[]) => {
+            const deviceList = device_list as WoStrip[]
+            this.infoLog(`On: ${this.LightBulb.On}`)
+            return await this.retryBLE({
+              max: this.maxRetryBLE(),
+              fn: async () => {
+                if (this.LightBulb.On) {
+                  return await deviceList[0].turnOn()
+                } else {
+                  return await deviceList[0].turnOff()
+                }
+              },
             })
+          })
             .then(async () => {
               this.successLog(`On: ${this.LightBulb.On} sent over SwitchBot BLE, sent successfully`)
               await this.updateHomeKitCharacteristics()
@@ -485,11 +499,11 @@ export class StripLight extends deviceBase {
             .catch(async (e: any) => {
               await this.apiError(e)
               this.errorLog(`failed BLEpushChanges with ${this.device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
-              await this.BLEPushConnection()
             })
         } else {
           this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${JSON.stringify(switchBotBLE)}`)
-          await this.BLEPushConnection()
+          this.connection.failure('BLE')
+          await this.changeFailed('BLE connection could not be established')
         }
       } catch (error) {
         this.errorLog(`failed to format device ID as MAC, Error: ${error}`)
@@ -508,12 +522,10 @@ export class StripLight extends deviceBase {
         this.device.bleMac = formattedDeviceId
         this.debugLog(`bleMac: ${this.device.bleMac}`)
         if (switchBotBLE !== false) {
-          switchBotBLE
-            .discover({ model: this.device.bleModel, id: this.device.bleMac })
-            .then(async (device_list: SwitchbotDevice[]) => {
-              this.infoLog(`Brightness: ${this.LightBulb.Brightness}`)
-              return await (device_list[0] as WoStrip).setBrightness(Number(this.LightBulb.Brightness))
-            })
+          this.bleCommand(async (device_list: SwitchbotDevice[]) => {
+            this.infoLog(`Brightness: ${this.LightBulb.Brightness}`)
+            return await (device_list[0] as WoStrip).setBrightness(Number(this.LightBulb.Brightness))
+          })
             .then(async () => {
               this.successLog(`Brightness: ${this.LightBulb.Brightness} sent over SwitchBot BLE, sent successfully`)
               await this.updateHomeKitCharacteristics()
@@ -521,11 +533,11 @@ export class StripLight extends deviceBase {
             .catch(async (e: any) => {
               await this.apiError(e)
               this.errorLog(`failed BLEpushChanges with ${this.device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
-              await this.BLEPushConnection()
             })
         } else {
           this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${JSON.stringify(switchBotBLE)}`)
-          await this.BLEPushConnection()
+          this.connection.failure('BLE')
+          await this.changeFailed('BLE connection could not be established')
         }
       } catch (error) {
         this.errorLog(`failed to format device ID as MAC, Error: ${error}`)
@@ -547,12 +559,10 @@ export class StripLight extends deviceBase {
         this.device.bleMac = formattedDeviceId
         this.debugLog(`bleMac: ${this.device.bleMac}`)
         if (switchBotBLE !== false) {
-          switchBotBLE
-            .discover({ model: this.device.bleModel, id: this.device.bleMac })
-            .then(async (device_list: SwitchbotDevice[]) => {
-              this.infoLog(`RGB: ${(this.LightBulb.Brightness, red, green, blue)}`)
-              return await (device_list[0] as WoStrip).setRGB(Number(this.LightBulb.Brightness), red, green, blue)
-            })
+          this.bleCommand(async (device_list: SwitchbotDevice[]) => {
+            this.infoLog(`RGB: ${(this.LightBulb.Brightness, red, green, blue)}`)
+            return await (device_list[0] as WoStrip).setRGB(Number(this.LightBulb.Brightness), red, green, blue)
+          })
             .then(async () => {
               this.successLog(`RGB: ${(this.LightBulb.Brightness, red, green, blue)} sent over SwitchBot BLE, sent successfully`)
               await this.updateHomeKitCharacteristics()
@@ -560,11 +570,11 @@ export class StripLight extends deviceBase {
             .catch(async (e: any) => {
               await this.apiError(e)
               this.errorLog(`failed BLEpushRGBChanges with ${this.device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
-              await this.BLEPushConnection()
             })
         } else {
           this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${JSON.stringify(switchBotBLE)}`)
-          await this.BLEPushConnection()
+          this.connection.failure('BLE')
+          await this.changeFailed('BLE connection could not be established')
         }
       } catch (error) {
         this.errorLog(`failed to format device ID as MAC, Error: ${error}`)
@@ -666,6 +676,8 @@ export class StripLight extends deviceBase {
    * Handle requests to set the value of the "On" characteristic
    */
   async OnSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.LightBulb.On !== this.accessory.context.On) {
       this.infoLog(`Set On: ${value}`)
     } else {
@@ -674,12 +686,15 @@ export class StripLight extends deviceBase {
 
     this.LightBulb.On = value
     this.doStripLightUpdate.next()
+    await this.changeOutcome()
   }
 
   /**
    * Handle requests to set the value of the "Brightness" characteristic
    */
   async BrightnessSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.LightBulb.On && (this.LightBulb.Brightness !== this.accessory.context.Brightness)) {
       this.infoLog(`Set Brightness: ${value}`)
     } else {
@@ -692,12 +707,14 @@ export class StripLight extends deviceBase {
 
     this.LightBulb.Brightness = value
     this.doStripLightUpdate.next()
+    await this.changeOutcome()
   }
 
   /**
    * Handle requests to set the value of the "ColorTemperature" characteristic
    */
   async ColorTemperatureSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
     if (this.LightBulb.On && (this.LightBulb.ColorTemperature !== this.accessory.context.ColorTemperature)) {
       this.infoLog(`Set ColorTemperature: ${value}`)
     } else {
@@ -718,6 +735,7 @@ export class StripLight extends deviceBase {
     if (!this.accessory.context.On || this.accessory.context.maxKelvin === k) {
       return
     }
+    this.rememberState()
 
     // Updating the hue/sat to the corresponding values mimics native adaptive lighting
     const hs = m2hs(value)
@@ -726,12 +744,15 @@ export class StripLight extends deviceBase {
 
     this.LightBulb.ColorTemperature = value
     this.doStripLightUpdate.next()
+    await this.changeOutcome()
   }
 
   /**
    * Handle requests to set the value of the "Hue" characteristic
    */
   async HueSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.LightBulb.On && (this.LightBulb.Hue !== this.accessory.context.Hue)) {
       this.infoLog(`Set Hue: ${value}`)
     } else {
@@ -746,12 +767,15 @@ export class StripLight extends deviceBase {
 
     this.LightBulb.Hue = value
     this.doStripLightUpdate.next()
+    await this.changeOutcome()
   }
 
   /**
    * Handle requests to set the value of the "Saturation" characteristic
    */
   async SaturationSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.LightBulb.On && (this.LightBulb.Saturation !== this.accessory.context.Saturation)) {
       this.infoLog(`Set Saturation: ${value}`)
     } else {
@@ -766,6 +790,7 @@ export class StripLight extends deviceBase {
 
     this.LightBulb.Saturation = value
     this.doStripLightUpdate.next()
+    await this.changeOutcome()
   }
 
   async updateHomeKitCharacteristics(): Promise<void> {
@@ -790,32 +815,9 @@ export class StripLight extends deviceBase {
     this.debugLog(`adaptiveLightingShift: ${this.adaptiveLightingShift}`)
   }
 
-  async BLEPushConnection() {
-    if (this.platform.config.credentials?.token && this.device.connectionType === 'BLE/OpenAPI') {
-      this.warnLog('Using OpenAPI Connection to Push Changes')
-      await this.openAPIpushChanges()
-    }
-  }
-
-  async BLERefreshConnection(switchbot: any): Promise<void> {
-    this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchbot}`)
-    if (this.platform.config.credentials?.token && this.device.connectionType === 'BLE/OpenAPI') {
-      this.warnLog('Using OpenAPI Connection to Refresh Status')
-      await this.openAPIRefreshStatus()
-    }
-  }
-
   async offlineOff(): Promise<void> {
     if (this.device.offline) {
       this.LightBulb.Service.updateCharacteristic(this.hap.Characteristic.On, false)
     }
   }
-
-  async apiError(e: any): Promise<void> {
-    this.LightBulb.Service.updateCharacteristic(this.hap.Characteristic.On, e)
-    this.LightBulb.Service.updateCharacteristic(this.hap.Characteristic.Hue, e)
-    this.LightBulb.Service.updateCharacteristic(this.hap.Characteristic.Brightness, e)
-    this.LightBulb.Service.updateCharacteristic(this.hap.Characteristic.Saturation, e)
-    this.LightBulb.Service.updateCharacteristic(this.hap.Characteristic.ColorTemperature, e)
-  }
 }
@@ -0,0 +1,64 @@
+import { HAPStatus } from 'homebridge'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { characteristic, createPlatform, deviceStatus, discover, openAPIResponse } from '../test/harness.js'
+
+const lock = { deviceId: 'D3A2B3C4D5E6', deviceName: 'Front Door', deviceType: 'Smart Lock Pro', enableCloudService: true, hubDeviceId: 'F1A2B3C4D5E6' }
+
+describe('lock', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  async function openAPILock(status: object = {}) {
+    const harness = createPlatform()
+    harness.getDeviceStatus.mockResolvedValue(openAPIResponse(100, deviceStatus(lock.deviceId, { lockState: 'locked', doorState: 'closed', ...status })))
+    const [accessory] = await discover(harness, [lock])
+    const { Service, Characteristic } = harness.api.hap
+    return {
+      harness,
+      accessory,
+      currentState: characteristic(accessory, Service.LockMechanism, Characteristic.LockCurrentState),
+      targetState: characteristic(accessory, Service.LockMechanism, Characteristic.LockTargetState),
+      latch: characteristic(accessory, Service.Switch, Characteristic.On),
+    }
+  }
+
+  it('reads its lockState and doorState', async () => {
+    const { harness, accessory, currentState } = await openAPILock({ lockState: 'unlocked', doorState: 'opened' })
+    const { Service, Characteristic } = harness.api.hap
+
+    await vi.waitFor(() => expect(currentState.value).toBe(Characteristic.LockCurrentState.UNSECURED))
+    expect(characteristic(accessory, Service.ContactSensor, Characteristic.ContactSensorState).value).toBe(Characteristic.ContactSensorState.CONTACT_NOT_DETECTED)
+  })
+
+  it('unlocks and locks', async () => {
+    const { harness, targetState } = await openAPILock()
+    const { LockTargetState } = harness.api.hap.Characteristic
+
+    await targetState.handleSetRequest(LockTargetState.UNSECURED)
+    await vi.waitFor(() => expect(harness.controlDevice).toHaveBeenCalledWith(lock.deviceId, 'unlock', 'default', 'command'))
+    await targetState.handleSetRequest(LockTargetState.SECURED)
+
+    await vi.waitFor(() => expect(harness.controlDevice).toHaveBeenLastCalledWith(lock.deviceId, 'lock', 'default', 'command'))
+  })
+
+  it('unlocks with the Latch button, which turns itself back off', async () => {
+    const { harness, latch } = await openAPILock()
+
+    await latch.handleSetRequest(true)
+
+    await vi.waitFor(() => expect(harness.controlDevice).toHaveBeenCalledWith(lock.deviceId, 'unlock', 'default', 'command'))
+    await vi.waitFor(() => expect(latch.value).toBe(false))
+  })
+
+  it('stays locked when its hub is offline (171)', async () => {
+    const { harness, targetState } = await openAPILock()
+    const { LockTargetState } = harness.api.hap.Characteristic
+    harness.controlDevice.mockResolvedValue(openAPIResponse(171))
+
+    await expect(targetState.handleSetRequest(LockTargetState.UNSECURED)).rejects.toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE)
+
+    expect(targetState.value).toBe(LockTargetState.SECURED)
+  })
+})
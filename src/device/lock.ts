@@ -3,7 +3,7 @@
  * lock.ts: @switchbot/homebridge-switchbot.
  */
 import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge'
-import type { bodyChange, device, lockProServiceData, lockProStatus, lockProWebhookContext, lockServiceData, lockStatus, lockWebhookContext, SwitchbotDevice, WoSmartLock } from 'node-switchbot'
+import type { bodyChange, device, lockProServiceData, lockProStatus, lockProWebhookContext, lockServiceData, lockStatus, lockWebhookContext, WoSmartLock } from 'node-switchbot'
 
 import type { SwitchBotPlatform } from '../platform.js'
 import type { devicesConfig, lockConfig } from '../settings.js'
@@ -84,6 +84,7 @@ export class Lock extends deviceBase {
 
     // Initialize LockMechanism Characteristics
     this.LockMechanism.Service.setCharacteristic(this.hap.Characteristic.Name, this.LockMechanism.Name).getCharacteristic(this.hap.Characteristic.LockTargetState).onGet(() => {
+      this.reachable()
       return this.LockMechanism.LockTargetState
     }).onSet(this.LockTargetStateSet.bind(this))
 
@@ -99,10 +100,12 @@ export class Lock extends deviceBase {
 
     // Initialize Battery Characteristics
     this.Battery.Service.setCharacteristic(this.hap.Characteristic.Name, this.Battery.Name).setCharacteristic(this.hap.Characteristic.ChargingState, this.hap.Characteristic.ChargingState.NOT_CHARGEABLE).getCharacteristic(this.hap.Characteristic.BatteryLevel).onGet(() => {
+      this.reachable()
       return this.Battery.BatteryLevel
     })
 
     this.Battery.Service.getCharacteristic(this.hap.Characteristic.StatusLowBattery).onGet(() => {
+      this.reachable()
       return this.Battery.StatusLowBattery
     })
 
@@ -124,6 +127,7 @@ export class Lock extends deviceBase {
 
       // Initialize Contact Sensor Characteristics
       this.ContactSensor.Service.setCharacteristic(this.hap.Characteristic.Name, this.ContactSensor.Name).setCharacteristic(this.hap.Characteristic.StatusActive, true).getCharacteristic(this.hap.Characteristic.ContactSensorState).onGet(() => {
+        this.reachable()
         return this.ContactSensor!.ContactSensorState
       })
     }
@@ -146,6 +150,7 @@ export class Lock extends deviceBase {
 
       // Initialize Latch Button Characteristics
       this.Switch.Service.setCharacteristic(this.hap.Characteristic.Name, this.Switch.Name).getCharacteristic(this.hap.Characteristic.On).onGet(() => {
+        this.reachable()
         return this.Switch!.On
       }).onSet(this.OnSet.bind(this))
     }
@@ -174,6 +179,14 @@ export class Lock extends deviceBase {
       this.errorLog(`failed to registerPlatformBLE, Error: ${e.message ?? e}`)
     }
 
+    // track BLE presence if enabled
+    try {
+      this.debugLog('Setting up BLE Presence')
+      this.setupBlePresence()
+    } catch (e: any) {
+      this.errorLog(`failed to setupBlePresence, Error: ${e.message ?? e}`)
+    }
+
     // Start an update interval
     interval(this.deviceRefreshRate * 1000)
       .pipe(skipWhile(() => this.lockUpdateInProgress))
@@ -194,9 +207,11 @@ export class Lock extends deviceBase {
         try {
           await this.pushChanges()
         } catch (e: any) {
+          await this.changeFailed(`Error: ${e.message ?? e}`)
           await this.apiError(e)
           this.errorLog(`failed pushChanges with ${device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
         }
+        await this.changeSettled()
         this.lockUpdateInProgress = false
       })
   }
@@ -204,17 +219,33 @@ export class Lock extends deviceBase {
   async BLEparseStatus(): Promise<void> {
     this.debugLog('BLEparseStatus')
     this.debugLog(`(lockState) = BLE:(${this.serviceData.status}), current:(${this.LockMechanism.LockCurrentState})`)
-
-    // LockCurrentState
-    this.LockMechanism.LockCurrentState = this.serviceData.status === 'locked'
-      ? this.hap.Characteristic.LockCurrentState.SECURED
-      : this.hap.Characteristic.LockCurrentState.UNSECURED
+    const { LockCurrentState, LockTargetState } = this.hap.Characteristic
+
+    // LockCurrentState and LockTargetState, a lock that is still moving keeps its current state until it stops
+    switch (this.serviceData.status?.toUpperCase()) {
+      case 'LOCKED':
+        this.LockMechanism.LockCurrentState = LockCurrentState.SECURED
+        this.LockMechanism.LockTargetState = LockTargetState.SECURED
+        break
+      case 'UNLOCKED':
+        this.LockMechanism.LockCurrentState = LockCurrentState.UNSECURED
+        this.LockMechanism.LockTargetState = LockTargetState.UNSECURED
+        break
+      case 'LOCKING':
+        this.LockMechanism.LockTargetState = LockTargetState.SECURED
+        break
+      case 'UNLOCKING':
+        this.LockMechanism.LockTargetState = LockTargetState.UNSECURED
+        break
+      case 'LOCKING_STOP':
+      case 'UNLOCKING_STOP':
+      case 'NOT_FULLY_LOCKED':
+        this.LockMechanism.LockCurrentState = LockCurrentState.JAMMED
+        break
+      default:
+        this.LockMechanism.LockCurrentState = LockCurrentState.UNKNOWN
+    }
     this.debugLog(`LockCurrentState: ${this.LockMechanism.LockCurrentState}`)
-
-    // LockTargetState
-    this.LockMechanism.LockTargetState = this.serviceData.status === 'locked'
-      ? this.hap.Characteristic.LockTargetState.SECURED
-      : this.hap.Characteristic.LockTargetState.UNSECURED
     this.debugLog(`LockTargetState: ${this.LockMechanism.LockTargetState}`)
 
     // Contact Sensor
@@ -310,7 +341,7 @@ export class Lock extends deviceBase {
   async refreshStatus(): Promise<void> {
     if (!this.device.enableCloudService && this.OpenAPI) {
       this.errorLog(`refreshStatus enableCloudService: ${this.device.enableCloudService}`)
-    } else if (this.BLE) {
+    } else if (this.useBLE()) {
       await this.BLERefreshStatus()
     } else if (this.OpenAPI && this.platform.config.credentials?.token) {
       await this.openAPIRefreshStatus()
@@ -324,12 +355,13 @@ export class Lock extends deviceBase {
     this.debugLog('BLERefreshStatus')
     const switchBotBLE = await this.switchbotBLE()
     if (switchBotBLE === undefined) {
-      await this.BLERefreshConnection(switchBotBLE)
+      this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchBotBLE}`)
+      this.connection.failure('BLE')
     } else {
       // Start to monitor advertisement packets
       (async () => {
         // Start to monitor advertisement packets
-        const serviceData = await this.monitorAdvertisementPackets(switchBotBLE) as lockServiceData | lockProServiceData
+        const serviceData = await this.monitorAdvertisementPackets() as lockServiceData | lockProServiceData
         // Update HomeKit
         if ((serviceData.model === SwitchBotBLEModel.Lock || SwitchBotBLEModel.LockPro)
           && (serviceData.modelName === SwitchBotBLEModelName.Lock || SwitchBotBLEModelName.LockPro)) {
@@ -338,7 +370,7 @@ export class Lock extends deviceBase {
           await this.updateHomeKitCharacteristics()
         } else {
           this.errorLog(`failed to get serviceData, serviceData: ${JSON.stringify(serviceData)}`)
-          await this.BLERefreshConnection(switchBotBLE)
+          this.connection.failure('BLE')
         }
       })()
     }
@@ -418,7 +450,7 @@ export class Lock extends deviceBase {
   async pushChanges(): Promise<void> {
     if (!this.device.enableCloudService && this.OpenAPI) {
       this.errorLog(`pushChanges enableCloudService: ${this.device.enableCloudService}`)
-    } else if (this.BLE) {
+    } else if (this.useBLE()) {
       await this.BLEpushChanges()
     } else if (this.OpenAPI && this.platform.config.credentials?.token) {
       await this.openAPIpushChanges()
@@ -435,41 +467,53 @@ export class Lock extends deviceBase {
       })
   }
 
-  async BLEpushChanges(): Promise<void> {
+  /**
+   * Commands to the lock are encrypted with the key ID and encryption key of the lock, without them
+   * the lock ignores BLE commands. An unlock from the Latch button also unlatches the door.
+   */
+  async BLEpushChanges(LatchUnlock?: boolean): Promise<void> {
     this.debugLog('BLEpushChanges')
-    if (this.LockMechanism.LockTargetState !== this.accessory.context.LockTargetState) {
+    if ((this.LockMechanism.LockTargetState !== this.accessory.context.LockTargetState) || LatchUnlock) {
+      const { keyId, encryptionKey } = this.lockKeys()
+      if (!keyId || !encryptionKey) {
+        this.errorLog('keyId and encryptionKey are required to control the lock over BLE')
+        this.connection.failure('BLE')
+        await this.changeFailed('keyId and encryptionKey are required to control the lock over BLE')
+        return
+      }
       const switchBotBLE = await this.platform.connectBLE(this.accessory, this.device)
       try {
         const formattedDeviceId = formatDeviceIdAsMac(this.device.deviceId)
         this.device.bleMac = formattedDeviceId
         this.debugLog(`bleMac: ${this.device.bleMac}`)
         if (switchBotBLE !== false) {
-          switchBotBLE
-            .discover({ model: this.device.bleModel, id: this.device.bleMac })
-            .then(async (device_list: SwitchbotDevice[]) => {
-              return await this.retryBLE({
-                max: this.maxRetryBLE(),
-                fn: async () => {
-                  if (this.LockMechanism.LockTargetState === this.hap.Characteristic.LockTargetState.SECURED) {
-                    return await (device_list[0] as WoSmartLock).lock()
-                  } else {
-                    return await (device_list[0] as WoSmartLock).unlock()
-                  }
-                },
-              })
+          await this.bleCommand(async (device_list: WoSmartLock[]) => {
+            await device_list[0].setKey(keyId, encryptionKey)
+            return await this.retryBLE({
+              max: this.maxRetryBLE(),
+              fn: async () => {
+                if (LatchUnlock) {
+                  return await device_list[0].unlock()
+                } else if (this.LockMechanism.LockTargetState === this.hap.Characteristic.LockTargetState.SECURED) {
+                  return await device_list[0].lock()
+                } else {
+                  return await device_list[0].unlockNoUnlatch()
+                }
+              },
             })
+          })
             .then(async () => {
-              this.successLog(`LockTargetState: ${this.LockMechanism.LockTargetState} sent over SwitchBot BLE, sent successfully`)
+              this.successLog(`${LatchUnlock ? 'Latch unlock' : `LockTargetState: ${this.LockMechanism.LockTargetState}`} sent over SwitchBot BLE, sent successfully`)
               await this.updateHomeKitCharacteristics()
             })
             .catch(async (e: any) => {
               await this.apiError(e)
               this.errorLog(`failed BLEpushChanges with ${this.device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
-              await this.BLEPushConnection()
             })
         } else {
           this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${JSON.stringify(switchBotBLE)}`)
-          await this.BLEPushConnection()
+          this.connection.failure('BLE')
+          await this.changeFailed('BLE connection could not be established')
         }
       } catch (error) {
         this.errorLog(`failed to format device ID as MAC, Error: ${error}`)
@@ -479,6 +523,15 @@ export class Lock extends deviceBase {
     }
   }
 
+  /**
+   * The key ID and encryption key of the lock, read from the config, they are never kept in the accessory cache.
+   */
+  lockKeys(): Pick<lockConfig, 'keyId' | 'encryptionKey'> {
+    const normalizeDeviceId = (deviceId: string) => deviceId.toUpperCase().replace(/[^A-Z0-9]+/g, '')
+    const config = this.platform.config.options?.devices?.find(device => normalizeDeviceId(device.deviceId) === normalizeDeviceId(this.device.deviceId))
+    return { keyId: (config as lockConfig | undefined)?.keyId, encryptionKey: (config as lockConfig | undefined)?.encryptionKey }
+  }
+
   async openAPIpushChanges(LatchUnlock?: boolean): Promise<void> {
     this.debugLog('openAPIpushChanges')
     if ((this.LockMechanism.LockTargetState !== this.accessory.context.LockTargetState) || LatchUnlock) {
@@ -513,6 +566,8 @@ export class Lock extends deviceBase {
    * Handle requests to set the value of the "On" characteristic
    */
   async LockTargetStateSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.LockMechanism.LockTargetState !== this.accessory.context.LockTargetState) {
       this.infoLog(`Set LockTargetState: ${value}`)
     } else {
@@ -521,17 +576,21 @@ export class Lock extends deviceBase {
 
     this.LockMechanism.LockTargetState = value
     this.doLockUpdate.next()
+    await this.changeOutcome()
   }
 
   /**
    * Handle requests to set the value of the "On" characteristic
    */
   async OnSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     this.debugLog(`Latch Button Set On: ${value}`)
     if (value) {
       this.debugLog('Attempting to open the latch')
 
-      this.openAPIpushChanges(value as boolean).then(async () => {
+      const pushChanges = this.useBLE() ? this.BLEpushChanges(value as boolean) : this.openAPIpushChanges(value as boolean)
+      pushChanges.then(async () => {
         this.debugLog('Latch opened successfully')
         this.debugLog(`SwitchService is: ${this.Switch?.Service ? 'available' : 'not available'}`)
 
@@ -559,6 +618,7 @@ export class Lock extends deviceBase {
 
     this.Switch!.On = value
     this.doLockUpdate.next()
+    await this.changeOutcome()
   }
 
   async updateHomeKitCharacteristics(): Promise<void> {
@@ -576,21 +636,6 @@ export class Lock extends deviceBase {
     await this.updateCharacteristic(this.Battery.Service, this.hap.Characteristic.StatusLowBattery, this.Battery.StatusLowBattery, 'StatusLowBattery')
   }
 
-  async BLEPushConnection() {
-    if (this.platform.config.credentials?.token && this.device.connectionType === 'BLE/OpenAPI') {
-      this.warnLog('Using OpenAPI Connection to Push Changes')
-      await this.openAPIpushChanges()
-    }
-  }
-
-  async BLERefreshConnection(switchbot: any): Promise<void> {
-    this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchbot}`)
-    if (this.platform.config.credentials?.token && this.device.connectionType === 'BLE/OpenAPI') {
-      this.warnLog('Using OpenAPI Connection to Refresh Status')
-      await this.openAPIRefreshStatus()
-    }
-  }
-
   async offlineOff(): Promise<void> {
     if (this.device.offline) {
       this.LockMechanism.Service.updateCharacteristic(this.hap.Characteristic.LockTargetState, this.hap.Characteristic.LockTargetState.SECURED)
@@ -600,14 +645,4 @@ export class Lock extends deviceBase {
       }
     }
   }
-
-  async apiError(e: any): Promise<void> {
-    this.LockMechanism.Service.updateCharacteristic(this.hap.Characteristic.LockTargetState, e)
-    this.LockMechanism.Service.updateCharacteristic(this.hap.Characteristic.LockCurrentState, e)
-    if (!(this.device as lockConfig).hide_contactsensor && this.ContactSensor?.Service) {
-      this.ContactSensor.Service.updateCharacteristic(this.hap.Characteristic.ContactSensorState, e)
-    }
-    this.Battery.Service.updateCharacteristic(this.hap.Characteristic.BatteryLevel, e)
-    this.Battery.Service.updateCharacteristic(this.hap.Characteristic.StatusLowBattery, e)
-  }
 }
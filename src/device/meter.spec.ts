@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { bleAdvertisement, characteristic, createPlatform, discover, openAPIResponse, webhookEvent } from '../test/harness.js'
+
+const meter = { deviceId: 'E1A2B3C4D5E6', deviceName: 'Bedroom', deviceType: 'Meter', enableCloudService: true, hubDeviceId: 'F1A2B3C4D5E6' }
+const serviceData = { model: 'T', modelName: 'WoSensorTH', celsius: 21.5, fahrenheit: 70.7, fahrenheit_mode: false, humidity: 40, battery: 90 }
+
+describe('meter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('reads its status from the next BLE advertisement', async () => {
+    const harness = createPlatform({ options: { devices: [{ deviceId: meter.deviceId, configDeviceType: 'Meter', configDeviceName: 'Bedroom', connectionType: 'BLE', scanDuration: 1, updateRate: 1 }] } })
+    const [accessory] = await discover(harness, [meter])
+    const { Service, Characteristic } = harness.api.hap
+
+    await harness.switchBotBLE.advertise(bleAdvertisement(meter.deviceId, serviceData as any))
+
+    const temperature = characteristic(accessory, Service.TemperatureSensor, Characteristic.CurrentTemperature)
+    await vi.waitFor(() => expect(temperature.value).toBeCloseTo(21.5, 1))
+    expect(characteristic(accessory, Service.HumiditySensor, Characteristic.CurrentRelativeHumidity).value).toBe(40)
+    expect(characteristic(accessory, Service.Battery, Characteristic.BatteryLevel).value).toBe(90)
+    expect(harness.getDeviceStatus).not.toHaveBeenCalled()
+  })
+
+  it('updates from every advertisement of the platform BLE scan', async () => {
+    const harness = createPlatform({ options: { BLE: true, devices: [{ deviceId: meter.deviceId, configDeviceType: 'Meter', configDeviceName: 'Bedroom', connectionType: 'BLE', scanDuration: 1, updateRate: 1 }] } })
+    const [accessory] = await discover(harness, [meter])
+    const { Service, Characteristic } = harness.api.hap
+    const temperature = characteristic(accessory, Service.TemperatureSensor, Characteristic.CurrentTemperature)
+    await harness.switchBotBLE.advertise(bleAdvertisement(meter.deviceId, serviceData as any))
+    await vi.waitFor(() => expect(temperature.value).toBeCloseTo(21.5, 1))
+
+    await harness.switchBotBLE.advertise(bleAdvertisement(meter.deviceId, { ...serviceData, celsius: 19 } as any))
+
+    await vi.waitFor(() => expect(temperature.value).toBeCloseTo(19, 1))
+  })
+
+  it('shows the BLE signal strength of every advertisement when bleSignalStrength is set', async () => {
+    const harness = createPlatform({ options: { bleSignalStrength: true, devices: [{ deviceId: meter.deviceId, configDeviceType: 'Meter', configDeviceName: 'Bedroom', connectionType: 'BLE', scanDuration: 1, updateRate: 1 }] } })
+    const [accessory] = await discover(harness, [meter])
+    const { Service } = harness.api.hap
+
+    await harness.switchBotBLE.advertise(bleAdvertisement(meter.deviceId, serviceData as any, -72))
+
+    await vi.waitFor(() => expect(characteristic(accessory, Service.Battery, harness.platform.SignalStrength).value).toBe(-72))
+  })
+
+  it('is unreachable once no BLE advertisement is seen for blePresenceTimeout, until shutdown', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'Date'] })
+    try {
+      const harness = createPlatform({ options: { blePresenceTimeout: 60, devices: [{ deviceId: meter.deviceId, configDeviceType: 'Meter', configDeviceName: 'Bedroom', connectionType: 'BLE', scanDuration: 1, updateRate: 1 }] } })
+      const [accessory] = await discover(harness, [meter])
+      expect(accessory.getService(harness.api.hap.Service.Battery)!.testCharacteristic(harness.platform.SignalStrength)).toBe(false)
+
+      await vi.advanceTimersByTimeAsync(120 * 1000)
+      expect(harness.log.warn).toHaveBeenCalledWith(expect.any(String), expect.stringContaining('is unreachable, no BLE advertisement received'))
+
+      vi.mocked(harness.log.warn).mockClear()
+      await harness.switchBotBLE.advertise(bleAdvertisement(meter.deviceId, serviceData as any))
+      harness.api.emit('shutdown')
+      await vi.advanceTimersByTimeAsync(300 * 1000)
+      expect(harness.log.warn).not.toHaveBeenCalledWith(expect.any(String), expect.stringContaining('is unreachable'))
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('reads its status from the OpenAPI, and updates from webhook events', async () => {
+    const harness = createPlatform({ options: { devices: [{ deviceId: meter.deviceId, webhook: true }] } })
+    harness.getDeviceStatus.mockResolvedValue(openAPIResponse(100, { temperature: 22, humidity: 45, battery: 80, version: 'V2.8' }))
+    const [accessory] = await discover(harness, [meter])
+    const { Service, Characteristic } = harness.api.hap
+    const temperature = characteristic(accessory, Service.TemperatureSensor, Characteristic.CurrentTemperature)
+    await vi.waitFor(() => expect(temperature.value).toBeCloseTo(22, 1))
+
+    harness.platform.webhookEventContext(webhookEvent('WoMeter', meter.deviceId, { temperature: 23.5, humidity: 50, scale: 'CELSIUS' }).context)
+
+    await vi.waitFor(() => expect(temperature.value).toBeCloseTo(23.5, 1))
+    expect(characteristic(accessory, Service.HumiditySensor, Characteristic.CurrentRelativeHumidity).value).toBe(50)
+  })
+})
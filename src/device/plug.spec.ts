@@ -0,0 +1,93 @@
+import { HAPStatus } from 'homebridge'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { characteristic, createPlatform, discover, openAPIResponse, webhookEvent } from '../test/harness.js'
+
+const plug = { deviceId: 'ABCDEF123456', deviceName: 'Desk Lamp', deviceType: 'Plug Mini (US)', enableCloudService: true, hubDeviceId: '' }
+
+describe('plug', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('reads its status and energy use from the OpenAPI', async () => {
+    const harness = createPlatform()
+    harness.getDeviceStatus.mockResolvedValue(openAPIResponse(100, { power: 'on', voltage: 120, electricCurrent: 0.5, weight: 300, version: 'V1.4-1.4' }))
+    const [accessory] = await discover(harness, [plug])
+    const { Service, Characteristic } = harness.api.hap
+    const eve = harness.platform.eve.Characteristics
+
+    const on = characteristic(accessory, Service.Outlet, Characteristic.On)
+    await vi.waitFor(() => expect(on.value).toBe(true))
+    expect(characteristic(accessory, Service.Outlet, Characteristic.OutletInUse).value).toBe(true)
+    expect(characteristic(accessory, Service.Outlet, eve.Voltage).value).toBe(120)
+    expect(characteristic(accessory, Service.Outlet, eve.ElectricCurrent).value).toBe(0.5)
+    expect(characteristic(accessory, Service.Outlet, eve.Consumption).value).toBe(60)
+    expect(characteristic(accessory, Service.Outlet, eve.TotalConsumption).value).toBe(0.3)
+    expect(harness.getDeviceStatus).toHaveBeenCalledWith(plug.deviceId)
+  })
+
+  it('is not in use below set_minWattage', async () => {
+    const harness = createPlatform({ options: { devices: [{ deviceId: plug.deviceId, set_minWattage: 100 }] } })
+    harness.getDeviceStatus.mockResolvedValue(openAPIResponse(100, { power: 'on', voltage: 120, electricCurrent: 0.5, weight: 300 }))
+    const [accessory] = await discover(harness, [plug])
+    const { Service, Characteristic } = harness.api.hap
+
+    await vi.waitFor(() => expect(characteristic(accessory, Service.Outlet, Characteristic.On).value).toBe(true))
+    expect(characteristic(accessory, Service.Outlet, Characteristic.OutletInUse).value).toBe(false)
+  })
+
+  it('adds the energy of every day onto TotalConsumption', async () => {
+    const harness = createPlatform({ options: { devices: [{ deviceId: plug.deviceId, webhook: true }] } })
+    harness.getDeviceStatus.mockResolvedValue(openAPIResponse(100, { power: 'on', voltage: 120, electricCurrent: 0.5, weight: 300 }))
+    const [accessory] = await discover(harness, [plug])
+    const totalConsumption = characteristic(accessory, harness.api.hap.Service.Outlet, harness.platform.eve.Characteristics.TotalConsumption)
+    await vi.waitFor(() => expect(totalConsumption.value).toBe(0.3))
+
+    // the plug starts a new day
+    harness.platform.webhookEventContext(webhookEvent('WoPlugUS', plug.deviceId, { powerState: 'ON', weight: 50 }).context)
+    await vi.waitFor(() => expect(totalConsumption.value).toBeCloseTo(0.35, 3))
+
+    harness.platform.webhookEventContext(webhookEvent('WoPlugUS', plug.deviceId, { powerState: 'ON', weight: 120 }).context)
+    await vi.waitFor(() => expect(totalConsumption.value).toBeCloseTo(0.42, 3))
+    expect(accessory.context.energy).toEqual({ total: 300, today: 120 })
+  })
+
+  it('turns on with a turnOn command', async () => {
+    const harness = createPlatform()
+    harness.getDeviceStatus.mockResolvedValue(openAPIResponse(100, { power: 'off' }))
+    const [accessory] = await discover(harness, [plug])
+    const on = characteristic(accessory, harness.api.hap.Service.Outlet, harness.api.hap.Characteristic.On)
+
+    await on.handleSetRequest(true)
+
+    expect(harness.controlDevice).toHaveBeenCalledWith(plug.deviceId, 'turnOn', 'default', 'command')
+    expect(on.value).toBe(true)
+  })
+
+  it('rolls back and reports No Response when the device is offline (161)', async () => {
+    const harness = createPlatform()
+    harness.getDeviceStatus.mockResolvedValue(openAPIResponse(100, { power: 'off' }))
+    harness.controlDevice.mockResolvedValue(openAPIResponse(161))
+    const [accessory] = await discover(harness, [plug])
+    const on = characteristic(accessory, harness.api.hap.Service.Outlet, harness.api.hap.Characteristic.On)
+
+    await expect(on.handleSetRequest(true)).rejects.toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE)
+
+    expect(on.value).toBe(false)
+    expect(accessory.context.lastStatus).toMatchObject({ statusCode: 161 })
+    expect(harness.api.updatePlatformAccessories).toHaveBeenCalledWith([accessory])
+  })
+
+  it('updates from webhook events', async () => {
+    const harness = createPlatform({ options: { devices: [{ deviceId: plug.deviceId, webhook: true }] } })
+    harness.getDeviceStatus.mockResolvedValue(openAPIResponse(100, { power: 'off' }))
+    const [accessory] = await discover(harness, [plug])
+    const on = characteristic(accessory, harness.api.hap.Service.Outlet, harness.api.hap.Characteristic.On)
+    await vi.waitFor(() => expect(on.value).toBe(false))
+
+    harness.platform.webhookEventContext(webhookEvent('WoPlugUS', plug.deviceId, { powerState: 'ON' }).context)
+
+    await vi.waitFor(() => expect(on.value).toBe(true))
+  })
+})
@@ -6,7 +6,9 @@ import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge
 import type { bodyChange, device, plugMiniJPServiceData, plugMiniJPWebhookContext, plugMiniStatus, plugMiniUSServiceData, plugMiniUSWebhookContext, plugStatus, plugWebhookContext, SwitchbotDevice, WoPlugMiniUS } from 'node-switchbot'
 
 import type { SwitchBotPlatform } from '../platform.js'
-import type { devicesConfig } from '../settings.js'
+import type { devicesConfig, plugConfig } from '../settings.js'
+
+import { hostname } from 'node:os'
 
 /*
 * For Testing Locally:
@@ -18,14 +20,31 @@ import { debounceTime, interval, skipWhile, Subject, take, tap } from 'rxjs'
 import { formatDeviceIdAsMac } from '../utils.js'
 import { deviceBase } from './device.js'
 
+/**
+ * Energy values the Plug Mini includes in its webhook payload
+ */
+interface plugEnergyWebhookContext {
+  voltage?: number
+  electricCurrent?: number
+  weight?: number
+}
+
 export class Plug extends deviceBase {
   // Services
   private Outlet: {
     Name: CharacteristicValue
     Service: Service
     On: CharacteristicValue
+    OutletInUse: CharacteristicValue
+    Voltage?: CharacteristicValue
+    ElectricCurrent?: CharacteristicValue
+    Consumption?: CharacteristicValue
+    TotalConsumption?: CharacteristicValue
   }
 
+  // Config
+  minWattage!: number
+
   // OpenAPI
   deviceStatus!: plugStatus | plugMiniStatus
 
@@ -48,6 +67,9 @@ export class Plug extends deviceBase {
     // Set category
     accessory.category = this.hap.Categories.OUTLET
 
+    // Set Minimum Wattage for OutletInUse
+    this.getMinWattageSettings(device)
+
     // this is subject we use to track when we need to POST changes to the SwitchBot API
     this.doPlugUpdate = new Subject()
     this.plugUpdateInProgress = false
@@ -58,14 +80,62 @@ export class Plug extends deviceBase {
       Name: accessory.displayName,
       Service: accessory.getService(this.hap.Service.Outlet) ?? accessory.addService(this.hap.Service.Outlet) as Service,
       On: accessory.context.On || false,
+      OutletInUse: accessory.context.OutletInUse || false,
     }
     accessory.context.Outlet = this.Outlet as object
 
     // Initialize Outlet Characteristics
     this.Outlet.Service.setCharacteristic(this.hap.Characteristic.Name, this.Outlet.Name).getCharacteristic(this.hap.Characteristic.On).onGet(() => {
+      this.reachable()
       return this.Outlet.On
     }).onSet(this.OnSet.bind(this))
 
+    // Initialize OutletInUse Characteristic
+    this.Outlet.Service.getCharacteristic(this.hap.Characteristic.OutletInUse).onGet(() => {
+      this.reachable()
+      return this.Outlet.OutletInUse
+    })
+
+    // Initialize EVE Energy Characteristics, only the Plug Mini reports power usage
+    if (this.isPlugMini()) {
+      this.Outlet.Voltage = accessory.context.Voltage ?? 0
+      this.Outlet.ElectricCurrent = accessory.context.ElectricCurrent ?? 0
+      this.Outlet.Consumption = accessory.context.Consumption ?? 0
+      this.Outlet.TotalConsumption = accessory.context.TotalConsumption ?? 0
+
+      if (!this.Outlet.Service.testCharacteristic(this.platform.eve.Characteristics.Voltage)) {
+        this.Outlet.Service.addOptionalCharacteristic(this.platform.eve.Characteristics.Voltage)
+      }
+      this.Outlet.Service.getCharacteristic(this.platform.eve.Characteristics.Voltage).onGet(() => {
+        this.reachable()
+        return this.Outlet.Voltage!
+      })
+
+      if (!this.Outlet.Service.testCharacteristic(this.platform.eve.Characteristics.ElectricCurrent)) {
+        this.Outlet.Service.addOptionalCharacteristic(this.platform.eve.Characteristics.ElectricCurrent)
+      }
+      this.Outlet.Service.getCharacteristic(this.platform.eve.Characteristics.ElectricCurrent).onGet(() => {
+        this.reachable()
+        return this.Outlet.ElectricCurrent!
+      })
+
+      if (!this.Outlet.Service.testCharacteristic(this.platform.eve.Characteristics.Consumption)) {
+        this.Outlet.Service.addOptionalCharacteristic(this.platform.eve.Characteristics.Consumption)
+      }
+      this.Outlet.Service.getCharacteristic(this.platform.eve.Characteristics.Consumption).onGet(() => {
+        this.reachable()
+        return this.Outlet.Consumption!
+      })
+
+      if (!this.Outlet.Service.testCharacteristic(this.platform.eve.Characteristics.TotalConsumption)) {
+        this.Outlet.Service.addOptionalCharacteristic(this.platform.eve.Characteristics.TotalConsumption)
+      }
+      this.Outlet.Service.getCharacteristic(this.platform.eve.Characteristics.TotalConsumption).onGet(() => {
+        this.reachable()
+        return this.Outlet.TotalConsumption!
+      })
+    }
+
     // Retrieve initial values and updateHomekit
     try {
       this.debugLog('Retrieve initial values and update Homekit')
@@ -90,6 +160,14 @@ export class Plug extends deviceBase {
       this.errorLog(`failed to registerPlatformBLE, Error: ${e.message ?? e}`)
     }
 
+    // track BLE presence if enabled
+    try {
+      this.debugLog('Setting up BLE Presence')
+      this.setupBlePresence()
+    } catch (e: any) {
+      this.errorLog(`failed to setupBlePresence, Error: ${e.message ?? e}`)
+    }
+
     // Start an update interval
     interval(this.deviceRefreshRate * 1000)
       .pipe(skipWhile(() => this.plugUpdateInProgress))
@@ -110,20 +188,111 @@ export class Plug extends deviceBase {
         try {
           await this.pushChanges()
         } catch (e: any) {
+          await this.changeFailed(`Error: ${e.message ?? e}`)
           await this.apiError(e)
           this.errorLog(`failed pushChanges with ${device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
         }
+        await this.changeSettled()
         this.plugUpdateInProgress = false
       })
+
+    // Setup EVE history features
+    this.setupHistoryService()
+  }
+
+  /*
+   * Setup EVE energy history features for Plug Mini devices.
+   */
+  async setupHistoryService(): Promise<void> {
+    if (this.device.history !== true || !this.isPlugMini()) {
+      return
+    }
+
+    try {
+      const formattedDeviceId = formatDeviceIdAsMac(this.device.deviceId)
+      this.device.bleMac = formattedDeviceId
+      this.debugLog(`bleMac: ${this.device.bleMac}`)
+      this.historyService = new this.platform.fakegatoAPI('energy', this.accessory, {
+        log: this.platform.log,
+        storage: 'fs',
+        filename: `${hostname().split('.')[0]}_${this.device.bleMac}_persist.json`,
+      })
+    } catch (error) {
+      this.errorLog(`failed to format device ID as MAC, Error: ${error}`)
+    }
+  }
+
+  async getMinWattageSettings(device: device & devicesConfig): Promise<void> {
+    this.minWattage = (device as plugConfig).set_minWattage ?? 1
+    const minWattage = (device as plugConfig).set_minWattage ? 'Device Config' : 'Default'
+    this.debugLog(`Using ${minWattage} Minimum Wattage for OutletInUse: ${this.minWattage}`)
+  }
+
+  isPlugMini(): boolean {
+    return this.device.deviceType === 'Plug Mini (US)' || this.device.deviceType === 'Plug Mini (JP)'
+  }
+
+  /**
+   * Updates the Consumption (Watts) and OutletInUse from the current wattage,
+   * the Plug does not report power usage so OutletInUse follows the On state.
+   */
+  async parseWattage(watts?: number): Promise<void> {
+    if (watts === undefined || Number.isNaN(watts)) {
+      this.Outlet.OutletInUse = this.Outlet.On
+    } else {
+      this.Outlet.Consumption = Math.round(watts * 10) / 10
+      this.Outlet.OutletInUse = this.Outlet.On && watts >= this.minWattage
+      this.debugLog(`Consumption: ${this.Outlet.Consumption}W`)
+    }
+    this.debugLog(`OutletInUse: ${this.Outlet.OutletInUse}, minWattage: ${this.minWattage}`)
+  }
+
+  /**
+   * Parses the Voltage, ElectricCurrent and TotalConsumption reported by the Plug Mini,
+   * weight is the energy used today in Wh, which the EVE TotalConsumption expects in kWh.
+   */
+  async parseEnergy(voltage?: number, electricCurrent?: number, weight?: number): Promise<void> {
+    if (voltage !== undefined && !Number.isNaN(voltage)) {
+      this.Outlet.Voltage = Math.round(voltage * 10) / 10
+      this.debugLog(`Voltage: ${this.Outlet.Voltage}V`)
+    }
+    if (electricCurrent !== undefined && !Number.isNaN(electricCurrent)) {
+      this.Outlet.ElectricCurrent = Math.round(electricCurrent * 100) / 100
+      this.debugLog(`ElectricCurrent: ${this.Outlet.ElectricCurrent}A`)
+    }
+    if (weight !== undefined && !Number.isNaN(weight)) {
+      this.Outlet.TotalConsumption = Math.round(this.totalEnergy(weight)) / 1000
+      this.debugLog(`TotalConsumption: ${this.Outlet.TotalConsumption}kWh`)
+    }
+    const watts = voltage !== undefined && electricCurrent !== undefined ? voltage * electricCurrent : undefined
+    await this.parseWattage(watts)
+  }
+
+  /**
+   * The energy, in Wh, used since the plug was added. The Plug Mini restarts weight from 0 every day,
+   * so when it drops, the energy of the day before is added onto the total kept in the accessory context.
+   */
+  totalEnergy(weight: number): number {
+    const energy: { total: number, today: number } = this.accessory.context.energy ?? { total: 0, today: 0 }
+    if (weight < energy.today) {
+      energy.total += energy.today
+      this.debugLog(`Energy used the day before: ${energy.today}Wh, total: ${energy.total}Wh`)
+    }
+    energy.today = weight
+    this.accessory.context.energy = energy
+    return energy.total + energy.today
   }
 
   async BLEparseStatus(): Promise<void> {
     this.debugLog('BLEparseStatus')
-    this.debugLog(`(powerState) = BLE: (${this.serviceData.state}), current:(${this.Outlet.On})`)
+    this.debugLog(`(powerState, currentPower) = BLE: (${this.serviceData.state}, ${this.serviceData.currentPower}), current:(${this.Outlet.On}, ${this.Outlet.Consumption})`)
 
     // On
     this.Outlet.On = this.serviceData.state === 'on'
     this.debugLog(`On: ${this.Outlet.On}`)
+
+    // Consumption & OutletInUse
+    await this.parseWattage(this.serviceData.currentPower === undefined ? undefined : Number(this.serviceData.currentPower))
   }
 
   async openAPIparseStatus() {
@@ -134,6 +303,14 @@ export class Plug extends deviceBase {
     this.Outlet.On = this.deviceStatus.power === 'on'
     this.debugLog(`On: ${this.Outlet.On}`)
 
+    // Voltage, ElectricCurrent, Consumption, TotalConsumption & OutletInUse
+    if ('voltage' in this.deviceStatus) {
+      this.debugLog(`(voltage, electricCurrent, weight) = OpenAPI: (${this.deviceStatus.voltage}, ${this.deviceStatus.electricCurrent}, ${this.deviceStatus.weight})`)
+      await this.parseEnergy(Number(this.deviceStatus.voltage), Number(this.deviceStatus.electricCurrent), Number(this.deviceStatus.weight))
+    } else {
+      await this.parseWattage()
+    }
+
     // Firmware Version
     if (this.deviceStatus.version) {
       const version = this.deviceStatus.version.toString()
@@ -157,6 +334,15 @@ export class Plug extends deviceBase {
     // On
     this.Outlet.On = this.webhookContext.powerState === 'ON'
     this.debugLog(`On: ${this.Outlet.On}`)
+
+    // Voltage, ElectricCurrent, Consumption, TotalConsumption & OutletInUse
+    const { voltage, electricCurrent, weight } = this.webhookContext as plugEnergyWebhookContext
+    if (voltage !== undefined || electricCurrent !== undefined || weight !== undefined) {
+      this.debugLog(`(voltage, electricCurrent, weight) = Webhook: (${voltage}, ${electricCurrent}, ${weight})`)
+      await this.parseEnergy(voltage === undefined ? undefined : Number(voltage), electricCurrent === undefined ? undefined : Number(electricCurrent), weight === undefined ? undefined : Number(weight))
+    } else {
+      await this.parseWattage()
+    }
   }
 
   /**
@@ -165,7 +351,7 @@ export class Plug extends deviceBase {
   async refreshStatus(): Promise<void> {
     if (!this.device.enableCloudService && this.OpenAPI) {
       this.errorLog(`refreshStatus enableCloudService: ${this.device.enableCloudService}`)
-    } else if (this.BLE) {
+    } else if (this.useBLE()) {
       await this.BLERefreshStatus()
     } else if (this.OpenAPI && this.platform.config.credentials?.token) {
       await this.openAPIRefreshStatus()
@@ -179,12 +365,13 @@ export class Plug extends deviceBase {
     this.debugLog('BLERefreshStatus')
     const switchBotBLE = await this.switchbotBLE()
     if (switchBotBLE === undefined) {
-      await this.BLERefreshConnection(switchBotBLE)
+      this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchBotBLE}`)
+      this.connection.failure('BLE')
     } else {
       // Start to monitor advertisement packets
       (async () => {
         // Start to monitor advertisement packets
-        const serviceData = await this.monitorAdvertisementPackets(switchBotBLE) as plugMiniUSServiceData | plugMiniJPServiceData
+        const serviceData = await this.monitorAdvertisementPackets() as plugMiniUSServiceData | plugMiniJPServiceData
         // Update HomeKit
         if ((serviceData.model === SwitchBotBLEModel.PlugMiniUS || SwitchBotBLEModel.PlugMiniJP)
           && serviceData.modelName === (SwitchBotBLEModelName.PlugMini || SwitchBotBLEModelName.PlugMini)) {
@@ -193,7 +380,7 @@ export class Plug extends deviceBase {
           await this.updateHomeKitCharacteristics()
         } else {
           this.errorLog(`failed to get serviceData, serviceData: ${JSON.stringify(serviceData)}`)
-          await this.BLERefreshConnection(switchBotBLE)
+          this.connection.failure('BLE')
         }
       })()
     }
@@ -277,7 +464,7 @@ export class Plug extends deviceBase {
   async pushChanges(): Promise<void> {
     if (!this.device.enableCloudService && this.OpenAPI) {
       this.errorLog(`pushChanges enableCloudService: ${this.device.enableCloudService}`)
-    } else if (this.BLE) {
+    } else if (this.useBLE()) {
       await this.BLEpushChanges()
     } else if (this.OpenAPI && this.platform.config.credentials?.token) {
       await this.openAPIpushChanges()
@@ -304,22 +491,20 @@ export class Plug extends deviceBase {
         this.device.bleMac = formattedDeviceId
         this.debugLog(`bleMac: ${this.device.bleMac}`)
         if (switchBotBLE !== false) {
-          switchBotBLE
-            .discover({ model: this.device.bleModel, id: this.device.bleMac })
-            .then(async (device_list: SwitchbotDevice[]) => {
-              const deviceList = device_list as WoPlugMiniUS[]
-              this.infoLog(`On: ${this.Outlet.On}`)
-              return await this.retryBLE({
-                max: this.maxRetryBLE(),
-                fn: async () => {
-                  if (this.Outlet.On) {
-                    return await deviceList[0].turnOn()
-                  } else {
-                    return await deviceList[0].turnOff()
-                  }
-                },
-              })
+          this.bleCommand(async (device_list: SwitchbotDevice[]) => {
+            const deviceList = device_list as WoPlugMiniUS[]
+            this.infoLog(`On: ${this.Outlet.On}`)
+            return await this.retryBLE({
+              max: this.maxRetryBLE(),
+              fn: async () => {
+                if (this.Outlet.On) {
+                  return await deviceList[0].turnOn()
+                } else {
+                  return await deviceList[0].turnOff()
+                }
+              },
             })
+          })
             .then(async () => {
               this.successLog(`On: ${this.Outlet.On} sent over SwitchBot BLE, sent successfully`)
               await this.updateHomeKitCharacteristics()
@@ -327,11 +512,11 @@ export class Plug extends deviceBase {
             .catch(async (e: any) => {
               await this.apiError(e)
               this.errorLog(`failed BLEpushChanges with ${this.device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
-              await this.BLEPushConnection()
             })
         } else {
           this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${JSON.stringify(switchBotBLE)}`)
-          await this.BLEPushConnection()
+          this.connection.failure('BLE')
+          await this.changeFailed('BLE connection could not be established')
         }
       } catch (error) {
         this.errorLog(`failed to format device ID as MAC, Error: ${error}`)
@@ -374,6 +559,8 @@ export class Plug extends deviceBase {
    * Handle requests to set the value of the "On" characteristic
    */
   async OnSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.Outlet.On !== this.accessory.context.On) {
       this.infoLog(`Set On: ${value}`)
     } else {
@@ -382,35 +569,31 @@ export class Plug extends deviceBase {
 
     this.Outlet.On = value
     this.doPlugUpdate.next()
+    await this.changeOutcome()
   }
 
   async updateHomeKitCharacteristics(): Promise<void> {
     // On
     await this.updateCharacteristic(this.Outlet.Service, this.hap.Characteristic.On, this.Outlet.On, 'On')
-  }
-
-  async BLEPushConnection() {
-    if (this.platform.config.credentials?.token && this.device.connectionType === 'BLE/OpenAPI') {
-      this.warnLog('Using OpenAPI Connection to Push Changes')
-      await this.openAPIpushChanges()
-    }
-  }
-
-  async BLERefreshConnection(switchbot: any): Promise<void> {
-    this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchbot}`)
-    if (this.platform.config.credentials?.token && this.device.connectionType === 'BLE/OpenAPI') {
-      this.warnLog('Using OpenAPI Connection to Refresh Status')
-      await this.openAPIRefreshStatus()
+    // OutletInUse
+    await this.updateCharacteristic(this.Outlet.Service, this.hap.Characteristic.OutletInUse, this.Outlet.OutletInUse, 'OutletInUse')
+    if (this.isPlugMini()) {
+      // Voltage
+      await this.updateCharacteristic(this.Outlet.Service, this.platform.eve.Characteristics.Voltage, this.Outlet.Voltage, 'Voltage')
+      // ElectricCurrent
+      await this.updateCharacteristic(this.Outlet.Service, this.platform.eve.Characteristics.ElectricCurrent, this.Outlet.ElectricCurrent, 'ElectricCurrent')
+      // Consumption
+      const history = { time: Math.round(new Date().valueOf() / 1000), power: this.Outlet.Consumption }
+      await this.updateCharacteristic(this.Outlet.Service, this.platform.eve.Characteristics.Consumption, this.Outlet.Consumption, 'Consumption', history)
+      // TotalConsumption
+      await this.updateCharacteristic(this.Outlet.Service, this.platform.eve.Characteristics.TotalConsumption, this.Outlet.TotalConsumption, 'TotalConsumption')
     }
   }
 
   async offlineOff(): Promise<void> {
     if (this.device.offline) {
       this.Outlet.Service.updateCharacteristic(this.hap.Characteristic.On, false)
+      this.Outlet.Service.updateCharacteristic(this.hap.Characteristic.OutletInUse, false)
     }
   }
-
-  async apiError(e: any): Promise<void> {
-    this.Outlet.Service.updateCharacteristic(this.hap.Characteristic.On, e)
-  }
 }
@@ -73,6 +73,7 @@ export class RobotVacuumCleaner extends deviceBase {
 
     // Initialize LightBulb Characteristics
     this.LightBulb.Service.setCharacteristic(this.hap.Characteristic.Name, this.LightBulb.Name).getCharacteristic(this.hap.Characteristic.On).onGet(() => {
+      this.reachable()
       return this.LightBulb.On
     }).onSet(this.OnSet.bind(this))
 
@@ -84,6 +85,7 @@ export class RobotVacuumCleaner extends deviceBase {
       validValues: [0, 25, 50, 75, 100],
       validValueRanges: [0, 100],
     }).onGet(() => {
+      this.reachable()
       return this.LightBulb.Brightness
     }).onSet(this.BrightnessSet.bind(this))
 
@@ -100,14 +102,17 @@ export class RobotVacuumCleaner extends deviceBase {
 
     // Initialize Battery Characteristics
     this.Battery.Service.setCharacteristic(this.hap.Characteristic.Name, this.Battery.Name).getCharacteristic(this.hap.Characteristic.BatteryLevel).onGet(() => {
+      this.reachable()
       return this.Battery.BatteryLevel
     })
 
     this.Battery.Service.getCharacteristic(this.hap.Characteristic.StatusLowBattery).onGet(() => {
+      this.reachable()
       return this.Battery.StatusLowBattery
     })
 
     this.Battery.Service.getCharacteristic(this.hap.Characteristic.ChargingState).onGet(() => {
+      this.reachable()
       return this.Battery.ChargingState
     })
 
@@ -135,6 +140,14 @@ export class RobotVacuumCleaner extends deviceBase {
       this.errorLog(`failed to registerPlatformBLE, Error: ${e.message ?? e}`)
     }
 
+    // track BLE presence if enabled
+    try {
+      this.debugLog('Setting up BLE Presence')
+      this.setupBlePresence()
+    } catch (e: any) {
+      this.errorLog(`failed to setupBlePresence, Error: ${e.message ?? e}`)
+    }
+
     // Start an update interval
     interval(this.deviceRefreshRate * 1000)
       .pipe(skipWhile(() => this.robotVacuumCleanerUpdateInProgress))
@@ -155,9 +168,11 @@ export class RobotVacuumCleaner extends deviceBase {
         try {
           await this.pushChanges()
         } catch (e: any) {
+          await this.changeFailed(`Error: ${e.message ?? e}`)
           await this.apiError(e)
           this.errorLog(`failed pushChanges with ${device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
         }
+        await this.changeSettled()
         this.robotVacuumCleanerUpdateInProgress = false
       })
   }
@@ -254,7 +269,7 @@ export class RobotVacuumCleaner extends deviceBase {
   async refreshStatus(): Promise<void> {
     if (!this.device.enableCloudService && this.OpenAPI) {
       this.errorLog(`refreshStatus enableCloudService: ${this.device.enableCloudService}`)
-    } else if (this.BLE) {
+    } else if (this.useBLE()) {
       await this.BLERefreshStatus()
     } else if (this.OpenAPI && this.platform.config.credentials?.token) {
       await this.openAPIRefreshStatus()
@@ -268,12 +283,13 @@ export class RobotVacuumCleaner extends deviceBase {
     this.debugLog('BLERefreshStatus')
     const switchBotBLE = await this.switchbotBLE()
     if (switchBotBLE === undefined) {
-      await this.BLERefreshConnection(switchBotBLE)
+      this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchBotBLE}`)
+      this.connection.failure('BLE')
     } else {
       // Start to monitor advertisement packets
       (async () => {
         // Start to monitor advertisement packets
-        const serviceData = await this.monitorAdvertisementPackets(switchBotBLE) as robotVacuumCleanerServiceData
+        const serviceData = await this.monitorAdvertisementPackets() as robotVacuumCleanerServiceData
         // Update HomeKit
         if (serviceData.model === SwitchBotBLEModel.Unknown && serviceData.modelName === SwitchBotBLEModelName.Unknown) {
           this.serviceData = serviceData
@@ -281,7 +297,7 @@ export class RobotVacuumCleaner extends deviceBase {
           await this.updateHomeKitCharacteristics()
         } else {
           this.errorLog(`failed to get serviceData, serviceData: ${JSON.stringify(serviceData)}`)
-          await this.BLERefreshConnection(switchBotBLE)
+          this.connection.failure('BLE')
         }
       })()
     }
@@ -363,7 +379,7 @@ export class RobotVacuumCleaner extends deviceBase {
   async pushChanges(): Promise<void> {
     if (!this.device.enableCloudService && this.OpenAPI) {
       this.errorLog(`pushChanges enableCloudService: ${this.device.enableCloudService}`)
-    } else if (this.BLE) {
+    } else if (this.useBLE()) {
       await this.BLEpushChanges()
     } else if (this.OpenAPI && this.platform.config.credentials?.token) {
       await this.openAPIpushChanges()
@@ -389,21 +405,19 @@ export class RobotVacuumCleaner extends deviceBase {
         this.device.bleMac = formattedDeviceId
         this.debugLog(`bleMac: ${this.device.bleMac}`)
         if (switchBotBLE !== false) {
-          switchBotBLE
-            .discover({ model: this.device.bleModel, id: this.device.bleMac })
-            .then(async (device_list: SwitchbotDevice[]) => {
-              this.infoLog(`On: ${this.LightBulb.On}`)
-              return await this.retryBLE({
-                max: this.maxRetryBLE(),
-                fn: async () => {
-                  if (this.LightBulb.On) {
-                    return await (device_list[0] as any).turnOn()
-                  } else {
-                    return await (device_list[0] as any).turnOff()
-                  }
-                },
-              })
+          this.bleCommand(async (device_list: SwitchbotDevice[]) => {
+            this.infoLog(`On: ${this.LightBulb.On}`)
+            return await this.retryBLE({
+              max: this.maxRetryBLE(),
+              fn: async () => {
+                if (this.LightBulb.On) {
+                  return await (device_list[0] as any).turnOn()
+                } else {
+                  return await (device_list[0] as any).turnOff()
+                }
+              },
             })
+          })
             .then(async () => {
               this.successLog(`On: ${this.LightBulb.On} sent over SwitchBot BLE, sent successfully`)
               await this.updateHomeKitCharacteristics()
@@ -411,11 +425,11 @@ export class RobotVacuumCleaner extends deviceBase {
             .catch(async (e: any) => {
               await this.apiError(e)
               this.errorLog(`failed BLEpushChanges with ${this.device.connectionType} Connection, Error Message: ${JSON.stringify(e.message)}`)
-              await this.BLEPushConnection()
             })
         } else {
           this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${JSON.stringify(switchBotBLE)}`)
-          await this.BLEPushConnection()
+          this.connection.failure('BLE')
+          await this.changeFailed('BLE connection could not be established')
         }
       } catch (error) {
         this.errorLog(`failed to format device ID as MAC, Error: ${error}`)
@@ -494,6 +508,8 @@ export class RobotVacuumCleaner extends deviceBase {
    * Handle requests to set the value of the "On" characteristic
    */
   async OnSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.LightBulb.On !== this.accessory.context.On) {
       this.infoLog(`Set On: ${value}`)
     } else {
@@ -502,12 +518,15 @@ export class RobotVacuumCleaner extends deviceBase {
 
     this.LightBulb.On = value
     this.doRobotVacuumCleanerUpdate.next()
+    await this.changeOutcome()
   }
 
   /**
    * Handle requests to set the value of the "Brightness" characteristic
    */
   async BrightnessSet(value: CharacteristicValue): Promise<void> {
+    this.reachable()
+    this.rememberState()
     if (this.LightBulb.On && (this.LightBulb.Brightness !== this.accessory.context.Brightness)) {
       this.infoLog(`Set Brightness: ${value}`)
     } else {
@@ -520,6 +539,7 @@ export class RobotVacuumCleaner extends deviceBase {
 
     this.LightBulb.Brightness = value
     this.doRobotVacuumCleanerUpdate.next()
+    await this.changeOutcome()
   }
 
   async updateHomeKitCharacteristics(): Promise<void> {
@@ -535,28 +555,9 @@ export class RobotVacuumCleaner extends deviceBase {
     await this.updateCharacteristic(this.Battery.Service, this.hap.Characteristic.ChargingState, this.Battery.ChargingState, 'ChargingState')
   }
 
-  async BLEPushConnection() {
-    if (this.platform.config.credentials?.token && this.device.connectionType === 'BLE/OpenAPI') {
-      this.warnLog('Using OpenAPI Connection to Push Changes')
-      await this.openAPIpushChanges()
-    }
-  }
-
-  async BLERefreshConnection(switchbot: any): Promise<void> {
-    this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${switchbot}`)
-    if (this.platform.config.credentials?.token && this.device.connectionType === 'BLE/OpenAPI') {
-      this.warnLog('Using OpenAPI Connection to Refresh Status')
-      await this.openAPIRefreshStatus()
-    }
-  }
-
   async offlineOff(): Promise<void> {
     if (this.device.offline) {
       this.LightBulb.Service.updateCharacteristic(this.hap.Characteristic.On, false)
     }
   }
-
-  async apiError(e: any): Promise<void> {
-    this.LightBulb.Service.updateCharacteristic(this.hap.Characteristic.On, e)
-  }
 }
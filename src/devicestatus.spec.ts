@@ -0,0 +1,62 @@
+import type { PlatformAccessory } from 'homebridge'
+
+import { describe, expect, it, vi } from 'vitest'
+
+import { mqttAvailabilityStatusCode, mqttPublishAvailability, reportStatusCode } from './devicestatus.js'
+import { fakeAPI } from './test/harness.js'
+
+function deviceLog() {
+  return { debugLog: vi.fn(), warnLog: vi.fn(), errorLog: vi.fn(), debugErrorLog: vi.fn() }
+}
+
+describe('reportStatusCode', () => {
+  it('logs an error and keeps it as the last status', () => {
+    const api = fakeAPI()
+    const accessory = { context: {} } as PlatformAccessory
+    const log = deviceLog()
+
+    const { status, message } = reportStatusCode(api, accessory, { deviceId: 'C1A2B3C4D5E6', hubDeviceId: 'F1A2B3C4D5E6' }, log, 171)
+
+    expect(status.hapStatus).toBe(api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE)
+    expect(message).toBe('Hub Device is offline. Hub: F1A2B3C4D5E6')
+    expect(log.errorLog).toHaveBeenCalledWith(expect.stringContaining('statusCode: 171'))
+    expect(accessory.context.lastStatus).toEqual(expect.objectContaining({ statusCode: 171, message }))
+    expect(api.updatePlatformAccessories).toHaveBeenCalledWith([accessory])
+  })
+
+  it('reports a 171 as a 161 for a device that is its own hub', () => {
+    const log = deviceLog()
+
+    const { statusCode } = reportStatusCode(fakeAPI(), { context: {} } as PlatformAccessory, { deviceId: 'C1A2B3C4D5E6', hubDeviceId: 'C1A2B3C4D5E6' }, log, 171)
+
+    expect(statusCode).toBe(161)
+    expect(log.errorLog).toHaveBeenCalledWith(expect.stringContaining('Device is offline, statusCode: 161'))
+  })
+
+  it('only debug logs a success', () => {
+    const accessory = { context: {} } as PlatformAccessory
+    const log = deviceLog()
+
+    reportStatusCode(fakeAPI(), accessory, { deviceId: 'C1A2B3C4D5E6' }, log, 100)
+
+    expect(log.debugLog).toHaveBeenCalled()
+    expect(log.errorLog).not.toHaveBeenCalled()
+    expect(accessory.context.lastStatus).toBeUndefined()
+  })
+})
+
+describe('mqttAvailability', () => {
+  it.each([[100, true], [161, false], [171, false], [151, undefined], [undefined, undefined]])('of statusCode %s is %s', (statusCode, online) => {
+    expect(mqttAvailabilityStatusCode(fakeAPI().hap, statusCode)).toBe(online)
+  })
+
+  it('is published, retained, once it is known', async () => {
+    const mqttPublish = vi.fn().mockResolvedValue(undefined)
+
+    await mqttPublishAvailability(undefined, mqttPublish)
+    await mqttPublishAvailability(false, mqttPublish)
+
+    expect(mqttPublish).toHaveBeenCalledOnce()
+    expect(mqttPublish).toHaveBeenCalledWith('offline', 'availability', true)
+  })
+})
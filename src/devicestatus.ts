@@ -0,0 +1,88 @@
+/* Copyright(C) 2017-2024, donavanbecker (https://github.com/donavanbecker). All rights reserved.
+ *
+ * devicestatus.ts: @switchbot/homebridge-switchbot platform class.
+ */
+import type { API, Characteristic, HAP, HAPStatus, PlatformAccessory } from 'homebridge'
+
+import type { pendingChange } from './rollback.js'
+import type { openAPIStatus } from './statuscodes.js'
+
+import { rememberChange, rollbackChange } from './rollback.js'
+import { lookupStatusCode, statusMessage, updateLastStatus } from './statuscodes.js'
+
+/**
+ * The log methods of a device (or IR device), which prefix its type and name
+ */
+export interface deviceLog {
+  debugLog: (...log: any[]) => void | Promise<void>
+  warnLog: (...log: any[]) => void | Promise<void>
+  errorLog: (...log: any[]) => void | Promise<void>
+  debugErrorLog: (...log: any[]) => void | Promise<void>
+}
+
+/**
+ * The change an onSet handler applies to. Changes requested before the push (within the pushRate) share
+ * the pending change, with the state from before the first one, otherwise the pending change is settled
+ * and the characteristics, accessory.context and the state of the device are remembered.
+ */
+export function rememberState(hap: HAP, accessory: PlatformAccessory, device: object, pending: pendingChange | undefined, pushRate: number, characteristics: Characteristic[]): pendingChange {
+  if (pending && Date.now() - pending.requested < pushRate * 1000) {
+    return pending
+  }
+  pending?.settle()
+  return rememberChange(hap, accessory, device, characteristics)
+}
+
+/**
+ * Logs why a change failed and rolls it back, the onSet handler reports hapStatus (the HAP status
+ * of the statusCode the change failed with) to HomeKit.
+ */
+export function changeFailed(hap: HAP, accessory: PlatformAccessory, device: object & deviceLog, change: pendingChange, reason: string, hapStatus: HAPStatus): void {
+  device.errorLog(`failed to send change, ${reason}, rolling back to the previous state`)
+  rollbackChange(hap, accessory, device, change, hapStatus)
+}
+
+/**
+ * Logs a statusCode the way the status catalog describes it, and keeps it in accessory.context.lastStatus
+ * for the Homebridge UI. 171 (hub offline) is 161 (device offline) for a device that is its own hub.
+ *
+ * @returns The statusCode, its status and the message logged, for the device to report its HAP status.
+ */
+export function reportStatusCode(api: API, accessory: PlatformAccessory, device: { deviceId: string, hubDeviceId?: string }, log: deviceLog, statusCode: number): { statusCode: number, status: openAPIStatus, message: string } {
+  if (statusCode === 171 && (device.hubDeviceId === device.deviceId || device.hubDeviceId === '000000000000')) {
+    log.debugErrorLog(`statusCode 171 changed to 161: hubDeviceId ${device.hubDeviceId} matches deviceId ${device.deviceId}, device is its own hub.`)
+    statusCode = 161
+  }
+  const status = lookupStatusCode(statusCode)
+  const message = statusCode === 171 ? `${status.message}. Hub: ${device.hubDeviceId}` : status.message
+  const logMethod = status.severity === 'success' ? 'debugLog' : status.severity === 'warning' ? 'warnLog' : 'errorLog'
+  log[logMethod](statusMessage(statusCode, { ...status, message }))
+  if (status.severity !== 'success') {
+    updateLastStatus(api, accessory, { statusCode, message, hint: status.hint, time: new Date().toISOString() })
+  }
+  return { statusCode, status, message }
+}
+
+/**
+ * The MQTT availability a statusCode means: reported as "No Response" (161, 171, etc.) the device is
+ * unavailable, a success is available, anything else does not change it.
+ */
+export function mqttAvailabilityStatusCode(hap: HAP, statusCode: number | undefined): boolean | undefined {
+  if (statusCode === undefined) {
+    return undefined
+  }
+  const { severity, hapStatus } = lookupStatusCode(statusCode)
+  if (hapStatus === hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE) {
+    return false
+  }
+  return severity === 'success' ? true : undefined
+}
+
+/**
+ * Publishes 'online' or 'offline', retained, to the availability topic of a device once it is known
+ */
+export async function mqttPublishAvailability(available: boolean | undefined, mqttPublish: (message: string, topic: string, retain: boolean) => Promise<void>): Promise<void> {
+  if (available !== undefined) {
+    await mqttPublish(available ? 'online' : 'offline', 'availability', true)
+  }
+}
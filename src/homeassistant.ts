@@ -0,0 +1,255 @@
+/* Copyright(C) 2017-2024, donavanbecker (https://github.com/donavanbecker). All rights reserved.
+ *
+ * homeassistant.ts: @switchbot/homebridge-switchbot platform class.
+ */
+import type { HAP, PlatformAccessory, Service } from 'homebridge'
+
+import type { SwitchBotPlatform } from './platform.js'
+
+interface discoveryEntity {
+  component: string
+  objectId: string
+  config: { [key: string]: any }
+}
+
+/**
+ * Publishes retained Home Assistant MQTT discovery payloads for every device, derived from
+ * the services of its accessory, pointing at the state and set topics of the device.
+ */
+export class HomeAssistantDiscovery {
+  public readonly prefix: string
+  protected readonly hap: HAP
+
+  // Devices by their MQTT topic, 'homebridge-switchbot/${deviceType}/${id}'
+  private devices: { [topic: string]: PlatformAccessory } = {}
+
+  constructor(
+    private readonly platform: SwitchBotPlatform,
+    prefix?: string,
+  ) {
+    this.prefix = prefix ?? 'homeassistant'
+    this.hap = this.platform.api.hap
+  }
+
+  /**
+   * Adds a device to be published.
+   *
+   * @param topic - The MQTT topic of the device.
+   * @param accessory - The accessory of the device.
+   */
+  register(topic: string, accessory: PlatformAccessory): void {
+    this.devices[topic] = accessory
+  }
+
+  /**
+   * Publishes the discovery payloads of every registered device,
+   * on startup and every time Home Assistant comes back online.
+   */
+  async publishAll(): Promise<void> {
+    if (!this.platform.mqttClient) {
+      return
+    }
+    for (const [topic, accessory] of Object.entries(this.devices)) {
+      try {
+        await this.publish(topic, accessory)
+      } catch (e: any) {
+        this.platform.errorLog(`Failed to publish Home Assistant discovery for ${accessory.displayName}, Error Message: ${e.message ?? e}`)
+      }
+    }
+  }
+
+  async publish(topic: string, accessory: PlatformAccessory): Promise<void> {
+    const nodeId = topic.split('/').pop()!.replace(/[^\w-]/g, '')
+    const information = accessory.getService(this.hap.Service.AccessoryInformation)!
+    const device = {
+      identifiers: [nodeId],
+      name: accessory.displayName,
+      manufacturer: 'SwitchBot',
+      model: information.getCharacteristic(this.hap.Characteristic.Model).value,
+      sw_version: information.getCharacteristic(this.hap.Characteristic.FirmwareRevision).value,
+      serial_number: information.getCharacteristic(this.hap.Characteristic.SerialNumber).value,
+    }
+    // available while both the platform and the device are online
+    const availability = [{ topic: 'homebridge-switchbot/availability' }, { topic: `${topic}/availability` }]
+    // services with a subtype are extra controls (mode switches, inputs, etc.), only the main services are published
+    const services = accessory.services.filter(service => service.UUID !== this.hap.Service.AccessoryInformation.UUID && !service.subtype)
+    for (const service of services) {
+      for (const { component, objectId, config } of this.entities(accessory, service, topic)) {
+        const payload = { ...config, unique_id: `${nodeId}_${objectId}`, availability, availability_mode: 'all', device }
+        this.platform.debugLog(`Publishing Home Assistant discovery: ${this.prefix}/${component}/${nodeId}/${objectId}/config`)
+        await this.platform.mqttClient?.publish(`${this.prefix}/${component}/${nodeId}/${objectId}/config`, JSON.stringify(payload), { retain: true })
+      }
+    }
+  }
+
+  /**
+   * Maps a HomeKit service to the Home Assistant entities it is published as.
+   */
+  entities(accessory: PlatformAccessory, service: Service, topic: string): discoveryEntity[] {
+    const { Characteristic, Service } = this.hap
+    const state = (CharacteristicName: string) => `${topic}/${CharacteristicName}`
+    const set = (CharacteristicName?: string) => CharacteristicName ? `${topic}/${CharacteristicName}/set` : `${topic}/set`
+    switch (service.UUID) {
+      case Service.TemperatureSensor.UUID:
+        return [this.sensor('temperature', 'Temperature', state('CurrentTemperature'), '°C')]
+      case Service.HumiditySensor.UUID:
+        return [this.sensor('humidity', 'Humidity', state('CurrentRelativeHumidity'), '%')]
+      case Service.LightSensor.UUID:
+        return [this.sensor('illuminance', 'Illuminance', state('CurrentAmbientLightLevel'), 'lx')]
+      case Service.CarbonDioxideSensor.UUID:
+        return [this.sensor('carbon_dioxide', 'Carbon Dioxide', state('CarbonDioxideLevel'), 'ppm')]
+      case Service.Battery.UUID:
+        return [this.sensor('battery', 'Battery', state('BatteryLevel'), '%')]
+      case Service.MotionSensor.UUID:
+        return [this.binarySensor('motion', 'Motion', state('MotionDetected'), 'true', 'false')]
+      case Service.ContactSensor.UUID:
+        return [this.binarySensor('door', 'Contact', state('ContactSensorState'), '1', '0')]
+      case Service.LeakSensor.UUID:
+        return [this.binarySensor('moisture', 'Leak', state('LeakDetected'), '1', '0')]
+      case Service.WindowCovering.UUID:
+        return [{
+          component: 'cover',
+          objectId: 'cover',
+          config: {
+            name: null,
+            device_class: accessory.context.deviceType === 'Blind Tilt' ? 'blind' : 'curtain',
+            command_topic: set('TargetPosition'),
+            payload_open: '100',
+            payload_close: '0',
+            payload_stop: null,
+            position_topic: state('CurrentPosition'),
+            set_position_topic: set('TargetPosition'),
+          },
+        }]
+      case Service.LockMechanism.UUID:
+        return [{
+          component: 'lock',
+          objectId: 'lock',
+          config: {
+            name: null,
+            command_topic: set('LockTargetState'),
+            payload_lock: '1',
+            payload_unlock: '0',
+            state_topic: state('LockCurrentState'),
+            state_locked: '1',
+            state_unlocked: '0',
+            state_jammed: '2',
+          },
+        }]
+      case Service.Lightbulb.UUID:
+        return [{ component: 'light', objectId: 'light', config: this.light(service, topic) }]
+      case Service.Switch.UUID:
+        return [this.switch(topic)]
+      case Service.Outlet.UUID:
+        return [this.switch(topic), ...this.energySensors(service, topic)]
+      case Service.Fanv2.UUID:
+        return [{
+          component: 'fan',
+          objectId: 'fan',
+          config: {
+            name: null,
+            command_topic: set('Active'),
+            state_topic: state('Active'),
+            payload_on: '1',
+            payload_off: '0',
+          },
+        }]
+      case Service.HeaterCooler.UUID: {
+        // IR Air Conditioners publish their mode, off, dry and fan_only included, to the Mode topic
+        const dryMode = accessory.getServiceById(Service.Switch, 'DryMode')
+        const fanMode = accessory.getServiceById(Service.Switch, 'FanMode')
+        return [{
+          component: 'climate',
+          objectId: 'climate',
+          config: {
+            name: null,
+            modes: ['off', 'auto', 'heat', 'cool', ...(dryMode ? ['dry'] : []), ...(fanMode ? ['fan_only'] : [])],
+            mode_command_topic: set(),
+            mode_command_template: '{% if value == \'off\' %}{"Active": 0}{% elif value == \'dry\' %}{"DryMode.On": true}{% elif value == \'fan_only\' %}{"FanMode.On": true}'
+              + '{% else %}{"Active": 1, "TargetHeaterCoolerState": {{ {\'auto\': 0, \'heat\': 1, \'cool\': 2}[value] }}}{% endif %}',
+            mode_state_topic: state('Mode'),
+            current_temperature_topic: state('CurrentTemperature'),
+            temperature_command_topic: set('CoolingThresholdTemperature'),
+            temperature_state_topic: state('ThresholdTemperature'),
+            min_temp: service.getCharacteristic(Characteristic.HeatingThresholdTemperature).props.minValue,
+            max_temp: service.getCharacteristic(Characteristic.CoolingThresholdTemperature).props.maxValue,
+            temperature_unit: 'C',
+          },
+        }]
+      }
+      default:
+        return []
+    }
+  }
+
+  private sensor(deviceClass: string, name: string, stateTopic: string, unit: string, stateClass = 'measurement'): discoveryEntity {
+    return {
+      component: 'sensor',
+      objectId: deviceClass,
+      config: { name, device_class: deviceClass, state_topic: stateTopic, unit_of_measurement: unit, state_class: stateClass },
+    }
+  }
+
+  private binarySensor(deviceClass: string, name: string, stateTopic: string, payloadOn: string, payloadOff: string): discoveryEntity {
+    return {
+      component: 'binary_sensor',
+      objectId: deviceClass,
+      config: { name, device_class: deviceClass, state_topic: stateTopic, payload_on: payloadOn, payload_off: payloadOff },
+    }
+  }
+
+  private switch(topic: string): discoveryEntity {
+    return {
+      component: 'switch',
+      objectId: 'switch',
+      config: { name: null, command_topic: `${topic}/On/set`, state_topic: `${topic}/On`, payload_on: 'true', payload_off: 'false' },
+    }
+  }
+
+  /**
+   * Plug Mini outlets also have the Eve energy characteristics
+   */
+  private energySensors(service: Service, topic: string): discoveryEntity[] {
+    const { Characteristics } = this.platform.eve
+    if (!service.testCharacteristic(Characteristics.Voltage)) {
+      return []
+    }
+    return [
+      this.sensor('voltage', 'Voltage', `${topic}/Voltage`, 'V'),
+      this.sensor('current', 'Current', `${topic}/ElectricCurrent`, 'A'),
+      this.sensor('power', 'Power', `${topic}/Consumption`, 'W'),
+      this.sensor('energy', 'Energy', `${topic}/TotalConsumption`, 'kWh', 'total_increasing'),
+    ]
+  }
+
+  /**
+   * Lights get brightness, color temperature and hue/saturation color modes when the lightbulb has them
+   */
+  private light(service: Service, topic: string): { [key: string]: any } {
+    const { Characteristic } = this.hap
+    const config: { [key: string]: any } = {
+      name: null,
+      command_topic: `${topic}/On/set`,
+      state_topic: `${topic}/On`,
+      payload_on: 'true',
+      payload_off: 'false',
+    }
+    if (service.testCharacteristic(Characteristic.Brightness)) {
+      config.brightness_command_topic = `${topic}/Brightness/set`
+      config.brightness_state_topic = `${topic}/Brightness`
+      config.brightness_scale = 100
+    }
+    if (service.testCharacteristic(Characteristic.ColorTemperature)) {
+      const { minValue, maxValue } = service.getCharacteristic(Characteristic.ColorTemperature).props
+      config.color_temp_command_topic = `${topic}/ColorTemperature/set`
+      config.color_temp_state_topic = `${topic}/ColorTemperature`
+      config.min_mireds = minValue
+      config.max_mireds = maxValue
+    }
+    if (service.testCharacteristic(Characteristic.Hue)) {
+      config.hs_command_topic = `${topic}/set`
+      config.hs_command_template = '{"Hue": {{ hue }}, "Saturation": {{ sat }}}'
+    }
+    return config
+  }
+}
@@ -0,0 +1,248 @@
+import { HAPStatus } from 'homebridge'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { accessoryHandler, characteristic, createPlatform, discover, idle, openAPIResponse } from '../test/harness.js'
+
+const airConditioner = { deviceId: '02-202401011200-87654321', deviceName: 'Living Room', remoteType: 'Air Conditioner', hubDeviceId: 'F1A2B3C4D5E6' }
+const meter = { deviceId: 'C1A2B3C4D5E6', deviceName: 'Living Room Meter', deviceType: 'Meter', enableCloudService: true, hubDeviceId: 'F1A2B3C4D5E6' }
+
+describe('ir air conditioner', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  async function irAirConditioner(config: object = {}, deviceList: object[] = []) {
+    const harness = createPlatform({ options: { irdevices: [{ deviceId: airConditioner.deviceId, ...config }] } })
+    const accessories = await discover(harness, deviceList, [airConditioner])
+    const accessory = accessories.find(accessory => accessory.context.deviceId === airConditioner.deviceId)!
+    const { Service, Characteristic } = harness.api.hap
+    return {
+      harness,
+      accessory,
+      linkedMeter: accessories.find(accessory => accessory.context.deviceId === meter.deviceId),
+      active: characteristic(accessory, Service.HeaterCooler, Characteristic.Active),
+      targetState: characteristic(accessory, Service.HeaterCooler, Characteristic.TargetHeaterCoolerState),
+      coolingThreshold: characteristic(accessory, Service.HeaterCooler, Characteristic.CoolingThresholdTemperature),
+    }
+  }
+
+  it('turns on with turnOn', async () => {
+    const { harness, active } = await irAirConditioner()
+
+    await active.handleSetRequest(harness.api.hap.Characteristic.Active.ACTIVE)
+
+    expect(harness.controlDevice).toHaveBeenCalledWith(airConditioner.deviceId, 'turnOn', 'default', 'command')
+  })
+
+  it('sends the mode and temperature with setAll', async () => {
+    const { harness, active, targetState, coolingThreshold } = await irAirConditioner()
+    const { Characteristic } = harness.api.hap
+    await active.handleSetRequest(Characteristic.Active.ACTIVE)
+
+    await targetState.handleSetRequest(Characteristic.TargetHeaterCoolerState.COOL)
+    await coolingThreshold.handleSetRequest(22)
+
+    // changes within 1.5s are sent together
+    await vi.waitFor(() => expect(harness.controlDevice).toHaveBeenCalledWith(airConditioner.deviceId, 'setAll', '22,2,1,on', 'command'), { timeout: 3000 })
+    expect(harness.controlDevice).toHaveBeenCalledTimes(2)
+  })
+
+  it('rolls back when its hub is offline (171)', async () => {
+    const { harness, active } = await irAirConditioner()
+    harness.controlDevice.mockResolvedValue(openAPIResponse(171))
+
+    await expect(active.handleSetRequest(harness.api.hap.Characteristic.Active.ACTIVE)).rejects.toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE)
+
+    expect(active.value).toBe(harness.api.hap.Characteristic.Active.INACTIVE)
+  })
+
+  it('sends the customSwing button to swing', async () => {
+    const { harness, accessory } = await irAirConditioner({ swing_mode: true, customSwing: 'Swing' })
+    const { Service, Characteristic } = harness.api.hap
+
+    await characteristic(accessory, Service.HeaterCooler, Characteristic.SwingMode).handleSetRequest(Characteristic.SwingMode.SWING_ENABLED)
+
+    expect(harness.controlDevice).toHaveBeenCalledWith(airConditioner.deviceId, 'Swing', 'default', 'customize')
+  })
+
+  it('has no SwingMode without a customSwing button', async () => {
+    const { harness, accessory } = await irAirConditioner({ swing_mode: true })
+    const { Service, Characteristic } = harness.api.hap
+
+    expect(accessory.getService(Service.HeaterCooler)!.testCharacteristic(Characteristic.SwingMode)).toBe(false)
+    expect(harness.log.warn).toHaveBeenCalledWith(expect.any(String), expect.stringContaining('swing_mode needs customSwing'))
+  })
+
+  it('switches to Dry and Fan mode, one at a time', async () => {
+    const { harness, accessory, active } = await irAirConditioner({ dry_mode: true, fan_mode: true })
+    const { Service, Characteristic } = harness.api.hap
+    const dryMode = accessory.getServiceById(Service.Switch, 'DryMode')!.getCharacteristic(Characteristic.On)
+    const fanMode = accessory.getServiceById(Service.Switch, 'FanMode')!.getCharacteristic(Characteristic.On)
+    await active.handleSetRequest(Characteristic.Active.ACTIVE)
+
+    await dryMode.handleSetRequest(true)
+    await vi.waitFor(() => expect(harness.controlDevice).toHaveBeenLastCalledWith(airConditioner.deviceId, 'setAll', '24,3,1,on', 'command'), { timeout: 3000 })
+    await fanMode.handleSetRequest(true)
+    await vi.waitFor(() => expect(harness.controlDevice).toHaveBeenLastCalledWith(airConditioner.deviceId, 'setAll', '24,4,1,on', 'command'), { timeout: 3000 })
+
+    expect(dryMode.value).toBe(false)
+    expect(fanMode.value).toBe(true)
+  })
+
+  it.each([
+    [1, [[0, 1], [100, 2]]],
+    [3, [[0, 1], [33.33, 2], [66.67, 3], [100, 4]]],
+    [5, [[0, 1], [20, 2], [60, 3], [100, 4]]],
+  ])('maps RotationSpeed to the fan speed with %i fan_speed_steps', async (fan_speed_steps, speeds) => {
+    const { accessory } = await irAirConditioner({ fan_speed_steps })
+    const handler = accessoryHandler(accessory)
+
+    for (const [rotationSpeed, fanSpeed] of speeds) {
+      expect(handler.rotationSpeedToFanSpeed(rotationSpeed)).toBe(fanSpeed)
+      expect(handler.fanSpeedToRotationSpeed(fanSpeed)).toBe(rotationSpeed)
+    }
+  })
+
+  it('sends the fan speed of the RotationSpeed with setAll', async () => {
+    const { harness, accessory, active } = await irAirConditioner({ fan_speed_steps: 5 })
+    const { Service, Characteristic } = harness.api.hap
+    await active.handleSetRequest(Characteristic.Active.ACTIVE)
+
+    await characteristic(accessory, Service.HeaterCooler, Characteristic.RotationSpeed).handleSetRequest(80)
+
+    await vi.waitFor(() => expect(harness.controlDevice).toHaveBeenLastCalledWith(airConditioner.deviceId, 'setAll', '24,1,4,on', 'command'), { timeout: 3000 })
+  })
+
+  describe('linked meter', () => {
+    const linked = { meterType: meter.deviceType, meterId: meter.deviceId }
+
+    it('follows the temperature and humidity of the meter', async () => {
+      const { harness, accessory, linkedMeter, active } = await irAirConditioner(linked, [meter])
+      const { Service, Characteristic } = harness.api.hap
+      await active.handleSetRequest(Characteristic.Active.ACTIVE)
+
+      linkedMeter!.getService(Service.TemperatureSensor)!.updateCharacteristic(Characteristic.CurrentTemperature, 28)
+      linkedMeter!.getService(Service.HumiditySensor)!.updateCharacteristic(Characteristic.CurrentRelativeHumidity, 55)
+      await idle()
+
+      expect(characteristic(accessory, Service.HeaterCooler, Characteristic.CurrentTemperature).value).toBe(28)
+      expect(characteristic(accessory, Service.HeaterCooler, Characteristic.CurrentHeaterCoolerState).value).toBe(Characteristic.CurrentHeaterCoolerState.COOLING)
+      expect(characteristic(accessory, Service.HumiditySensor, Characteristic.CurrentRelativeHumidity).value).toBe(55)
+    })
+
+    it('is linked once, however often discovery finishes', async () => {
+      const { harness, linkedMeter } = await irAirConditioner(linked, [meter])
+      const { Service, Characteristic } = harness.api.hap
+      const temperature = linkedMeter!.getService(Service.TemperatureSensor)!.getCharacteristic(Characteristic.CurrentTemperature)
+      const listeners = temperature.listenerCount('change')
+
+      await harness.platform.devicesDiscovered()
+
+      expect(temperature.listenerCount('change')).toBe(listeners)
+    })
+  })
+
+  describe('thermostat', () => {
+    const thermostat = { meterType: meter.deviceType, meterId: meter.deviceId, thermostat: true, minRunTime: 0, minOffTime: 0 }
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    /**
+     * An air conditioner cooling to 24°C, its linked meter sets the temperature the thermostat reads
+     */
+    async function thermostatAirConditioner(config: object = {}) {
+      const { harness, accessory, linkedMeter } = await irAirConditioner({ ...thermostat, ...config }, [meter])
+      const { Service, Characteristic } = harness.api.hap
+      const airConditioner = accessoryHandler(accessory)
+      airConditioner.HeaterCooler.Active = Characteristic.Active.ACTIVE
+      airConditioner.HeaterCooler.TargetHeaterCoolerState = Characteristic.TargetHeaterCoolerState.COOL
+      airConditioner.HeaterCooler.ThresholdTemperature = 24
+      airConditioner.CurrentMode = 2
+      airConditioner.CurrentFanSpeed = 1
+      const temperature = async (value: number) => {
+        linkedMeter!.getService(Service.TemperatureSensor)!.updateCharacteristic(Characteristic.CurrentTemperature, value)
+        await idle()
+      }
+      const sent = () => harness.controlDevice.mock.calls.map(([, command, parameter]) => `${command} ${parameter}`)
+      return { harness, airConditioner, temperature, sent }
+    }
+
+    it('turns on and off past the hysteresis', async () => {
+      const { temperature, sent } = await thermostatAirConditioner({ hysteresis: 0.5 })
+
+      await temperature(24.4)
+      await temperature(24.6)
+      await temperature(23.6)
+      await temperature(23.4)
+
+      expect(sent()).toEqual(['setAll 24,2,1,on', 'setAll 24,2,1,off'])
+    })
+
+    it('waits for minRunTime and minOffTime', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      const { airConditioner, temperature, sent } = await thermostatAirConditioner({ minRunTime: 300, minOffTime: 600 })
+      await temperature(26)
+
+      vi.advanceTimersByTime(299 * 1000)
+      await temperature(22)
+      vi.advanceTimersByTime(1000)
+      await airConditioner.thermostatControl()
+      expect(sent()).toEqual(['setAll 24,2,1,on', 'setAll 24,2,1,off'])
+
+      vi.advanceTimersByTime(599 * 1000)
+      await temperature(26)
+      vi.advanceTimersByTime(1000)
+      await airConditioner.thermostatControl()
+      expect(sent()).toEqual(['setAll 24,2,1,on', 'setAll 24,2,1,off', 'setAll 24,2,1,on'])
+    })
+
+    it('sends no more than maxCommandsPerHour', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      const { airConditioner, temperature, sent } = await thermostatAirConditioner({ maxCommandsPerHour: 2 })
+
+      await temperature(26)
+      await temperature(22)
+      await temperature(26)
+      expect(sent()).toEqual(['setAll 24,2,1,on', 'setAll 24,2,1,off'])
+
+      vi.advanceTimersByTime(60 * 60 * 1000)
+      await airConditioner.thermostatControl()
+      expect(sent()).toEqual(['setAll 24,2,1,on', 'setAll 24,2,1,off', 'setAll 24,2,1,on'])
+    })
+
+    it('does not turn the unit on with disablePushOn, or off with disablePushOff', async () => {
+      const pushOn = await thermostatAirConditioner({ disablePushOn: true })
+      await pushOn.temperature(26)
+      expect(pushOn.sent()).toEqual([])
+
+      const pushOff = await thermostatAirConditioner({ disablePushOff: true })
+      await pushOff.temperature(26)
+      await pushOff.temperature(22)
+      expect(pushOff.sent()).toEqual(['setAll 24,2,1,on'])
+    })
+
+    it('corrects the setpoint in setpoint mode, within the range of the mode', async () => {
+      const { temperature, sent } = await thermostatAirConditioner({ thermostatMode: 'setpoint', set_min_cool: 23, set_min_heat: 16 })
+
+      await temperature(25)
+      // 22°C is below set_min_cool
+      await temperature(25.5)
+      await temperature(24)
+      await temperature(23)
+      await temperature(22.5)
+
+      expect(sent()).toEqual(['setAll 23,2,1,on', 'setAll 23,2,1,on', 'setAll 23,2,1,on', 'setAll 24,2,1,on'])
+    })
+
+    it('warns about an unknown thermostatMode, and turns the unit on and off', async () => {
+      const { harness, temperature, sent } = await thermostatAirConditioner({ thermostatMode: 'auto' })
+
+      await temperature(26)
+
+      expect(harness.log.warn).toHaveBeenCalledWith(expect.any(String), expect.stringContaining('thermostatMode: auto is not valid'))
+      expect(sent()).toEqual(['setAll 24,2,1,on'])
+    })
+  })
+})
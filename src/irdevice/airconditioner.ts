@@ -2,12 +2,15 @@
  *
  * airconditioners.ts: @switchbot/homebridge-switchbot.
  */
-import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge'
+import type { CharacteristicChange, CharacteristicValue, PlatformAccessory, Service } from 'homebridge'
 import type { bodyChange, irdevice } from 'node-switchbot'
+import type { Subscription } from 'rxjs'
 
 import type { SwitchBotPlatform } from '../platform.js'
 import type { irAirConfig, irDevicesConfig } from '../settings.js'
 
+import { interval } from 'rxjs'
+
 import { irdeviceBase } from './irdevice.js'
 
 /**
@@ -26,9 +29,23 @@ export class AirConditioner extends irdeviceBase {
     CurrentTemperature: CharacteristicValue
     ThresholdTemperature: CharacteristicValue
     RotationSpeed: CharacteristicValue
+    SwingMode: CharacteristicValue
+  }
+
+  private DryMode?: {
+    Name: CharacteristicValue
+    Service: Service
+    On: CharacteristicValue
+  }
+
+  private FanMode?: {
+    Name: CharacteristicValue
+    Service: Service
+    On: CharacteristicValue
   }
 
   meter?: PlatformAccessory
+  unlinkMeter?: () => void
 
   private HumiditySensor?: {
     Name: CharacteristicValue
@@ -50,6 +67,26 @@ export class AirConditioner extends irdeviceBase {
   set_min_heat?: number
   set_max_cool?: number
   set_min_cool?: number
+  thermostat?: boolean
+  thermostatMode!: 'onoff' | 'setpoint'
+  maxSetpointOffset!: number
+  hysteresis!: number
+  minRunTime!: number
+  minOffTime!: number
+  maxCommandsPerHour!: number
+  dry_mode?: boolean
+  fan_mode?: boolean
+  swing_mode?: boolean
+  customSwing?: string
+  fan_speed_steps!: number
+
+  // Thermostat, kept in accessory.context.Thermostat so a restart does not lose track of a running unit
+  thermostatRunning: boolean = false
+  thermostatCooling: boolean = true
+  thermostatLastChange: number = 0
+  thermostatCommands: number[] = []
+  thermostatOffset: number = 0
+  thermostatInterval?: Subscription
 
   constructor(
     readonly platform: SwitchBotPlatform,
@@ -65,6 +102,14 @@ export class AirConditioner extends irdeviceBase {
 
     this.ValidValues = this.hide_automode ? [1, 2] : [0, 1, 2]
 
+    // Restore the Thermostat
+    const thermostat = accessory.context.Thermostat ?? {}
+    this.thermostatRunning = thermostat.running ?? false
+    this.thermostatCooling = thermostat.cooling ?? true
+    this.thermostatLastChange = thermostat.lastChange ?? 0
+    this.thermostatCommands = thermostat.commands ?? []
+    this.thermostatOffset = thermostat.offset ?? 0
+
     // Initialize HeaterCooler Service
     accessory.context.HeaterCooler = accessory.context.HeaterCooler ?? {}
     this.HeaterCooler = {
@@ -75,7 +120,8 @@ export class AirConditioner extends irdeviceBase {
       TargetHeaterCoolerState: accessory.context.TargetHeaterCoolerState ?? this.hap.Characteristic.TargetHeaterCoolerState.AUTO,
       CurrentTemperature: accessory.context.CurrentTemperature ?? 24,
       ThresholdTemperature: accessory.context.ThresholdTemperature ?? 24,
-      RotationSpeed: accessory.context.RotationSpeed ?? 4,
+      RotationSpeed: accessory.context.RotationSpeed ?? 0,
+      SwingMode: accessory.context.SwingMode ?? this.hap.Characteristic.SwingMode.SWING_DISABLED,
     }
     accessory.context.HeaterCooler = this.HeaterCooler as object
 
@@ -113,49 +159,166 @@ export class AirConditioner extends irdeviceBase {
       return await this.ThresholdTemperatureGet()
     }).onSet(this.ThresholdTemperatureSet.bind(this))
 
+    // RotationSpeed 0% is Auto, the rest of the range is split into fan_speed_steps
     this.HeaterCooler.Service.getCharacteristic(this.hap.Characteristic.RotationSpeed).setProps({
-      format: 'int',
-      minStep: 1,
-      minValue: 1,
-      maxValue: 4,
+      minStep: Math.round(100 / this.fan_speed_steps * 100) / 100,
+      minValue: 0,
+      maxValue: 100,
     }).onGet(async () => {
       return await this.RotationSpeedGet()
     }).onSet(this.RotationSpeedSet.bind(this))
 
-    // Initialize HumiditySensor property
+    // Initialize SwingMode Characteristic, the OpenAPI has no swing command so it sends the customSwing button
+    if (this.swing_mode && !this.customSwing) {
+      this.warnLog('swing_mode needs customSwing, the name of the swing button learned in the SwitchBot app')
+    }
+    if (this.swing_mode && this.customSwing) {
+      this.HeaterCooler.Service.getCharacteristic(this.hap.Characteristic.SwingMode).onGet(() => {
+        return this.HeaterCooler.SwingMode
+      }).onSet(this.SwingModeSet.bind(this))
+    } else if (this.HeaterCooler.Service.testCharacteristic(this.hap.Characteristic.SwingMode)) {
+      this.HeaterCooler.Service.removeCharacteristic(this.HeaterCooler.Service.getCharacteristic(this.hap.Characteristic.SwingMode))
+    }
 
-    if ((this.device as irAirConfig).meterType && (this.device as irAirConfig).meterId) {
-      const meterUuid = this.platform.api.hap.uuid.generate(`${(device as irAirConfig).meterId}-${(device as irAirConfig).meterType}`)
-      this.meter = this.platform.accessories.find(accessory => accessory.UUID === meterUuid)
-      accessory.context.HumiditySensor = accessory.context.HumiditySensor ?? {}
-      this.HumiditySensor = {
-        Name: this.meter!.displayName,
-        Service: this.meter!.getService(this.hap.Service.HumiditySensor) ?? this.meter!.addService(this.hap.Service.HumiditySensor) as Service,
-        CurrentRelativeHumidity: this.meter!.context.CurrentRelativeHumidity || 0,
+    // Initialize Dry Mode Switch Service
+    if (this.dry_mode) {
+      accessory.context.DryMode = accessory.context.DryMode ?? {}
+      this.DryMode = {
+        Name: `${accessory.displayName} Dry`,
+        Service: accessory.getServiceById(this.hap.Service.Switch, 'DryMode') ?? accessory.addService(this.hap.Service.Switch, `${accessory.displayName} Dry`, 'DryMode') as Service,
+        On: false,
       }
-      accessory.context.HumiditySensor = this.HumiditySensor as object
+      accessory.context.DryMode = this.DryMode as object
+
+      this.DryMode.Service.setCharacteristic(this.hap.Characteristic.Name, this.DryMode.Name).getCharacteristic(this.hap.Characteristic.On).onGet(() => {
+        return this.DryMode!.On
+      }).onSet(this.DryModeSet.bind(this))
+    } else {
+      this.removeModeSwitch(accessory, 'DryMode')
+    }
+
+    // Initialize Fan Mode Switch Service
+    if (this.fan_mode) {
+      accessory.context.FanMode = accessory.context.FanMode ?? {}
+      this.FanMode = {
+        Name: `${accessory.displayName} Fan`,
+        Service: accessory.getServiceById(this.hap.Service.Switch, 'FanMode') ?? accessory.addService(this.hap.Service.Switch, `${accessory.displayName} Fan`, 'FanMode') as Service,
+        On: false,
+      }
+      accessory.context.FanMode = this.FanMode as object
+
+      this.FanMode.Service.setCharacteristic(this.hap.Characteristic.Name, this.FanMode.Name).getCharacteristic(this.hap.Characteristic.On).onGet(() => {
+        return this.FanMode!.On
+      }).onSet(this.FanModeSet.bind(this))
+    } else {
+      this.removeModeSwitch(accessory, 'FanMode')
+    }
+
+    // Initialize Linked Meter, and link it again once discovery finished in case it was created after this accessory
+    this.linkMeter(accessory, device, false)
+    this.platform.discoveredHandler[device.deviceId] = () => this.linkMeter(accessory, device)
+
+    // Re-check the thermostat every minute, in case the Linked Meter has not changed but a minimum time has passed
+    if (this.thermostat) {
+      this.thermostatInterval = interval(60 * 1000).subscribe(async () => {
+        await this.thermostatControl()
+      })
+      this.platform.api.on('shutdown', () => {
+        this.thermostatInterval?.unsubscribe()
+      })
+    }
+  }
+
+  /**
+   * Links the Meter, Meter Plus, Meter Pro, Hub 2 or Outdoor Meter set in meterType & meterId (or meterUuid),
+   * and subscribes to its CurrentTemperature and CurrentRelativeHumidity so the HeaterCooler follows the room.
+   * Linking again does nothing while the same Meter is linked, a re-created Meter replaces the old one.
+   */
+  async linkMeter(accessory: PlatformAccessory, device: irdevice & irDevicesConfig, discovered = true): Promise<void> {
+    const { meterType, meterId, meterUuid } = device as irAirConfig
+    if (!meterUuid && !(meterType && meterId)) {
+      this.debugLog('No Meter linked, meterType & meterId are not set')
+      return
+    }
+    const uuid = meterUuid ?? this.platform.api.hap.uuid.generate(`${meterId}-${meterType}`)
+    const meter = this.platform.accessories.find(accessory => accessory.UUID === uuid)
+    if (!meter) {
+      if (discovered) {
+        this.warnLog(`Linked Meter ${meterType} (${meterId ?? meterUuid}) was not found, make sure it is not external or hidden`)
+      } else {
+        this.debugLog(`Linked Meter ${meterType} (${meterId ?? meterUuid}) was not found yet, linking again once discovery finished`)
+      }
+      return
+    }
+    if (meter === this.meter) {
+      return
+    }
+    this.unlinkMeter?.()
+    this.meter = meter
+    this.debugLog(`Linked Meter: ${meter.displayName}, ${meter.context.deviceType} (${meter.context.deviceId})`)
+
+    // CurrentTemperature
+    const TemperatureSensor = meter.getService(this.hap.Service.TemperatureSensor)
+    const onTemperatureChange = async (event: CharacteristicChange) => {
+      if (event.newValue !== null && event.newValue !== event.oldValue) {
+        this.debugLog(`Linked Meter CurrentTemperature: ${event.newValue}`)
+        this.HeaterCooler.CurrentTemperature = event.newValue
+        await this.UpdateCurrentHeaterCoolerState()
+        await this.updateCharacteristic(this.HeaterCooler.Service, this.hap.Characteristic.CurrentTemperature, this.HeaterCooler.CurrentTemperature, 'CurrentTemperature')
+        await this.updateCharacteristic(this.HeaterCooler.Service, this.hap.Characteristic.CurrentHeaterCoolerState, this.HeaterCooler.CurrentHeaterCoolerState, 'CurrentHeaterCoolerState')
+        await this.thermostatControl()
+      }
+    }
+    if (TemperatureSensor) {
+      this.HeaterCooler.CurrentTemperature = TemperatureSensor.getCharacteristic(this.hap.Characteristic.CurrentTemperature).value ?? this.HeaterCooler.CurrentTemperature
+      TemperatureSensor.getCharacteristic(this.hap.Characteristic.CurrentTemperature).on('change', onTemperatureChange)
+    } else {
+      this.debugWarnLog(`Linked Meter ${meter.displayName} has no TemperatureSensor`)
     }
 
-    if ((this.device as irAirConfig).meterType && (this.device as irAirConfig).meterId) {
-      const meterUuid = this.platform.api.hap.uuid.generate(`${(device as irAirConfig).meterId}-${(device as irAirConfig).meterType}`)
-      this.meter = this.platform.accessories.find(accessory => accessory.UUID === meterUuid)
+    // CurrentRelativeHumidity
+    const HumiditySensor = meter.getService(this.hap.Service.HumiditySensor)
+    const onHumidityChange = async (event: CharacteristicChange) => {
+      if (event.newValue !== null && event.newValue !== event.oldValue && this.HumiditySensor) {
+        this.debugLog(`Linked Meter CurrentRelativeHumidity: ${event.newValue}`)
+        this.HumiditySensor.CurrentRelativeHumidity = event.newValue
+        await this.updateCharacteristic(this.HumiditySensor.Service, this.hap.Characteristic.CurrentRelativeHumidity, this.HumiditySensor.CurrentRelativeHumidity, 'CurrentRelativeHumidity')
+      }
     }
+    if (HumiditySensor) {
+      accessory.context.HumiditySensor = accessory.context.HumiditySensor ?? {}
+      this.HumiditySensor = {
+        Name: `${accessory.displayName} Humidity`,
+        Service: accessory.getService(this.hap.Service.HumiditySensor) ?? accessory.addService(this.hap.Service.HumiditySensor) as Service,
+        CurrentRelativeHumidity: HumiditySensor.getCharacteristic(this.hap.Characteristic.CurrentRelativeHumidity).value ?? accessory.context.CurrentRelativeHumidity ?? 0,
+      }
+      accessory.context.HumiditySensor = this.HumiditySensor as object
 
-    if (this.meter && this.HumiditySensor) {
       this.HumiditySensor.Service.setCharacteristic(this.hap.Characteristic.Name, this.HumiditySensor.Name).getCharacteristic(this.hap.Characteristic.CurrentRelativeHumidity).onGet(async () => {
         return await this.CurrentRelativeHumidityGet()
       })
+
+      HumiditySensor.getCharacteristic(this.hap.Characteristic.CurrentRelativeHumidity).on('change', onHumidityChange)
+    } else {
+      this.debugWarnLog(`Linked Meter ${meter.displayName} has no HumiditySensor`)
+    }
+
+    this.unlinkMeter = () => {
+      TemperatureSensor?.getCharacteristic(this.hap.Characteristic.CurrentTemperature).removeListener('change', onTemperatureChange)
+      HumiditySensor?.getCharacteristic(this.hap.Characteristic.CurrentRelativeHumidity).removeListener('change', onHumidityChange)
     }
   }
 
   /**
    * Pushes the requested changes to the SwitchBot API
    * deviceType             commandType     Command            command parameter                    Description
-   * AirConditioner:        "command"       "swing"            "default"                   =        swing
+   * AirConditioner:        "customize"     "{customSwing}"    "default"                   =        swing
    * AirConditioner:        "command"       "timer"            "default"                   =        timer
    * AirConditioner:        "command"       "lowSpeed"         "default"                   =        fan speed to low
    * AirConditioner:        "command"       "middleSpeed"      "default"                   =        fan speed to medium
    * AirConditioner:        "command"       "highSpeed"        "default"                   =        fan speed to high
+   * AirConditioner:        "command"       "setAll"           "{temp},{mode},{fan},{on/off}"   =   mode: 1 auto, 2 cool, 3 dry, 4 fan, 5 heat
+   *                                                                                                 fan: 1 auto, 2 low, 3 medium, 4 high
    */
   async pushAirConditionerOnChanges(): Promise<void> {
     this.debugLog(`pushAirConditionerOnChanges Active: ${this.HeaterCooler.Active}, disablePushOn: ${this.deviceDisablePushOn}`)
@@ -194,7 +357,168 @@ export class AirConditioner extends irdeviceBase {
     clearTimeout(this.Timeout)
 
     // Make a new Timeout set to go off in 1000ms (1 second)
-    this.Timeout = setTimeout(this.pushAirConditionerDetailsChanges.bind(this), 1500)
+    this.Timeout = setTimeout(this.isThermostat() ? this.pushThermostatChanges.bind(this) : this.pushAirConditionerDetailsChanges.bind(this), 1500)
+  }
+
+  /**
+   * With the thermostat enabled, changes from HomeKit only reach the unit while it is running,
+   * otherwise the thermostat decides if the unit should start.
+   */
+  async pushThermostatChanges(): Promise<void> {
+    this.debugLog(`pushThermostatChanges Active: ${this.HeaterCooler.Active}, thermostatRunning: ${this.thermostatRunning}`)
+    if (await this.thermostatControl()) {
+      return
+    }
+    if (this.thermostatRunning || this.thermostatMode === 'setpoint') {
+      await this.pushAirConditionerDetailsChanges()
+    } else {
+      this.Busy = false
+      await this.UpdateCurrentHeaterCoolerState()
+      await this.updateHomeKitCharacteristics()
+    }
+  }
+
+  /**
+   * Compares the Linked Meter's CurrentTemperature with the ThresholdTemperature and turns the unit on or off,
+   * the unit starts once the temperature is past the threshold by the hysteresis and stops once it is past the other side.
+   * Returns true when a command was sent.
+   */
+  async thermostatControl(): Promise<boolean> {
+    if (!this.isThermostat() || this.HeaterCooler.Active !== this.hap.Characteristic.Active.ACTIVE) {
+      return false
+    }
+    const current = Number(this.HeaterCooler.CurrentTemperature)
+    const target = Number(this.HeaterCooler.ThresholdTemperature)
+    if (this.thermostatMode === 'setpoint') {
+      return await this.setpointControl(current, target)
+    }
+    let run = this.thermostatRunning
+    let cooling = this.thermostatCooling
+    switch (this.HeaterCooler.TargetHeaterCoolerState) {
+      case this.hap.Characteristic.TargetHeaterCoolerState.COOL:
+        cooling = true
+        break
+      case this.hap.Characteristic.TargetHeaterCoolerState.HEAT:
+        cooling = false
+        break
+      default:
+        if (!this.thermostatRunning) {
+          cooling = current > target
+        }
+    }
+    if (cooling) {
+      run = current >= target + this.hysteresis ? true : current <= target - this.hysteresis ? false : run
+    } else {
+      run = current <= target - this.hysteresis ? true : current >= target + this.hysteresis ? false : run
+    }
+    this.debugLog(`Thermostat CurrentTemperature: ${current}, ThresholdTemperature: ${target}, hysteresis: ${this.hysteresis}, ${cooling ? 'cooling' : 'heating'}: ${run}`)
+    if (run === this.thermostatRunning) {
+      return false
+    }
+
+    // Minimum run & off times
+    const now = Date.now()
+    const minTime = (this.thermostatRunning ? this.minRunTime : this.minOffTime) * 1000
+    if (now - this.thermostatLastChange < minTime) {
+      this.debugLog(`Thermostat waiting ${Math.ceil((minTime - (now - this.thermostatLastChange)) / 1000)}s before turning ${run ? 'on' : 'off'}`)
+      return false
+    }
+    if (!this.thermostatCommandAllowed(now, `turning ${run ? 'on' : 'off'}`)) {
+      return false
+    }
+    if ((run && this.deviceDisablePushOn) || (!run && this.deviceDisablePushOff)) {
+      this.debugLog(`Thermostat not turning ${run ? 'on' : 'off'}, disablePushOn: ${this.deviceDisablePushOn}, disablePushOff: ${this.deviceDisablePushOff}`)
+      return false
+    }
+
+    this.infoLog(`Thermostat turning ${run ? 'on' : 'off'}, CurrentTemperature: ${current}, ThresholdTemperature: ${target}`)
+    this.thermostatRunning = run
+    this.thermostatCooling = cooling
+    this.thermostatLastChange = now
+    this.thermostatCommands.push(now)
+    await this.saveThermostat()
+    await this.pushAirConditionerDetailsChanges()
+    return true
+  }
+
+  /**
+   * Setpoint mode keeps the unit running and corrects its setpoint instead, for units whose own sensor reads
+   * the room wrong: while the Linked Meter is warmer than the threshold by the hysteresis the setpoint sent is
+   * lowered by 1°C, while it is colder it is raised, up to maxSetpointOffset away from the threshold.
+   * Setpoint changes are at least minRunTime apart, and count against maxCommandsPerHour.
+   */
+  async setpointControl(current: number, target: number): Promise<boolean> {
+    const step = current >= target + this.hysteresis ? -1 : current <= target - this.hysteresis ? 1 : 0
+    const offset = Math.max(-this.maxSetpointOffset, Math.min(this.maxSetpointOffset, this.thermostatOffset + step))
+    this.debugLog(`Thermostat CurrentTemperature: ${current}, ThresholdTemperature: ${target}, hysteresis: ${this.hysteresis}, setpoint offset: ${this.thermostatOffset}`)
+    if (offset === this.thermostatOffset) {
+      return false
+    }
+    const now = Date.now()
+    if (now - this.thermostatLastChange < this.minRunTime * 1000) {
+      this.debugLog(`Thermostat waiting ${Math.ceil((this.minRunTime * 1000 - (now - this.thermostatLastChange)) / 1000)}s before changing the setpoint`)
+      return false
+    }
+    if (!this.thermostatCommandAllowed(now, 'changing the setpoint')) {
+      return false
+    }
+    this.infoLog(`Thermostat changing the setpoint to ${target + offset}, CurrentTemperature: ${current}, ThresholdTemperature: ${target}`)
+    this.thermostatOffset = offset
+    this.thermostatLastChange = now
+    this.thermostatCommands.push(now)
+    await this.saveThermostat()
+    await this.pushAirConditionerDetailsChanges()
+    return true
+  }
+
+  /**
+   * Checks the commands sent by the thermostat in the last hour against maxCommandsPerHour
+   */
+  thermostatCommandAllowed(now: number, action: string): boolean {
+    this.thermostatCommands = this.thermostatCommands.filter(time => now - time < 60 * 60 * 1000)
+    if (this.thermostatCommands.length >= this.maxCommandsPerHour) {
+      this.warnLog(`Thermostat reached maxCommandsPerHour: ${this.maxCommandsPerHour}, not ${action}`)
+      return false
+    }
+    return true
+  }
+
+  /**
+   * The setpoint sent to the unit, the ThresholdTemperature corrected by the thermostat in setpoint mode
+   */
+  setpoint(): CharacteristicValue {
+    if (!this.isThermostat() || this.thermostatMode !== 'setpoint' || !this.thermostatOffset) {
+      return this.HeaterCooler.ThresholdTemperature
+    }
+    // the range of the mode the unit runs in, Auto allows both
+    const min = this.CurrentMode === 5
+      ? this.set_min_heat ?? 0
+      : this.CurrentMode === 2 ? this.set_min_cool ?? 0 : Math.min(this.set_min_cool ?? 0, this.set_min_heat ?? 0)
+    const max = this.CurrentMode === 5
+      ? this.set_max_heat ?? 35
+      : this.CurrentMode === 2 ? this.set_max_cool ?? 35 : Math.max(this.set_max_cool ?? 35, this.set_max_heat ?? 35)
+    return Math.max(min, Math.min(max, Number(this.HeaterCooler.ThresholdTemperature) + this.thermostatOffset))
+  }
+
+  /**
+   * Keeps the thermostat state in the accessory's context, and saves it to the accessory cache right away
+   */
+  async saveThermostat(): Promise<void> {
+    this.accessory.context.Thermostat = {
+      running: this.thermostatRunning,
+      cooling: this.thermostatCooling,
+      lastChange: this.thermostatLastChange,
+      commands: this.thermostatCommands,
+      offset: this.thermostatOffset,
+    }
+    this.api.updatePlatformAccessories([this.accessory])
+  }
+
+  /**
+   * The thermostat needs a Linked Meter with a TemperatureSensor, and is not used in Dry or Fan mode
+   */
+  isThermostat(): boolean {
+    return !!this.thermostat && !!this.meter?.getService(this.hap.Service.TemperatureSensor) && this.CurrentMode !== 3 && this.CurrentMode !== 4
   }
 
   async pushAirConditionerDetailsChanges(): Promise<void> {
@@ -206,17 +530,13 @@ export class AirConditioner extends irdeviceBase {
     if (this.CurrentFanSpeed === undefined) {
       this.CurrentFanSpeed = 1
     }
-    if (this.HeaterCooler.Active === this.hap.Characteristic.Active.ACTIVE) {
+    if (this.HeaterCooler.Active === this.hap.Characteristic.Active.ACTIVE && (!this.isThermostat() || this.thermostatMode === 'setpoint' || this.thermostatRunning)) {
       this.state = 'on'
     } else {
       this.state = 'off'
     }
-    if (this.CurrentMode === 1) {
-      // Remove or make configurable?
-      this.HeaterCooler.ThresholdTemperature = 25
-      this.debugLog(`CurrentMode: ${this.CurrentMode}, ThresholdTemperature: ${this.HeaterCooler.ThresholdTemperature}`)
-    }
-    const parameter = `${this.HeaterCooler.ThresholdTemperature},${this.CurrentMode},${this.CurrentFanSpeed},${this.state}`
+    this.debugLog(`CurrentMode: ${this.CurrentMode}, CurrentFanSpeed: ${this.CurrentFanSpeed}, ThresholdTemperature: ${this.HeaterCooler.ThresholdTemperature}, setpoint: ${this.setpoint()}`)
+    const parameter = `${this.setpoint()},${this.CurrentMode},${this.CurrentFanSpeed},${this.state}`
 
     await this.UpdateCurrentHeaterCoolerState()
     const bodyChange: bodyChange = {
@@ -248,7 +568,7 @@ export class AirConditioner extends irdeviceBase {
       }
 
       if (this.HeaterCooler.RotationSpeed === undefined && this.accessory.context.RotationSpeed === undefined) {
-        this.HeaterCooler.RotationSpeed = 4
+        this.HeaterCooler.RotationSpeed = 0
       } else {
         this.HeaterCooler.RotationSpeed = this.HeaterCooler.RotationSpeed || this.accessory.context.RotationSpeed
       }
@@ -306,6 +626,16 @@ export class AirConditioner extends irdeviceBase {
       } else {
         this.HeaterCooler.CurrentHeaterCoolerState = this.hap.Characteristic.CurrentHeaterCoolerState.IDLE
       }
+      if (this.CurrentMode === 3 || this.CurrentMode === 4) {
+        // Dry & Fan modes neither heat nor cool
+        this.HeaterCooler.CurrentHeaterCoolerState = this.hap.Characteristic.CurrentHeaterCoolerState.IDLE
+      } else if (this.isThermostat() && this.thermostatMode !== 'setpoint') {
+        this.HeaterCooler.CurrentHeaterCoolerState = !this.thermostatRunning
+          ? this.hap.Characteristic.CurrentHeaterCoolerState.IDLE
+          : this.thermostatCooling
+            ? this.hap.Characteristic.CurrentHeaterCoolerState.COOLING
+            : this.hap.Characteristic.CurrentHeaterCoolerState.HEATING
+      }
     } else {
       this.HeaterCooler.CurrentHeaterCoolerState = this.hap.Characteristic.CurrentHeaterCoolerState.INACTIVE
     }
@@ -337,63 +667,156 @@ export class AirConditioner extends irdeviceBase {
   }
 
   async CurrentTemperatureGet(): Promise<CharacteristicValue> {
-    if (this.meter?.context?.CurrentTemperature) {
-      this.accessory.context.CurrentTemperature = this.meter.context.CurrentTemperature
-      this.debugLog(`Using CurrentTemperature from ${this.meter.context.deviceType} (${this.meter.context.deviceId})`)
+    const meterTemperature = this.meter?.getService(this.hap.Service.TemperatureSensor)?.getCharacteristic(this.hap.Characteristic.CurrentTemperature).value
+    if (meterTemperature !== undefined && meterTemperature !== null) {
+      this.accessory.context.CurrentTemperature = meterTemperature
+      this.debugLog(`Using CurrentTemperature from ${this.meter!.context.deviceType} (${this.meter!.context.deviceId})`)
     }
 
-    this.HeaterCooler.CurrentTemperature = this.accessory.context.CurrentTemperature || 24
+    this.HeaterCooler.CurrentTemperature = this.accessory.context.CurrentTemperature ?? this.HeaterCooler.CurrentTemperature ?? 24
     this.debugLog(`Get CurrentTemperature: ${this.HeaterCooler.CurrentTemperature}`)
     return this.HeaterCooler.CurrentTemperature
   }
 
   async CurrentRelativeHumidityGet(): Promise<CharacteristicValue> {
-    if (this.meter?.context?.CurrentRelativeHumidity) {
-      this.accessory.context.CurrentRelativeHumidity = this.meter.context.CurrentRelativeHumidity
+    const meterHumidity = this.meter?.getService(this.hap.Service.HumiditySensor)?.getCharacteristic(this.hap.Characteristic.CurrentRelativeHumidity).value
+    if (this.meter && meterHumidity !== undefined && meterHumidity !== null) {
+      this.accessory.context.CurrentRelativeHumidity = meterHumidity
       this.debugLog(`Using CurrentRelativeHumidity from ${this.meter.context.deviceType} (${this.meter.context.deviceId})`)
     }
 
-    this.HumiditySensor!.CurrentRelativeHumidity = this.accessory.context.CurrentRelativeHumidity || 0
+    this.HumiditySensor!.CurrentRelativeHumidity = this.accessory.context.CurrentRelativeHumidity ?? 0
     this.debugLog(`Get CurrentRelativeHumidity: ${this.HumiditySensor!.CurrentRelativeHumidity}`)
     return this.HumiditySensor!.CurrentRelativeHumidity as CharacteristicValue
   }
 
   async RotationSpeedGet(): Promise<number> {
-    if (!this.CurrentFanSpeed || this.CurrentFanSpeed === 1) {
-      this.HeaterCooler.RotationSpeed = 4
-    } else {
-      this.HeaterCooler.RotationSpeed = this.CurrentFanSpeed - 1
-    }
+    this.HeaterCooler.RotationSpeed = this.fanSpeedToRotationSpeed(this.CurrentFanSpeed ?? 1)
     this.debugLog(`Get RotationSpeed: ${this.HeaterCooler.RotationSpeed}`)
     return this.HeaterCooler.RotationSpeed
   }
 
   async RotationSpeedSet(value: CharacteristicValue): Promise<void> {
-    if (value === 4) {
-      this.CurrentFanSpeed = 1
-    } else {
-      this.CurrentFanSpeed = Number(value) + 1
-    }
+    this.rememberState()
+    this.CurrentFanSpeed = this.rotationSpeedToFanSpeed(Number(value))
     this.HeaterCooler.RotationSpeed = value
     this.debugLog(`Set RotationSpeed: ${this.HeaterCooler.RotationSpeed}, CurrentFanSpeed: ${this.CurrentFanSpeed}`)
-    this.pushAirConditionerStatusChanges()
+    await this.pushAirConditionerStatusChanges()
+    await this.changeOutcome()
+  }
+
+  /**
+   * Converts a RotationSpeed to a SwitchBot fan speed (1 auto, 2 low, 3 medium, 4 high),
+   * 0% is auto and each of the fan_speed_steps is spread across low, medium and high.
+   */
+  rotationSpeedToFanSpeed(rotationSpeed: number): number {
+    const step = Math.round(rotationSpeed / (100 / this.fan_speed_steps))
+    if (step <= 0) {
+      return 1
+    }
+    return Math.min(4, 2 + Math.round((step - 1) * 2 / Math.max(this.fan_speed_steps - 1, 1)))
+  }
+
+  fanSpeedToRotationSpeed(fanSpeed: number): number {
+    if (fanSpeed <= 1) {
+      return 0
+    }
+    const step = 1 + Math.round((fanSpeed - 2) * (this.fan_speed_steps - 1) / 2)
+    return Math.round(Math.min(step, this.fan_speed_steps) * 100 / this.fan_speed_steps * 100) / 100
+  }
+
+  /**
+   * The customSwing button toggles the swing on the unit
+   */
+  async SwingModeSet(value: CharacteristicValue): Promise<void> {
+    this.rememberState()
+    this.debugLog(`Set SwingMode: ${value}`)
+    if (value !== this.HeaterCooler.SwingMode) {
+      this.HeaterCooler.SwingMode = value
+      const bodyChange: bodyChange = {
+        command: `${this.customSwing}`,
+        parameter: 'default',
+        commandType: 'customize',
+      }
+      await this.pushChanges(bodyChange)
+    }
+    await this.changeOutcome()
+  }
+
+  async DryModeSet(value: CharacteristicValue): Promise<void> {
+    this.rememberState()
+    this.debugLog(`Set Dry Mode: ${value}`)
+    await this.setModeSwitch(value ? 3 : undefined)
+    await this.changeOutcome()
+  }
+
+  async FanModeSet(value: CharacteristicValue): Promise<void> {
+    this.rememberState()
+    this.debugLog(`Set Fan Mode: ${value}`)
+    await this.setModeSwitch(value ? 4 : undefined)
+    await this.changeOutcome()
+  }
+
+  /**
+   * Turns on the Dry (3) or Fan (4) mode, or returns to the TargetHeaterCoolerState mode,
+   * only one of the mode switches is on at a time.
+   */
+  async setModeSwitch(mode?: number): Promise<void> {
+    if (mode) {
+      this.CurrentMode = mode
+      this.HeaterCooler.Active = this.hap.Characteristic.Active.ACTIVE
+    } else {
+      this.CurrentMode = this.HeaterCooler.TargetHeaterCoolerState === this.hap.Characteristic.TargetHeaterCoolerState.HEAT
+        ? 5
+        : this.HeaterCooler.TargetHeaterCoolerState === this.hap.Characteristic.TargetHeaterCoolerState.COOL ? 2 : 1
+    }
+    this.debugLog(`Switchbot CurrentMode: ${this.CurrentMode}`)
+    await this.updateModeSwitches()
+    await this.pushAirConditionerStatusChanges()
+  }
+
+  async updateModeSwitches(): Promise<void> {
+    if (this.DryMode) {
+      this.DryMode.On = this.CurrentMode === 3
+      await this.updateCharacteristic(this.DryMode.Service, this.hap.Characteristic.On, this.DryMode.On, 'DryMode')
+    }
+    if (this.FanMode) {
+      this.FanMode.On = this.CurrentMode === 4
+      await this.updateCharacteristic(this.FanMode.Service, this.hap.Characteristic.On, this.FanMode.On, 'FanMode')
+    }
+  }
+
+  removeModeSwitch(accessory: PlatformAccessory, subtype: string): void {
+    const service = accessory.getServiceById(this.hap.Service.Switch, subtype)
+    if (service) {
+      this.debugLog(`Removing ${subtype} Switch`)
+      accessory.removeService(service)
+    }
+    delete accessory.context[subtype]
   }
 
   async ActiveSet(value: CharacteristicValue): Promise<void> {
+    this.rememberState()
     this.debugLog(`Set Active: ${value}`)
 
     this.HeaterCooler.Active = value
     if (this.HeaterCooler.Active === this.hap.Characteristic.Active.ACTIVE) {
       this.debugLog(`pushAirConditionerOnChanges, Active: ${this.HeaterCooler.Active}`)
-      if (this.deviceDisablePushOn) {
-        this.pushAirConditionerStatusChanges()
+      if (this.deviceDisablePushOn || this.isThermostat()) {
+        await this.pushAirConditionerStatusChanges()
       } else {
-        this.pushAirConditionerOnChanges()
+        await this.pushAirConditionerOnChanges()
       }
     } else {
       this.debugLog(`pushAirConditionerOffChanges, Active: ${this.HeaterCooler.Active}`)
-      this.pushAirConditionerOffChanges()
+      if (this.thermostatRunning) {
+        this.thermostatRunning = false
+        this.thermostatLastChange = Date.now()
+        await this.saveThermostat()
+      }
+      await this.pushAirConditionerOffChanges()
     }
+    await this.changeOutcome()
   }
 
   async TargetHeaterCoolerStateGet(): Promise<CharacteristicValue> {
@@ -404,6 +827,7 @@ export class AirConditioner extends irdeviceBase {
   }
 
   async TargetHeaterCoolerStateSet(value: CharacteristicValue): Promise<void> {
+    this.rememberState()
     if (!this.hide_automode && value === this.hap.Characteristic.TargetHeaterCoolerState.AUTO) {
       this.TargetHeaterCoolerStateAUTO()
     } else if (value === this.hap.Characteristic.TargetHeaterCoolerState.HEAT) {
@@ -413,7 +837,9 @@ export class AirConditioner extends irdeviceBase {
     } else {
       this.errorLog(`Set TargetHeaterCoolerState: ${this.HeaterCooler.TargetHeaterCoolerState}, hide_automode: ${this.hide_automode} `)
     }
-    this.pushAirConditionerStatusChanges()
+    await this.updateModeSwitches()
+    await this.pushAirConditionerStatusChanges()
+    await this.changeOutcome()
   }
 
   async TargetHeaterCoolerStateAUTO(): Promise<void> {
@@ -471,7 +897,7 @@ export class AirConditioner extends irdeviceBase {
       : this.HeaterCooler.ThresholdTemperature ?? this.accessory.context.ThresholdTemperature
 
     this.HeaterCooler.RotationSpeed = (this.HeaterCooler.RotationSpeed === undefined && this.accessory.context.RotationSpeed === undefined)
-      ? 4
+      ? 0
       : this.HeaterCooler.RotationSpeed ?? this.accessory.context.RotationSpeed
 
     await this.getAirConditionerConfigSettings(this.accessory, this.device)
@@ -486,9 +912,11 @@ export class AirConditioner extends irdeviceBase {
   }
 
   async ThresholdTemperatureSet(value: CharacteristicValue): Promise<void> {
+    this.rememberState()
     this.HeaterCooler.ThresholdTemperature = value
     this.debugLog(`Set ThresholdTemperature: ${this.HeaterCooler.ThresholdTemperature}, ThresholdTemperatureCached: ${this.accessory.context.ThresholdTemperature}`)
-    this.pushAirConditionerStatusChanges()
+    await this.pushAirConditionerStatusChanges()
+    await this.changeOutcome()
   }
 
   async updateHomeKitCharacteristics(): Promise<void> {
@@ -497,6 +925,10 @@ export class AirConditioner extends irdeviceBase {
     await this.updateCharacteristic(this.HeaterCooler.Service, this.hap.Characteristic.Active, this.HeaterCooler.Active, 'Active')
     // RotationSpeed
     await this.updateCharacteristic(this.HeaterCooler.Service, this.hap.Characteristic.RotationSpeed, this.HeaterCooler.RotationSpeed, 'RotationSpeed')
+    if (this.swing_mode) {
+      // SwingMode
+      await this.updateCharacteristic(this.HeaterCooler.Service, this.hap.Characteristic.SwingMode, this.HeaterCooler.SwingMode, 'SwingMode')
+    }
     // CurrentTemperature
     await this.updateCharacteristic(this.HeaterCooler.Service, this.hap.Characteristic.CurrentTemperature, this.HeaterCooler.CurrentTemperature, 'CurrentTemperature')
     // TargetHeaterCoolerState
@@ -511,17 +943,21 @@ export class AirConditioner extends irdeviceBase {
       // CurrentRelativeHumidity
       await this.updateCharacteristic(this.HumiditySensor.Service, this.hap.Characteristic.CurrentRelativeHumidity, this.HumiditySensor.CurrentRelativeHumidity, 'CurrentRelativeHumidity')
     }
+    // Mode, for Home Assistant
+    await this.mqtt('Mode', this.mqttMode())
   }
 
-  async apiError(e: any): Promise<void> {
-    this.HeaterCooler.Service.updateCharacteristic(this.hap.Characteristic.Active, e)
-    this.HeaterCooler.Service.updateCharacteristic(this.hap.Characteristic.RotationSpeed, e)
-    this.HeaterCooler.Service.updateCharacteristic(this.hap.Characteristic.CurrentTemperature, e)
-    this.HeaterCooler.Service.updateCharacteristic(this.hap.Characteristic.CurrentRelativeHumidity, e)
-    this.HeaterCooler.Service.updateCharacteristic(this.hap.Characteristic.TargetHeaterCoolerState, e)
-    this.HeaterCooler.Service.updateCharacteristic(this.hap.Characteristic.CurrentHeaterCoolerState, e)
-    this.HeaterCooler.Service.updateCharacteristic(this.hap.Characteristic.HeatingThresholdTemperature, e)
-    this.HeaterCooler.Service.updateCharacteristic(this.hap.Characteristic.CoolingThresholdTemperature, e)
+  /**
+   * The mode as Home Assistant's climate names it: off, auto, heat, cool, dry or fan_only
+   */
+  mqttMode(): string {
+    if (this.HeaterCooler.Active !== this.hap.Characteristic.Active.ACTIVE) {
+      return 'off'
+    }
+    if (this.CurrentMode === 3 || this.CurrentMode === 4) {
+      return this.CurrentMode === 3 ? 'dry' : 'fan_only'
+    }
+    return ['auto', 'heat', 'cool'][Number(this.HeaterCooler.TargetHeaterCoolerState)] ?? 'auto'
   }
 
   async getAirConditionerConfigSettings(accessory: PlatformAccessory, device: irdevice & irDevicesConfig): Promise<void> {
@@ -530,5 +966,21 @@ export class AirConditioner extends irdeviceBase {
     accessory.context.set_min_heat = this.set_min_heat = (device as irAirConfig).set_min_heat ?? 0
     accessory.context.set_max_cool = this.set_max_cool = (device as irAirConfig).set_max_cool ?? 35
     accessory.context.set_min_cool = this.set_min_cool = (device as irAirConfig).set_min_cool ?? 0
+    accessory.context.thermostat = this.thermostat = (device as irAirConfig).thermostat
+    const thermostatMode = (device as irAirConfig).thermostatMode ?? 'onoff'
+    if (thermostatMode !== 'onoff' && thermostatMode !== 'setpoint') {
+      this.warnLog(`thermostatMode: ${thermostatMode} is not valid, use onoff or setpoint, using onoff`)
+    }
+    accessory.context.thermostatMode = this.thermostatMode = thermostatMode === 'setpoint' ? 'setpoint' : 'onoff'
+    accessory.context.maxSetpointOffset = this.maxSetpointOffset = (device as irAirConfig).maxSetpointOffset ?? 3
+    accessory.context.hysteresis = this.hysteresis = (device as irAirConfig).hysteresis ?? 0.5
+    accessory.context.minRunTime = this.minRunTime = (device as irAirConfig).minRunTime ?? 300
+    accessory.context.minOffTime = this.minOffTime = (device as irAirConfig).minOffTime ?? 300
+    accessory.context.maxCommandsPerHour = this.maxCommandsPerHour = (device as irAirConfig).maxCommandsPerHour ?? 6
+    accessory.context.dry_mode = this.dry_mode = (device as irAirConfig).dry_mode
+    accessory.context.fan_mode = this.fan_mode = (device as irAirConfig).fan_mode
+    accessory.context.swing_mode = this.swing_mode = (device as irAirConfig).swing_mode
+    accessory.context.customSwing = this.customSwing = (device as irAirConfig).customSwing
+    accessory.context.fan_speed_steps = this.fan_speed_steps = Math.max(1, (device as irAirConfig).fan_speed_steps ?? 3)
   }
 }
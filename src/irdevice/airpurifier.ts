@@ -98,17 +98,20 @@ export class AirPurifier extends irdeviceBase {
   }
 
   async ActiveSet(value: CharacteristicValue): Promise<void> {
+    this.rememberState()
     this.debugLog(`Set Active: ${value}`)
 
     this.AirPurifier.Active = value
     if (this.AirPurifier.Active === this.hap.Characteristic.Active.ACTIVE) {
-      this.pushAirPurifierOnChanges()
+      await this.pushAirPurifierOnChanges()
     } else {
-      this.pushAirPurifierOffChanges()
+      await this.pushAirPurifierOffChanges()
     }
+    await this.changeOutcome()
   }
 
   async TargetAirPurifierStateSet(value: CharacteristicValue): Promise<void> {
+    this.rememberState()
     switch (value) {
       case this.hap.Characteristic.CurrentAirPurifierState.PURIFYING_AIR:
         this.CurrentMode = AirPurifier.PURIFYING_AIR
@@ -122,6 +125,7 @@ export class AirPurifier extends irdeviceBase {
       default:
         break
     }
+    await this.changeOutcome()
   }
 
   async CurrentAirPurifierStateGet(): Promise<number> {
@@ -242,12 +246,4 @@ export class AirPurifier extends irdeviceBase {
     // CurrentTemperature
     await this.updateCharacteristic(this.TemperatureSensor.Service, this.hap.Characteristic.CurrentTemperature, this.TemperatureSensor.CurrentTemperature, 'CurrentTemperature')
   }
-
-  async apiError(e: any): Promise<void> {
-    this.AirPurifier.Service.updateCharacteristic(this.hap.Characteristic.Active, e)
-    this.AirPurifier.Service.updateCharacteristic(this.hap.Characteristic.TargetAirPurifierState, e)
-    this.AirPurifier.Service.updateCharacteristic(this.hap.Characteristic.CurrentAirPurifierState, e)
-    this.AirPurifier.Service.updateCharacteristic(this.hap.Characteristic.CurrentHeaterCoolerState, e)
-    this.TemperatureSensor.Service.updateCharacteristic(this.hap.Characteristic.CurrentTemperature, e)
-  }
 }
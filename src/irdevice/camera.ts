@@ -47,14 +47,16 @@ export class Camera extends irdeviceBase {
   }
 
   async OnSet(value: CharacteristicValue): Promise<void> {
+    this.rememberState()
     this.debugLog(`On: ${value}`)
 
     this.Switch.On = value
     if (this.Switch.On) {
-      this.pushOnChanges()
+      await this.pushOnChanges()
     } else {
-      this.pushOffChanges()
+      await this.pushOffChanges()
     }
+    await this.changeOutcome()
   }
 
   /**
@@ -123,8 +125,4 @@ export class Camera extends irdeviceBase {
     // Active
     await this.updateCharacteristic(this.Switch.Service, this.hap.Characteristic.On, this.Switch.On, 'On')
   }
-
-  async apiError(e: any): Promise<void> {
-    this.Switch.Service.updateCharacteristic(this.hap.Characteristic.On, e)
-  }
 }
@@ -83,6 +83,7 @@ export class IRFan extends irdeviceBase {
   }
 
   async SwingModeSet(value: CharacteristicValue): Promise<void> {
+    this.rememberState()
     this.debugLog(`SwingMode: ${value}`)
     if (value > this.Fan.SwingMode) {
       this.Fan.SwingMode = 1
@@ -95,31 +96,36 @@ export class IRFan extends irdeviceBase {
     }
     this.Fan.SwingMode = value
     this.accessory.context.SwingMode = this.Fan.SwingMode
+    await this.changeOutcome()
   }
 
   async RotationSpeedSet(value: CharacteristicValue): Promise<void> {
+    this.rememberState()
     this.debugLog(`RotationSpeed: ${value}`)
     if (value > this.Fan.RotationSpeed) {
       this.Fan.RotationSpeed = 1
-      this.pushFanSpeedUpChanges()
-      this.pushFanOnChanges()
+      await this.pushFanSpeedUpChanges()
+      await this.pushFanOnChanges()
     } else {
       this.Fan.RotationSpeed = 0
-      this.pushFanSpeedDownChanges()
+      await this.pushFanSpeedDownChanges()
     }
     this.Fan.RotationSpeed = value
     this.accessory.context.RotationSpeed = this.Fan.RotationSpeed
+    await this.changeOutcome()
   }
 
   async ActiveSet(value: CharacteristicValue): Promise<void> {
+    this.rememberState()
     this.debugLog(`Active: ${value}`)
 
     this.Fan.Active = value
     if (this.Fan.Active === this.hap.Characteristic.Active.ACTIVE) {
-      this.pushFanOnChanges()
+      await this.pushFanOnChanges()
     } else {
-      this.pushFanOffChanges()
+      await this.pushFanOffChanges()
     }
+    await this.changeOutcome()
   }
 
   /**
@@ -218,10 +224,4 @@ export class IRFan extends irdeviceBase {
     // RotationSpeed
     await this.updateCharacteristic(this.Fan.Service, this.hap.Characteristic.RotationSpeed, this.Fan.RotationSpeed, 'RotationSpeed')
   }
-
-  async apiError(e: any): Promise<void> {
-    this.Fan.Service.updateCharacteristic(this.hap.Characteristic.Active, e)
-    this.Fan.Service.updateCharacteristic(this.hap.Characteristic.RotationSpeed, e)
-    this.Fan.Service.updateCharacteristic(this.hap.Characteristic.SwingMode, e)
-  }
 }
@@ -2,11 +2,21 @@
  *
  * irdevice.ts: @switchbot/homebridge-switchbot.
  */
-import type { API, CharacteristicValue, HAP, Logging, PlatformAccessory, Service } from 'homebridge'
+import type { API, Characteristic, CharacteristicValue, HAP, Logging, PlatformAccessory, Service } from 'homebridge'
 import type { bodyChange, irdevice } from 'node-switchbot'
 
 import type { SwitchBotPlatform } from '../platform.js'
-import type { irAirConfig, irDevicesConfig, irFanConfig, irLightConfig, irOtherConfig, SwitchBotPlatformConfig } from '../settings.js'
+import type { RetryPolicy } from '../retry.js'
+import type { pendingChange } from '../rollback.js'
+import type { irAirConfig, irDevicesConfig, irFanConfig, irLightConfig, irOtherConfig, irTVConfig, SwitchBotPlatformConfig } from '../settings.js'
+import type { openAPIStatus } from '../statuscodes.js'
+
+import { debounceTime, Subject } from 'rxjs'
+
+import { changeFailed, mqttAvailabilityStatusCode, mqttPublishAvailability, rememberState, reportStatusCode } from '../devicestatus.js'
+import { changeOutcome } from '../rollback.js'
+import { lookupStatusCode, updateLastStatus } from '../statuscodes.js'
+import { mqttSet } from '../utils.js'
 
 export abstract class irdeviceBase {
   public readonly api: API
@@ -19,12 +29,21 @@ export abstract class irdeviceBase {
   protected deviceRefreshRate!: number
   protected deviceUpdateRate!: number
   protected devicePushRate!: number
-  protected deviceMaxRetries!: number
-  protected deviceDelayBetweenRetries!: number
+  protected deviceRetryPolicy!: RetryPolicy
   protected deviceDisablePushOn!: boolean
   protected deviceDisablePushOff!: boolean
   protected deviceDisablePushDetail?: boolean
 
+  // MQTT
+  protected mqttTopic!: string
+  protected mqttState: { [CharacteristicName: string]: CharacteristicValue } = {}
+  protected mqttStateChanged = new Subject<void>()
+  protected mqttAvailable?: boolean
+
+  // Rollback, pendingChange is cleared once the command is sent, requestedChange once the onSet handler is done
+  protected pendingChange?: pendingChange
+  private requestedChange?: pendingChange
+
   constructor(
     protected readonly platform: SwitchBotPlatform,
     protected accessory: PlatformAccessory,
@@ -40,6 +59,20 @@ export abstract class irdeviceBase {
     this.getDeviceConfigSettings(device)
     this.getDeviceContext(accessory, device)
 
+    // Control the device via MQTT
+    this.mqttTopic = `homebridge-switchbot/${this.device.remoteType}/${this.device.deviceId}`
+    this.platform.mqttEventHandler[this.mqttTopic] = this.mqttSetEvent.bind(this)
+    this.platform.mqttConnectHandler[this.mqttTopic] = this.mqttPublishAvailability.bind(this)
+    this.platform.homeAssistantDiscovery?.register(this.mqttTopic, accessory)
+    if (this.config.options?.mqttStructured) {
+      this.mqttStateChanged.pipe(debounceTime(100)).subscribe(async () => {
+        await this.mqttPublish(JSON.stringify(this.mqttState), 'state', true)
+      })
+    }
+    // IR devices have no status, they are available until a command reports the hub offline,
+    // published once the platform is connected to the broker
+    this.mqttAvailable = true
+
     // Set accessory information
     accessory
       .getService(this.hap.Service.AccessoryInformation)!
@@ -73,14 +106,10 @@ export abstract class irdeviceBase {
     const pushRate = device.pushRate ? 'Device Config' : this.platform.platformPushRate ? 'Platform Config' : 'Default'
     this.accessory.context.pushRate = this.devicePushRate
     this.debugLog(`Using ${refreshRate} refreshRate: ${this.deviceRefreshRate}, ${updateRate} updateRate: ${this.deviceUpdateRate}, ${pushRate} pushRate: ${this.devicePushRate}`)
-    // maxRetries
-    this.deviceMaxRetries = device.maxRetries ?? this.platform.platformMaxRetries ?? 2
-    const maxRetries = device.maxRetries ? 'Device' : this.platform.platformMaxRetries ? 'Platform' : 'Default'
-    this.debugLog(`Using ${maxRetries} Max Retries: ${this.deviceMaxRetries}`)
-    // delayBetweenRetries
-    this.deviceDelayBetweenRetries = device.delayBetweenRetries ? (device.delayBetweenRetries * 1000) : this.platform.platformDelayBetweenRetries ?? 3000
-    const delayBetweenRetries = device.delayBetweenRetries ? 'Device' : this.platform.platformDelayBetweenRetries ? 'Platform' : 'Default'
-    this.debugLog(`Using ${delayBetweenRetries} Delay Between Retries: ${this.deviceDelayBetweenRetries}`)
+    // retryPolicy
+    this.deviceRetryPolicy = this.platform.createRetryPolicy(device, message => this.debugWarnLog(message))
+    const retryPolicy = device.retryPolicy ? 'Device' : device.maxRetries || device.delayBetweenRetries ? 'Device maxRetries/delayBetweenRetries' : 'Platform'
+    this.debugLog(`Using ${retryPolicy} Retry Policy: ${JSON.stringify(this.deviceRetryPolicy.policy)}`)
 
     // disablePushOn
     this.deviceDisablePushOn = device.disablePushOn ?? false
@@ -107,9 +136,24 @@ export abstract class irdeviceBase {
       device.disablePushOn === true && { disablePushOn: device.disablePushOn },
       device.disablePushOff === true && { disablePushOff: device.disablePushOff },
       device.disablePushDetail === true && { disablePushDetail: device.disablePushDetail },
+      device.remoteKeys && { remoteKeys: device.remoteKeys },
     )
     let deviceSpecificConfig = {}
     switch (device.configRemoteType) {
+      case 'TV':
+      case 'DIY TV':
+      case 'Projector':
+      case 'DIY Projector':
+      case 'Set Top Box':
+      case 'DIY Set Top Box':
+      case 'IPTV':
+      case 'DIY IPTV':
+      case 'DVD':
+      case 'DIY DVD':
+      case 'Speaker':
+      case 'DIY Speaker':
+        deviceSpecificConfig = device as irTVConfig
+        break
       case 'Fan':
       case 'DIY Fan':
         deviceSpecificConfig = device as irFanConfig
@@ -167,13 +211,116 @@ export abstract class irdeviceBase {
     this.debugSuccessLog(`version: ${accessory.context.version}`)
   }
 
-  async pushChangeRequest(bodyChange: bodyChange): Promise<{ body: any, statusCode: number }> {
-    const { response, statusCode } = await this.platform.switchBotAPI.controlDevice(this.device.deviceId, bodyChange.command, bodyChange.parameter, bodyChange.commandType)
-    return { body: response, statusCode }
+  /**
+   * Sends the command, a failure rolls the pending change back.
+   *
+   * @param bodyChange - The command.
+   * @param settle - Whether the change is settled once the command is sent, false for every command but the last of a sequence.
+   */
+  async pushChangeRequest(bodyChange: bodyChange, settle = true): Promise<{ body: any, statusCode: number }> {
+    try {
+      const { response, statusCode } = await this.platform.controlRequest(this.device.deviceId, bodyChange, this.deviceRetryPolicy)
+      await this.mqttAvailabilityStatusCode((response as any)?.statusCode)
+      const status = lookupStatusCode((response as any)?.statusCode)
+      if (status.severity !== 'success') {
+        await this.changeFailed(`${status.message}, statusCode: ${(response as any)?.statusCode}`, status.hapStatus)
+      } else if (settle) {
+        await this.changeSucceeded()
+      }
+      return { body: response, statusCode }
+    } catch (e: any) {
+      await this.changeFailed(`Error: ${e.message ?? e}`)
+      throw e
+    }
+  }
+
+  /**
+   * Called by onSet handlers before a change is applied: remembers the characteristics, accessory.context and the
+   * state of the device, so they can be rolled back if the command can not be sent. Changes requested before the
+   * push (within the pushRate) share the state from before the first one.
+   */
+  rememberState(): void {
+    const change = rememberState(this.hap, this.accessory, this, this.pendingChange, this.devicePushRate, this.statusCharacteristics())
+    if (change !== this.pendingChange) {
+      this.pendingChange = this.requestedChange = change
+    }
+  }
+
+  /**
+   * Called by onSet handlers once the command is sent, reports a failure to HomeKit. A change that
+   * did not need a command (disablePushOn, etc.) is settled here.
+   */
+  async changeOutcome(): Promise<void> {
+    const change = this.requestedChange
+    this.requestedChange = undefined
+    if (change && this.pendingChange === change) {
+      await this.changeSucceeded()
+    }
+    await changeOutcome(change)
+  }
+
+  async changeSucceeded(): Promise<void> {
+    this.pendingChange?.settle()
+    this.pendingChange = undefined
+  }
+
+  /**
+   * Rolls the characteristics, accessory.context and the state of the device back to before the change,
+   * the onSet handler reports hapStatus (the HAP status of the statusCode the command failed with) to HomeKit.
+   */
+  async changeFailed(reason: string, hapStatus: openAPIStatus['hapStatus'] = this.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE): Promise<void> {
+    const change = this.pendingChange
+    if (!change) {
+      return
+    }
+    this.pendingChange = undefined
+    changeFailed(this.hap, this.accessory, this, change, reason, hapStatus)
   }
 
   async successfulStatusCodes(deviceStatus: any) {
-    return (deviceStatus.statusCode === 200 || deviceStatus.statusCode === 100)
+    const successful = (deviceStatus.statusCode === 200 || deviceStatus.statusCode === 100)
+    if (successful) {
+      updateLastStatus(this.api, this.accessory)
+      await this.restoreCharacteristics()
+    }
+    return successful
+  }
+
+  /**
+   * A failed push: every characteristic reports "No Response" until a command goes through again.
+   * IR devices have no status to read, so their handlers keep accepting commands.
+   */
+  async apiError(e: any): Promise<void> {
+    this.debugErrorLog(`apiError, Error: ${e?.message ?? e}`)
+    await this.characteristicsError(this.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE)
+  }
+
+  /**
+   * Reports hapStatus to HomeKit on every characteristic, until restoreCharacteristics() is called
+   */
+  async characteristicsError(hapStatus: openAPIStatus['hapStatus']): Promise<void> {
+    const error = new this.hap.HapStatusError(hapStatus)
+    for (const characteristic of this.statusCharacteristics()) {
+      characteristic.updateValue(error)
+    }
+  }
+
+  /**
+   * Restores the last good value of the characteristics apiError() set to "No Response"
+   */
+  async restoreCharacteristics(): Promise<void> {
+    for (const characteristic of this.statusCharacteristics()) {
+      if (characteristic.statusCode !== this.hap.HAPStatus.SUCCESS) {
+        characteristic.updateValue(characteristic.value)
+      }
+    }
+  }
+
+  statusCharacteristics(): Characteristic[] {
+    return this.accessory.services
+      .filter(service => service.UUID !== this.hap.Service.AccessoryInformation.UUID)
+      .flatMap(service => service.characteristics)
+      .filter(characteristic => characteristic.props.perms.includes(this.hap.Perms.NOTIFY))
   }
 
   /**
@@ -190,6 +337,7 @@ export abstract class irdeviceBase {
     if (CharacteristicValue === undefined) {
       this.debugLog(`${CharacteristicName}: ${CharacteristicValue}`)
     } else {
+      await this.mqtt(CharacteristicName, CharacteristicValue)
       Service.updateCharacteristic(Characteristic, CharacteristicValue)
       this.debugLog(`updateCharacteristic ${CharacteristicName}: ${CharacteristicValue}`)
       this.debugWarnLog(`${CharacteristicName} context before: ${this.accessory.context[CharacteristicName]}`)
@@ -198,6 +346,63 @@ export abstract class irdeviceBase {
     }
   }
 
+  /*
+   * Publish MQTT message for topics of
+   * 'homebridge-switchbot/${this.device.remoteType}/${this.device.deviceId}/${CharacteristicName}'
+   */
+  async mqtt(CharacteristicName: string, CharacteristicValue: CharacteristicValue): Promise<void> {
+    await this.mqttPublish(CharacteristicValue.toString(), CharacteristicName)
+    if (this.mqttState[CharacteristicName] !== CharacteristicValue) {
+      this.mqttState[CharacteristicName] = CharacteristicValue
+      this.mqttStateChanged.next()
+    }
+  }
+
+  async mqttPublish(message: string, topic: string, retain?: boolean): Promise<void> {
+    if (this.config.options?.mqttURL) {
+      const options = { ...this.config.options?.mqttPubOptions, ...(retain && { retain }) }
+      this.platform.mqttClient?.publish(`${this.mqttTopic}/${topic}`, message, options)
+      this.debugLog(`MQTT message: ${topic}/${message} options:${JSON.stringify(options)}`)
+    }
+  }
+
+  /*
+   * Publish 'online' or 'offline', retained, to
+   * 'homebridge-switchbot/${this.device.remoteType}/${this.device.deviceId}/availability', when it changes
+   */
+  async mqttAvailability(online: boolean): Promise<void> {
+    if (this.mqttAvailable !== online) {
+      this.mqttAvailable = online
+      await this.mqttPublishAvailability()
+    }
+  }
+
+  /**
+   * Publishes the availability, also called on every (re)connect to the broker
+   */
+  async mqttPublishAvailability(): Promise<void> {
+    if (this.platform.mqttClient) {
+      await mqttPublishAvailability(this.mqttAvailable, this.mqttPublish.bind(this))
+    }
+  }
+
+  /**
+   * A statusCode reported as "No Response" (161, 171, etc.) marks the device as unavailable, a success as available
+   */
+  async mqttAvailabilityStatusCode(statusCode: number | undefined): Promise<void> {
+    const online = mqttAvailabilityStatusCode(this.hap, statusCode)
+    if (online !== undefined) {
+      await this.mqttAvailability(online)
+    }
+  }
+
+  /*
+   * Handle MQTT set messages for topics under '${this.mqttTopic}', see mqttSet()
+   */
+  async mqttSetEvent(CharacteristicName: string | undefined, message: string): Promise<void> {
+    mqttSet(this.hap, this.accessory, CharacteristicName, message, this)
+  }
+
   async pushStatusCodes(deviceStatus: any) {
     this.debugWarnLog(`deviceStatus: ${JSON.stringify(deviceStatus)}`)
     this.debugWarnLog(`deviceStatus statusCode: ${deviceStatus.statusCode}`)
@@ -244,33 +449,16 @@ export abstract class irdeviceBase {
     return command
   }
 
-  async statusCode(statusCode: number): Promise<void> {
-    const statusMessages = {
-      151: 'Command not supported by this deviceType',
-      152: 'Device not found',
-      160: 'Command is not supported',
-      161: 'Device is offline',
-      171: `Hub Device is offline. Hub: ${this.device.hubDeviceId}`,
-      190: 'Device internal error due to device states not synchronized with server, or command format is invalid',
-      100: 'Command successfully sent',
-      200: 'Request successful',
-      400: 'Bad Request, an invalid payload request',
-      401: 'Unauthorized, Authorization for the API is required, but the request has not been authenticated',
-      403: 'Forbidden, The request has been authenticated but does not have appropriate permissions, or a requested resource is not found',
-      404: 'Not Found, Specifies the requested path does not exist',
-      406: 'Not Acceptable, a MIME type has been requested via the Accept header for a value not supported by the server',
-      415: 'Unsupported Media Type, a contentType header has been defined that is not supported by the server',
-      422: 'Unprocessable Entity: The server cannot process the request, often due to exceeded API limits.',
-      429: 'Too Many Requests, exceeded the number of requests allowed for a given time window',
-      500: 'Internal Server Error, An unexpected error occurred. These errors should be rare',
-    }
-    if (statusCode === 171 && (this.device.hubDeviceId === this.device.deviceId || this.device.hubDeviceId === '000000000000')) {
-      this.debugErrorLog(`statusCode 171 changed to 161: hubDeviceId ${this.device.hubDeviceId} matches deviceId ${this.device.deviceId}, device is its own hub.`)
-      statusCode = 161
+  /**
+   * Logs a statusCode the way the status catalog describes it, keeps it in accessory.context.lastStatus
+   * for the Homebridge UI, and reports its HAP status to HomeKit.
+   */
+  async statusCode(code: number): Promise<void> {
+    const { status } = reportStatusCode(this.api, this.accessory, this.device, this, code)
+    // like devices, only an unreachable device or hub is "No Response", other errors are told to HomeKit by the rollback
+    if (status.hapStatus === this.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE) {
+      await this.characteristicsError(status.hapStatus)
     }
-    const logMessage = statusMessages[statusCode] || `Unknown statusCode: ${statusCode}, Submit Bugs Here: https://tinyurl.com/SwitchBotBug`
-    const logMethod = [100, 200].includes(statusCode) ? 'debugLog' : statusMessages[statusCode] ? 'errorLog' : 'infoLog'
-    this[logMethod](`${logMessage}, statusCode: ${statusCode}`)
   }
 
   /**
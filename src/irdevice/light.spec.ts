@@ -0,0 +1,81 @@
+import { HAPStatus } from 'homebridge'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { characteristic, createPlatform, discover, openAPIResponse } from '../test/harness.js'
+
+const light = { deviceId: '02-202401011200-12345678', deviceName: 'Lamp', remoteType: 'Light', hubDeviceId: 'F1A2B3C4D5E6' }
+
+describe('ir light', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  async function irLight(config: object = {}) {
+    const harness = createPlatform({ options: { irdevices: [{ deviceId: light.deviceId, ...config }] } })
+    const [accessory] = await discover(harness, [], [light])
+    const on = characteristic(accessory, harness.api.hap.Service.Lightbulb, harness.api.hap.Characteristic.On)
+    return { harness, accessory, on }
+  }
+
+  it('sends turnOn and turnOff', async () => {
+    const { harness, on } = await irLight()
+
+    await on.handleSetRequest(true)
+    await on.handleSetRequest(false)
+
+    expect(harness.controlDevice.mock.calls).toEqual([
+      [light.deviceId, 'turnOn', 'default', 'command'],
+      [light.deviceId, 'turnOff', 'default', 'command'],
+    ])
+    expect(on.value).toBe(false)
+  })
+
+  it('sends customized buttons', async () => {
+    const { harness, on } = await irLight({ customize: true, customOn: 'Power' })
+
+    await on.handleSetRequest(true)
+
+    expect(harness.controlDevice).toHaveBeenCalledWith(light.deviceId, 'Power', 'default', 'customize')
+  })
+
+  it('rolls back, and is No Response, when its hub is offline (171)', async () => {
+    const { harness, accessory, on } = await irLight()
+    harness.controlDevice.mockResolvedValue(openAPIResponse(171))
+
+    await expect(on.handleSetRequest(true)).rejects.toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE)
+
+    expect(on.value).toBe(false)
+    expect(on.statusCode).toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE)
+    expect(accessory.context.lastStatus).toMatchObject({ statusCode: 171, message: `Hub Device is offline. Hub: ${light.hubDeviceId}` })
+  })
+
+  it('rolls back, and rejects the value, when the command is not supported (151)', async () => {
+    const { harness, accessory, on } = await irLight()
+    harness.controlDevice.mockResolvedValue(openAPIResponse(151))
+
+    await expect(on.handleSetRequest(true)).rejects.toBe(HAPStatus.INVALID_VALUE_IN_REQUEST)
+
+    expect(on.value).toBe(false)
+    expect(accessory.context.lastStatus).toMatchObject({ statusCode: 151 })
+  })
+
+  it('clears the last error once a command goes through', async () => {
+    const { harness, accessory, on } = await irLight()
+    harness.controlDevice.mockResolvedValueOnce(openAPIResponse(171))
+    await expect(on.handleSetRequest(true)).rejects.toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE)
+
+    await on.handleSetRequest(true)
+
+    expect(on.statusCode).toBe(HAPStatus.SUCCESS)
+    expect(accessory.context.lastStatus).toBeUndefined()
+  })
+
+  it('does not retry a button press that may have gone through', async () => {
+    const { harness, on } = await irLight({ customize: true, customOn: 'Power', retryPolicy: { maxRetries: 3, initialDelay: 0 } })
+    harness.controlDevice.mockResolvedValue(openAPIResponse(500))
+
+    await expect(on.handleSetRequest(true)).rejects.toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE)
+
+    expect(harness.controlDevice).toHaveBeenCalledOnce()
+  })
+})
@@ -111,6 +111,7 @@ export class Light extends irdeviceBase {
   }
 
   async OnSet(value: CharacteristicValue): Promise<void> {
+    this.rememberState()
     this.debugLog(`On: ${value}`)
 
     this.LightBulb!.On = value
@@ -125,9 +126,11 @@ export class Light extends irdeviceBase {
      * pushLightOnChanges and pushLightOffChanges above assume they are measuring the state of the accessory BEFORE
      * they are updated, so we are only updating the accessory state after calling the above.
      */
+    await this.changeOutcome()
   }
 
   async ProgrammableSwitchOutputStateSetOn(value: CharacteristicValue): Promise<void> {
+    this.rememberState()
     this.debugLog(`On: ${value}`)
 
     this.ProgrammableSwitchOn!.ProgrammableSwitchOutputState = value
@@ -139,9 +142,11 @@ export class Light extends irdeviceBase {
      * pushLightOnChanges and pushLightOffChanges above assume they are measuring the state of the accessory BEFORE
      * they are updated, so we are only updating the accessory state after calling the above.
      */
+    await this.changeOutcome()
   }
 
   async ProgrammableSwitchOutputStateSetOff(value: CharacteristicValue): Promise<void> {
+    this.rememberState()
     this.debugLog(`On: ${value}`)
 
     this.ProgrammableSwitchOff!.ProgrammableSwitchOutputState = value
@@ -153,6 +158,7 @@ export class Light extends irdeviceBase {
      * pushLightOnChanges and pushLightOffChanges above assume they are measuring the state of the accessory BEFORE
      * they are updated, so we are only updating the accessory state after calling the above.
      */
+    await this.changeOutcome()
   }
 
   /**
@@ -233,15 +239,4 @@ export class Light extends irdeviceBase {
       }
     }
   }
-
-  async apiError(e: any): Promise<void> {
-    if (!(this.device as irLightConfig).stateless) {
-      this.LightBulb?.Service.updateCharacteristic(this.hap.Characteristic.On, e)
-    } else {
-      this.ProgrammableSwitchOn?.Service.updateCharacteristic(this.hap.Characteristic.ProgrammableSwitchEvent, e)
-      this.ProgrammableSwitchOn?.Service.updateCharacteristic(this.hap.Characteristic.ProgrammableSwitchOutputState, e)
-      this.ProgrammableSwitchOff?.Service.updateCharacteristic(this.hap.Characteristic.ProgrammableSwitchEvent, e)
-      this.ProgrammableSwitchOff?.Service.updateCharacteristic(this.hap.Characteristic.ProgrammableSwitchOutputState, e)
-    }
-  }
 }
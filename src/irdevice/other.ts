@@ -342,6 +342,7 @@ export class Others extends irdeviceBase {
    * Handle requests to set the "On" characteristic
    */
   async OnSet(value: CharacteristicValue): Promise<void> {
+    this.rememberState()
     if (this.otherDeviceType === 'Switch') {
       if (this.Switch) {
         this.debugLog(`Set On: ${value}`)
@@ -394,6 +395,7 @@ export class Others extends irdeviceBase {
     } else {
       await this.pushOffChanges(this.On)
     }
+    await this.changeOutcome()
   }
 
   /**
@@ -609,60 +611,6 @@ export class Others extends irdeviceBase {
     }
   }
 
-  async apiError(e: any): Promise<void> {
-    if (this.otherDeviceType === 'GarageDoor') {
-      if (this.GarageDoor) {
-        this.GarageDoor.Service.updateCharacteristic(this.hap.Characteristic.TargetDoorState, e)
-        this.GarageDoor.Service.updateCharacteristic(this.hap.Characteristic.CurrentDoorState, e)
-        this.GarageDoor.Service.updateCharacteristic(this.hap.Characteristic.ObstructionDetected, e)
-      }
-    } else if (this.otherDeviceType === 'Door') {
-      if (this.Door) {
-        this.Door.Service.updateCharacteristic(this.hap.Characteristic.TargetPosition, e)
-        this.Door.Service.updateCharacteristic(this.hap.Characteristic.CurrentPosition, e)
-        this.Door.Service.updateCharacteristic(this.hap.Characteristic.PositionState, e)
-      }
-    } else if (this.otherDeviceType === 'Window') {
-      if (this.Window) {
-        this.Window.Service.updateCharacteristic(this.hap.Characteristic.TargetPosition, e)
-        this.Window.Service.updateCharacteristic(this.hap.Characteristic.CurrentPosition, e)
-        this.Window.Service.updateCharacteristic(this.hap.Characteristic.PositionState, e)
-      }
-    } else if (this.otherDeviceType === 'WindowCovering') {
-      if (this.WindowCovering) {
-        this.WindowCovering.Service.updateCharacteristic(this.hap.Characteristic.TargetPosition, e)
-        this.WindowCovering.Service.updateCharacteristic(this.hap.Characteristic.CurrentPosition, e)
-        this.WindowCovering.Service.updateCharacteristic(this.hap.Characteristic.PositionState, e)
-      }
-    } else if (this.otherDeviceType === 'Lock') {
-      if (this.LockMechanism) {
-        this.LockMechanism.Service.updateCharacteristic(this.hap.Characteristic.LockTargetState, e)
-        this.LockMechanism.Service.updateCharacteristic(this.hap.Characteristic.LockCurrentState, e)
-      }
-    } else if (this.otherDeviceType === 'Faucet') {
-      if (this.Faucet) {
-        this.Faucet.Service.updateCharacteristic(this.hap.Characteristic.Active, e)
-      }
-    } else if (this.otherDeviceType === 'Fan') {
-      if (this.Fan) {
-        this.Fan.Service.updateCharacteristic(this.hap.Characteristic.On, e)
-      }
-    } else if (this.otherDeviceType === 'Stateful') {
-      if (this.StatefulProgrammableSwitch) {
-        this.StatefulProgrammableSwitch.Service.updateCharacteristic(this.hap.Characteristic.ProgrammableSwitchEvent, e)
-        this.StatefulProgrammableSwitch.Service.updateCharacteristic(this.hap.Characteristic.ProgrammableSwitchOutputState, e)
-      }
-    } else if (this.otherDeviceType === 'Switch') {
-      if (this.Switch) {
-        this.Switch.Service.updateCharacteristic(this.hap.Characteristic.On, e)
-      }
-    } else {
-      if (this.Outlet) {
-        this.Outlet.Service.updateCharacteristic(this.hap.Characteristic.On, e)
-      }
-    }
-  }
-
   async removeOutletService(accessory: PlatformAccessory): Promise<void> {
     // If Outlet.Service still present, then remove first
     accessory.context.Outlet = accessory.context.Outlet ?? {}
@@ -0,0 +1,112 @@
+import { HAPStatus } from 'homebridge'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { characteristic, createPlatform, discover, openAPIResponse } from '../test/harness.js'
+
+const tv = { deviceId: '02-202401011200-11111111', deviceName: 'Living Room', remoteType: 'TV', hubDeviceId: 'F1A2B3C4D5E6' }
+
+describe('ir tv', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  async function irTV(config: object = {}, remoteType = 'TV') {
+    const harness = createPlatform({ options: { irdevices: [{ deviceId: tv.deviceId, ...config }] } })
+    const [accessory] = await discover(harness, [], [{ ...tv, remoteType }])
+    const { Service, Characteristic } = harness.api.hap
+    return {
+      harness,
+      accessory,
+      RemoteKey: Characteristic.RemoteKey,
+      active: characteristic(accessory, Service.Television, Characteristic.Active),
+      activeIdentifier: characteristic(accessory, Service.Television, Characteristic.ActiveIdentifier),
+      remoteKey: characteristic(accessory, Service.Television, Characteristic.RemoteKey),
+    }
+  }
+
+  it('turns on with turnOn', async () => {
+    const { harness, active } = await irTV()
+
+    await active.handleSetRequest(harness.api.hap.Characteristic.Active.ACTIVE)
+
+    expect(harness.controlDevice).toHaveBeenCalledWith(tv.deviceId, 'turnOn', 'default', 'command')
+  })
+
+  it.each([
+    ['TV', 'ARROW_UP', 'Up'],
+    ['TV', 'SELECT', 'Ok'],
+    ['TV', 'INFORMATION', 'Menu'],
+    ['TV', 'NEXT_TRACK', 'channelAdd'],
+    ['TV', 'PREVIOUS_TRACK', 'channelSub'],
+    ['DVD', 'NEXT_TRACK', 'Next'],
+    ['DVD', 'REWIND', 'Rewind'],
+  ] as const)('sends a %s %s remote key as %s', async (remoteType, key, command) => {
+    const { harness, RemoteKey, remoteKey } = await irTV({}, remoteType)
+
+    await remoteKey.handleSetRequest(RemoteKey[key])
+
+    expect(harness.controlDevice).toHaveBeenCalledWith(tv.deviceId, command, 'default', 'command')
+  })
+
+  it('sends nothing for a key the remote does not have', async () => {
+    const { harness, RemoteKey, remoteKey } = await irTV()
+
+    await remoteKey.handleSetRequest(RemoteKey.REWIND)
+
+    expect(harness.controlDevice).not.toHaveBeenCalled()
+  })
+
+  it('sends the remoteKeys button instead, as a customize command', async () => {
+    const { harness, RemoteKey, remoteKey } = await irTV({ remoteKeys: { ARROW_UP: 'Cursor Up', REWIND: 'Replay' } })
+
+    await remoteKey.handleSetRequest(RemoteKey.ARROW_UP)
+    await remoteKey.handleSetRequest(RemoteKey.REWIND)
+
+    expect(harness.controlDevice.mock.calls).toEqual([
+      [tv.deviceId, 'Cursor Up', 'default', 'customize'],
+      [tv.deviceId, 'Replay', 'default', 'customize'],
+    ])
+  })
+
+  it('alternates Play and Pause, only once the command was sent', async () => {
+    const { harness, RemoteKey, remoteKey } = await irTV({}, 'DVD')
+
+    await remoteKey.handleSetRequest(RemoteKey.PLAY_PAUSE)
+    harness.controlDevice.mockResolvedValueOnce(openAPIResponse(171))
+    await expect(remoteKey.handleSetRequest(RemoteKey.PLAY_PAUSE)).rejects.toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE)
+    await remoteKey.handleSetRequest(RemoteKey.PLAY_PAUSE)
+    await remoteKey.handleSetRequest(RemoteKey.PLAY_PAUSE)
+
+    expect(harness.controlDevice.mock.calls.map(([, command]) => command)).toEqual(['Play', 'Pause', 'Pause', 'Play'])
+  })
+
+  describe('inputs', () => {
+    const inputs = [
+      { name: 'Antenna', commands: [{ command: 'Source' }] },
+      { name: 'HDMI 2', commands: [{ command: 'Source' }, { command: 'Down' }, { command: 'HDMI', commandType: 'customize' }] },
+    ]
+
+    it('sends every command of the input, in order', async () => {
+      const { harness, activeIdentifier } = await irTV({ inputs })
+
+      await activeIdentifier.handleSetRequest(2)
+
+      expect(harness.controlDevice.mock.calls).toEqual([
+        [tv.deviceId, 'Source', 'default', 'command'],
+        [tv.deviceId, 'Down', 'default', 'command'],
+        [tv.deviceId, 'HDMI', 'default', 'customize'],
+      ])
+      expect(activeIdentifier.value).toBe(2)
+    })
+
+    it('stops at the first command that fails, and rolls the input back', async () => {
+      const { harness, activeIdentifier } = await irTV({ inputs })
+      harness.controlDevice.mockResolvedValueOnce(openAPIResponse(100)).mockResolvedValueOnce(openAPIResponse(171))
+
+      await expect(activeIdentifier.handleSetRequest(2)).rejects.toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE)
+
+      expect(harness.controlDevice).toHaveBeenCalledTimes(2)
+      expect(activeIdentifier.value).toBe(1)
+    })
+  })
+})
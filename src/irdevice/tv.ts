@@ -6,8 +6,9 @@ import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge
 import type { bodyChange, irdevice } from 'node-switchbot'
 
 import type { SwitchBotPlatform } from '../platform.js'
-import type { irDevicesConfig } from '../settings.js'
+import type { irDevicesConfig, irRemoteKeysConfig, irTVConfig, irTVInputConfig } from '../settings.js'
 
+import { sleep } from '../utils.js'
 import { irdeviceBase } from './irdevice.js'
 
 /**
@@ -35,7 +36,15 @@ export class TV extends irdeviceBase {
     VolumeSelector: CharacteristicValue
   }
 
+  private InputSources: {
+    Name: CharacteristicValue
+    Service: Service
+    Identifier: CharacteristicValue
+    Input: irTVInputConfig
+  }[]
+
   // Characteristic Values
+  playing: boolean = false
 
   constructor(
     readonly platform: SwitchBotPlatform,
@@ -104,87 +113,187 @@ export class TV extends irdeviceBase {
     this.TelevisionSpeaker.Service.setCharacteristic(this.hap.Characteristic.Name, this.TelevisionSpeaker.Name).setCharacteristic(this.hap.Characteristic.Active, this.hap.Characteristic.Active.ACTIVE).setCharacteristic(this.hap.Characteristic.VolumeControlType, this.hap.Characteristic.VolumeControlType.ABSOLUTE).getCharacteristic(this.hap.Characteristic.VolumeSelector).onGet(() => {
       return this.TelevisionSpeaker.VolumeSelector
     }).onSet(this.VolumeSelectorSet.bind(this))
+
+    // Initialize InputSource Services
+    this.InputSources = []
+    this.getInputSources(accessory, device)
+  }
+
+  /**
+   * Each configured input becomes an InputSource Service linked to the Television Service,
+   * InputSource Services that are no longer configured are removed.
+   */
+  async getInputSources(accessory: PlatformAccessory, device: irdevice & irDevicesConfig): Promise<void> {
+    const inputs = (device as irTVConfig).inputs ?? []
+    for (const [index, input] of inputs.entries()) {
+      const Identifier = index + 1
+      const subtype = `input${Identifier}`
+      const InputSource = {
+        Name: input.name,
+        Service: accessory.getServiceById(this.hap.Service.InputSource, subtype) ?? accessory.addService(this.hap.Service.InputSource, input.name, subtype) as Service,
+        Identifier,
+        Input: input,
+      }
+      InputSource.Service
+        .setCharacteristic(this.hap.Characteristic.Name, InputSource.Name)
+        .setCharacteristic(this.hap.Characteristic.ConfiguredName, InputSource.Name)
+        .setCharacteristic(this.hap.Characteristic.Identifier, InputSource.Identifier)
+        .setCharacteristic(this.hap.Characteristic.InputSourceType, this.inputSourceType(input.inputSourceType))
+        .setCharacteristic(this.hap.Characteristic.IsConfigured, this.hap.Characteristic.IsConfigured.CONFIGURED)
+        .setCharacteristic(this.hap.Characteristic.CurrentVisibilityState, this.hap.Characteristic.CurrentVisibilityState.SHOWN)
+      this.Television.Service.addLinkedService(InputSource.Service)
+      this.InputSources.push(InputSource)
+      this.debugLog(`Input: ${InputSource.Name}, Identifier: ${InputSource.Identifier}, Commands: ${JSON.stringify(input.commands ?? [])}`)
+    }
+    for (const service of accessory.services.filter(service => service.UUID === this.hap.Service.InputSource.UUID)) {
+      if (!this.InputSources.some(InputSource => InputSource.Service === service)) {
+        this.debugLog(`Removing Input: ${service.displayName}`)
+        accessory.removeService(service)
+      }
+    }
   }
 
   async VolumeSelectorSet(value: CharacteristicValue): Promise<void> {
+    this.rememberState()
     this.debugLog(`VolumeSelector: ${value}`)
     if (value === this.hap.Characteristic.VolumeSelector.INCREMENT) {
-      this.pushVolumeUpChanges()
+      await this.pushVolumeUpChanges()
     } else {
-      this.pushVolumeDownChanges()
+      await this.pushVolumeDownChanges()
     }
+    await this.changeOutcome()
   }
 
   async RemoteKeySet(value: CharacteristicValue): Promise<void> {
+    this.rememberState()
+    this.Television.RemoteKey = value
     switch (value) {
       case this.hap.Characteristic.RemoteKey.REWIND: {
         this.debugLog('Set Remote Key Pressed: REWIND')
+        await this.pushRemoteKeyChanges('REWIND', this.isMediaRemote() ? 'Rewind' : undefined)
         break
       }
       case this.hap.Characteristic.RemoteKey.FAST_FORWARD: {
         this.debugLog('Set Remote Key Pressed: FAST_FORWARD')
+        await this.pushRemoteKeyChanges('FAST_FORWARD', this.isMediaRemote() ? 'FastForward' : undefined)
         break
       }
       case this.hap.Characteristic.RemoteKey.NEXT_TRACK: {
         this.debugLog('Set Remote Key Pressed: NEXT_TRACK')
+        await this.pushRemoteKeyChanges('NEXT_TRACK', this.isMediaRemote() ? 'Next' : 'channelAdd')
         break
       }
       case this.hap.Characteristic.RemoteKey.PREVIOUS_TRACK: {
         this.debugLog('Set Remote Key Pressed: PREVIOUS_TRACK')
+        await this.pushRemoteKeyChanges('PREVIOUS_TRACK', this.isMediaRemote() ? 'Previous' : 'channelSub')
         break
       }
       case this.hap.Characteristic.RemoteKey.ARROW_UP: {
         this.debugLog('Set Remote Key Pressed: ARROW_UP')
-        // this.pushUpChanges();
+        await this.pushRemoteKeyChanges('ARROW_UP', 'Up')
         break
       }
       case this.hap.Characteristic.RemoteKey.ARROW_DOWN: {
         this.debugLog('Set Remote Key Pressed: ARROW_DOWN')
-        // this.pushDownChanges();
+        await this.pushRemoteKeyChanges('ARROW_DOWN', 'Down')
         break
       }
       case this.hap.Characteristic.RemoteKey.ARROW_LEFT: {
         this.debugLog('Set Remote Key Pressed: ARROW_LEFT')
-        // this.pushLeftChanges();
+        await this.pushRemoteKeyChanges('ARROW_LEFT', 'Left')
         break
       }
       case this.hap.Characteristic.RemoteKey.ARROW_RIGHT: {
         this.debugLog('Set Remote Key Pressed: ARROW_RIGHT')
-        // this.pushRightChanges();
+        await this.pushRemoteKeyChanges('ARROW_RIGHT', 'Right')
         break
       }
       case this.hap.Characteristic.RemoteKey.SELECT: {
         this.debugLog('Set Remote Key Pressed: SELECT')
-        // this.pushOkChanges();
+        await this.pushRemoteKeyChanges('SELECT', 'Ok')
         break
       }
       case this.hap.Characteristic.RemoteKey.BACK: {
         this.debugLog('Set Remote Key Pressed: BACK')
-        // this.pushBackChanges();
+        await this.pushRemoteKeyChanges('BACK', 'Back')
         break
       }
       case this.hap.Characteristic.RemoteKey.EXIT: {
         this.debugLog('Set Remote Key Pressed: EXIT')
+        await this.pushRemoteKeyChanges('EXIT', 'Back')
         break
       }
       case this.hap.Characteristic.RemoteKey.PLAY_PAUSE: {
         this.debugLog('Set Remote Key Pressed: PLAY_PAUSE')
+        // IR remotes have no shared Play/Pause button, so alternate between Play and Pause
+        if (await this.pushRemoteKeyChanges('PLAY_PAUSE', this.isMediaRemote() ? (this.playing ? 'Pause' : 'Play') : undefined)) {
+          this.playing = !this.playing
+        }
         break
       }
       case this.hap.Characteristic.RemoteKey.INFORMATION: {
         this.debugLog('Set Remote Key Pressed: INFORMATION')
-        // this.pushMenuChanges();
+        await this.pushRemoteKeyChanges('INFORMATION', 'Menu')
         break
       }
+      default: {
+        this.debugLog(`Set Remote Key Pressed: ${value}, not supported`)
+      }
+    }
+    await this.changeOutcome()
+  }
+
+  /**
+   * DVD Players and Speakers have media buttons (Play, Pause, Next, Previous, etc.),
+   * while TVs, Projectors, Set Top Boxes and IPTVs use channel buttons instead.
+   */
+  isMediaRemote(): boolean {
+    return ['DVD', 'DIY DVD', 'Speaker', 'DIY Speaker'].includes(this.device.remoteType)
+  }
+
+  inputSourceType(inputSourceType?: string): number {
+    switch (inputSourceType) {
+      case 'HOME_SCREEN':
+        return this.hap.Characteristic.InputSourceType.HOME_SCREEN
+      case 'TUNER':
+        return this.hap.Characteristic.InputSourceType.TUNER
+      case 'HDMI':
+        return this.hap.Characteristic.InputSourceType.HDMI
+      case 'COMPOSITE_VIDEO':
+        return this.hap.Characteristic.InputSourceType.COMPOSITE_VIDEO
+      case 'S_VIDEO':
+        return this.hap.Characteristic.InputSourceType.S_VIDEO
+      case 'COMPONENT_VIDEO':
+        return this.hap.Characteristic.InputSourceType.COMPONENT_VIDEO
+      case 'DVI':
+        return this.hap.Characteristic.InputSourceType.DVI
+      case 'AIRPLAY':
+        return this.hap.Characteristic.InputSourceType.AIRPLAY
+      case 'USB':
+        return this.hap.Characteristic.InputSourceType.USB
+      case 'APPLICATION':
+        return this.hap.Characteristic.InputSourceType.APPLICATION
+      default:
+        return this.hap.Characteristic.InputSourceType.OTHER
     }
   }
 
   async ActiveIdentifierSet(value: CharacteristicValue): Promise<void> {
+    this.rememberState()
     this.debugLog(`ActiveIdentifier: ${value}`)
     this.Television.ActiveIdentifier = value
+    const InputSource = this.InputSources.find(InputSource => InputSource.Identifier === value)
+    if (InputSource) {
+      this.infoLog(`Set Input: ${InputSource.Name}`)
+      await this.pushInputChanges(InputSource.Input)
+    } else {
+      this.debugLog(`No Input configured for ActiveIdentifier: ${value}`)
+    }
+    await this.changeOutcome()
   }
 
   async ActiveSet(value: CharacteristicValue): Promise<void> {
+    this.rememberState()
     this.debugLog(`Active (value): ${value}`)
 
     this.Television.Active = value
@@ -193,6 +302,7 @@ export class TV extends irdeviceBase {
     } else {
       await this.pushTvOffChanges()
     }
+    await this.changeOutcome()
   }
 
   /**
@@ -204,6 +314,19 @@ export class TV extends irdeviceBase {
    * TV           "command"       "volumeSub"       "default"          volume down
    * TV           "command"       "channelAdd"      "default"          next channel
    * TV           "command"       "channelSub"      "default"          previous channel
+   * TV           "command"       "Up"              "default"          arrow up
+   * TV           "command"       "Down"            "default"          arrow down
+   * TV           "command"       "Left"            "default"          arrow left
+   * TV           "command"       "Right"           "default"          arrow right
+   * TV           "command"       "Ok"              "default"          select
+   * TV           "command"       "Back"            "default"          back
+   * TV           "command"       "Menu"            "default"          information
+   * DVD/Speaker  "command"       "Play"            "default"          play
+   * DVD/Speaker  "command"       "Pause"           "default"          pause
+   * DVD/Speaker  "command"       "FastForward"     "default"          fast forward
+   * DVD/Speaker  "command"       "Rewind"          "default"          rewind
+   * DVD/Speaker  "command"       "Next"            "default"          next track
+   * DVD/Speaker  "command"       "Previous"        "default"          previous track
    */
   async pushTvOnChanges(): Promise<void> {
     this.debugLog(`pushTvOnChanges Active: ${this.Television.Active}, disablePushOn: ${this.deviceDisablePushOn}`)
@@ -233,87 +356,52 @@ export class TV extends irdeviceBase {
     }
   }
 
-  async pushOkChanges(): Promise<void> {
-    this.debugLog(`pushOkChanges disablePushDetail: ${this.deviceDisablePushDetail}`)
-    if (!this.deviceDisablePushDetail) {
-      const bodyChange: bodyChange = {
-        command: 'Ok',
-        parameter: 'default',
-        commandType: 'command',
-      }
-      await this.pushTVChanges(bodyChange)
-    }
-  }
-
-  async pushBackChanges(): Promise<void> {
-    this.debugLog(`pushBackChanges disablePushDetail: ${this.deviceDisablePushDetail}`)
-    if (!this.deviceDisablePushDetail) {
-      const bodyChange: bodyChange = {
-        command: 'Back',
-        parameter: 'default',
-        commandType: 'command',
-      }
-      await this.pushTVChanges(bodyChange)
-    }
-  }
-
-  async pushMenuChanges(): Promise<void> {
-    this.debugLog(`pushMenuChanges disablePushDetail: ${this.deviceDisablePushDetail}`)
-    if (!this.deviceDisablePushDetail) {
-      const bodyChange: bodyChange = {
-        command: 'Menu',
-        parameter: 'default',
-        commandType: 'command',
-      }
-      await this.pushTVChanges(bodyChange)
-    }
-  }
-
-  async pushUpChanges(): Promise<void> {
-    this.debugLog(`pushUpChanges disablePushDetail: ${this.deviceDisablePushDetail}`)
-    if (!this.deviceDisablePushDetail) {
-      const bodyChange: bodyChange = {
-        command: 'Up',
-        parameter: 'default',
-        commandType: 'command',
-      }
-      await this.pushTVChanges(bodyChange)
-    }
-  }
-
-  async pushDownChanges(): Promise<void> {
-    this.debugLog(`pushDownChanges disablePushDetail: ${this.deviceDisablePushDetail}`)
-    if (!this.deviceDisablePushDetail) {
-      const bodyChange: bodyChange = {
-        command: 'Down',
-        parameter: 'default',
-        commandType: 'command',
-      }
-      await this.pushTVChanges(bodyChange)
-    }
-  }
-
-  async pushRightChanges(): Promise<void> {
-    this.debugLog(`pushRightChanges disablePushDetail: ${this.deviceDisablePushDetail}`)
-    if (!this.deviceDisablePushDetail) {
+  /**
+   * Pushes the command for a Remote Key, a button set in the remoteKeys config
+   * for that key is sent as a customize command instead of the default command.
+   *
+   * @returns Whether the command was sent.
+   */
+  async pushRemoteKeyChanges(remoteKey: string, defaultCommand?: string): Promise<boolean> {
+    const customCommand = this.device.remoteKeys?.[remoteKey as keyof irRemoteKeysConfig]
+    this.debugLog(`pushRemoteKeyChanges ${remoteKey}, command: ${customCommand ?? defaultCommand}, disablePushDetail: ${this.deviceDisablePushDetail}`)
+    if (!customCommand && !defaultCommand) {
+      this.debugLog(`No command for Remote Key: ${remoteKey}, set one in the Remote Keys config to use it`)
+    } else if (!this.deviceDisablePushDetail) {
       const bodyChange: bodyChange = {
-        command: 'Right',
+        command: customCommand ?? defaultCommand!,
         parameter: 'default',
-        commandType: 'command',
+        commandType: customCommand ? 'customize' : 'command',
       }
-      await this.pushTVChanges(bodyChange)
+      return this.pushTVChanges(bodyChange)
     }
+    return false
   }
 
-  async pushLeftChanges(): Promise<void> {
-    this.debugLog(`pushLeftChanges disablePushDetail: ${this.deviceDisablePushDetail}`)
+  /**
+   * Pushes each command configured for the Input in order, commands default to the commandType
+   * of the device when not set. The sequence stops at the first command that fails, which rolls
+   * the Input back, and the change is only settled once the last command is sent.
+   */
+  async pushInputChanges(input: irTVInputConfig): Promise<void> {
+    this.debugLog(`pushInputChanges Input: ${input.name}, disablePushDetail: ${this.deviceDisablePushDetail}`)
     if (!this.deviceDisablePushDetail) {
-      const bodyChange: bodyChange = {
-        command: 'Left',
-        parameter: 'default',
-        commandType: 'command',
+      const commands = input.commands ?? []
+      for (const [index, command] of commands.entries()) {
+        if (index > 0) {
+          // give the hub time to send the previous IR command
+          await sleep(500)
+        }
+        const bodyChange: bodyChange = {
+          command: command.command,
+          parameter: command.parameter ?? 'default',
+          commandType: command.commandType ?? await this.commandType(),
+        }
+        if (!await this.pushTVChanges(bodyChange, index === commands.length - 1)) {
+          this.debugLog(`Input: ${input.name}, stopped after command ${index + 1} of ${commands.length}`)
+          break
+        }
       }
-      await this.pushTVChanges(bodyChange)
     }
   }
 
@@ -341,20 +429,25 @@ export class TV extends irdeviceBase {
     }
   }
 
-  async pushTVChanges(bodyChange: any): Promise<void> {
+  /**
+   * Sends the command, see pushChangeRequest() for settle.
+   *
+   * @returns Whether the command was sent.
+   */
+  async pushTVChanges(bodyChange: any, settle = true): Promise<boolean> {
     this.debugLog('pushTVChanges')
     if (this.device.connectionType === 'OpenAPI') {
       this.infoLog(`Sending request to SwitchBot API, body: ${JSON.stringify(bodyChange)}`)
       try {
-        const response = await this.pushChangeRequest(bodyChange)
+        const response = await this.pushChangeRequest(bodyChange, settle)
         const deviceStatus: any = response.body
         await this.pushStatusCodes(deviceStatus)
         if (await this.successfulStatusCodes(deviceStatus)) {
           await this.successfulPushChange(deviceStatus, bodyChange)
           await this.updateHomeKitCharacteristics()
-        } else {
-          await this.statusCode(deviceStatus.statusCode)
+          return true
         }
+        await this.statusCode(deviceStatus.statusCode)
       } catch (e: any) {
         await this.apiError(e)
         await this.pushChangeError(e)
@@ -362,6 +455,7 @@ export class TV extends irdeviceBase {
     } else {
       this.warnLog(`Connection Type: ${this.device.connectionType}, commands will not be sent to OpenAPI`)
     }
+    return false
   }
 
   async updateHomeKitCharacteristics(): Promise<void> {
@@ -371,9 +465,4 @@ export class TV extends irdeviceBase {
     // ActiveIdentifier
     await this.updateCharacteristic(this.Television.Service, this.hap.Characteristic.ActiveIdentifier, this.Television.ActiveIdentifier, 'ActiveIdentifier')
   }
-
-  async apiError(e: any): Promise<void> {
-    this.Television.Service.updateCharacteristic(this.hap.Characteristic.Active, e)
-    this.Television.Service.updateCharacteristic(this.hap.Characteristic.ActiveIdentifier, e)
-  }
 }
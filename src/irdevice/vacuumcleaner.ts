@@ -47,6 +47,7 @@ export class VacuumCleaner extends irdeviceBase {
   }
 
   async OnSet(value: CharacteristicValue): Promise<void> {
+    this.rememberState()
     this.debugLog(`On: ${value}`)
 
     // Set the requested state
@@ -56,6 +57,7 @@ export class VacuumCleaner extends irdeviceBase {
     } else {
       await this.pushOffChanges()
     }
+    await this.changeOutcome()
   }
 
   /**
@@ -120,8 +122,4 @@ export class VacuumCleaner extends irdeviceBase {
     // On
     await this.updateCharacteristic(this.Switch.Service, this.hap.Characteristic.On, this.Switch.On, 'On')
   }
-
-  async apiError(e: any): Promise<void> {
-    this.Switch.Service.updateCharacteristic(this.hap.Characteristic.On, e)
-  }
 }
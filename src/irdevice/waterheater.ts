@@ -47,6 +47,7 @@ export class WaterHeater extends irdeviceBase {
   }
 
   async ActiveSet(value: CharacteristicValue): Promise<void> {
+    this.rememberState()
     this.debugLog(`Active: ${value}`)
 
     this.Valve.Active = value
@@ -57,6 +58,7 @@ export class WaterHeater extends irdeviceBase {
       await this.pushWaterHeaterOffChanges()
       this.Valve.Service.setCharacteristic(this.hap.Characteristic.InUse, this.hap.Characteristic.InUse.NOT_IN_USE)
     }
+    await this.changeOutcome()
   }
 
   /**
@@ -121,8 +123,4 @@ export class WaterHeater extends irdeviceBase {
     // Active
     await this.updateCharacteristic(this.Valve.Service, this.hap.Characteristic.Active, this.Valve.Active, 'Active')
   }
-
-  async apiError({ e }: { e: any }): Promise<void> {
-    this.Valve.Service.updateCharacteristic(this.hap.Characteristic.Active, e)
-  }
 }
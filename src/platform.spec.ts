@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { createPlatform, discover } from './test/harness.js'
+
+const deviceTypes = [
+  'Humidifier',
+  'Hub 2',
+  'Bot',
+  'Meter',
+  'MeterPlus',
+  'Meter Plus (JP)',
+  'Meter Pro',
+  'MeterPro(CO2)',
+  'WoIOSensor',
+  'Water Detector',
+  'Motion Sensor',
+  'Contact Sensor',
+  'Curtain',
+  'Curtain3',
+  'WoRollerShade',
+  'Roller Shade',
+  'Blind Tilt',
+  'Plug',
+  'Plug Mini (US)',
+  'Plug Mini (JP)',
+  'Smart Lock',
+  'Smart Lock Pro',
+  'Color Bulb',
+  'K10+',
+  'K10+ Pro',
+  'WoSweeper',
+  'WoSweeperMini',
+  'Robot Vacuum Cleaner S1',
+  'Robot Vacuum Cleaner S1 Plus',
+  'Robot Vacuum Cleaner S10',
+  'Ceiling Light',
+  'Ceiling Light Pro',
+  'Strip Light',
+  'Battery Circulator Fan',
+]
+
+const remoteTypes = [
+  'TV',
+  'DIY TV',
+  'Projector',
+  'Set Top Box',
+  'IPTV',
+  'DVD',
+  'Speaker',
+  'Fan',
+  'DIY Fan',
+  'Air Conditioner',
+  'DIY Air Conditioner',
+  'Light',
+  'DIY Light',
+  'Air Purifier',
+  'Water Heater',
+  'Vacuum Cleaner',
+  'Camera',
+  'Others',
+]
+
+// what a device needs configured to be registered
+const deviceConfig: Record<string, object> = {
+  'Bot': { type: 'switch', mode: 'switch' },
+  // a new accessory can not configure Adaptive Lighting before its ColorTemperature is added
+  'Ceiling Light': { adaptiveLightingShift: -1 },
+  'Ceiling Light Pro': { adaptiveLightingShift: -1 },
+  'Strip Light': { adaptiveLightingShift: -1 },
+}
+
+describe('switchBotPlatform', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it.each(deviceTypes)('registers a %s', async (deviceType) => {
+    const harness = createPlatform({ options: { devices: [{ deviceId: 'C1A2B3C4D5E6', ...deviceConfig[deviceType] }] } })
+
+    const accessories = await discover(harness, [{ deviceId: 'C1A2B3C4D5E6', deviceName: deviceType, deviceType, enableCloudService: true, hubDeviceId: '', master: true }])
+
+    expect(accessories).toHaveLength(1)
+    expect(accessories[0].context.deviceId).toBe('C1A2B3C4D5E6')
+    expect(harness.log.warn).not.toHaveBeenCalledWith(expect.stringContaining('is currently not supported'))
+  })
+
+  it.each(remoteTypes)('registers a %s remote', async (remoteType) => {
+    const harness = createPlatform()
+
+    const accessories = await discover(harness, [], [{ deviceId: '02-202401011200-12345678', deviceName: remoteType, remoteType, hubDeviceId: 'F1A2B3C4D5E6' }])
+
+    expect(accessories).toHaveLength(1)
+    expect(accessories[0].context.deviceId).toBe('02-202401011200-12345678')
+    expect(harness.log.warn).not.toHaveBeenCalledWith(expect.stringContaining('is currently not supported'))
+  })
+
+  it('does not register a device it does not support', async () => {
+    const harness = createPlatform()
+
+    const accessories = await discover(harness, [{ deviceId: 'C1A2B3C4D5E6', deviceName: 'Hub', deviceType: 'Hub Mini', enableCloudService: true, hubDeviceId: '' }])
+
+    expect(accessories).toHaveLength(0)
+  })
+
+  it('does not register a hidden device', async () => {
+    const harness = createPlatform({ options: { devices: [{ deviceId: 'C1A2B3C4D5E6', hide_device: true }] } })
+
+    const accessories = await discover(harness, [{ deviceId: 'C1A2B3C4D5E6', deviceName: 'Kettle', deviceType: 'Bot', enableCloudService: true, hubDeviceId: '' }])
+
+    expect(accessories).toHaveLength(0)
+  })
+})
@@ -2,8 +2,6 @@
  *
  * platform.ts: @switchbot/homebridge-switchbot platform class.
  */
-import type { Server } from 'node:http'
-
 import type { API, DynamicPlatformPlugin, Logging, PlatformAccessory } from 'homebridge'
 import type { MqttClient } from 'mqtt'
 /*
@@ -11,12 +9,13 @@ import type { MqttClient } from 'mqtt'
 * import type { blindTilt, curtain, curtain3, device, irdevice } from '/Users/Shared/GitHub/OpenWonderLabs/node-switchbot/dist/index.js';
 * import { LogLevel, SwitchBotBLE, SwitchBotModel, SwitchBotOpenAPI } from '/Users/Shared/GitHub/OpenWonderLabs/node-switchbot/dist/index.js';
 */
-import type { blindTilt, curtain, curtain3, device, deviceStatus, deviceStatusRequest, irdevice } from 'node-switchbot'
+import type { blindTilt, bodyChange, curtain, curtain3, device, deviceStatus, deviceStatusRequest, irdevice, pushResponse } from 'node-switchbot'
 
-import type { blindTiltConfig, curtainConfig, devicesConfig, irDevicesConfig, options, SwitchBotPlatformConfig } from './settings.js'
+import type { blindTiltConfig, curtainConfig, devicesConfig, irDevicesConfig, options, retryPolicy, scene, sceneConfig, SwitchBotPlatformConfig } from './settings.js'
 
 import { readFileSync } from 'node:fs'
-import process, { argv } from 'node:process'
+import { join } from 'node:path'
+import { argv } from 'node:process'
 
 import asyncmqtt from 'async-mqtt'
 import fakegato from 'fakegato-history'
@@ -24,6 +23,9 @@ import { EveHomeKitTypes } from 'homebridge-lib/EveHomeKitTypes'
 import { LogLevel, SwitchBotBLE, SwitchBotModel, SwitchBotOpenAPI } from 'node-switchbot'
 import { queueScheduler } from 'rxjs'
 
+import { BLEAdvertisementBus } from './blebus.js'
+import { BLEProxySource } from './bleproxy.js'
+import { BLECommandQueue } from './blequeue.js'
 import { BlindTilt } from './device/blindtilt.js'
 import { Bot } from './device/bot.js'
 import { CeilingLight } from './device/ceilinglight.js'
@@ -43,6 +45,7 @@ import { Motion } from './device/motion.js'
 import { Plug } from './device/plug.js'
 import { RobotVacuumCleaner } from './device/robotvacuumcleaner.js'
 import { WaterDetector } from './device/waterdetector.js'
+import { HomeAssistantDiscovery } from './homeassistant.js'
 import { AirConditioner } from './irdevice/airconditioner.js'
 import { AirPurifier } from './irdevice/airpurifier.js'
 import { Camera } from './irdevice/camera.js'
@@ -52,8 +55,13 @@ import { Others } from './irdevice/other.js'
 import { TV } from './irdevice/tv.js'
 import { VacuumCleaner } from './irdevice/vacuumcleaner.js'
 import { WaterHeater } from './irdevice/waterheater.js'
-import { PLATFORM_NAME, PLUGIN_NAME } from './settings.js'
-import { formatDeviceIdAsMac, isBlindTiltDevice, isCurtainDevice, safeStringify, sleep } from './utils.js'
+import { idempotentCommand, RetryPolicy } from './retry.js'
+import { Scene } from './scene/scene.js'
+import { RequestScheduler } from './scheduler.js'
+import { PLATFORM_NAME, PLUGIN_NAME, SCENES_URL } from './settings.js'
+import { lookupStatusCode, statusMessage } from './statuscodes.js'
+import { formatDeviceIdAsMac, generateHeaders, isBlindTiltDevice, isCurtainDevice, redactedStringify, safeStringify, signalStrengthCharacteristic, withoutSecrets } from './utils.js'
+import { WebhookReceiver } from './webhook.js'
 
 /**
  * HomebridgePlatform
@@ -72,27 +80,41 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
   platformRefreshRate!: options['refreshRate']
   platformPushRate!: options['pushRate']
   platformUpdateRate!: options['updateRate']
-  platformMaxRetries!: options['maxRetries']
-  platformDelayBetweenRetries!: options['delayBetweenRetries']
+  platformRetryPolicy!: RetryPolicy
   config!: SwitchBotPlatformConfig
   debugMode!: boolean
   version!: string
 
   // MQTT and Webhook properties
   mqttClient: MqttClient | null = null
-  webhookEventListener: Server | null = null
+  homeAssistantDiscovery?: HomeAssistantDiscovery
+  webhookReceiver?: WebhookReceiver
 
   // SwitchBot APIs
   switchBotAPI!: SwitchBotOpenAPI
   switchBotBLE!: SwitchBotBLE
+  bleAdvertisementBus!: BLEAdvertisementBus
+  bleCommandQueue!: BLECommandQueue
+  bleProxySource?: BLEProxySource
+  requestScheduler!: RequestScheduler
+  statusCacheTTL!: number
+  deviceStatusCache: { [deviceId: string]: { response: deviceStatus, statusCode: deviceStatusRequest['statusCode'], updated: number } } = {}
+  pendingDeviceStatus: { [deviceId: string]: Promise<{ response: deviceStatus, statusCode: deviceStatusRequest['statusCode'] }> } = {}
+  // counts the commands sent to each device, a status requested before a command is not cached
+  commandsSent: { [deviceId: string]: number } = {}
 
   // External APIs
   public readonly eve: any
   public readonly fakegatoAPI: any
+  public readonly SignalStrength!: ReturnType<typeof signalStrengthCharacteristic>
 
   // Event Handlers
   public readonly webhookEventHandler: { [x: string]: (context: any) => void } = {}
+  private lastWebhookEvent: { [deviceMac: string]: string } = {}
   public readonly bleEventHandler: { [x: string]: (context: any) => void } = {}
+  public readonly mqttEventHandler: { [x: string]: (CharacteristicName: string | undefined, message: string) => void } = {}
+  public readonly mqttConnectHandler: { [x: string]: () => Promise<void> } = {}
+  public readonly discoveredHandler: { [x: string]: () => Promise<void> } = {}
 
   constructor(
     log: Logging,
@@ -139,6 +161,15 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
     // SwitchBot OpenAPI
     if (this.config.credentials?.token && this.config.credentials?.secret) {
       this.switchBotAPI = new SwitchBotOpenAPI(this.config.credentials.token, this.config.credentials.secret)
+      const requestTimeout = (this.config.options?.requestTimeout ?? 30) * 1000
+      const budgetFile = join(this.api.user.storagePath(), 'switchbot-requests.json')
+      this.requestScheduler = new RequestScheduler(this, this.config.options?.dailyRequestBudget, requestTimeout, budgetFile)
+      this.debugLog(`Daily Request Budget: ${this.requestScheduler.dailyBudget}, Request Timeout: ${requestTimeout / 1000}s`)
+      this.api.on('shutdown', async () => {
+        await this.requestScheduler.flush()
+      })
+      this.statusCacheTTL = (this.config.options?.statusCacheTTL ?? 10) * 1000
+      this.debugLog(`Status Cache TTL: ${this.statusCacheTTL / 1000}s`)
     } else {
       this.debugErrorLog('Missing SwitchBot API credentials (token or secret).')
     }
@@ -179,6 +210,12 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
     // import fakegato-history module and EVE characteristics
     this.fakegatoAPI = fakegato(api)
     this.eve = new EveHomeKitTypes(api)
+    this.SignalStrength = signalStrengthCharacteristic(api.hap)
+
+    // Home Assistant MQTT discovery
+    if (this.config.options?.mqttURL && this.config.options?.homeAssistantDiscovery) {
+      this.homeAssistantDiscovery = new HomeAssistantDiscovery(this, this.config.options.homeAssistantDiscoveryPrefix)
+    }
 
     // When this event is fired it means Homebridge has restored all cached accessories from disk.
     // Dynamic Platform plugins should only register new accessories after this event was fired,
@@ -189,6 +226,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       // run the method to discover / register your devices as accessories
       try {
         await this.discoverDevices()
+        await this.homeAssistantDiscovery?.publishAll()
       } catch (e: any) {
         this.errorLog(`Failed to Discover, Error Message: ${e.message ?? e}, Submit Bugs Here: ` + 'https://tinyurl.com/SwitchBotBug')
         this.debugErrorLog(`Failed to Discover, Error: ${e.message ?? e}`)
@@ -216,25 +254,72 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
     if (this.config.options?.mqttURL) {
       try {
         const { connectAsync } = asyncmqtt
-        this.mqttClient = await connectAsync(this.config.options?.mqttURL, this.config.options.mqttOptions || {})
+        // the broker marks the platform offline when the connection is lost
+        this.mqttClient = await connectAsync(this.config.options?.mqttURL, {
+          ...this.config.options.mqttOptions,
+          will: { topic: 'homebridge-switchbot/availability', payload: 'offline', retain: true, qos: 1 },
+        })
         this.debugLog('MQTT connection has been established successfully.')
+        await this.mqttConnected()
+        // the broker published the will (offline) when the connection was lost
+        this.mqttClient.on('connect', async () => {
+          this.debugLog('MQTT connection has been re-established.')
+          await this.mqttConnected()
+        })
+        this.api.on('shutdown', async () => {
+          await this.mqttClient?.publish('homebridge-switchbot/availability', 'offline', { retain: true, qos: 1 })
+        })
         this.mqttClient.on('error', async (e: Error) => {
           this.errorLog(`Failed to publish MQTT messages. ${e.message ?? e}`)
         })
-        if (!this.config.options?.webhookURL) {
+        if (!this.config.options?.webhookURL || this.config.options?.webhookRole === 'secondary') {
           // receive webhook events via MQTT
           this.infoLog(`Webhook is configured to be received through ${this.config.options.mqttURL}/homebridge-switchbot/webhook.`)
           this.mqttClient.subscribe('homebridge-switchbot/webhook/+')
           this.mqttClient.on('message', async (topic: string, message) => {
+            if (!topic.startsWith('homebridge-switchbot/webhook/')) {
+              return
+            }
             try {
               this.debugLog(`Received Webhook via MQTT: ${topic}=${message}`)
               const context = JSON.parse(message.toString())
-              this.webhookEventHandler[context.deviceMac]?.(context)
+              this.webhookEventContext(context)
             } catch (e: any) {
               this.errorLog(`Failed to handle webhook event. Error:${e.message ?? e}`)
             }
           })
         }
+        // control devices via MQTT, 'homebridge-switchbot/${deviceType}/${mac}/set' or 'homebridge-switchbot/${deviceType}/${mac}/${CharacteristicName}/set'
+        this.mqttClient.subscribe(['homebridge-switchbot/+/+/set', 'homebridge-switchbot/+/+/+/set'])
+        this.mqttClient.on('message', async (topic: string, message) => {
+          const [prefix, deviceType, id, CharacteristicName, set] = topic.split('/')
+          if (prefix !== 'homebridge-switchbot' || deviceType === 'webhook' || (set ?? CharacteristicName) !== 'set') {
+            return
+          }
+          try {
+            this.debugLog(`Received MQTT set: ${topic}=${message}`)
+            this.mqttEventHandler[`${prefix}/${deviceType}/${id}`]?.(set ? CharacteristicName : undefined, message.toString())
+          } catch (e: any) {
+            this.errorLog(`Failed to handle MQTT set message. Error:${e.message ?? e}`)
+          }
+        })
+        if (this.config.options.bleProxyTopic) {
+          // advertisements heard by remote BLE gateways
+          this.bleProxySource = new BLEProxySource(this, this.mqttClient, this.config.options.bleProxyTopic)
+          this.bleProxySource.start()
+        }
+        if (this.homeAssistantDiscovery) {
+          // publish the discovery payloads again whenever Home Assistant restarts
+          const statusTopic = `${this.homeAssistantDiscovery.prefix}/status`
+          this.mqttClient.subscribe(statusTopic)
+          this.mqttClient.on('message', async (topic: string, message) => {
+            if (topic === statusTopic && message.toString() === 'online') {
+              this.debugLog('Home Assistant is online, publishing discovery')
+              await this.homeAssistantDiscovery?.publishAll()
+            }
+          })
+          await this.homeAssistantDiscovery.publishAll()
+        }
       } catch (e: any) {
         this.mqttClient = null
         this.errorLog(`Failed to establish MQTT connection. ${e.message ?? e}`)
@@ -242,37 +327,70 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
     }
   }
 
+  /**
+   * Publishes the platform's availability, and every device's, on each (re)connect to the broker,
+   * devices created before the connection was established publish theirs here.
+   */
+  async mqttConnected(): Promise<void> {
+    await this.mqttClient?.publish('homebridge-switchbot/availability', 'online', { retain: true, qos: 1 })
+    for (const handler of Object.values(this.mqttConnectHandler)) {
+      await handler()
+    }
+  }
+
   async setupwebhook() {
     // webhook configuration
-    if (this.config.options?.webhookURL) {
-      const url = this.config.options?.webhookURL
+    // secondaries only listen, the primary holds the credentials to register the webhook
+    if (this.config.options?.webhookURL && (this.config.credentials?.token || this.config.options.webhookRole === 'secondary')) {
       try {
-        this.switchBotAPI.setupWebhook(url)
-        // Listen for webhook events
-        this.switchBotAPI.on('webhookEvent', (body) => {
-          if (this.config.options?.mqttURL) {
-            const mac = body.context.deviceMac?.toLowerCase().match(/[\s\S]{1,2}/g)?.join(':')
-            const options = this.config.options?.mqttPubOptions || {}
-            this.mqttClient?.publish(`homebridge-switchbot/webhook/${mac}`, `${JSON.stringify(body.context)}`, options)
-          }
-          this.webhookEventHandler[body.context.deviceMac]?.(body.context)
-        })
+        this.webhookReceiver = new WebhookReceiver(this, this.config.options.webhookURL)
+        await this.webhookReceiver.start()
       } catch (e: any) {
         this.errorLog(`Failed to setup webhook. Error:${e.message ?? e}`)
       }
 
       this.api.on('shutdown', async () => {
-        try {
-          this.switchBotAPI.deleteWebhook(url)
-        } catch (e: any) {
-          this.errorLog(`Failed to delete webhook. Error:${e.message ?? e}`)
-        }
+        await this.webhookReceiver?.stop()
       })
     }
   }
 
+  /**
+   * Handles a webhook event received by the webhook receiver, relays it over MQTT and passes it to the device.
+   *
+   * @param body - The webhook request body.
+   */
+  async webhookEvent(body: any): Promise<void> {
+    // only the webhook primary relays events over MQTT, secondaries may be listening to both
+    if (this.config.options?.mqttURL && this.webhookReceiver?.role !== 'secondary') {
+      const mac = body.context.deviceMac?.toLowerCase().match(/[\s\S]{1,2}/g)?.join(':')
+      const options = this.config.options?.mqttPubOptions || {}
+      this.mqttClient?.publish(`homebridge-switchbot/webhook/${mac}`, `${JSON.stringify(body.context)}`, options)
+    }
+    this.webhookEventContext(body.context)
+  }
+
+  /**
+   * Passes a webhook event to its device, an event relayed both over HTTP and MQTT is only handled once.
+   *
+   * @param context - The webhook event context.
+   */
+  webhookEventContext(context: any): void {
+    const event = JSON.stringify(context)
+    if (this.lastWebhookEvent[context.deviceMac] === event) {
+      this.debugLog(`Ignoring duplicate webhook event for ${context.deviceMac}`)
+      return
+    }
+    this.lastWebhookEvent[context.deviceMac] = event
+    this.webhookEventHandler[context.deviceMac]?.(context)
+  }
+
   async setupBlE() {
     this.switchBotBLE = new SwitchBotBLE()
+    // every BLE device reads its advertisements from one continuous scan, started on first use
+    this.bleAdvertisementBus = new BLEAdvertisementBus(this, this.switchBotBLE)
+    // and sends its commands through one queue, so connections do not overlap
+    this.bleCommandQueue = new BLECommandQueue(this, this.switchBotBLE)
     // Listen for log events
     if (!this.config.options?.disableLogsforBLE) {
       this.switchBotBLE.on('log', (log) => {
@@ -309,37 +427,16 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       if (this.switchBotBLE === undefined) {
         this.errorLog(`wasn't able to establish BLE Connection, node-switchbot: ${JSON.stringify(this.switchBotBLE)}`)
       } else {
-        // Start to monitor advertisement packets
-        (async () => {
-          // Start to monitor advertisement packets
-          this.debugLog('Scanning for BLE SwitchBot devices...')
-          try {
-            await this.switchBotBLE.startScan()
-          } catch (e: any) {
-            this.errorLog(`Failed to start BLE scanning. Error:${e.message ?? e}`)
-          }
-          // Set an event handler to monitor advertisement packets
-          this.switchBotBLE.onadvertisement = async (ad: any) => {
-            try {
-              this.bleEventHandler[ad.address]?.(ad.serviceData)
-            } catch (e: any) {
-              this.errorLog(`Failed to handle BLE event. Error:${e.message ?? e}`)
-            }
-          }
-        })()
-
-        this.api.on('shutdown', async () => {
-          try {
-            // this.switchBotBLE.stopScan()
-            this.infoLog('Stopped BLE scanning to close listening.')
-          } catch (e: any) {
-            this.errorLog(`Failed to stop Platform BLE scanning. Error:${e.message ?? e}`)
-          }
-        })
+        // Start to monitor advertisement packets, they are passed to the bleEventHandler of each device
+        this.bleAdvertisementBus.start()
       }
     } else {
       this.debugLog('Platform BLE is not enabled')
     }
+    this.api.on('shutdown', async () => {
+      await this.bleAdvertisementBus.stop()
+      this.infoLog('Stopped BLE scanning to close listening.')
+    })
   }
 
   /**
@@ -413,37 +510,57 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       return this.handleManualConfig()
     }
 
-    let retryCount = 0
-    const maxRetries = this.platformMaxRetries ?? 5
-    const delayBetweenRetries = this.platformDelayBetweenRetries || 5000
+    this.debugWarnLog(`Retry Policy: ${JSON.stringify(this.platformRetryPolicy.policy)}`)
 
-    this.debugWarnLog(`Retry Count: ${retryCount}`)
-    this.debugWarnLog(`Max Retries: ${this.platformMaxRetries}`)
-    this.debugWarnLog(`Delay Between Retries: ${this.platformDelayBetweenRetries}`)
+    try {
+      const { response, statusCode } = await this.platformRetryPolicy.run('Discover Devices', () => this.requestScheduler.schedule('command', () => this.switchBotAPI.getDevices()))
+      this.debugLog(`response: ${JSON.stringify(response)}`)
+      if (this.isSuccessfulResponse(statusCode)) {
+        await this.handleDevices(Array.isArray(response.body.deviceList) ? response.body.deviceList : [])
+        await this.handleIRDevices(Array.isArray(response.body.infraredRemoteList) ? response.body.infraredRemoteList : [])
+        await this.devicesDiscovered()
+        await this.discoverScenes()
+      } else {
+        await this.statusCode(statusCode)
+      }
+    } catch (e: any) {
+      this.debugErrorLog(`Failed to Discover Devices, Error Message: ${JSON.stringify(e.message)}, Submit Bugs Here: https://tinyurl.com/SwitchBotBug`)
+      this.debugErrorLog(`Failed to Discover Devices, Error: ${e.message ?? e}`)
+    }
+  }
 
-    while (retryCount < maxRetries) {
+  /**
+   * Runs once every device and IR device is created, for accessories that depend on another,
+   * like an Air Conditioner's Linked Meter that may be created after it.
+   */
+  async devicesDiscovered(): Promise<void> {
+    for (const handler of Object.values(this.discoveredHandler)) {
       try {
-        const { response, statusCode } = await this.switchBotAPI.getDevices()
-        this.debugLog(`response: ${JSON.stringify(response)}`)
-        if (this.isSuccessfulResponse(statusCode)) {
-          await this.handleDevices(Array.isArray(response.body.deviceList) ? response.body.deviceList : [])
-          await this.handleIRDevices(Array.isArray(response.body.infraredRemoteList) ? response.body.infraredRemoteList : [])
-          break
-        } else {
-          await this.handleErrorResponse(statusCode, retryCount, maxRetries, delayBetweenRetries)
-          retryCount++
-        }
+        await handler()
       } catch (e: any) {
-        retryCount++
-        this.debugErrorLog(`Failed to Discover Devices, Error Message: ${JSON.stringify(e.message)}, Submit Bugs Here: https://tinyurl.com/SwitchBotBug`)
-        this.debugErrorLog(`Failed to Discover Devices, Error: ${e.message ?? e}`)
+        this.debugErrorLog(`Failed to finish discovery, Error: ${e.message ?? e}`)
+      }
+    }
+  }
+
+  async discoverScenes() {
+    try {
+      const { response, statusCode } = await this.getScenes()
+      this.debugLog(`scenes response: ${JSON.stringify(response)}`)
+      if (this.isSuccessfulResponse(statusCode) && this.isSuccessfulResponse(response.statusCode)) {
+        await this.handleScenes(Array.isArray(response.body) ? response.body : [])
+      } else {
+        await this.statusCode(response.statusCode ?? statusCode)
       }
+    } catch (e: any) {
+      this.errorLog(`Failed to Discover Scenes, Error Message: ${e.message ?? e}`)
+      this.debugErrorLog(`Failed to Discover Scenes, Error: ${JSON.stringify(e)}`)
     }
   }
 
   private async handleManualConfig() {
     if (this.config.options?.devices) {
-      this.debugLog(`SwitchBot Device Manual Config Set: ${JSON.stringify(this.config.options?.devices)}`)
+      this.debugLog(`SwitchBot Device Manual Config Set: ${redactedStringify(this.config.options?.devices)}`)
       const devices = this.config.options.devices.map((v: any) => v)
       for (const device of devices) {
         device.deviceType = device.configDeviceType
@@ -469,7 +586,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
   private async handleDevices(deviceLists: any[]) {
     if (!this.config.options?.devices && !this.config.options?.deviceConfig) {
-      this.debugLog(`SwitchBot Device Config Not Set: ${JSON.stringify(this.config.options?.devices)}`)
+      this.debugLog(`SwitchBot Device Config Not Set: ${redactedStringify(this.config.options?.devices)}`)
       if (deviceLists.length === 0) {
         this.debugLog('SwitchBot API Has No Devices With Cloud Services Enabled')
       } else {
@@ -483,7 +600,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
         }
       }
     } else if (this.config.options?.devices || this.config.options?.deviceConfig) {
-      this.debugLog(`SwitchBot Device Config Set: ${JSON.stringify(this.config.options?.devices)}`)
+      this.debugLog(`SwitchBot Device Config Set: ${redactedStringify(this.config.options?.devices)}`)
 
       // Step 1: Check and assign configDeviceType to deviceType if deviceType is not present
       const devicesWithTypeConfigPromises = deviceLists.map(async (device) => {
@@ -505,7 +622,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       const devices = this.mergeByDeviceId(this.config.options.devices ?? [], devicesWithTypeConfig ?? [])
 
-      this.debugLog(`SwitchBot Devices: ${JSON.stringify(devices)}`)
+      this.debugLog(`SwitchBot Devices: ${redactedStringify(devices)}`)
 
       for (const device of devices) {
         const deviceIdConfig = this.config.options?.devices?.[device.deviceId] || {}
@@ -563,6 +680,17 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
     }
   }
 
+  private async handleScenes(sceneLists: scene[]) {
+    this.debugLog(`Scene Config: ${JSON.stringify(this.config.options?.scenes)}`)
+    if (sceneLists.length === 0) {
+      this.debugLog('SwitchBot API Has No Scenes')
+    }
+    for (const scene of sceneLists) {
+      const sceneIdConfig = this.config.options?.scenes?.find(config => config.sceneId === scene.sceneId) ?? {}
+      await this.createScene(Object.assign({}, scene, sceneIdConfig))
+    }
+  }
+
   private mergeByDeviceId(a1: { deviceId: string }[], a2: any[]) {
     const normalizeDeviceId = (deviceId: string) => deviceId.toUpperCase().replace(/[^A-Z0-9]+/g, '')
     return a1.map((itm) => {
@@ -571,14 +699,6 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
     })
   }
 
-  private async handleErrorResponse(apiStatusCode: number, retryCount: number, maxRetries: number, delayBetweenRetries: number) {
-    await this.statusCode(apiStatusCode)
-    if (apiStatusCode === 500) {
-      this.infoLog(`statusCode: ${apiStatusCode} Attempt ${retryCount + 1} of ${maxRetries}`)
-      await sleep(delayBetweenRetries)
-    }
-  }
-
   private async createDevice(device: device & devicesConfig) {
     const deviceTypeHandlers: { [key: string]: (device: device & devicesConfig) => Promise<void> } = {
       'Humidifier': this.createHumidifier.bind(this),
@@ -681,7 +801,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       // the accessory already exists
       if (await this.registerDevice(device)) {
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = device.deviceType
         existingAccessory.context.model = SwitchBotModel.Humidifier
@@ -707,7 +827,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = device.deviceType
       accessory.context.model = SwitchBotModel.Humidifier
@@ -742,7 +862,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       // the accessory already exists
       if (await this.registerDevice(device)) {
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = device.deviceType
         existingAccessory.context.model = SwitchBotModel.Bot
@@ -768,7 +888,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = device.deviceType
       accessory.context.model = SwitchBotModel.Bot
@@ -805,7 +925,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       // the accessory already exists
       if (await this.registerDevice(device)) {
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.model = SwitchBotModel.Meter
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = device.deviceType
@@ -831,7 +951,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.model = SwitchBotModel.Meter
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = device.deviceType
@@ -868,7 +988,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       if (await this.registerDevice(device)) {
         // console.log("existingAccessory", existingAccessory);
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.model = SwitchBotModel.MeterPlusUS ?? SwitchBotModel.MeterPlusJP
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = device.deviceType
@@ -894,7 +1014,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.model = SwitchBotModel.MeterPlusUS ?? SwitchBotModel.MeterPlusJP
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = device.deviceType
@@ -931,7 +1051,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       if (await this.registerDevice(device)) {
         // console.log("existingAccessory", existingAccessory);
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.model = SwitchBotModel.MeterPro ?? SwitchBotModel.MeterProCO2
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = device.deviceType
@@ -957,7 +1077,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.model = SwitchBotModel.MeterPro ?? SwitchBotModel.MeterProCO2
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = device.deviceType
@@ -994,7 +1114,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       if (await this.registerDevice(device)) {
         // console.log("existingAccessory", existingAccessory);
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.model = SwitchBotModel.Hub2
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = device.deviceType
@@ -1020,7 +1140,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.model = SwitchBotModel.Hub2
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = device.deviceType
@@ -1056,7 +1176,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       // the accessory already exists
       if (await this.registerDevice(device)) {
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.model = SwitchBotModel.OutdoorMeter
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = device.deviceType
@@ -1082,7 +1202,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.model = SwitchBotModel.OutdoorMeter
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = device.deviceType
@@ -1118,7 +1238,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       // the accessory already exists
       if (await this.registerDevice(device)) {
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = device.deviceType
         existingAccessory.context.model = SwitchBotModel.WaterDetector
@@ -1144,7 +1264,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = device.deviceType
       accessory.context.model = SwitchBotModel.WaterDetector
@@ -1180,7 +1300,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       // the accessory already exists
       if (await this.registerDevice(device)) {
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = device.deviceType
         existingAccessory.context.model = SwitchBotModel.MotionSensor
@@ -1206,7 +1326,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = device.deviceType
       accessory.context.model = SwitchBotModel.MotionSensor
@@ -1242,7 +1362,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       // the accessory already exists
       if (await this.registerDevice(device)) {
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = device.deviceType
         existingAccessory.context.model = SwitchBotModel.ContactSensor
@@ -1268,7 +1388,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = device.deviceType
       accessory.context.model = SwitchBotModel.ContactSensor
@@ -1304,7 +1424,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       // the accessory already exists
       if (await this.registerDevice(device)) {
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = device.deviceType
         existingAccessory.context.model = SwitchBotModel.BlindTilt
@@ -1345,7 +1465,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = device.deviceType
       accessory.context.model = SwitchBotModel.BlindTilt
@@ -1381,7 +1501,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       // the accessory already exists
       if (await this.registerDevice(device)) {
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = device.deviceType
         existingAccessory.context.model = device.deviceType === 'Curtain3' ? SwitchBotModel.Curtain3 : SwitchBotModel.Curtain
@@ -1422,7 +1542,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = device.deviceType
       accessory.context.model = device.deviceType === 'Curtain3' ? SwitchBotModel.Curtain3 : SwitchBotModel.Curtain
@@ -1458,7 +1578,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       // the accessory already exists
       if (await this.registerDevice(device)) {
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = device.deviceType
         existingAccessory.context.model = device.deviceType === 'Plug Mini (US)'
@@ -1488,7 +1608,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = device.deviceType
       accessory.context.model = device.deviceType === 'Plug Mini (US)'
@@ -1528,7 +1648,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       // the accessory already exists
       if (await this.registerDevice(device)) {
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = device.deviceType
         existingAccessory.context.model = device.deviceType === 'Smart Lock Pro' ? SwitchBotModel.LockPro : SwitchBotModel.Lock
@@ -1554,7 +1674,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = device.deviceType
       accessory.context.model = device.deviceType === 'Smart Lock Pro' ? SwitchBotModel.LockPro : SwitchBotModel.Lock
@@ -1590,7 +1710,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       // the accessory already exists
       if (await this.registerDevice(device)) {
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = device.deviceType
         existingAccessory.context.model = SwitchBotModel.ColorBulb
@@ -1616,7 +1736,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = device.deviceType
       accessory.context.model = SwitchBotModel.ColorBulb
@@ -1652,7 +1772,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       // the accessory already exists
       if (await this.registerDevice(device)) {
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = device.deviceType
         existingAccessory.context.model = device.deviceType === 'Ceiling Light Pro' ? SwitchBotModel.CeilingLightPro : SwitchBotModel.CeilingLight
@@ -1678,7 +1798,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = device.deviceType
       accessory.context.model = device.deviceType === 'Ceiling Light Pro' ? SwitchBotModel.CeilingLightPro : SwitchBotModel.CeilingLight
@@ -1714,7 +1834,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       // the accessory already exists
       if (await this.registerDevice(device)) {
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = device.deviceType
         existingAccessory.context.model = SwitchBotModel.StripLight
@@ -1740,7 +1860,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = device.deviceType
       accessory.context.model = SwitchBotModel.StripLight
@@ -1776,7 +1896,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       // the accessory already exists
       if (await this.registerDevice(device)) {
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = device.deviceType
         existingAccessory.context.model = SwitchBotModel.BatteryCirculatorFan
@@ -1802,7 +1922,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = device.deviceType
       accessory.context.model = SwitchBotModel.BatteryCirculatorFan
@@ -1838,7 +1958,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       // the accessory already exists
       if (await this.registerDevice(device)) {
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = device.deviceType
         existingAccessory.context.model = device.deviceType === 'Robot Vacuum Cleaner S1'
@@ -1874,7 +1994,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = device.deviceType
       accessory.context.model = device.deviceType === 'Robot Vacuum Cleaner S1'
@@ -1918,7 +2038,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
     if (!device.hide_device && existingAccessory) {
       // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-      existingAccessory.context.device = device
+      existingAccessory.context.device = withoutSecrets(device)
       existingAccessory.context.deviceId = device.deviceId
       existingAccessory.context.deviceType = `IR: ${device.remoteType}`
       existingAccessory.context.model = device.remoteType
@@ -1940,7 +2060,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = `IR: ${device.remoteType}`
       accessory.context.model = device.remoteType
@@ -1974,7 +2094,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       // the accessory already exists
       if (!device.hide_device && device.hubDeviceId) {
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = `IR: ${device.remoteType}`
         existingAccessory.context.model = device.remoteType
@@ -1999,7 +2119,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = `IR: ${device.remoteType}`
       accessory.context.model = device.remoteType
@@ -2034,7 +2154,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       // the accessory already exists
       if (!device.hide_device && device.hubDeviceId) {
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = `IR: ${device.remoteType}`
         existingAccessory.context.model = device.remoteType
@@ -2059,7 +2179,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = `IR: ${device.remoteType}`
       accessory.context.model = device.remoteType
@@ -2094,7 +2214,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       // the accessory already exists
       if (!device.hide_device && device.hubDeviceId) {
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = `IR: ${device.remoteType}`
         existingAccessory.context.model = device.remoteType
@@ -2119,7 +2239,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = `IR: ${device.remoteType}`
       accessory.context.model = device.remoteType
@@ -2154,7 +2274,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       // the accessory already exists
       if (!device.hide_device && device.hubDeviceId) {
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = `IR: ${device.remoteType}`
         existingAccessory.context.model = device.remoteType
@@ -2179,7 +2299,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = `IR: ${device.remoteType}`
       accessory.context.model = device.remoteType
@@ -2214,7 +2334,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       // the accessory already exists
       if (!device.hide_device && device.hubDeviceId) {
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = `IR: ${device.remoteType}`
         existingAccessory.context.model = device.remoteType
@@ -2239,7 +2359,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = `IR: ${device.remoteType}`
       accessory.context.model = device.remoteType
@@ -2274,7 +2394,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       // the accessory already exists
       if (!device.hide_device && device.hubDeviceId) {
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = `IR: ${device.remoteType}`
         existingAccessory.context.model = device.remoteType
@@ -2299,7 +2419,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = `IR: ${device.remoteType}`
       accessory.context.model = device.remoteType
@@ -2334,7 +2454,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       // the accessory already exists
       if (!device.hide_device && device.hubDeviceId) {
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = `IR: ${device.remoteType}`
         existingAccessory.context.model = device.remoteType
@@ -2359,7 +2479,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = `IR: ${device.remoteType}`
       accessory.context.model = device.remoteType
@@ -2394,7 +2514,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       // the accessory already exists
       if (!device.hide_device && device.hubDeviceId) {
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device
+        existingAccessory.context.device = withoutSecrets(device)
         existingAccessory.context.deviceId = device.deviceId
         existingAccessory.context.deviceType = `IR: ${device.remoteType}`
         existingAccessory.context.model = device.remoteType
@@ -2419,7 +2539,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
 
       // store a copy of the device object in the `accessory.context`
       // the `context` property can be used to store any data about the accessory you may need
-      accessory.context.device = device
+      accessory.context.device = withoutSecrets(device)
       accessory.context.deviceId = device.deviceId
       accessory.context.deviceType = `IR: ${device.remoteType}`
       accessory.context.model = device.remoteType
@@ -2443,6 +2563,62 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
     }
   }
 
+  private async createScene(scene: scene & sceneConfig) {
+    const uuid = this.api.hap.uuid.generate(`${scene.sceneId}-Scene`)
+
+    // see if an accessory with the same uuid has already been registered and restored from
+    // the cached devices we stored in the `configureAccessory` method above
+    const existingAccessory = this.accessories.find(accessory => accessory.UUID === uuid)
+
+    if (existingAccessory) {
+      // the accessory already exists
+      if (!scene.hide_scene) {
+        // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
+        existingAccessory.context.scene = scene
+        existingAccessory.context.sceneId = scene.sceneId
+        existingAccessory.context.model = 'Scene'
+        existingAccessory.displayName = scene.configSceneName
+          ? await this.validateAndCleanDisplayName(scene.configSceneName, 'configSceneName', scene.configSceneName)
+          : await this.validateAndCleanDisplayName(scene.sceneName, 'sceneName', scene.sceneName)
+        existingAccessory.context.version = this.version ?? '0.0.0'
+        this.infoLog(`Restoring existing scene from cache: ${existingAccessory.displayName} sceneId: ${scene.sceneId}`)
+        this.api.updatePlatformAccessories([existingAccessory])
+        // create the accessory handler for the restored accessory
+        new Scene(this, existingAccessory, scene)
+        this.debugLog(`Scene uuid: ${scene.sceneId}-Scene, (${existingAccessory.UUID})`)
+      } else {
+        this.unregisterPlatformAccessories(existingAccessory)
+      }
+    } else if (!scene.hide_scene) {
+      // create a new accessory
+      const accessory = new this.api.platformAccessory(scene.configSceneName
+        ? await this.validateAndCleanDisplayName(scene.configSceneName, 'configSceneName', scene.configSceneName)
+        : await this.validateAndCleanDisplayName(scene.sceneName, 'sceneName', scene.sceneName), uuid)
+
+      // store a copy of the scene object in the `accessory.context`
+      // the `context` property can be used to store any data about the accessory you may need
+      accessory.context.scene = scene
+      accessory.context.sceneId = scene.sceneId
+      accessory.context.model = 'Scene'
+      accessory.context.version = this.version ?? '0.0.0'
+      const newOrExternal = !scene.external ? 'Adding new' : 'Loading external'
+      this.infoLog(`${newOrExternal} scene: ${accessory.displayName} sceneId: ${scene.sceneId}`)
+      // create the accessory handler for the newly create accessory
+      new Scene(this, accessory, scene)
+      this.debugLog(`Scene uuid: ${scene.sceneId}-Scene, (${accessory.UUID})`)
+
+      // publish scene externally or link the accessory to your platform
+      if (scene.external) {
+        this.api.publishExternalAccessories(PLUGIN_NAME, [accessory])
+      } else {
+        this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory])
+      }
+      this.accessories.push(accessory)
+    } else {
+      this.debugLog(`Scene not registered: ${scene.sceneName} sceneId: ${scene.sceneId}`)
+    }
+  }
+
   async registerCurtains(device: device & devicesConfig): Promise<boolean> {
     let registerWindowCovering: boolean
     if (isCurtainDevice(device)) {
@@ -2564,56 +2740,58 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
    * @returns A promise that resolves when the logging is complete.
    */
   async statusCode(statusCode: number): Promise<void> {
-    const messages: { [key: number]: string } = {
-      151: `Command not supported by this device type, statusCode: ${statusCode}, Submit Feature Request Here: 
-            https://tinyurl.com/SwitchBotFeatureRequest`,
-      152: `Device not found, statusCode: ${statusCode}`,
-      160: `Command is not supported, statusCode: ${statusCode}, Submit Bugs Here: https://tinyurl.com/SwitchBotBug`,
-      161: `Device is offline, statusCode: ${statusCode}`,
-      171: `is offline, statusCode: ${statusCode}`,
-      190: `Requests reached the daily limit, statusCode: ${statusCode}`,
-      100: `Command successfully sent, statusCode: ${statusCode}`,
-      200: `Request successful, statusCode: ${statusCode}`,
-      400: `Bad Request, The client has issued an invalid request. This is commonly used to specify validation errors in a request payload, 
-            statusCode: ${statusCode}`,
-      401: `Unauthorized, Authorization for the API is required, but the request has not been authenticated, statusCode: ${statusCode}`,
-      403: `Forbidden, The request has been authenticated but does not have appropriate permissions, or a requested resource is not found, 
-            statusCode: ${statusCode}`,
-      404: `Not Found, Specifies the requested path does not exist, statusCode: ${statusCode}`,
-      406: `Not Acceptable, The client has requested a MIME type via the Accept header for a value not supported by the server, 
-            statusCode: ${statusCode}`,
-      415: `Unsupported Media Type, The client has defined a contentType header that is not supported by the server, statusCode: ${statusCode}`,
-      422: `Unprocessable Entity, The client has made a valid request, but the server cannot process it. This is often used for APIs for which 
-            certain limits have been exceeded, statusCode: ${statusCode}`,
-      429: `Too Many Requests, The client has exceeded the number of requests allowed for a given time window, statusCode: ${statusCode}`,
-      500: `Internal Server Error, An unexpected error on the SmartThings servers has occurred. These errors should be rare, 
-            statusCode: ${statusCode}`,
-    }
-
-    const message = messages[statusCode] ?? `Unknown statusCode, statusCode: ${statusCode}, Submit Bugs Here: https://tinyurl.com/SwitchBotBug`
-
-    if ([100, 200].includes(statusCode)) {
-      this.debugLog(message)
-    } else {
-      this.errorLog(message)
+    const status = lookupStatusCode(statusCode)
+    const logMethod = status.severity === 'success' ? 'debugLog' : status.severity === 'warning' ? 'warnLog' : 'errorLog'
+    this[logMethod](statusMessage(statusCode, status))
+  }
+
+  /**
+   * Retrieves the status of a device, shared by every accessory polling the same deviceId.
+   * A status younger than the statusCacheTTL is reused, and concurrent requests for
+   * the same device wait on the one request already in flight.
+   *
+   * @param deviceId - The ID of the device.
+   * @param retryPolicy - The retry policy of the device.
+   * @param deviceRefreshRate - The device's refreshRate, used to stretch polls.
+   * @returns The API response and the HTTP status code.
+   */
+  async retryRequest(deviceId: string, retryPolicy: RetryPolicy, deviceRefreshRate?: number): Promise<{ response: deviceStatus, statusCode: deviceStatusRequest['statusCode'] }> {
+    const cached = this.deviceStatusCache[deviceId]
+    if (cached && Date.now() - cached.updated < this.statusCacheTTL) {
+      this.debugLog(`Using cached status for ${deviceId}, updated ${Math.round((Date.now() - cached.updated) / 1000)}s ago`)
+      return { response: cached.response, statusCode: cached.statusCode }
+    }
+    if (deviceId in this.pendingDeviceStatus) {
+      this.debugLog(`Waiting on status request already sent for ${deviceId}`)
+      return this.pendingDeviceStatus[deviceId]
+    }
+    // polls skipped by the request scheduler get the last status of the device
+    if (deviceRefreshRate && cached && !this.requestScheduler.shouldPoll(deviceId, deviceRefreshRate)) {
+      return { response: cached.response, statusCode: cached.statusCode }
+    }
+    const pending = this.requestDeviceStatus(deviceId, retryPolicy)
+    this.pendingDeviceStatus[deviceId] = pending
+    try {
+      return await pending
+    } finally {
+      // a command may have replaced it already
+      if (this.pendingDeviceStatus[deviceId] === pending) {
+        delete this.pendingDeviceStatus[deviceId]
+      }
     }
   }
 
-  async retryRequest(deviceId: string, deviceMaxRetries: number, deviceDelayBetweenRetries: number): Promise<{ response: deviceStatus, statusCode: deviceStatusRequest['statusCode'] }> {
-    let retryCount = 0
-    const maxRetries = deviceMaxRetries
-    const delayBetweenRetries = deviceDelayBetweenRetries
-    while (retryCount < maxRetries) {
-      try {
-        const { response, statusCode } = await this.switchBotAPI.getDeviceStatus(deviceId)
-        this.debugLog(`response: ${JSON.stringify(response)}`)
-        return { response, statusCode }
-      } catch (error: any) {
-        this.errorLog(`Error making request: ${error.message}`)
+  private async requestDeviceStatus(deviceId: string, retryPolicy: RetryPolicy): Promise<{ response: deviceStatus, statusCode: deviceStatusRequest['statusCode'] }> {
+    const commandsSent = this.commandsSent[deviceId] ?? 0
+    try {
+      const { response, statusCode } = await retryPolicy.run(`Status request for ${deviceId}`, () => this.requestScheduler.schedule('poll', () => this.switchBotAPI.getDeviceStatus(deviceId)))
+      this.debugLog(`response: ${JSON.stringify(response)}`)
+      if (this.isSuccessfulResponse(statusCode) && this.isSuccessfulResponse((response as any).statusCode) && commandsSent === (this.commandsSent[deviceId] ?? 0)) {
+        this.deviceStatusCache[deviceId] = { response, statusCode, updated: Date.now() }
       }
-      retryCount++
-      this.debugLog(`Retry attempt ${retryCount} of ${maxRetries}`)
-      await sleep(delayBetweenRetries)
+      return { response, statusCode }
+    } catch (error: any) {
+      this.errorLog(`Error making request: ${error.message}`)
     }
     return { response: {
       deviceId: '',
@@ -2625,6 +2803,59 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
     }, statusCode: 500 }
   }
 
+  /**
+   * Sends a command to a device through the request scheduler, ahead of any background polls.
+   * A command that may have gone through (a timeout, a 500) is only retried when it is idempotent.
+   *
+   * @param deviceId - The ID of the device.
+   * @param bodyChange - The command to send.
+   * @param retryPolicy - The retry policy of the device.
+   * @returns The API response and the HTTP status code.
+   */
+  async controlRequest(deviceId: string, bodyChange: bodyChange, retryPolicy: RetryPolicy = this.platformRetryPolicy): Promise<{ response: pushResponse['body'], statusCode: pushResponse['statusCode'] }> {
+    const { response, statusCode } = await retryPolicy.run(`Command ${bodyChange.command} to ${deviceId}`, () => this.requestScheduler.schedule('command', () => this.switchBotAPI.controlDevice(deviceId, bodyChange.command, bodyChange.parameter, bodyChange.commandType)), !idempotentCommand(bodyChange))
+    this.requestScheduler.commandSent(deviceId)
+    // the cached status, and a status request sent before the command, no longer reflect the device,
+    // make the next refresh ask for it
+    this.commandsSent[deviceId] = (this.commandsSent[deviceId] ?? 0) + 1
+    if (this.deviceStatusCache[deviceId]) {
+      this.deviceStatusCache[deviceId].updated = 0
+    }
+    delete this.pendingDeviceStatus[deviceId]
+    return { response, statusCode }
+  }
+
+  /**
+   * Retrieves the list of manual scenes from the SwitchBot OpenAPI.
+   *
+   * @returns The API response and the HTTP status code.
+   */
+  async getScenes(): Promise<{ response: { statusCode: number, body: scene[], message: string }, statusCode: number }> {
+    return this.platformRetryPolicy.run('Discover Scenes', () => this.requestScheduler.schedule('command', async () => {
+      const res = await fetch(SCENES_URL, {
+        headers: generateHeaders(this.config.credentials!.token!, this.config.credentials!.secret!),
+      })
+      return { response: await res.json(), statusCode: res.status }
+    }))
+  }
+
+  /**
+   * Executes a manual scene through the SwitchBot OpenAPI.
+   *
+   * @param sceneId - The ID of the scene to execute.
+   * @returns The API response and the HTTP status code.
+   */
+  async executeScene(sceneId: string): Promise<{ response: { statusCode: number, body: object, message: string }, statusCode: number }> {
+    // a scene can not be run twice safely, only failures that prove it was not sent are retried
+    return this.platformRetryPolicy.run(`Execute scene ${sceneId}`, () => this.requestScheduler.schedule('command', async () => {
+      const res = await fetch(`${SCENES_URL}/${sceneId}/execute`, {
+        method: 'POST',
+        headers: generateHeaders(this.config.credentials!.token!, this.config.credentials!.secret!),
+      })
+      return { response: await res.json(), statusCode: res.status }
+    }), true)
+  }
+
   // BLE Connection
   async connectBLE(accessory: PlatformAccessory, device: device & devicesConfig): Promise<any> {
     try {
@@ -2648,6 +2879,7 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
       platformConfig.pushRate = this.config.options.pushRate ? this.config.options.pushRate : undefined
       platformConfig.maxRetries = this.config.options.maxRetries ? this.config.options.maxRetries : undefined
       platformConfig.delayBetweenRetries = this.config.options.delayBetweenRetries ? this.config.options.delayBetweenRetries : undefined
+      platformConfig.retryPolicy = this.config.options.retryPolicy ? this.config.options.retryPolicy : undefined
       if (Object.entries(platformConfig).length !== 0) {
         await this.debugLog(`Platform Config: ${JSON.stringify(platformConfig)}`)
       }
@@ -2668,14 +2900,26 @@ export class SwitchBotPlatform implements DynamicPlatformPlugin {
     this.platformPushRate = this.config.options?.pushRate ? this.config.options.pushRate : undefined
     const pushRate = this.config.options?.pushRate ? 'Using Platform Config pushRate' : 'Platform Config pushRate Not Set'
     await this.debugLog(`${pushRate}: ${this.platformPushRate}`)
-    // MaxRetries
-    this.platformMaxRetries = this.config.options?.maxRetries ? this.config.options.maxRetries : undefined
-    const maxRetries = this.config.options?.maxRetries ? 'Using Platform Config maxRetries' : 'Platform Config maxRetries Not Set'
-    await this.debugLog(`${maxRetries}: ${this.platformMaxRetries}`)
-    // DelayBetweenRetries
-    this.platformDelayBetweenRetries = this.config.options?.delayBetweenRetries ? this.config.options.delayBetweenRetries : undefined
-    const delayBetweenRetries = this.config.options?.delayBetweenRetries ? 'Using Platform Config delayBetweenRetries' : 'Platform Config delayBetweenRetries Not Set'
-    await this.debugLog(`${delayBetweenRetries}: ${this.platformDelayBetweenRetries}`)
+    // RetryPolicy
+    this.platformRetryPolicy = this.createRetryPolicy()
+    const retryPolicy = this.config.options?.retryPolicy ? 'Using Platform Config retryPolicy' : this.config.options?.maxRetries || this.config.options?.delayBetweenRetries ? 'Using Platform Config maxRetries/delayBetweenRetries' : 'Platform Config retryPolicy Not Set'
+    await this.debugLog(`${retryPolicy}: ${JSON.stringify(this.platformRetryPolicy.policy)}`)
+  }
+
+  /**
+   * The retry policy of the platform, or of a device when its config is given. Each level's retryPolicy is
+   * applied over its maxRetries and delayBetweenRetries (used as initialDelay), and the device's over the platform's.
+   *
+   * @param config - The config of the device.
+   * @param log - Where retries are logged, the platform's debug log by default.
+   * @returns The retry policy.
+   */
+  createRetryPolicy(config?: Pick<options, 'maxRetries' | 'delayBetweenRetries' | 'retryPolicy'>, log?: (message: string) => void): RetryPolicy {
+    const levels = [this.config.options, config].flatMap(level => level
+      ? [{ maxRetries: level.maxRetries, initialDelay: level.delayBetweenRetries }, level.retryPolicy ?? {}]
+      : [])
+    const policy: retryPolicy = Object.assign({}, ...levels.map(level => Object.fromEntries(Object.entries(level).filter(([, value]) => value !== undefined))))
+    return new RetryPolicy(policy, log ?? (message => this.debugWarnLog(message)))
   }
 
   async getPlatformLogSettings() {
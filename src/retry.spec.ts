@@ -0,0 +1,118 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { idempotentCommand, RetryPolicy } from './retry.js'
+import { openAPIResponse } from './test/harness.js'
+
+// no waiting between retries
+const immediate = { initialDelay: 0, rateLimitDelay: 0, jitter: 0 }
+
+function error(code: string) {
+  return Object.assign(new Error(`request failed, ${code}`), { code })
+}
+
+describe('retryPolicy', () => {
+  it('retries a 500 until it succeeds', async () => {
+    const log = vi.fn()
+    const request = vi.fn()
+      .mockResolvedValueOnce(openAPIResponse(500, {}, 500))
+      .mockResolvedValueOnce(openAPIResponse(500))
+      .mockResolvedValue(openAPIResponse(100))
+
+    await expect(new RetryPolicy(immediate, log).run('Status request', request)).resolves.toEqual(openAPIResponse(100))
+
+    expect(request).toHaveBeenCalledTimes(3)
+    expect(log).toHaveBeenCalledWith(expect.stringContaining('Status request failed with statusCode: 500, retry 1 of 3'))
+  })
+
+  it('retries a 429 after the rateLimitDelay', async () => {
+    const log = vi.fn()
+    const request = vi.fn().mockResolvedValueOnce(openAPIResponse(429, {}, 429)).mockResolvedValue(openAPIResponse(100))
+
+    await new RetryPolicy(immediate, log).run('Status request', request)
+
+    expect(request).toHaveBeenCalledTimes(2)
+    expect(log).toHaveBeenCalledWith(expect.stringContaining('rate limited'))
+  })
+
+  it.each([151, 152, 161, 171, 190])('does not retry a %i', async (statusCode) => {
+    const request = vi.fn().mockResolvedValue(openAPIResponse(statusCode))
+
+    await expect(new RetryPolicy(immediate, vi.fn()).run('Command', request)).resolves.toEqual(openAPIResponse(statusCode))
+
+    expect(request).toHaveBeenCalledTimes(1)
+  })
+
+  it('returns the last response once maxRetries is reached', async () => {
+    const request = vi.fn().mockResolvedValue(openAPIResponse(500))
+
+    await expect(new RetryPolicy({ ...immediate, maxRetries: 2 }, vi.fn()).run('Status request', request)).resolves.toEqual(openAPIResponse(500))
+
+    expect(request).toHaveBeenCalledTimes(3)
+  })
+
+  it('throws the last error once maxRetries is reached', async () => {
+    const request = vi.fn().mockRejectedValue(error('ETIMEDOUT'))
+
+    await expect(new RetryPolicy({ ...immediate, maxRetries: 1 }, vi.fn()).run('Status request', request)).rejects.toThrow('ETIMEDOUT')
+
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not retry an error that is not transient', async () => {
+    const request = vi.fn().mockRejectedValue(new TypeError('Cannot read properties of undefined'))
+
+    await expect(new RetryPolicy(immediate, vi.fn()).run('Status request', request)).rejects.toThrow(TypeError)
+
+    expect(request).toHaveBeenCalledTimes(1)
+  })
+
+  describe('commands that must not be sent twice', () => {
+    it('are not retried when they may have gone through', async () => {
+      const timeout = vi.fn().mockRejectedValue(error('ETIMEDOUT'))
+      const serverError = vi.fn().mockResolvedValue(openAPIResponse(500))
+
+      await expect(new RetryPolicy(immediate, vi.fn()).run('Command press', timeout, true)).rejects.toThrow('ETIMEDOUT')
+      await new RetryPolicy(immediate, vi.fn()).run('Command press', serverError, true)
+
+      expect(timeout).toHaveBeenCalledTimes(1)
+      expect(serverError).toHaveBeenCalledTimes(1)
+    })
+
+    it('are retried when they were not sent', async () => {
+      const refused = vi.fn().mockRejectedValueOnce(error('ECONNREFUSED')).mockResolvedValue(openAPIResponse(100))
+      const rateLimited = vi.fn().mockResolvedValueOnce(openAPIResponse(429)).mockResolvedValue(openAPIResponse(100))
+
+      await new RetryPolicy(immediate, vi.fn()).run('Command press', refused, true)
+      await new RetryPolicy(immediate, vi.fn()).run('Command press', rateLimited, true)
+
+      expect(refused).toHaveBeenCalledTimes(2)
+      expect(rateLimited).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  it('backs off by the multiplier up to maxDelay, and waits at least rateLimitDelay on a 429', () => {
+    const policy = new RetryPolicy({ initialDelay: 2, multiplier: 3, maxDelay: 10, jitter: 0, rateLimitDelay: 60 }, vi.fn())
+
+    expect([0, 1, 2].map(attempt => policy.delay(attempt))).toEqual([2000, 6000, 10000])
+    expect(policy.delay(0, true)).toBe(60000)
+  })
+
+  it('ignores negative and missing values of the retryPolicy', () => {
+    const policy = new RetryPolicy({ maxRetries: -1, initialDelay: undefined }, vi.fn())
+
+    expect(policy.policy).toMatchObject({ maxRetries: 3, initialDelay: 2 })
+  })
+})
+
+describe('idempotentCommand', () => {
+  it.each([
+    ['turnOn', 'command', true],
+    ['setPosition', 'command', true],
+    ['press', 'command', false],
+    ['toggle', 'command', false],
+    ['volumeAdd', 'command', false],
+    ['turnOn', 'customize', false],
+  ])('%s (%s) is %s', (command, commandType, idempotent) => {
+    expect(idempotentCommand({ command, parameter: 'default', commandType })).toBe(idempotent)
+  })
+})
@@ -0,0 +1,111 @@
+/* Copyright(C) 2017-2024, donavanbecker (https://github.com/donavanbecker). All rights reserved.
+ *
+ * retry.ts: @switchbot/homebridge-switchbot platform class.
+ */
+import type { bodyChange } from 'node-switchbot'
+
+import type { retryPolicy } from './settings.js'
+
+import { lookupStatusCode } from './statuscodes.js'
+import { sleep } from './utils.js'
+
+const defaultRetryPolicy: Required<retryPolicy> = {
+  maxRetries: 3,
+  initialDelay: 2,
+  maxDelay: 30,
+  multiplier: 2,
+  jitter: 0.2,
+  rateLimitDelay: 60,
+}
+
+// errors thrown by the http client when the connection to the SwitchBot cloud failed
+const transientErrors = /ECONNRESET|ECONNREFUSED|ECONNABORTED|ETIMEDOUT|EAI_AGAIN|ENOTFOUND|EPIPE|ENETUNREACH|EHOSTUNREACH|UND_ERR|socket|timeout|network|fetch failed/i
+// the errors of those that prove the request never reached the SwitchBot cloud
+const notSentErrors = /ECONNREFUSED|ENOTFOUND|EAI_AGAIN/
+
+// commands that set an absolute state, sending one twice leaves the device as sending it once does
+const idempotentCommands = ['turnOn', 'turnOff', 'setPosition', 'setBrightness', 'setColor', 'setColorTemperature', 'setAll', 'setMode', 'lock', 'unlock']
+
+/**
+ * Whether a command can be sent again when it is not known if it went through, a press, a toggle,
+ * or an IR button (volumeAdd, customize, etc.) would be repeated.
+ */
+export function idempotentCommand({ command, commandType }: bodyChange): boolean {
+  return commandType !== 'customize' && idempotentCommands.includes(command)
+}
+
+/**
+ * How OpenAPI requests, reads and commands, are retried. Every retry waits initialDelay, multiplied by multiplier
+ * for every retry after it, up to maxDelay, with up to jitter (a fraction) of it added or taken off so that
+ * devices do not retry in lockstep. A 429 (rate limited) waits at least rateLimitDelay.
+ */
+export class RetryPolicy {
+  public readonly policy: Required<retryPolicy>
+
+  constructor(
+    policy: retryPolicy | undefined,
+    private readonly log: (message: string) => void,
+  ) {
+    const configured = Object.entries(policy ?? {}).filter(([, value]) => typeof value === 'number' && value >= 0)
+    this.policy = { ...defaultRetryPolicy, ...Object.fromEntries(configured) }
+  }
+
+  /**
+   * Sends the request, and retries it while it failed with a retryable error or statusCode.
+   *
+   * @param label - What the request is, for the logs.
+   * @param request - Sends the request once.
+   * @param notSentOnly - Only retry failures that prove the request was not carried out (refused
+   * or unresolved connections, 429), for commands that must not be sent twice.
+   * @returns The response of the last attempt, the error of the last attempt is thrown.
+   */
+  async run<T extends { response: any, statusCode: number }>(label: string, request: () => Promise<T>, notSentOnly = false): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      let result: T | undefined
+      let error: any
+      try {
+        result = await request()
+      } catch (e: any) {
+        error = e
+      }
+      const reason = error ? this.retryableError(error, notSentOnly) : this.retryableStatusCode(result!, notSentOnly)
+      if (!reason || attempt >= this.policy.maxRetries) {
+        if (error) {
+          throw error
+        }
+        return result!
+      }
+      const delay = this.delay(attempt, reason === 'rate limited')
+      this.log(`${label} ${reason}, retry ${attempt + 1} of ${this.policy.maxRetries} in ${(delay / 1000).toFixed(1)}s`)
+      await sleep(delay)
+    }
+  }
+
+  /**
+   * The delay, in milliseconds, before the retry after the attempt
+   */
+  delay(attempt: number, rateLimited = false): number {
+    const { initialDelay, maxDelay, multiplier, jitter, rateLimitDelay } = this.policy
+    const backoff = Math.min(maxDelay, initialDelay * multiplier ** attempt)
+    const jittered = backoff * (1 + (Math.random() * 2 - 1) * Math.min(jitter, 1))
+    return Math.round((rateLimited ? Math.max(jittered, rateLimitDelay) : jittered) * 1000)
+  }
+
+  /**
+   * A statusCode is retried when the status catalog marks it retryable (429 and 5xx), the body statusCode
+   * is checked first as the HTTP status is 200 for most OpenAPI errors.
+   */
+  private retryableStatusCode({ response, statusCode }: { response: any, statusCode: number }, notSentOnly: boolean): string | undefined {
+    for (const code of [response?.statusCode, statusCode]) {
+      if (code !== undefined && lookupStatusCode(code).retryable && (!notSentOnly || code === 429)) {
+        return code === 429 ? 'rate limited' : `failed with statusCode: ${code}`
+      }
+    }
+    return undefined
+  }
+
+  private retryableError(error: any, notSentOnly: boolean): string | undefined {
+    const message = `${error?.code ?? ''} ${error?.message ?? error}`
+    return (notSentOnly ? notSentErrors : transientErrors).test(message) ? `failed, Error: ${error?.message ?? error}` : undefined
+  }
+}
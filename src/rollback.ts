@@ -0,0 +1,93 @@
+/* Copyright(C) 2017-2024, donavanbecker (https://github.com/donavanbecker). All rights reserved.
+ *
+ * rollback.ts: @switchbot/homebridge-switchbot platform class.
+ */
+import type { Characteristic, CharacteristicValue, HAP, HAPStatus, PlatformAccessory, Service } from 'homebridge'
+
+import { sleep } from './utils.js'
+
+/**
+ * The object holding the state of a service of a device, this.LockMechanism, etc.
+ */
+export interface serviceState {
+  Service: Service
+  [field: string]: unknown
+}
+
+/**
+ * The properties of a device a change rolls back, the state of each service and the fields cached in
+ * accessory.context (this.On, etc.)
+ */
+export interface deviceState {
+  [property: string]: serviceState | CharacteristicValue | undefined
+}
+
+/**
+ * The state of a device before a change was requested, kept until the change is sent
+ */
+export interface pendingChange {
+  requested: number
+  characteristics: Map<Characteristic, CharacteristicValue | null>
+  context: { [key: string]: any }
+  state: deviceState
+  outcome: Promise<Error | undefined>
+  settle: (error?: Error) => void
+}
+
+/**
+ * Remembers the characteristics, accessory.context and the state of a device (the objects holding the state
+ * of each service, this.LockMechanism, etc., and fields cached in the context, this.On, etc.) before a change.
+ */
+export function rememberChange(hap: HAP, accessory: PlatformAccessory, device: object, characteristics: Characteristic[]): pendingChange {
+  const state: deviceState = {}
+  for (const [property, value] of Object.entries(device)) {
+    if (value?.Service instanceof hap.Service) {
+      state[property] = { ...value }
+    } else if (property in accessory.context && ['boolean', 'number', 'string'].includes(typeof value)) {
+      state[property] = value
+    }
+  }
+  let settle!: (error?: Error) => void
+  const outcome = new Promise<Error | undefined>(resolve => settle = resolve)
+  return {
+    requested: Date.now(),
+    characteristics: new Map(characteristics.map(characteristic => [characteristic, characteristic.value])),
+    context: { ...accessory.context },
+    state,
+    outcome,
+    settle,
+  }
+}
+
+/**
+ * Rolls the characteristics, accessory.context and the state of the device back to before the change,
+ * the change settles with hapStatus, which the onSet handler reports to HomeKit.
+ */
+export function rollbackChange(hap: HAP, accessory: PlatformAccessory, device: object, change: pendingChange, hapStatus: HAPStatus): void {
+  for (const [characteristic, value] of change.characteristics) {
+    if (characteristic.value !== value) {
+      characteristic.updateValue(value)
+    }
+  }
+  Object.assign(accessory.context, change.context)
+  // the device is read as the properties rememberChange took from it
+  const properties = device as deviceState
+  for (const [property, value] of Object.entries(change.state)) {
+    properties[property] = typeof value === 'object' ? Object.assign(properties[property] as serviceState, value) : value
+  }
+  change.settle(new hap.HapStatusError(hapStatus))
+}
+
+/**
+ * Waits for a change to be sent, and throws the error it failed with. The wait is capped below
+ * HomeKit's timeout, a later failure is shown by the rollback.
+ */
+export async function changeOutcome(change?: pendingChange): Promise<void> {
+  if (!change) {
+    return
+  }
+  const error = await Promise.race([change.outcome, sleep(8000)])
+  if (error instanceof Error) {
+    throw error
+  }
+}
@@ -0,0 +1,88 @@
+import { HAPStatus } from 'homebridge'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { characteristic, createPlatform, discover, openAPIResponse } from '../test/harness.js'
+
+const goodNight = { sceneId: 'T01-202401011200-12345678', sceneName: 'Good Night' }
+
+/**
+ * Stubs fetch, the execute request of the scene answers with the statusCode, or throws the error
+ */
+function fakeExecute(answer: number | Error) {
+  const fetch = vi.fn<(url: string, init: RequestInit) => Promise<Response>>(async () => {
+    if (answer instanceof Error) {
+      throw answer
+    }
+    return new Response(JSON.stringify(openAPIResponse(answer).response), { status: 200 })
+  })
+  vi.stubGlobal('fetch', fetch)
+  return fetch
+}
+
+describe('scene', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  async function scenes(config: object[] = [], options: object = {}) {
+    const harness = createPlatform({ options: { scenes: config as any, ...options } })
+    harness.getScenes.mockResolvedValue(openAPIResponse(100, [goodNight]))
+    const accessories = await discover(harness)
+    return { harness, accessories }
+  }
+
+  it('is discovered as a switch', async () => {
+    const { harness, accessories: [accessory] } = await scenes()
+
+    expect(accessory.displayName).toBe('Good Night')
+    expect(accessory.context.sceneId).toBe(goodNight.sceneId)
+    expect(characteristic(accessory, harness.api.hap.Service.Switch, harness.api.hap.Characteristic.On).value).toBe(false)
+  })
+
+  it('is renamed with configSceneName', async () => {
+    const { accessories: [accessory] } = await scenes([{ sceneId: goodNight.sceneId, configSceneName: 'Lights Out' }])
+
+    expect(accessory.displayName).toBe('Lights Out')
+  })
+
+  it('is not registered when hidden', async () => {
+    const { accessories } = await scenes([{ sceneId: goodNight.sceneId, hide_scene: true }])
+
+    expect(accessories).toHaveLength(0)
+  })
+
+  it('runs the scene, and turns itself back off', async () => {
+    const { harness, accessories: [accessory] } = await scenes()
+    const on = characteristic(accessory, harness.api.hap.Service.Switch, harness.api.hap.Characteristic.On)
+    const fetch = fakeExecute(100)
+    vi.useFakeTimers()
+
+    await on.handleSetRequest(true)
+
+    expect(fetch).toHaveBeenCalledOnce()
+    expect(fetch.mock.calls[0][0]).toBe(`https://api.switch-bot.com/v1.1/scenes/${goodNight.sceneId}/execute`)
+    expect(fetch.mock.calls[0][1]).toMatchObject({ method: 'POST' })
+    vi.advanceTimersByTime(1000)
+    vi.useRealTimers()
+    expect(on.value).toBe(false)
+  })
+
+  it('reports a scene that did not run to HomeKit', async () => {
+    const { harness, accessories: [accessory] } = await scenes()
+    const on = characteristic(accessory, harness.api.hap.Service.Switch, harness.api.hap.Characteristic.On)
+    fakeExecute(152)
+
+    await expect(on.handleSetRequest(true)).rejects.toBe(HAPStatus.RESOURCE_DOES_NOT_EXIST)
+  })
+
+  it('reports No Response when the request failed, and does not send it again', async () => {
+    const { harness, accessories: [accessory] } = await scenes([], { retryPolicy: { maxRetries: 3, initialDelay: 0 } })
+    const on = characteristic(accessory, harness.api.hap.Service.Switch, harness.api.hap.Characteristic.On)
+    const fetch = fakeExecute(new TypeError('fetch failed'))
+
+    await expect(on.handleSetRequest(true)).rejects.toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE)
+
+    expect(fetch).toHaveBeenCalledOnce()
+  })
+})
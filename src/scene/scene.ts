@@ -0,0 +1,161 @@
+/* Copyright(C) 2021-2024, donavanbecker (https://github.com/donavanbecker). All rights reserved.
+ *
+ * scene.ts: @switchbot/homebridge-switchbot.
+ */
+import type { API, CharacteristicValue, HAP, HAPStatus, Logging, PlatformAccessory, Service } from 'homebridge'
+
+import type { SwitchBotPlatform } from '../platform.js'
+import type { scene, sceneConfig } from '../settings.js'
+
+import { lookupStatusCode } from '../statuscodes.js'
+
+/**
+ * Platform Accessory
+ * An instance of this class is created for each SwitchBot scene your platform registers.
+ * Scenes are exposed as momentary switches, turning one on runs the scene and the switch turns itself back off.
+ */
+export class Scene {
+  public readonly api: API
+  public readonly log: Logging
+  protected readonly hap: HAP
+
+  // Config
+  protected sceneLogging!: string
+
+  // Services
+  private Switch: {
+    Name: CharacteristicValue
+    Service: Service
+    On: CharacteristicValue
+  }
+
+  constructor(
+    protected readonly platform: SwitchBotPlatform,
+    protected accessory: PlatformAccessory,
+    protected scene: scene & sceneConfig,
+  ) {
+    this.api = this.platform.api
+    this.log = this.platform.log
+    this.hap = this.api.hap
+
+    this.getSceneLogSettings(scene)
+
+    // Set category
+    accessory.category = this.hap.Categories.SWITCH
+
+    // Set accessory information
+    accessory
+      .getService(this.hap.Service.AccessoryInformation)!
+      .setCharacteristic(this.hap.Characteristic.Manufacturer, 'SwitchBot')
+      .setCharacteristic(this.hap.Characteristic.AppMatchingIdentifier, 'id1087374760')
+      .setCharacteristic(this.hap.Characteristic.Name, accessory.displayName)
+      .setCharacteristic(this.hap.Characteristic.ConfiguredName, accessory.displayName)
+      .setCharacteristic(this.hap.Characteristic.Model, 'Scene')
+      .setCharacteristic(this.hap.Characteristic.ProductData, scene.sceneId)
+      .setCharacteristic(this.hap.Characteristic.SerialNumber, scene.sceneId)
+      .setCharacteristic(this.hap.Characteristic.FirmwareRevision, accessory.context.version ?? this.platform.version ?? '0.0.0')
+
+    // Initialize Switch Service
+    accessory.context.Switch = accessory.context.Switch ?? {}
+    this.Switch = {
+      Name: accessory.displayName,
+      Service: accessory.getService(this.hap.Service.Switch) ?? accessory.addService(this.hap.Service.Switch) as Service,
+      On: false,
+    }
+    accessory.context.Switch = this.Switch as object
+
+    // Initialize Switch Characteristics
+    this.Switch.Service.setCharacteristic(this.hap.Characteristic.Name, this.Switch.Name).getCharacteristic(this.hap.Characteristic.On).onGet(() => {
+      return this.Switch.On
+    }).onSet(this.OnSet.bind(this))
+  }
+
+  async getSceneLogSettings(scene: scene & sceneConfig): Promise<void> {
+    this.sceneLogging = this.platform.debugMode ? 'debugMode' : scene.logging ?? this.platform.platformLogging ?? 'standard'
+    const logging = this.platform.debugMode ? 'Debug Mode' : scene.logging ? 'Scene Config' : this.platform.platformLogging ? 'Platform Config' : 'Default'
+    this.debugLog(`Using ${logging} Logging: ${this.sceneLogging}`)
+  }
+
+  /**
+   * Handle requests to set the value of the "On" characteristic
+   */
+  async OnSet(value: CharacteristicValue): Promise<void> {
+    this.debugLog(`On: ${value}`)
+    this.Switch.On = value
+    try {
+      if (this.Switch.On) {
+        await this.pushSceneChanges()
+      }
+    } finally {
+      // Scenes are momentary, so always return the switch to off
+      setTimeout(() => {
+        this.Switch.On = false
+        this.Switch.Service.updateCharacteristic(this.hap.Characteristic.On, this.Switch.On)
+        this.debugLog(`On: ${this.Switch.On}, Switch Timeout`)
+      }, 1000)
+    }
+  }
+
+  /**
+   * Executes the scene through the SwitchBot API, a scene that did not run is reported to HomeKit
+   */
+  async pushSceneChanges(): Promise<void> {
+    this.infoLog(`Sending request to SwitchBot API, execute scene: ${this.scene.sceneId}`)
+    let hapStatus: HAPStatus
+    try {
+      const { response, statusCode } = await this.platform.executeScene(this.scene.sceneId)
+      this.debugLog(`statusCode: ${statusCode}, response: ${JSON.stringify(response)}`)
+      if (statusCode === 200 && response.statusCode === 100) {
+        this.successLog(`request to SwitchBot API, execute scene: ${this.scene.sceneId} sent successfully`)
+        return
+      }
+      await this.platform.statusCode(response.statusCode ?? statusCode)
+      hapStatus = lookupStatusCode(response.statusCode ?? statusCode).hapStatus
+    } catch (e: any) {
+      this.errorLog(`failed to execute scene, Error Message: ${JSON.stringify(e.message ?? e)}`)
+      hapStatus = this.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE
+    }
+    throw new this.hap.HapStatusError(hapStatus)
+  }
+
+  /**
+   * Logging for Scene
+   */
+  infoLog(...log: any[]): void {
+    if (this.enablingSceneLogging()) {
+      this.log.info(`Scene: ${this.accessory.displayName}`, String(...log))
+    }
+  }
+
+  successLog(...log: any[]): void {
+    if (this.enablingSceneLogging()) {
+      this.log.success(`Scene: ${this.accessory.displayName}`, String(...log))
+    }
+  }
+
+  warnLog(...log: any[]): void {
+    if (this.enablingSceneLogging()) {
+      this.log.warn(`Scene: ${this.accessory.displayName}`, String(...log))
+    }
+  }
+
+  errorLog(...log: any[]): void {
+    if (this.enablingSceneLogging()) {
+      this.log.error(`Scene: ${this.accessory.displayName}`, String(...log))
+    }
+  }
+
+  debugLog(...log: any[]): void {
+    if (this.enablingSceneLogging()) {
+      if (this.sceneLogging === 'debug') {
+        this.log.info(`[DEBUG] Scene: ${this.accessory.displayName}`, String(...log))
+      } else if (this.sceneLogging === 'debugMode') {
+        this.log.debug(`Scene: ${this.accessory.displayName}`, String(...log))
+      }
+    }
+  }
+
+  enablingSceneLogging(): boolean {
+    return this.sceneLogging === 'debugMode' || this.sceneLogging === 'debug' || this.sceneLogging === 'standard'
+  }
+}
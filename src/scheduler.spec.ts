@@ -0,0 +1,128 @@
+import { readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { RequestScheduler } from './scheduler.js'
+import { createPlatform, openAPIResponse } from './test/harness.js'
+
+describe('requestScheduler', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  function scheduler(dailyBudget?: number, requestTimeout?: number) {
+    const { api, platform } = createPlatform()
+    const budgetFile = join(api.user.storagePath(), 'switchbot-requests.json')
+    return { platform, budgetFile, scheduler: new RequestScheduler(platform, dailyBudget, requestTimeout, budgetFile) }
+  }
+
+  it('sends commands before queued polls', async () => {
+    const { scheduler: requests } = scheduler()
+    const sent: string[] = []
+    const request = (name: string) => async () => {
+      sent.push(name)
+      return openAPIResponse(100)
+    }
+
+    await Promise.all([
+      requests.schedule('poll', request('poll 1')),
+      requests.schedule('poll', request('poll 2')),
+      requests.schedule('command', request('command')),
+      requests.schedule('poll', request('poll 3')),
+    ])
+
+    // the first poll is already being sent when the others are queued
+    expect(sent).toEqual(['poll 1', 'command', 'poll 2', 'poll 3'])
+  })
+
+  it('sends one request at a time', async () => {
+    const { scheduler: requests } = scheduler()
+    let running = 0
+    let concurrent = 0
+    const request = async () => {
+      concurrent = Math.max(concurrent, ++running)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      running--
+      return openAPIResponse(100)
+    }
+
+    await Promise.all([requests.schedule('command', request), requests.schedule('poll', request), requests.schedule('poll', request)])
+
+    expect(concurrent).toBe(1)
+  })
+
+  it('times out a hung request and moves on to the next one', async () => {
+    const { scheduler: requests } = scheduler(undefined, 20)
+
+    const hung = requests.schedule('poll', () => new Promise(() => {}))
+    const next = requests.schedule('poll', async () => openAPIResponse(100))
+
+    await expect(hung).rejects.toThrow('Request timeout')
+    await expect(next).resolves.toEqual(openAPIResponse(100))
+  })
+
+  it('stops polling once only the command reserve is left', async () => {
+    const { scheduler: requests } = scheduler(100)
+
+    for (let request = 0; request < 94; request++) {
+      await requests.schedule('command', async () => openAPIResponse(100))
+    }
+    expect(requests.shouldPoll('device', 60)).toBe(true)
+    await requests.schedule('command', async () => openAPIResponse(100))
+
+    expect(requests.remaining()).toBe(5)
+    expect(requests.shouldPoll('other device', 60)).toBe(false)
+  })
+
+  it('uses up the budget on a 190, which is also returned once the daily limit was reached', async () => {
+    const { scheduler: requests } = scheduler()
+
+    await requests.schedule('poll', async () => openAPIResponse(190))
+
+    expect(requests.remaining()).toBe(0)
+    expect(requests.shouldPoll('device', 60)).toBe(false)
+    expect(requests.pollMultiplier()).toBe(Infinity)
+  })
+
+  it('skips polls within the refreshRate, until a command is sent', () => {
+    const { scheduler: requests } = scheduler()
+
+    expect(requests.shouldPoll('device', 60)).toBe(true)
+    expect(requests.shouldPoll('device', 60)).toBe(false)
+    requests.commandSent('device')
+    expect(requests.shouldPoll('device', 60)).toBe(true)
+  })
+
+  it('saves the requests used today, and restores them on restart', async () => {
+    const { platform, budgetFile, scheduler: requests } = scheduler()
+    await requests.schedule('command', async () => openAPIResponse(100))
+    await requests.schedule('command', async () => openAPIResponse(100))
+
+    await requests.flush()
+
+    expect(JSON.parse(readFileSync(budgetFile, 'utf-8'))).toEqual({ day: new Date().toISOString().slice(0, 10), requests: 2 })
+    expect(new RequestScheduler(platform, undefined, undefined, budgetFile).remaining()).toBe(9998)
+  })
+
+  it('ignores the requests saved on an earlier day', () => {
+    const { platform, budgetFile } = scheduler()
+    writeFileSync(budgetFile, JSON.stringify({ day: '2000-01-01', requests: 9000 }))
+
+    expect(new RequestScheduler(platform, undefined, undefined, budgetFile).remaining()).toBe(10000)
+  })
+
+  it('resets the budget at midnight UTC', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2024-06-01T23:59:00Z'))
+    const { scheduler: requests } = scheduler()
+    await requests.schedule('poll', async () => openAPIResponse(190))
+    expect(requests.shouldPoll('device', 60)).toBe(false)
+
+    vi.setSystemTime(new Date('2024-06-02T00:01:00Z'))
+
+    expect(requests.shouldPoll('device', 60)).toBe(true)
+    expect(requests.remaining()).toBe(10000)
+  })
+})
@@ -0,0 +1,243 @@
+/* Copyright(C) 2017-2024, donavanbecker (https://github.com/donavanbecker). All rights reserved.
+ *
+ * scheduler.ts: @switchbot/homebridge-switchbot platform class.
+ */
+import type { SwitchBotPlatform } from './platform.js'
+
+import { readFileSync } from 'node:fs'
+import { writeFile } from 'node:fs/promises'
+
+import { withTimeout } from './utils.js'
+
+/**
+ * Commands are requests made for the user (controlDevice, executeScene, etc.),
+ * polls are the background getDeviceStatus requests made on every refreshRate.
+ */
+export type RequestPriority = 'command' | 'poll'
+
+// requests used today, saved so a restart does not reset the daily budget
+interface savedBudget {
+  day: string
+  requests: number
+}
+
+interface queuedRequest {
+  priority: RequestPriority
+  request: () => Promise<any>
+  resolve: (value: any) => void
+  reject: (reason?: any) => void
+}
+
+/**
+ * Schedules every SwitchBot OpenAPI request made by the platform and its devices.
+ * Requests are sent one at a time, commands are always sent before polls,
+ * and polls are stretched out when the daily request budget is running low.
+ */
+export class RequestScheduler {
+  // Budget
+  public readonly dailyBudget: number
+  private requestsToday = 0
+  private budgetDay: string
+  private budgetStart: number
+  private saveTimer?: NodeJS.Timeout
+
+  // Queue
+  private queue: queuedRequest[] = []
+  private running = false
+
+  // Polls
+  private lastPoll: { [deviceId: string]: number } = {}
+
+  constructor(
+    private readonly platform: SwitchBotPlatform,
+    dailyBudget?: number,
+    private readonly requestTimeout = 30 * 1000,
+    private readonly budgetFile?: string,
+  ) {
+    this.dailyBudget = dailyBudget ?? 10000
+    this.budgetDay = this.today()
+    this.budgetStart = Date.now()
+    this.loadBudget()
+  }
+
+  /**
+   * Queues a request, commands are put ahead of any queued polls.
+   *
+   * @param priority - The priority of the request.
+   * @param request - The request to send.
+   * @returns The result of the request.
+   */
+  async schedule<T>(priority: RequestPriority, request: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const queued: queuedRequest = { priority, request, resolve, reject }
+      if (priority === 'command') {
+        const firstPoll = this.queue.findIndex(item => item.priority === 'poll')
+        this.queue.splice(firstPoll === -1 ? this.queue.length : firstPoll, 0, queued)
+      } else {
+        this.queue.push(queued)
+      }
+      this.next()
+    })
+  }
+
+  private async next(): Promise<void> {
+    if (this.running) {
+      return
+    }
+    this.running = true
+    while (this.queue.length > 0) {
+      const { priority, request, resolve, reject } = this.queue.shift()!
+      this.resetBudget()
+      this.requestsToday++
+      this.platform.debugLog(`Sending ${priority} request, ${this.requestsToday} of ${this.dailyBudget} requests used today, ${this.queue.length} queued`)
+      this.saveBudget()
+      try {
+        // a hung request does not hold up the queue, it is not cancelled, its late result is ignored
+        const result = await withTimeout(request(), this.requestTimeout, `Request timeout after ${this.requestTimeout / 1000}s`)
+        // statusCode 190 is also returned once the daily limit was reached, stop polling until the budget resets
+        if ((result as any)?.response?.statusCode === 190) {
+          this.requestsToday = Math.max(this.requestsToday, this.dailyBudget)
+        }
+        resolve(result)
+      } catch (e: any) {
+        reject(e)
+      }
+    }
+    this.running = false
+  }
+
+  /**
+   * Checks if a background poll for the device should be sent, polls are stretched
+   * by the pollMultiplier and stop once only the command reserve of the budget is left.
+   *
+   * @param deviceId - The device being polled.
+   * @param refreshRate - The device's refreshRate in seconds.
+   * @returns true if the poll should be sent.
+   */
+  shouldPoll(deviceId: string, refreshRate: number): boolean {
+    this.resetBudget()
+    if (this.remaining() <= this.commandReserve()) {
+      this.platform.debugWarnLog(`Skipping poll for ${deviceId}, only ${this.remaining()} requests are left today`)
+      return false
+    }
+    const lastPoll = this.lastPoll[deviceId]
+    // allow for the refreshRate interval firing slightly early
+    const stretchedRate = refreshRate * 1000 * this.pollMultiplier() * 0.9
+    if (lastPoll !== undefined && Date.now() - lastPoll < stretchedRate) {
+      this.platform.debugLog(`Skipping poll for ${deviceId}, pollMultiplier: ${this.pollMultiplier()}`)
+      return false
+    }
+    this.lastPoll[deviceId] = Date.now()
+    return true
+  }
+
+  /**
+   * Clears the last poll of the device, so the refresh after a command is not skipped.
+   *
+   * @param deviceId - The device a command was sent to.
+   */
+  commandSent(deviceId: string): void {
+    delete this.lastPoll[deviceId]
+  }
+
+  /**
+   * How much longer than their refreshRate polls should wait, based on the pace of requests
+   * since the budget started compared to the requests left for the rest of the day.
+   */
+  pollMultiplier(): number {
+    const available = this.remaining() - this.commandReserve()
+    if (this.requestsToday === 0) {
+      return 1
+    }
+    if (available <= 0) {
+      return Infinity
+    }
+    // measure the pace over at least an hour, so the requests made on startup do not stretch polls
+    const elapsed = Math.max(Date.now() - this.budgetStart, 60 * 60 * 1000)
+    const projected = this.requestsToday / elapsed * this.untilReset()
+    return Math.max(1, Math.round(projected / available * 100) / 100)
+  }
+
+  remaining(): number {
+    return Math.max(0, this.dailyBudget - this.requestsToday)
+  }
+
+  /**
+   * Keep 5% of the budget for commands
+   */
+  private commandReserve(): number {
+    return Math.ceil(this.dailyBudget * 0.05)
+  }
+
+  /**
+   * The SwitchBot OpenAPI request limit resets every day (UTC)
+   */
+  private resetBudget(): void {
+    const today = this.today()
+    if (today !== this.budgetDay) {
+      this.platform.debugLog(`Resetting daily request budget, ${this.requestsToday} requests were used on ${this.budgetDay}`)
+      this.budgetDay = today
+      this.budgetStart = Date.now()
+      this.requestsToday = 0
+    }
+  }
+
+  /**
+   * Restores the requests used today from the budgetFile, a file from an earlier (UTC) day is ignored
+   */
+  private loadBudget(): void {
+    if (!this.budgetFile) {
+      return
+    }
+    try {
+      const saved: savedBudget = JSON.parse(readFileSync(this.budgetFile, 'utf-8'))
+      if (saved.day === this.budgetDay && typeof saved.requests === 'number') {
+        this.requestsToday = saved.requests
+        this.platform.debugLog(`Restored daily request budget, ${this.requestsToday} requests were already used today`)
+      }
+    } catch (e: any) {
+      if (e.code !== 'ENOENT') {
+        this.platform.debugErrorLog(`Failed to read daily request budget from ${this.budgetFile}, Error: ${e.message ?? e}`)
+      }
+    }
+  }
+
+  /**
+   * Saves the requests used today to the budgetFile, at most once every 30 seconds
+   */
+  private saveBudget(): void {
+    if (!this.budgetFile || this.saveTimer) {
+      return
+    }
+    this.saveTimer = setTimeout(async () => {
+      this.saveTimer = undefined
+      await this.flush()
+    }, 30 * 1000)
+  }
+
+  /**
+   * Writes the requests used today to the budgetFile right away, called on shutdown
+   */
+  async flush(): Promise<void> {
+    if (!this.budgetFile) {
+      return
+    }
+    clearTimeout(this.saveTimer)
+    this.saveTimer = undefined
+    const saved: savedBudget = { day: this.budgetDay, requests: this.requestsToday }
+    try {
+      await writeFile(this.budgetFile, JSON.stringify(saved))
+    } catch (e: any) {
+      this.platform.debugErrorLog(`Failed to save daily request budget to ${this.budgetFile}, Error: ${e.message ?? e}`)
+    }
+  }
+
+  private today(): string {
+    return new Date().toISOString().slice(0, 10)
+  }
+
+  private untilReset(): number {
+    const now = new Date()
+    return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1) - now.getTime()
+  }
+}
@@ -19,6 +19,13 @@ export const PLATFORM_NAME = 'SwitchBot'
  */
 export const PLUGIN_NAME = '@switchbot/homebridge-switchbot'
 
+/**
+ * SwitchBot OpenAPI endpoints that are not covered by node-switchbot
+ */
+export const OPENAPI_BASE_URL = 'https://api.switch-bot.com/v1.1'
+export const SCENES_URL = `${OPENAPI_BASE_URL}/scenes`
+export const WEBHOOK_URL = `${OPENAPI_BASE_URL}/webhook`
+
 // Config
 export interface SwitchBotPlatformConfig extends PlatformConfig {
   credentials?: credentials
@@ -35,15 +42,38 @@ export interface options {
   deviceConfig?: { [deviceType: string]: devicesConfig }
   irdevices?: irDevicesConfig[]
   irdeviceConfig?: { [remoteType: string]: irDevicesConfig }
+  scenes?: sceneConfig[]
   allowInvalidCharacters?: boolean
   mqttURL?: string
   mqttOptions?: IClientOptions
   mqttPubOptions?: IClientOptions
+  mqttStructured?: boolean
+  homeAssistantDiscovery?: boolean
+  homeAssistantDiscoveryPrefix?: string
   BLE?: boolean
   discoverBLE?: boolean
   disableLogsforBLE?: boolean
+  bleConcurrency?: number
+  bleConnectTimeout?: number
+  bleCommandTimeout?: number
+  blePresenceTimeout?: number
+  bleSignalStrength?: boolean
+  bleProxyTopic?: string
   disableLogsforOpenAPI?: boolean
   webhookURL?: string
+  webhookPort?: number
+  webhookBindAddress?: string
+  webhookPathToken?: string
+  webhookReconcileInterval?: number
+  webhookRole?: string
+  webhookPeers?: string[]
+  dailyRequestBudget?: number
+  requestTimeout?: number
+  statusCacheTTL?: number
+  circuitBreakerThreshold?: number
+  circuitBreakerCoolDown?: number
+  confirmChanges?: number
+  retryPolicy?: retryPolicy
   maxRetries?: number
   delayBetweenRetries?: number
   refreshRate?: number
@@ -52,6 +82,19 @@ export interface options {
   logging?: string
 };
 
+/**
+ * Retries of OpenAPI requests, delays are in seconds. maxRetries and delayBetweenRetries
+ * are used as maxRetries and initialDelay when no retryPolicy is set.
+ */
+export interface retryPolicy {
+  maxRetries?: number
+  initialDelay?: number
+  maxDelay?: number
+  multiplier?: number
+  jitter?: number
+  rateLimitDelay?: number
+}
+
 export type devicesConfig = botConfig | meterConfig | meterProConfig | indoorOutdoorSensorConfig | humidifierConfig | curtainConfig | blindTiltConfig | contactConfig | motionConfig | waterDetectorConfig | plugConfig | colorBulbConfig | stripLightConfig | ceilingLightConfig | lockConfig | hubConfig
 
 export interface BaseDeviceConfig extends device {
@@ -77,6 +120,8 @@ export interface BaseDeviceConfig extends device {
   maxRetry?: number
   maxRetries?: number
   delayBetweenRetries?: number
+  retryPolicy?: retryPolicy
+  confirmChanges?: number
   disableCaching?: boolean
   mqttURL?: string
   mqttOptions?: IClientOptions
@@ -176,6 +221,7 @@ export interface waterDetectorConfig extends BaseDeviceConfig {
 
 export interface plugConfig extends BaseDeviceConfig {
   configDeviceType: 'Plug' | 'Plug Mini (US)' | 'Plug Mini (JP)'
+  set_minWattage?: number
 };
 
 export interface colorBulbConfig extends BaseDeviceConfig {
@@ -200,6 +246,8 @@ export interface lockConfig extends BaseDeviceConfig {
   configDeviceType: 'Smart Lock' | 'Smart Lock Pro'
   hide_contactsensor?: boolean
   activate_latchbutton?: boolean
+  keyId?: string
+  encryptionKey?: string
 };
 
 export interface hubConfig extends BaseDeviceConfig {
@@ -212,7 +260,7 @@ export interface hubConfig extends BaseDeviceConfig {
   set_maxLux?: number
 };
 
-export type irDevicesConfig = irFanConfig | irLightConfig | irAirConfig | irOtherConfig
+export type irDevicesConfig = irTVConfig | irFanConfig | irLightConfig | irAirConfig | irOtherConfig
 
 export interface irBaseDeviceConfig extends irdevice {
   configDeviceName?: string
@@ -225,6 +273,7 @@ export interface irBaseDeviceConfig extends irdevice {
   pushRate?: number
   maxRetries?: number
   delayBetweenRetries?: number
+  retryPolicy?: retryPolicy
   firmware?: string
   deviceId: string
   logging?: string
@@ -235,8 +284,42 @@ export interface irBaseDeviceConfig extends irdevice {
   disablePushOn?: boolean
   disablePushOff?: boolean
   disablePushDetail?: boolean
+  remoteKeys?: irRemoteKeysConfig
+}
+
+export interface irRemoteKeysConfig {
+  REWIND?: string
+  FAST_FORWARD?: string
+  NEXT_TRACK?: string
+  PREVIOUS_TRACK?: string
+  ARROW_UP?: string
+  ARROW_DOWN?: string
+  ARROW_LEFT?: string
+  ARROW_RIGHT?: string
+  SELECT?: string
+  BACK?: string
+  EXIT?: string
+  PLAY_PAUSE?: string
+  INFORMATION?: string
 }
 
+export interface irTVConfig extends irBaseDeviceConfig {
+  configRemoteType?: 'TV' | 'DIY TV' | 'Projector' | 'DIY Projector' | 'Set Top Box' | 'DIY Set Top Box' | 'IPTV' | 'DIY IPTV' | 'DVD' | 'DIY DVD' | 'Speaker' | 'DIY Speaker'
+  inputs?: irTVInputConfig[]
+};
+
+export interface irTVInputConfig {
+  name: string
+  inputSourceType?: string
+  commands?: irCommandConfig[]
+};
+
+export interface irCommandConfig {
+  command: string
+  commandType?: string
+  parameter?: string
+};
+
 export interface irFanConfig extends irBaseDeviceConfig {
   configRemoteType?: 'Fan' | 'DIY Fan'
   swing_mode?: boolean
@@ -261,9 +344,35 @@ export interface irAirConfig extends irBaseDeviceConfig {
   meterType?: string
   meterId?: string
   meterUuid?: string
+  thermostat?: boolean
+  thermostatMode?: 'onoff' | 'setpoint'
+  maxSetpointOffset?: number
+  hysteresis?: number
+  minRunTime?: number
+  minOffTime?: number
+  maxCommandsPerHour?: number
+  dry_mode?: boolean
+  fan_mode?: boolean
+  swing_mode?: boolean
+  fan_speed_steps?: number
+  customSwing?: string
 };
 
 export interface irOtherConfig extends irBaseDeviceConfig {
   configRemoteType?: 'Others'
   type?: string
 };
+
+// Scenes
+export interface scene {
+  sceneId: string
+  sceneName: string
+}
+
+export interface sceneConfig {
+  sceneId: string
+  configSceneName?: string
+  hide_scene?: boolean
+  external?: boolean
+  logging?: string
+};
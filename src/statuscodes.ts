@@ -0,0 +1,197 @@
+/* Copyright(C) 2017-2024, donavanbecker (https://github.com/donavanbecker). All rights reserved.
+ *
+ * statuscodes.ts: @switchbot/homebridge-switchbot platform class.
+ */
+import type { API, PlatformAccessory } from 'homebridge'
+
+import { HAPStatus } from 'homebridge'
+
+export type statusSeverity = 'success' | 'warning' | 'error'
+
+/**
+ * What a SwitchBot OpenAPI statusCode (the HTTP status or the statusCode in the response body) means:
+ * how it is logged, if a retry can succeed, what HomeKit is told, and what the user can do about it.
+ */
+export interface openAPIStatus {
+  message: string
+  severity: statusSeverity
+  retryable: boolean
+  hapStatus: HAPStatus
+  hint?: string
+}
+
+const featureRequest = 'Submit Feature Request Here: https://tinyurl.com/SwitchBotFeatureRequest'
+const bugReport = 'Submit Bugs Here: https://tinyurl.com/SwitchBotBug'
+
+export const openAPIStatusCodes: { [statusCode: number]: openAPIStatus } = {
+  100: {
+    message: 'Command successfully sent',
+    severity: 'success',
+    retryable: false,
+    hapStatus: HAPStatus.SUCCESS,
+  },
+  200: {
+    message: 'Request successful',
+    severity: 'success',
+    retryable: false,
+    hapStatus: HAPStatus.SUCCESS,
+  },
+  151: {
+    message: 'Command not supported by this deviceType',
+    severity: 'error',
+    retryable: false,
+    hapStatus: HAPStatus.INVALID_VALUE_IN_REQUEST,
+    hint: `Check the deviceType and mode configured for the device, ${featureRequest}`,
+  },
+  152: {
+    message: 'Device not found',
+    severity: 'error',
+    retryable: false,
+    hapStatus: HAPStatus.RESOURCE_DOES_NOT_EXIST,
+    hint: 'Check the deviceId, the device may have been removed from the SwitchBot App',
+  },
+  160: {
+    message: 'Command is not supported',
+    severity: 'error',
+    retryable: false,
+    hapStatus: HAPStatus.INVALID_VALUE_IN_REQUEST,
+    hint: bugReport,
+  },
+  161: {
+    message: 'Device is offline',
+    severity: 'error',
+    retryable: false,
+    hapStatus: HAPStatus.SERVICE_COMMUNICATION_FAILURE,
+    hint: 'Check the device is powered and in range of its hub, or of your phone for BLE only devices',
+  },
+  171: {
+    message: 'Hub Device is offline',
+    severity: 'error',
+    retryable: false,
+    hapStatus: HAPStatus.SERVICE_COMMUNICATION_FAILURE,
+    hint: 'Check the hub is powered and connected to Wi-Fi',
+  },
+  190: {
+    message: 'Device internal error due to device states not synchronized with server, or command format is invalid',
+    severity: 'error',
+    retryable: false,
+    hapStatus: HAPStatus.SERVICE_COMMUNICATION_FAILURE,
+    hint: 'Also returned once the daily limit of 10,000 requests is reached, raise the refreshRate or set a dailyRequestBudget',
+  },
+  400: {
+    message: 'Bad Request, an invalid payload request',
+    severity: 'error',
+    retryable: false,
+    hapStatus: HAPStatus.INVALID_VALUE_IN_REQUEST,
+    hint: bugReport,
+  },
+  401: {
+    message: 'Unauthorized, Authorization for the API is required, but the request has not been authenticated',
+    severity: 'error',
+    retryable: false,
+    hapStatus: HAPStatus.INSUFFICIENT_AUTHORIZATION,
+    hint: 'Check the token and secret, copy them again from the Developer Options of the SwitchBot App',
+  },
+  403: {
+    message: 'Forbidden, The request has been authenticated but does not have appropriate permissions, or a requested resource is not found',
+    severity: 'error',
+    retryable: false,
+    hapStatus: HAPStatus.INSUFFICIENT_AUTHORIZATION,
+    hint: 'Check the token and secret, copy them again from the Developer Options of the SwitchBot App',
+  },
+  404: {
+    message: 'Not Found, Specifies the requested path does not exist',
+    severity: 'error',
+    retryable: false,
+    hapStatus: HAPStatus.RESOURCE_DOES_NOT_EXIST,
+    hint: bugReport,
+  },
+  406: {
+    message: 'Not Acceptable, a MIME type has been requested via the Accept header for a value not supported by the server',
+    severity: 'error',
+    retryable: false,
+    hapStatus: HAPStatus.INVALID_VALUE_IN_REQUEST,
+    hint: bugReport,
+  },
+  415: {
+    message: 'Unsupported Media Type, a contentType header has been defined that is not supported by the server',
+    severity: 'error',
+    retryable: false,
+    hapStatus: HAPStatus.INVALID_VALUE_IN_REQUEST,
+    hint: bugReport,
+  },
+  422: {
+    message: 'Unprocessable Entity: The server cannot process the request, often due to exceeded API limits',
+    severity: 'error',
+    retryable: false,
+    hapStatus: HAPStatus.INVALID_VALUE_IN_REQUEST,
+    hint: 'Raise the refreshRate or set a dailyRequestBudget',
+  },
+  429: {
+    message: 'Too Many Requests, exceeded the number of requests allowed for a given time window',
+    severity: 'warning',
+    retryable: true,
+    hapStatus: HAPStatus.RESOURCE_BUSY,
+    hint: 'Raise the refreshRate or the rateLimitDelay of the retryPolicy',
+  },
+  500: {
+    message: 'Internal Server Error, An unexpected error occurred. These errors should be rare',
+    severity: 'error',
+    retryable: true,
+    hapStatus: HAPStatus.SERVICE_COMMUNICATION_FAILURE,
+    hint: 'The SwitchBot cloud is having problems, requests are retried',
+  },
+}
+
+/**
+ * Looks up a statusCode in the catalog. Other 5xx statusCodes are server errors like 500,
+ * anything else is unknown and reported as a bug.
+ */
+export function lookupStatusCode(statusCode: number): openAPIStatus {
+  if (statusCode in openAPIStatusCodes) {
+    return openAPIStatusCodes[statusCode]
+  }
+  if (statusCode >= 500 && statusCode < 600) {
+    return openAPIStatusCodes[500]
+  }
+  return {
+    message: 'Unknown statusCode',
+    severity: 'warning',
+    retryable: false,
+    hapStatus: HAPStatus.SERVICE_COMMUNICATION_FAILURE,
+    hint: bugReport,
+  }
+}
+
+/**
+ * The last error of a device, kept in accessory.context.lastStatus for the Devices page of the plugin settings
+ */
+export interface lastStatus {
+  statusCode: number
+  message: string
+  hint?: string
+  time: string
+}
+
+/**
+ * Sets, or clears, accessory.context.lastStatus and saves the accessory when it changed, so the
+ * plugin settings show it. The same statusCode again only updates the time, without saving.
+ */
+export function updateLastStatus(api: API, accessory: PlatformAccessory, status?: lastStatus): void {
+  const previous: lastStatus | undefined = accessory.context.lastStatus
+  if (status) {
+    accessory.context.lastStatus = status
+  } else {
+    delete accessory.context.lastStatus
+  }
+  if (previous?.statusCode !== status?.statusCode || previous?.message !== status?.message) {
+    api.updatePlatformAccessories([accessory])
+  }
+}
+
+/**
+ * The log line of a statusCode: the message, the statusCode and the hint.
+ */
+export function statusMessage(statusCode: number, status = lookupStatusCode(statusCode)): string {
+  return `${status.message}, statusCode: ${statusCode}${status.hint ? `, ${status.hint}` : ''}`
+}
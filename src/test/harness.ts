@@ -0,0 +1,211 @@
+/* Copyright(C) 2017-2024, donavanbecker (https://github.com/donavanbecker). All rights reserved.
+ *
+ * harness.ts: @switchbot/homebridge-switchbot test harness.
+ */
+import type { Characteristic, Logging, PlatformAccessory, WithUUID } from 'homebridge'
+import type { ad, SwitchbotDevice } from 'node-switchbot'
+
+import type { SwitchBotPlatformConfig } from '../settings.js'
+
+import { EventEmitter } from 'node:events'
+import { mkdtempSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { HomebridgeAPI } from 'homebridge/lib/api.js'
+import { vi } from 'vitest'
+
+import { BLEAdvertisementBus } from '../blebus.js'
+import { BLECommandQueue } from '../blequeue.js'
+import { deviceBase } from '../device/device.js'
+import { irdeviceBase } from '../irdevice/irdevice.js'
+import { SwitchBotPlatform } from '../platform.js'
+import { PLATFORM_NAME, PLUGIN_NAME } from '../settings.js'
+import { formatDeviceIdAsMac } from '../utils.js'
+
+/**
+ * A Homebridge logger, every level is a mock so tests can check what was logged
+ */
+export function fakeLog(): Logging {
+  const log: any = vi.fn()
+  for (const level of ['info', 'success', 'warn', 'error', 'debug', 'log']) {
+    log[level] = vi.fn()
+  }
+  log.prefix = PLATFORM_NAME
+  return log as Logging
+}
+
+/**
+ * The Homebridge API with the real HAP, the accessory (un)register calls are mocks,
+ * and the storage path (where the daily request budget is saved) is a temporary directory.
+ */
+export function fakeAPI(): HomebridgeAPI {
+  const api = new HomebridgeAPI()
+  const storagePath = mkdtempSync(join(tmpdir(), 'homebridge-switchbot-'))
+  vi.spyOn(api.user, 'storagePath').mockReturnValue(storagePath)
+  vi.spyOn(api, 'registerPlatformAccessories').mockImplementation(() => {})
+  vi.spyOn(api, 'updatePlatformAccessories').mockImplementation(() => {})
+  vi.spyOn(api, 'unregisterPlatformAccessories').mockImplementation(() => {})
+  vi.spyOn(api, 'publishExternalAccessories').mockImplementation(() => {})
+  return api
+}
+
+/**
+ * A SwitchBot OpenAPI response, the statusCode of the body (100, 151, 161, 171, 190, etc.) and the HTTP status
+ */
+export function openAPIResponse(statusCode: number, body: object | object[] = {}, httpStatusCode = 200) {
+  return { response: { statusCode, message: statusCode === 100 ? 'success' : 'error', body }, statusCode: httpStatusCode }
+}
+
+/**
+ * A node-switchbot SwitchBotBLE without Bluetooth: scans do nothing, advertisements are sent with
+ * advertise(), and discover() returns the devices given to connectable().
+ */
+export class FakeSwitchBotBLE extends EventEmitter {
+  onadvertisement?: (ad: ad) => Promise<void> | void
+  startScan = vi.fn(async () => {})
+  stopScan = vi.fn(async () => {})
+  discover = vi.fn(async ({ id }: { id?: string }) => (id && this.devices[id] ? [this.devices[id]] : []))
+  private devices: { [address: string]: SwitchbotDevice } = {}
+
+  /**
+   * Makes a device connectable, its commands are mocks that resolve unless overridden.
+   */
+  connectable(deviceId: string, commands: { [command: string]: (...args: any[]) => Promise<any> } = {}): any {
+    const address = formatDeviceIdAsMac(deviceId)
+    const device: any = { address, disconnect: vi.fn(async () => {}) }
+    for (const command of ['turnOn', 'turnOff', 'press', 'down', 'up', 'runToPos', 'setBrightness', 'setColorTemperature', 'setRGB', 'lock', 'unlock']) {
+      device[command] = vi.fn(commands[command] ?? (async () => true))
+    }
+    this.devices[address] = device
+    return device
+  }
+
+  async advertise(ad: ad): Promise<void> {
+    await this.onadvertisement?.(ad)
+  }
+}
+
+/**
+ * A BLE advertisement of a device, as node-switchbot parses it
+ */
+export function bleAdvertisement(deviceId: string, serviceData: Partial<ad['serviceData']>, rssi = -60): ad {
+  const address = formatDeviceIdAsMac(deviceId)
+  return { id: address.replace(/:/g, ''), address, rssi, serviceData } as ad
+}
+
+/**
+ * A webhook request body, as the SwitchBot cloud posts it
+ */
+export function webhookEvent(deviceType: string, deviceMac: string, context: object = {}) {
+  return {
+    eventType: 'changeReport',
+    eventVersion: '1',
+    context: { deviceType, deviceMac, timeOfSample: Date.now(), ...context },
+  }
+}
+
+/**
+ * The status the fake OpenAPI answers with by default, the fields of the device types that have them:
+ * a Bot's power, a Meter's temperature, a Curtain's slidePosition, a Hub 2's lightLevel, a light's colorTemperature, etc.
+ */
+export function deviceStatus(deviceId: string, status: object = {}) {
+  return {
+    deviceId,
+    power: 'off',
+    battery: 100,
+    version: 'V1.0',
+    temperature: 20,
+    humidity: 50,
+    lightLevel: 10,
+    slidePosition: 0,
+    moving: false,
+    calibrate: true,
+    brightness: 100,
+    colorTemperature: 4000,
+    ...status,
+  }
+}
+
+export interface harness {
+  api: HomebridgeAPI
+  log: Logging
+  platform: SwitchBotPlatform
+  switchBotBLE: FakeSwitchBotBLE
+  getDevices: ReturnType<typeof vi.fn>
+  getDeviceStatus: ReturnType<typeof vi.fn>
+  controlDevice: ReturnType<typeof vi.fn>
+  getScenes: ReturnType<typeof vi.fn>
+}
+
+/**
+ * The platform with a fake HAP API, OpenAPI (getDevices, getDeviceStatus, controlDevice and getScenes
+ * are mocks, answering 100 by default) and BLE. Nothing is discovered until discover() is called.
+ */
+export function createPlatform(config: Partial<SwitchBotPlatformConfig> = {}): harness {
+  const api = fakeAPI()
+  const log = fakeLog()
+  const platform = new SwitchBotPlatform(log, {
+    platform: PLATFORM_NAME,
+    name: 'SwitchBot',
+    credentials: { token: 'token', secret: 'secret' },
+    ...config,
+    options: { refreshRate: 3600, pushRate: 0.1, retryPolicy: { maxRetries: 0 }, ...config.options },
+  }, api)
+  const getDevices = vi.fn(async () => openAPIResponse(100, { deviceList: [], infraredRemoteList: [] }))
+  const getDeviceStatus = vi.fn(async (deviceId: string) => openAPIResponse(100, deviceStatus(deviceId)))
+  const controlDevice = vi.fn(async () => openAPIResponse(100))
+  Object.assign(platform.switchBotAPI, { getDevices, getDeviceStatus, controlDevice })
+  const getScenes = vi.spyOn(platform, 'getScenes').mockResolvedValue(openAPIResponse(100, []) as any)
+  // every device and IR device calls getDeviceContext from its constructor, see accessoryHandler()
+  vi.spyOn(deviceBase.prototype, 'getDeviceContext')
+  vi.spyOn(irdeviceBase.prototype, 'getDeviceContext')
+  const switchBotBLE = new FakeSwitchBotBLE()
+  platform.switchBotBLE = switchBotBLE as any
+  platform.bleAdvertisementBus = new BLEAdvertisementBus(platform, switchBotBLE as any)
+  platform.bleCommandQueue = new BLECommandQueue(platform, switchBotBLE as any)
+  return { api, log, platform, switchBotBLE, getDevices, getDeviceStatus, controlDevice, getScenes }
+}
+
+/**
+ * Waits for the requests and updates already started, the fake OpenAPI and BLE answer right away
+ */
+export async function idle(): Promise<void> {
+  await new Promise(resolve => setImmediate(resolve))
+}
+
+/**
+ * Discovers the devices and IR devices the fake OpenAPI lists, and returns the accessories created for them
+ */
+export async function discover(harness: harness, deviceList: object[] = [], infraredRemoteList: object[] = []): Promise<PlatformAccessory[]> {
+  harness.getDevices.mockResolvedValue(openAPIResponse(100, { deviceList, infraredRemoteList }))
+  // the platform finishes reading its settings asynchronously, before Homebridge fires didFinishLaunching
+  await idle()
+  await harness.platform.discoverDevices()
+  // and the devices their first refresh
+  await idle()
+  const registered = vi.mocked(harness.api.registerPlatformAccessories).mock.calls.flatMap(([plugin, platform, accessories]) => {
+    return plugin === PLUGIN_NAME && platform === PLATFORM_NAME ? accessories : []
+  })
+  const external = vi.mocked(harness.api.publishExternalAccessories).mock.calls.flatMap(([, accessories]) => accessories)
+  return [...registered, ...external]
+}
+
+/**
+ * The device (or IR device) class created for the accessory, to call what HomeKit can not, refreshStatus, etc.
+ */
+export function accessoryHandler(accessory: PlatformAccessory): any {
+  const constructed = [deviceBase, irdeviceBase].flatMap(base => vi.mocked(base.prototype.getDeviceContext).mock.contexts)
+  return constructed.find(handler => handler.accessory === accessory)
+}
+
+/**
+ * A characteristic of the accessory, HAP's handleSetRequest and handleGetRequest are what HomeKit calls
+ */
+export function characteristic(accessory: PlatformAccessory, service: WithUUID<any>, type: WithUUID<new () => Characteristic>): Characteristic {
+  const found = accessory.getService(service)
+  if (!found) {
+    throw new Error(`${accessory.displayName} has no ${service.name} service`)
+  }
+  return found.getCharacteristic(type)
+}
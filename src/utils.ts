@@ -2,10 +2,13 @@
  *
  * util.ts: @switchbot/homebridge-switchbot platform class.
  */
+import type { Characteristic, CharacteristicValue, HAP, PlatformAccessory, WithUUID } from 'homebridge'
 import type { blindTilt, curtain, curtain3, device } from 'node-switchbot'
 
 import type { devicesConfig } from './settings.js'
 
+import { createHmac, randomUUID } from 'node:crypto'
+
 export enum BlindTiltMappingMode {
   OnlyUp = 'only_up',
   OnlyDown = 'only_down',
@@ -25,6 +28,134 @@ export function isBlindTiltDevice(device: device & devicesConfig): device is bli
 export function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms))
 }
+
+/**
+ * Rejects with the message if the promise does not settle within ms.
+ */
+export async function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms)
+  })
+  try {
+    return await Promise.race([promise, timeout])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+interface mqttSetLog {
+  debugLog: (...log: any[]) => any
+  warnLog: (...log: any[]) => any
+  errorLog: (...log: any[]) => any
+}
+
+/**
+ * Handles an MQTT set message for a device or IR device, the topic is either
+ * '.../set', a JSON object of characteristic values, or '.../${CharacteristicName}/set', a single value.
+ * Values are set on the characteristic, so they go through the same handlers as HomeKit.
+ *
+ * @param hap - The HAP instance of the Homebridge API.
+ * @param accessory - The accessory of the device.
+ * @param CharacteristicName - The characteristic in the topic, or undefined for a JSON object of values.
+ * @param message - The MQTT message.
+ * @param log - The logging of the device.
+ */
+export function mqttSet(hap: HAP, accessory: PlatformAccessory, CharacteristicName: string | undefined, message: string, log: mqttSetLog): void {
+  try {
+    const values: { [CharacteristicName: string]: CharacteristicValue } = CharacteristicName
+      ? { [CharacteristicName]: parseMqttValue(message) }
+      : JSON.parse(message)
+    for (const [name, value] of Object.entries(values)) {
+      const characteristic = getWritableCharacteristic(hap, accessory, name)
+      if (characteristic) {
+        log.debugLog(`MQTT set ${name}: ${JSON.stringify(value)}`)
+        characteristic.setValue(value)
+      } else {
+        log.warnLog(`MQTT set ${name} ignored, ${name} is not a writable characteristic of this device`)
+      }
+    }
+  } catch (e: any) {
+    log.errorLog(`failed to handle MQTT set message: ${message}, Error Message: ${JSON.stringify(e.message ?? e)}`)
+  }
+}
+
+function parseMqttValue(message: string): CharacteristicValue {
+  try {
+    return JSON.parse(message)
+  } catch {
+    return message
+  }
+}
+
+/**
+ * The writable characteristic with the name (On, TargetPosition, etc.) on any service of the accessory,
+ * 'subtype.CharacteristicName' (DryMode.On, etc.) picks the service with that subtype.
+ */
+function getWritableCharacteristic(hap: HAP, accessory: PlatformAccessory, name: string): Characteristic | undefined {
+  const [subtype, CharacteristicName] = name.includes('.') ? name.split('.', 2) : [undefined, name]
+  const characteristicType: unknown = Reflect.get(hap.Characteristic, CharacteristicName)
+  if (typeof characteristicType !== 'function' || typeof (characteristicType as { UUID?: unknown }).UUID !== 'string') {
+    return undefined
+  }
+  for (const service of accessory.services) {
+    if (subtype !== undefined && service.subtype !== subtype) {
+      continue
+    }
+    if (service.UUID !== hap.Service.AccessoryInformation.UUID && service.testCharacteristic(characteristicType as WithUUID<typeof Characteristic>)) {
+      const characteristic = service.getCharacteristic(characteristicType as WithUUID<new () => Characteristic>)
+      if (characteristic.props.perms.includes(hap.Perms.PAIRED_WRITE)) {
+        return characteristic
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * A custom characteristic for the BLE signal strength (RSSI) of a device. Neither HAP nor Eve define one,
+ * so the UUID is this plugin's own: the Home app hides it, apps that list custom characteristics, like Eve, show it.
+ *
+ * @param hap - The HAP instance of the Homebridge API.
+ * @returns The SignalStrength characteristic class.
+ */
+export function signalStrengthCharacteristic(hap: HAP) {
+  return class SignalStrength extends hap.Characteristic {
+    static readonly UUID = '3697CDBA-8191-4603-AB36-BB318F8CEBEB'
+
+    constructor() {
+      super('Signal Strength', SignalStrength.UUID, {
+        format: hap.Formats.INT,
+        unit: 'dBm',
+        minValue: -127,
+        maxValue: 0,
+        minStep: 1,
+        perms: [hap.Perms.PAIRED_READ, hap.Perms.NOTIFY],
+      })
+      this.value = this.getDefaultValue()
+    }
+  }
+}
+
+/**
+ * Generates the signed headers required by the SwitchBot OpenAPI.
+ *
+ * @param token - The SwitchBot OpenAPI token.
+ * @param secret - The SwitchBot OpenAPI secret.
+ * @returns The request headers, including the HMAC-SHA256 signature.
+ */
+export function generateHeaders(token: string, secret: string): { [key: string]: string } {
+  const t = Date.now().toString()
+  const nonce = randomUUID()
+  const sign = createHmac('sha256', secret).update(token + t + nonce).digest('base64')
+  return {
+    'Authorization': token,
+    'sign': sign,
+    'nonce': nonce,
+    't': t,
+    'Content-Type': 'application/json',
+  }
+}
 /**
  * Check if the humidity is within the min and max range
  * @param humidity - The humidity value
@@ -73,6 +204,26 @@ export function safeStringify(obj: any) {
   }, '  ')
 }
 
+/**
+ * Config keys whose values are never logged
+ */
+const redactedKeys = ['keyId', 'encryptionKey']
+
+/**
+ * JSON.stringify, with the values of secret config keys (the Smart Lock key ID and encryption key) redacted.
+ */
+export function redactedStringify(obj: any): string {
+  return JSON.stringify(obj, (key, value) => redactedKeys.includes(key) && value ? '[redacted]' : value)
+}
+
+/**
+ * A copy of a device config without the secret config keys, for accessory.context, which is saved in plain text
+ * in the accessory cache. The secrets are read from the config when they are needed.
+ */
+export function withoutSecrets<T extends object>(device: T): T {
+  return Object.fromEntries(Object.entries(device).filter(([key]) => !redactedKeys.includes(key))) as T
+}
+
 /**
  * Formats a device ID as a MAC address.
  * Ensures the device ID does not already contain colons.
@@ -0,0 +1,184 @@
+import type { AddressInfo } from 'node:net'
+
+import { createServer, request } from 'node:http'
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { WEBHOOK_URL } from './settings.js'
+import { createPlatform, webhookEvent } from './test/harness.js'
+import { WebhookReceiver } from './webhook.js'
+
+const webhookURL = 'http://homebridge.local:8999/webhook'
+
+/**
+ * Serves the receiver's handleRequest on a free port, and posts to it
+ */
+async function serve(receiver: WebhookReceiver) {
+  const server = createServer(async (req, res) => receiver.handleRequest(req, res))
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  const post = (path: string, body: string, method = 'POST') => new Promise<{ status: number, text: string }>((resolve, reject) => {
+    const req = request({ host: '127.0.0.1', port, path, method }, (res) => {
+      let text = ''
+      res.on('data', chunk => text += chunk)
+      res.on('end', () => resolve({ status: res.statusCode!, text }))
+    })
+    req.on('error', reject)
+    req.end(body)
+  })
+  return { server, post }
+}
+
+/**
+ * The SwitchBot webhook endpoints, urls is the list queryUrl answers with
+ */
+function fakeWebhookAPI(urls: string[], enable = true) {
+  const calls: { endpoint: string, body: any }[] = []
+  const fetch = vi.fn(async (url: string, init: { body: string }) => {
+    const endpoint = url.slice(WEBHOOK_URL.length + 1)
+    const body = JSON.parse(init.body)
+    calls.push({ endpoint, body })
+    const answer = body.action === 'queryUrl'
+      ? { urls }
+      : body.action === 'queryDetails' ? [{ url: body.urls[0], enable }] : {}
+    return new Response(JSON.stringify({ statusCode: 100, message: 'success', body: answer }), { status: 200 })
+  })
+  vi.stubGlobal('fetch', fetch)
+  return calls
+}
+
+describe('webhookReceiver', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('appends a path token derived from the credentials', () => {
+    const { platform } = createPlatform()
+
+    const receiver = new WebhookReceiver(platform, webhookURL)
+
+    expect(receiver.url).toMatch(/^http:\/\/homebridge\.local:8999\/webhook\/[0-9a-f]{16}$/)
+    expect(receiver.url).toBe(new WebhookReceiver(platform, webhookURL).url)
+    expect(receiver.port).toBe(8999)
+  })
+
+  it('needs a path token for a webhookRole', () => {
+    const { platform } = createPlatform({ options: { webhookRole: 'secondary' } })
+
+    expect(() => new WebhookReceiver(platform, webhookURL)).toThrow('needs a Webhook Path Token')
+  })
+
+  describe('requests', () => {
+    it('passes an event to its device', async () => {
+      const { platform } = createPlatform()
+      const handler = vi.fn()
+      platform.webhookEventHandler.C1A2B3C4D5E6 = handler
+      const receiver = new WebhookReceiver(platform, webhookURL)
+      const { server, post } = await serve(receiver)
+      const event = webhookEvent('WoHand', 'C1A2B3C4D5E6', { power: 'on' })
+
+      await expect(post(receiver.path, JSON.stringify(event))).resolves.toEqual({ status: 200, text: 'OK' })
+
+      await vi.waitFor(() => expect(handler).toHaveBeenCalledWith(event.context))
+      server.close()
+    })
+
+    it('rejects requests to other paths', async () => {
+      const { platform } = createPlatform()
+      const webhookEventSpy = vi.spyOn(platform, 'webhookEvent')
+      const receiver = new WebhookReceiver(platform, webhookURL)
+      const { server, post } = await serve(receiver)
+      const event = JSON.stringify(webhookEvent('WoHand', 'C1A2B3C4D5E6'))
+
+      await expect(post('/webhook', event)).resolves.toEqual({ status: 403, text: 'NG' })
+      await expect(post(receiver.path, event, 'PUT')).resolves.toEqual({ status: 403, text: 'NG' })
+
+      expect(webhookEventSpy).not.toHaveBeenCalled()
+      server.close()
+    })
+
+    it('rejects an event without a context.deviceMac', async () => {
+      const { platform } = createPlatform()
+      const receiver = new WebhookReceiver(platform, webhookURL)
+      const { server, post } = await serve(receiver)
+
+      await expect(post(receiver.path, JSON.stringify({ eventType: 'changeReport' }))).resolves.toEqual({ status: 400, text: 'NG' })
+      await expect(post(receiver.path, 'not json')).resolves.toEqual({ status: 400, text: 'NG' })
+      server.close()
+    })
+
+    it('rejects a body over 64 KB', async () => {
+      const { platform } = createPlatform()
+      const webhookEventSpy = vi.spyOn(platform, 'webhookEvent')
+      const receiver = new WebhookReceiver(platform, webhookURL)
+      const { server, post } = await serve(receiver)
+      const event = webhookEvent('WoHand', 'C1A2B3C4D5E6', { padding: 'x'.repeat(64 * 1024) })
+
+      await expect(post(receiver.path, JSON.stringify(event))).resolves.toEqual({ status: 413, text: 'NG' })
+
+      expect(webhookEventSpy).not.toHaveBeenCalled()
+      server.close()
+    })
+
+    it('keeps the acknowledgement when the device fails to handle the event', async () => {
+      const { log, platform } = createPlatform()
+      platform.webhookEventHandler.C1A2B3C4D5E6 = () => {
+        throw new Error('parse failed')
+      }
+      const receiver = new WebhookReceiver(platform, webhookURL)
+      const { server, post } = await serve(receiver)
+
+      await expect(post(receiver.path, JSON.stringify(webhookEvent('WoHand', 'C1A2B3C4D5E6')))).resolves.toEqual({ status: 200, text: 'OK' })
+
+      await vi.waitFor(() => expect(log.error).toHaveBeenCalledWith(expect.stringContaining('Failed to handle webhook event, Error: parse failed')))
+      server.close()
+    })
+  })
+
+  describe('reconcile', () => {
+    it('registers the webhook when none is registered', async () => {
+      const { platform } = createPlatform()
+      const receiver = new WebhookReceiver(platform, webhookURL)
+      const calls = fakeWebhookAPI([])
+
+      await receiver.reconcile()
+
+      expect(calls.map(({ endpoint }) => endpoint)).toEqual(['queryWebhook', 'setupWebhook'])
+      expect(calls[1].body).toEqual({ action: 'setupWebhook', url: receiver.url, deviceList: 'ALL' })
+    })
+
+    it('replaces its own webhook left behind with another path token', async () => {
+      const { platform } = createPlatform()
+      const receiver = new WebhookReceiver(platform, webhookURL)
+      const calls = fakeWebhookAPI([`${webhookURL}/0123456789abcdef`])
+
+      await receiver.reconcile()
+
+      expect(calls.map(({ body }) => body.action)).toEqual(['queryUrl', 'deleteWebhook', 'setupWebhook'])
+      expect(calls[1].body.url).toBe(`${webhookURL}/0123456789abcdef`)
+    })
+
+    it('leaves a webhook registered by something else alone', async () => {
+      const { log, platform } = createPlatform()
+      const receiver = new WebhookReceiver(platform, webhookURL)
+      const calls = fakeWebhookAPI(['https://example.com/switchbot'])
+
+      await receiver.reconcile()
+
+      expect(calls.map(({ body }) => body.action)).toEqual(['queryUrl'])
+      expect(log.error).toHaveBeenCalledWith(expect.stringContaining('example.com registered on the SwitchBot account is not this plugin\'s'))
+    })
+
+    it('enables its webhook when it was disabled', async () => {
+      const { platform } = createPlatform()
+      const receiver = new WebhookReceiver(platform, webhookURL)
+      const calls = fakeWebhookAPI([receiver.url], false)
+
+      await receiver.reconcile()
+
+      expect(calls.map(({ body }) => body.action)).toEqual(['queryUrl', 'queryDetails', 'updateWebhook'])
+      expect(calls[2].body.config).toEqual({ url: receiver.url, enable: true })
+    })
+  })
+})
@@ -0,0 +1,292 @@
+/* Copyright(C) 2017-2024, donavanbecker (https://github.com/donavanbecker). All rights reserved.
+ *
+ * webhook.ts: @switchbot/homebridge-switchbot platform class.
+ */
+import type { IncomingMessage, Server, ServerResponse } from 'node:http'
+
+import type { Subscription } from 'rxjs'
+
+import type { SwitchBotPlatform } from './platform.js'
+
+import { Buffer } from 'node:buffer'
+import { createHash } from 'node:crypto'
+import { createServer } from 'node:http'
+
+import { interval } from 'rxjs'
+
+import { WEBHOOK_URL } from './settings.js'
+import { generateHeaders } from './utils.js'
+
+interface webhookReceipts {
+  count: number
+  total: number
+  lastReceived: number
+}
+
+export type WebhookRole = 'primary' | 'secondary'
+
+// ports below 1024 need root, the webhookURL is usually behind a reverse proxy when it has no port
+const defaultWebhookPort = 8999
+// a SwitchBot event is well under 1 KB, anything past this is not one
+const maxBodySize = 64 * 1024
+
+/**
+ * Receives SwitchBot webhook events on a local HTTP listener, and keeps the webhook
+ * registered on the SwitchBot account pointing at it. The registration is checked
+ * on startup and every webhookReconcileInterval, a stale or disabled webhook
+ * (left behind by a crash, or changed elsewhere) is registered again.
+ *
+ * SwitchBot only allows one webhook per account, so with several Homebridge instances
+ * one is the primary, which owns the registration and forwards every event to its peers,
+ * and the others are secondaries, which only listen.
+ */
+export class WebhookReceiver {
+  // The URL registered with SwitchBot, webhookURL with the path token appended
+  public readonly url: string
+  // webhookURL without the path token, any URL under it was registered by this plugin
+  public readonly baseURL: string
+  public readonly path: string
+  public readonly port: number
+  public readonly bindAddress: string
+  public readonly reconcileInterval: number
+  public readonly role: WebhookRole
+  public readonly peers: string[]
+
+  private server: Server | null = null
+  private reconciling?: Subscription
+  private receipts: { [deviceMac: string]: webhookReceipts } = {}
+  private rejected = 0
+
+  constructor(
+    private readonly platform: SwitchBotPlatform,
+    webhookURL: string,
+  ) {
+    const options = this.platform.config.options ?? {}
+    const { token, secret } = this.platform.config.credentials ?? {}
+    // peers do not share the credentials, and a secondary may have none
+    if (options.webhookRole && !options.webhookPathToken) {
+      throw new Error(`Webhook Role ${options.webhookRole} needs a Webhook Path Token, set the same one on every instance`)
+    }
+    // the default token is derived from the credentials, so the URL stays the same across restarts
+    const pathToken = options.webhookPathToken ?? createHash('sha256').update(`${token}${secret}`).digest('hex').slice(0, 16)
+    const url = this.withPathToken(webhookURL, pathToken)
+    this.baseURL = this.withPathToken(webhookURL, '').toString()
+    this.url = url.toString()
+    this.path = url.pathname
+    this.port = options.webhookPort ?? (Number(url.port) || defaultWebhookPort)
+    this.bindAddress = options.webhookBindAddress ?? '0.0.0.0'
+    this.reconcileInterval = (options.webhookReconcileInterval ?? 3600) * 1000
+    this.role = options.webhookRole === 'secondary' ? 'secondary' : 'primary'
+    // every instance uses the same path token, so peers are configured by their webhookURL
+    this.peers = this.role === 'primary' ? (options.webhookPeers ?? []).map(peer => this.withPathToken(peer, pathToken).toString()) : []
+  }
+
+  private withPathToken(webhookURL: string, pathToken: string): URL {
+    const url = new URL(webhookURL)
+    if (pathToken) {
+      url.pathname = `${url.pathname.replace(/\/$/, '')}/${pathToken}`
+    }
+    return url
+  }
+
+  /**
+   * Starts the HTTP listener, registers the webhook and keeps checking the registration.
+   */
+  async start(): Promise<void> {
+    await this.listen()
+    if (this.role === 'secondary') {
+      this.platform.infoLog('Webhook is a secondary, events are received from the primary and the webhook registration is left alone')
+    } else {
+      await this.reconcile()
+      if (this.peers.length > 0) {
+        this.platform.infoLog(`Webhook is the primary, events are forwarded to ${this.peers.length} peers`)
+      }
+    }
+    this.reconciling = interval(this.reconcileInterval).subscribe(async () => {
+      this.logReceipts()
+      if (this.role === 'primary') {
+        await this.reconcile()
+      }
+    })
+  }
+
+  async listen(): Promise<void> {
+    this.server = createServer(async (request, response) => this.handleRequest(request, response))
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject)
+      this.server!.listen(this.port, this.bindAddress, () => resolve())
+    })
+    this.platform.infoLog(`Webhook is listening on ${this.bindAddress}:${this.port}`)
+  }
+
+  async handleRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    if (request.method !== 'POST' || request.url !== this.path) {
+      // do not log the request URL, it may be a guess at the path token
+      this.rejected++
+      this.platform.debugWarnLog(`Webhook rejected a ${request.method} request from ${request.socket.remoteAddress}`)
+      response.writeHead(403, { 'Content-Type': 'text/plain' })
+      response.end('NG')
+      return
+    }
+    const chunks: Buffer[] = []
+    let size = 0
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size > maxBodySize && !response.headersSent) {
+        this.rejected++
+        this.platform.debugWarnLog(`Webhook rejected a request over ${maxBodySize} bytes from ${request.socket.remoteAddress}`)
+        response.writeHead(413, { 'Content-Type': 'text/plain', 'Connection': 'close' })
+        response.end('NG', () => request.destroy())
+      }
+      if (size <= maxBodySize) {
+        chunks.push(chunk)
+      }
+    })
+    request.on('end', async () => {
+      if (size > maxBodySize) {
+        return
+      }
+      try {
+        const body = JSON.parse(Buffer.concat(chunks).toString())
+        this.platform.debugLog(`Received Webhook: ${JSON.stringify(body)}`)
+        if (typeof body?.context?.deviceMac !== 'string') {
+          throw new TypeError('Webhook event has no context.deviceMac')
+        }
+        this.receipt(body.context.deviceMac)
+        response.writeHead(200, { 'Content-Type': 'text/plain' })
+        response.end('OK')
+        await this.platform.webhookEvent(body)
+        await this.forward(body)
+      } catch (e: any) {
+        this.platform.errorLog(`Failed to handle webhook event, Error: ${e.message ?? e}`)
+        // the event is acknowledged before it is handled
+        if (!response.headersSent) {
+          response.writeHead(400, { 'Content-Type': 'text/plain' })
+          response.end('NG')
+        }
+      }
+    })
+  }
+
+  /**
+   * Checks the webhook registered on the SwitchBot account, and registers this receiver again
+   * when it is missing, or has been disabled. Only this plugin's own URLs are replaced, a webhook
+   * registered by something else is left alone.
+   */
+  async reconcile(): Promise<void> {
+    try {
+      const { body } = await this.request('queryWebhook', { action: 'queryUrl' })
+      const urls: string[] = body?.urls ?? []
+      if (!urls.includes(this.url)) {
+        // SwitchBot only keeps one webhook per account
+        const foreign = urls.filter(url => !this.isOwnURL(url))
+        if (foreign.length > 0) {
+          this.platform.errorLog(`Webhook ${foreign.map(url => new URL(url).host).join(', ')} registered on the SwitchBot account is not this plugin's, `
+            + 'remove it from the SwitchBot account to let this receiver register')
+          return
+        }
+        for (const url of urls) {
+          // left behind with a previous webhookPathToken
+          this.platform.warnLog('Webhook registered on the SwitchBot account does not match this receiver, replacing it')
+          await this.request('deleteWebhook', { action: 'deleteWebhook', url })
+        }
+        await this.request('setupWebhook', { action: 'setupWebhook', url: this.url, deviceList: 'ALL' })
+        this.platform.infoLog('Webhook registered on the SwitchBot account')
+        return
+      }
+      const details = await this.request('queryWebhook', { action: 'queryDetails', urls: [this.url] })
+      if (details.body?.[0]?.enable === false) {
+        this.platform.warnLog('Webhook registered on the SwitchBot account is disabled, enabling it')
+        await this.request('updateWebhook', { action: 'updateWebhook', config: { url: this.url, enable: true } })
+      } else {
+        this.platform.debugLog('Webhook registration is up to date')
+      }
+    } catch (e: any) {
+      this.platform.errorLog(`Failed to reconcile webhook registration, Error Message: ${e.message ?? e}`)
+    }
+  }
+
+  private isOwnURL(url: string): boolean {
+    try {
+      const { origin, pathname } = new URL(url)
+      const base = new URL(this.baseURL)
+      return origin === base.origin && pathname.startsWith(base.pathname)
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Forwards a webhook event to the peers, on the primary.
+   */
+  async forward(body: any): Promise<void> {
+    await Promise.all(this.peers.map(async (peer) => {
+      try {
+        const res = await fetch(peer, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+          signal: AbortSignal.timeout(5000),
+        })
+        if (!res.ok) {
+          throw new Error(`statusCode: ${res.status}`)
+        }
+      } catch (e: any) {
+        this.platform.warnLog(`Failed to forward webhook event to ${new URL(peer).host}, Error: ${e.message ?? e}`)
+      }
+    }))
+  }
+
+  /**
+   * Stops the listener and removes the webhook from the SwitchBot account, on the primary.
+   */
+  async stop(): Promise<void> {
+    this.reconciling?.unsubscribe()
+    this.server?.close()
+    if (this.role === 'secondary') {
+      return
+    }
+    try {
+      await this.request('deleteWebhook', { action: 'deleteWebhook', url: this.url })
+    } catch (e: any) {
+      this.platform.errorLog(`Failed to delete webhook. Error:${e.message ?? e}`)
+    }
+  }
+
+  private receipt(deviceMac?: string): void {
+    const receipts = this.receipts[deviceMac ?? 'unknown'] ??= { count: 0, total: 0, lastReceived: 0 }
+    receipts.count++
+    receipts.total++
+    receipts.lastReceived = Date.now()
+  }
+
+  /**
+   * Logs how many webhook events each device sent since the last reconcile.
+   */
+  logReceipts(): void {
+    for (const [deviceMac, receipts] of Object.entries(this.receipts)) {
+      const lastReceived = Math.round((Date.now() - receipts.lastReceived) / 1000)
+      this.platform.infoLog(`Webhook ${deviceMac}: ${receipts.count} events since last check, ${receipts.total} total, last received ${lastReceived}s ago`)
+      receipts.count = 0
+    }
+    if (this.rejected > 0) {
+      this.platform.warnLog(`Webhook rejected ${this.rejected} requests since last check`)
+      this.rejected = 0
+    }
+  }
+
+  private async request(endpoint: string, body: object): Promise<{ statusCode: number, body: any, message: string }> {
+    const { token, secret } = this.platform.config.credentials!
+    const res = await this.platform.requestScheduler.schedule('command', () => fetch(`${WEBHOOK_URL}/${endpoint}`, {
+      method: 'POST',
+      headers: generateHeaders(token!, secret!),
+      body: JSON.stringify(body),
+    }))
+    const response = await res.json()
+    this.platform.debugLog(`${endpoint} response: ${JSON.stringify(response)}, statusCode: ${res.status}`)
+    if (res.status !== 200 || response.statusCode !== 100) {
+      throw new Error(`${endpoint} failed, statusCode: ${response.statusCode ?? res.status}, message: ${response.message}`)
+    }
+    return response
+  }
+}